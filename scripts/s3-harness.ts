@@ -0,0 +1,288 @@
+/**
+ * Offline harness for the file management actions and the s3 cache
+ *
+ * Runs the actions through the same entry point as /api/process, against the in-memory
+ * S3 backend (see src/server/s3/memoryBackend.ts), so they can be exercised without an S3
+ * account or network access:
+ *
+ *   npm run harness:s3
+ *
+ * Every check runs in order on one shared in-memory bucket and prints a line; the script
+ * exits with 1 when any of them failed. Set S3_BACKEND or S3_PROFILES yourself to run the
+ * same checks against another configuration.
+ */
+
+import assert from 'node:assert/strict';
+import type {
+  FileManagementRequest,
+  FileManagementResponse,
+  ListFilesResponse,
+  GetFileResponse,
+  WriteFileResponse,
+  TransferResponse,
+  DeleteManyResponse,
+  ListVersionsResponse,
+  HeadObjectResponse,
+  GetTagsResponse,
+  PutTagsResponse,
+  SearchResponse,
+  GrepResponse,
+  ZipDownloadResponse,
+  ChangeStorageClassResponse,
+  RestoreArchivedFileResponse,
+  CreateShareLinkResponse,
+  ListShareLinksResponse,
+  GetBucketSettingsResponse,
+  ListProfilesResponse,
+  DeleteFolderResponse
+} from '@/apis/fileManagement/types';
+
+// Profile confined to one folder of the same in-memory bucket
+const CONFINED_PROFILE_ID = 'confined';
+
+// The S3 modules read their configuration when they are loaded, so it is set up first
+process.env.S3_BACKEND ||= 'memory';
+process.env.AWS_BUCKET_NAME ||= 'harness-bucket';
+process.env.AWS_ACCESS_KEY_ID ||= 'harness';
+process.env.AWS_SECRET_ACCESS_KEY ||= 'harness';
+process.env.S3_PROFILES ||= JSON.stringify([{
+  id: CONFINED_PROFILE_ID,
+  name: 'Confined to a folder',
+  backend: 'memory',
+  accessKeyId: 'harness',
+  secretAccessKey: 'harness',
+  rootPrefix: 'confined/',
+  defaultBucket: process.env.AWS_BUCKET_NAME
+}]);
+
+type Check = {
+  name: string;
+  run: () => Promise<void>;
+};
+
+const main = async () => {
+  const { process: processFileManagement } = await import('@/apis/fileManagement/server');
+  const s3Cache = await import('@/server/cache/s3Cache');
+  const { withCache } = await import('@/server/cache');
+
+  // Run an action and fail on an error in the response
+  const call = async <T extends FileManagementResponse>(request: FileManagementRequest): Promise<T> => {
+    const response = await processFileManagement(request) as T;
+    if ('error' in response && response.error) {
+      throw new Error(`${request.action} failed: ${response.error}`);
+    }
+    return response;
+  };
+
+  const write = (fileName: string, content: string) =>
+    call<WriteFileResponse>({ action: 'write', fileName, content });
+
+  const read = async (fileName: string) =>
+    (await call<GetFileResponse>({ action: 'getFile', fileName })).content;
+
+  const listKeys = async (prefix: string) =>
+    (await call<ListFilesResponse>({ action: 'list', prefix })).files.map(file => file.key).sort();
+
+  const checks: Check[] = [
+    {
+      name: 'write and read a file',
+      run: async () => {
+        await write('harness/notes.txt', 'first line\nsecond line');
+        assert.equal(await read('harness/notes.txt'), 'first line\nsecond line');
+      }
+    },
+    {
+      name: 'list a folder',
+      run: async () => {
+        await write('harness/docs/a.md', '# A');
+        await write('harness/docs/b.md', '# B');
+        assert.deepEqual(await listKeys('harness/docs/'), ['harness/docs/a.md', 'harness/docs/b.md']);
+        assert.ok((await listKeys('harness/')).includes('harness/docs/'));
+      }
+    },
+    {
+      name: 'keep bookkeeping folders out of the root listing',
+      run: async () => {
+        // Listing a folder persists its stats under .folder-stats/
+        await listKeys('harness/');
+        const keys = await listKeys('');
+        assert.ok(keys.every(key => !key.startsWith('.')), `internal keys listed: ${keys.join(', ')}`);
+      }
+    },
+    {
+      name: 'copy, move and rename files and folders',
+      run: async () => {
+        await call<TransferResponse>({ action: 'copy', sourceKey: 'harness/docs/', destinationKey: 'harness/copy/' });
+        assert.deepEqual(await listKeys('harness/copy/'), ['harness/copy/a.md', 'harness/copy/b.md']);
+
+        await call<TransferResponse>({ action: 'move', sourceKey: 'harness/copy/a.md', destinationKey: 'harness/moved.md' });
+        assert.equal(await read('harness/moved.md'), '# A');
+        assert.deepEqual(await listKeys('harness/copy/'), ['harness/copy/b.md']);
+
+        await call<TransferResponse>({ action: 'rename', sourceKey: 'harness/moved.md', newName: 'renamed.md' });
+        assert.equal(await read('harness/renamed.md'), '# A');
+      }
+    },
+    {
+      name: 'delete files and folders',
+      run: async () => {
+        const result = await call<DeleteManyResponse>({ action: 'deleteMany', keys: ['harness/renamed.md'] });
+        assert.deepEqual(result.deleted, ['harness/renamed.md']);
+
+        await call<DeleteFolderResponse>({ action: 'deleteFolder', folderName: 'harness/copy/' });
+        assert.deepEqual(await listKeys('harness/copy/'), []);
+      }
+    },
+    {
+      name: 'list and restore versions',
+      run: async () => {
+        await write('harness/versioned.txt', 'v1');
+        await write('harness/versioned.txt', 'v2');
+        const { versions } = await call<ListVersionsResponse>({ action: 'listVersions', fileName: 'harness/versioned.txt' });
+        assert.equal(versions.length, 2);
+
+        const oldest = versions[versions.length - 1];
+        await call({ action: 'restoreVersion', fileName: 'harness/versioned.txt', versionId: oldest.versionId });
+        assert.equal(await read('harness/versioned.txt'), 'v1');
+      }
+    },
+    {
+      name: 'update metadata and tags',
+      run: async () => {
+        await call({
+          action: 'updateMetadata',
+          fileName: 'harness/notes.txt',
+          contentType: 'text/plain',
+          metadata: { owner: 'harness' }
+        });
+        const { properties } = await call<HeadObjectResponse>({ action: 'headObject', fileName: 'harness/notes.txt' });
+        assert.equal(properties?.contentType, 'text/plain');
+        assert.deepEqual(properties?.metadata, { owner: 'harness' });
+
+        await call<PutTagsResponse>({ action: 'putTags', fileName: 'harness/notes.txt', tags: [{ key: 'team', value: 'qa' }] });
+        const { tags } = await call<GetTagsResponse>({ action: 'getTags', fileName: 'harness/notes.txt' });
+        assert.deepEqual(tags, [{ key: 'team', value: 'qa' }]);
+      }
+    },
+    {
+      name: 'search names and grep contents',
+      run: async () => {
+        const { files } = await call<SearchResponse>({ action: 'search', prefix: 'harness/', query: { pattern: '.md' } });
+        assert.deepEqual(files.map(file => file.key).sort(), ['harness/docs/a.md', 'harness/docs/b.md']);
+
+        const { matches } = await call<GrepResponse>({ action: 'grep', prefix: 'harness/', pattern: 'second' });
+        assert.deepEqual(matches.map(match => match.key), ['harness/notes.txt']);
+      }
+    },
+    {
+      name: 'download a folder as a zip',
+      run: async () => {
+        const result = await call<ZipDownloadResponse>({ action: 'zipDownload', keys: ['harness/docs/'] });
+        assert.equal(result.fileCount, 2);
+        assert.ok(result.url);
+      }
+    },
+    {
+      name: 'archive and restore a file, keeping its storage class on copy',
+      run: async () => {
+        await write('harness/cold.txt', 'cold');
+        const changed = await call<ChangeStorageClassResponse>({
+          action: 'changeStorageClass',
+          keys: ['harness/cold.txt'],
+          storageClass: 'GLACIER'
+        });
+        assert.equal(changed.changed, 1);
+
+        const archived = await processFileManagement({ action: 'getFile', fileName: 'harness/cold.txt' }) as GetFileResponse;
+        assert.ok(archived.error, 'archived files cannot be read before they are restored');
+
+        await call<RestoreArchivedFileResponse>({ action: 'restoreArchivedFile', fileName: 'harness/cold.txt', days: 1 });
+        assert.equal(await read('harness/cold.txt'), 'cold');
+
+        await call<TransferResponse>({ action: 'copy', sourceKey: 'harness/', destinationKey: 'harness-copy/' });
+        const { files } = await call<ListFilesResponse>({ action: 'list', prefix: 'harness-copy/' });
+        assert.equal(files.find(file => file.key === 'harness-copy/cold.txt')?.storageClass, 'GLACIER');
+      }
+    },
+    {
+      name: 'create and list share links',
+      run: async () => {
+        const { link } = await call<CreateShareLinkResponse>({
+          action: 'createShareLink',
+          fileName: 'harness/notes.txt',
+          expiresIn: 3600
+        });
+        assert.ok(link);
+
+        const { links } = await call<ListShareLinksResponse>({ action: 'listShareLinks' });
+        assert.equal(links.find(entry => entry.id === link.id)?.url, link.url);
+      }
+    },
+    {
+      name: 'confine a profile to its folder',
+      run: async () => {
+        const { profiles } = await call<ListProfilesResponse>({ action: 'listProfiles' });
+        assert.ok(profiles.some(profile => profile.id === CONFINED_PROFILE_ID));
+
+        await call<WriteFileResponse>({
+          action: 'write',
+          profileId: CONFINED_PROFILE_ID,
+          fileName: 'inside.txt',
+          content: 'inside'
+        });
+        assert.equal(await read('confined/inside.txt'), 'inside');
+
+        const settings = await processFileManagement({
+          action: 'getBucketSettings',
+          profileId: CONFINED_PROFILE_ID
+        }) as GetBucketSettingsResponse;
+        assert.equal(settings.settings, null);
+        assert.ok(settings.error);
+      }
+    },
+    {
+      name: 'write, read and clear the s3 cache',
+      run: async () => {
+        const params = { key: 'harness', params: { page: 1 } };
+        const cacheKey = s3Cache.generateCacheKey(params);
+
+        await s3Cache.writeCache(cacheKey, { value: 42 });
+        assert.deepEqual((await s3Cache.readCache<{ value: number }>(cacheKey))?.data, { value: 42 });
+        assert.equal((await s3Cache.getCacheStatus(params)).exists, true);
+
+        assert.equal(await s3Cache.deleteCache(cacheKey), true);
+        assert.equal(await s3Cache.readCache(cacheKey), null);
+
+        let calls = 0;
+        const compute = async () => ({ calls: ++calls });
+        assert.equal((await withCache(compute, { key: 'harness-with-cache' })).isFromCache, false);
+        const cached = await withCache(compute, { key: 'harness-with-cache' });
+        assert.equal(cached.isFromCache, true);
+        assert.deepEqual(cached.data, { calls: 1 });
+
+        assert.equal(await s3Cache.clearAllCache(), true);
+        assert.equal((await withCache(compute, { key: 'harness-with-cache' })).isFromCache, false);
+      }
+    }
+  ];
+
+  let failed = 0;
+  for (const check of checks) {
+    try {
+      await check.run();
+      console.log(`ok   ${check.name}`);
+    } catch (error) {
+      failed++;
+      console.log(`FAIL ${check.name}`);
+      console.log(`     ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  console.log(`\n${checks.length - failed} of ${checks.length} checks passed`);
+  process.exitCode = failed ? 1 : 0;
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
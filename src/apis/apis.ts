@@ -4,6 +4,7 @@ import * as clearCache from "./settings/clearCache/server";
 import * as fileManagement from "./fileManagement/server";
 import * as aiUsage from "./monitoring/aiUsage/server";
 import * as mongodb from "./mongodb/server";
+import * as jobs from "./jobs/server";
 import { CollectionsRequest, DocumentsRequest, ModifyDocumentRequest, QueryRequest, StatsRequest, AIQueryRequest } from "./mongodb/types";
 
 
@@ -11,6 +12,7 @@ export const apiHandlers: ApiHandlers = {
   [chat.name]: { process: chat.process as (params: unknown) => Promise<unknown> },
   [clearCache.name]: { process: clearCache.process as (params: unknown) => Promise<unknown> },
   [fileManagement.name]: { process: fileManagement.process as (params: unknown) => Promise<unknown> },
+  [jobs.name]: { process: jobs.process as (params: unknown) => Promise<unknown> },
   [aiUsage.all]: { process: aiUsage.getAllUsage as (params: unknown) => Promise<unknown> },
   [aiUsage.summary]: { process: aiUsage.getSummary as (params: unknown) => Promise<unknown> },
   [mongodb.databasesApiName]: { process: () => mongodb.getDatabases() },
@@ -0,0 +1,25 @@
+import { AbortMultipartUploadRequest, AbortMultipartUploadResponse } from '../types';
+import { abortMultipartUpload as s3AbortMultipartUpload } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function abortMultipartUpload(
+  request: AbortMultipartUploadRequest,
+  target: S3Target
+): Promise<AbortMultipartUploadResponse> {
+  if (!request.fileName || !request.uploadId) {
+    return {
+      success: false,
+      error: "Missing required fields: fileName and uploadId are required"
+    };
+  }
+  
+  try {
+    await s3AbortMultipartUpload(request.fileName, request.uploadId, target.client, target.bucketName);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
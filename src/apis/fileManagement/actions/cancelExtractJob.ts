@@ -0,0 +1,21 @@
+import { CancelExtractJobRequest, CancelExtractJobResponse, ExtractResult } from '../types';
+import { cancelJob } from '@/server/jobs';
+import { findExtractJob, toExtractJob } from './extractJob';
+
+export async function cancelExtractJob(request: CancelExtractJobRequest): Promise<CancelExtractJobResponse> {
+  if (!request.jobId) {
+    return {
+      error: "Missing required field: jobId"
+    };
+  }
+
+  try {
+    // Files written before the cancellation are kept
+    await findExtractJob(request.jobId);
+    return { job: toExtractJob(await cancelJob<ExtractResult>(request.jobId)) };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -0,0 +1,21 @@
+import { CancelSyncJobRequest, CancelSyncJobResponse, SyncResult } from '../types';
+import { cancelJob } from '@/server/jobs';
+import { findSyncJob, toSyncJob } from './syncJob';
+
+export async function cancelSyncJob(request: CancelSyncJobRequest): Promise<CancelSyncJobResponse> {
+  if (!request.jobId) {
+    return {
+      error: "Missing required field: jobId"
+    };
+  }
+
+  try {
+    // Files copied or deleted before the cancellation stay that way
+    await findSyncJob(request.jobId);
+    return { job: toSyncJob(await cancelJob<SyncResult>(request.jobId)) };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { ChangeStorageClassRequest, ChangeStorageClassResponse, StorageClassOption, TransferFailure } from '../types';
+import { changeStorageClass as changeFileStorageClass, listAllObjects } from '@/server/s3/sdk';
+import { invalidateFolderStats } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
+
+const STORAGE_CLASSES: StorageClassOption[] = ['STANDARD', 'STANDARD_IA', 'GLACIER'];
+// Number of objects copied at the same time
+const CHANGE_CONCURRENCY = 5;
+
+const failure = (error: string): ChangeStorageClassResponse => ({
+  changed: 0,
+  unchanged: 0,
+  failed: [],
+  error
+});
+
+export async function changeStorageClass(request: ChangeStorageClassRequest, target: S3Target): Promise<ChangeStorageClassResponse> {
+  if (!request.keys || request.keys.length === 0) {
+    return failure("Missing required field: keys");
+  }
+  if (!STORAGE_CLASSES.includes(request.storageClass)) {
+    return failure(`storageClass must be one of ${STORAGE_CLASSES.join(', ')}`);
+  }
+
+  try {
+    // Folders are expanded to every file under them; folder markers have no content to move
+    const fileKeys: string[] = [];
+    for (const key of request.keys) {
+      if (!key.endsWith('/')) {
+        fileKeys.push(key);
+        continue;
+      }
+      const objects = await listAllObjects(key, target.client, target.bucketName);
+      for (const object of objects) {
+        if (object.Key && !object.Key.endsWith('/')) fileKeys.push(object.Key);
+      }
+    }
+
+    const failed: TransferFailure[] = [];
+    let changed = 0;
+    let unchanged = 0;
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < fileKeys.length) {
+        const key = fileKeys[nextIndex++];
+
+        try {
+          if (await changeFileStorageClass(key, request.storageClass, target.client, target.bucketName)) {
+            changed += 1;
+          } else {
+            unchanged += 1;
+          }
+        } catch (error) {
+          failed.push({
+            key,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(CHANGE_CONCURRENCY, fileKeys.length) }, worker)
+    );
+
+    // Copies in place change the modification time of each file
+    if (changed > 0) {
+      for (const key of request.keys) {
+        await invalidateFolderStats(key, target.client, target.bucketName);
+      }
+    }
+
+    return {
+      changed,
+      unchanged,
+      failed,
+      error: failed.length > 0
+        ? `Failed to change the storage class of ${failed.length} of ${fileKeys.length} objects`
+        : undefined
+    };
+  } catch (error) {
+    return failure(`Failed to change storage class: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
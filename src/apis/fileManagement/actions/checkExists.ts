@@ -0,0 +1,37 @@
+import { CheckExistsRequest, CheckExistsResponse } from '../types';
+import { fileExists } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+// Number of HEAD requests sent in parallel
+const CHECK_CONCURRENCY = 10;
+
+export async function checkExists(request: CheckExistsRequest, target: S3Target): Promise<CheckExistsResponse> {
+  if (!request.keys) {
+    return {
+      existing: [],
+      error: "Missing required field: keys"
+    };
+  }
+  
+  try {
+    const existing: string[] = [];
+    
+    for (let i = 0; i < request.keys.length; i += CHECK_CONCURRENCY) {
+      const batch = request.keys.slice(i, i + CHECK_CONCURRENCY);
+      const results = await Promise.all(batch.map(key => fileExists(key, target.client, target.bucketName)));
+      
+      batch.forEach((key, index) => {
+        if (results[index]) {
+          existing.push(key);
+        }
+      });
+    }
+    
+    return { existing };
+  } catch (error) {
+    return {
+      existing: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
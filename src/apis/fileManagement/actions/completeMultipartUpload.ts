@@ -0,0 +1,30 @@
+import { CompleteMultipartUploadRequest, CompleteMultipartUploadResponse } from '../types';
+import { completeMultipartUpload as s3CompleteMultipartUpload } from '@/server/s3/sdk';
+import { invalidateFolderStats } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function completeMultipartUpload(
+  request: CompleteMultipartUploadRequest,
+  target: S3Target
+): Promise<CompleteMultipartUploadResponse> {
+  if (!request.fileName || !request.uploadId || !request.parts?.length) {
+    return {
+      key: "",
+      error: "Missing required fields: fileName, uploadId and parts are required"
+    };
+  }
+  
+  try {
+    const key = await s3CompleteMultipartUpload(request.fileName, request.uploadId, request.parts, target.client, target.bucketName);
+    
+    // The parts were uploaded directly to S3, so stats must be refreshed here
+    await invalidateFolderStats(key, target.client, target.bucketName);
+    
+    return { key };
+  } catch (error) {
+    return {
+      key: "",
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { ConfirmUploadRequest, ConfirmUploadResponse } from '../types';
+import { headFile } from '@/server/s3/sdk';
+import { invalidateFolderStats } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function confirmUpload(request: ConfirmUploadRequest, target: S3Target): Promise<ConfirmUploadResponse> {
+  if (!request.fileName) {
+    return {
+      file: null,
+      error: "Missing required field: fileName"
+    };
+  }
+  
+  try {
+    const head = await headFile(request.fileName, target.client, target.bucketName);
+    const size = head.ContentLength || 0;
+    
+    if (request.expectedSize !== undefined && size !== request.expectedSize) {
+      return {
+        file: null,
+        error: `Upload incomplete: expected ${request.expectedSize} bytes but found ${size}`
+      };
+    }
+    
+    // The upload bypassed the server, so stats must be refreshed here
+    await invalidateFolderStats(request.fileName, target.client, target.bucketName);
+    
+    return {
+      file: {
+        key: request.fileName,
+        size,
+        lastModified: head.LastModified || new Date(),
+        isFolder: false
+      }
+    };
+  } catch (error) {
+    return {
+      file: null,
+      error: `Failed to confirm upload: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { CopyRequest, CopyResponse } from '../types';
+import { transferItem } from './transferItem';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function copyItem(request: CopyRequest, target: S3Target): Promise<CopyResponse> {
+  if (!request.sourceKey || !request.destinationKey) {
+    return {
+      key: "",
+      transferred: 0,
+      failed: [],
+      error: "Missing required fields: sourceKey and destinationKey"
+    };
+  }
+
+  try {
+    return await transferItem(request.sourceKey, request.destinationKey, target, {
+      deleteSource: false,
+      overwrite: request.overwrite
+    });
+  } catch (error) {
+    return {
+      key: "",
+      transferred: 0,
+      failed: [],
+      error: `Failed to copy: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
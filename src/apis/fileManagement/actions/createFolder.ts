@@ -1,7 +1,9 @@
 import { CreateFolderRequest, CreateFolderResponse } from '../types';
 import { uploadFile } from '@/server/s3/sdk';
+import { invalidateFolderStats } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
 
-export async function createFolder(request: CreateFolderRequest): Promise<CreateFolderResponse> {
+export async function createFolder(request: CreateFolderRequest, target: S3Target): Promise<CreateFolderResponse> {
   if (!request.folderName) {
     return {
       key: "",
@@ -18,7 +20,9 @@ export async function createFolder(request: CreateFolderRequest): Promise<Create
     const key = await uploadFile({
       content: '',
       fileName: folderKey
-    });
+    }, target.client, target.bucketName);
+
+    await invalidateFolderStats(key, target.client, target.bucketName);
     
     return { key };
   } catch (error) {
@@ -0,0 +1,27 @@
+import { CreateMultipartUploadRequest, CreateMultipartUploadResponse } from '../types';
+import { createMultipartUpload as s3CreateMultipartUpload } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function createMultipartUpload(
+  request: CreateMultipartUploadRequest,
+  target: S3Target
+): Promise<CreateMultipartUploadResponse> {
+  if (!request.fileName) {
+    return {
+      uploadId: "",
+      key: "",
+      error: "Missing required field: fileName"
+    };
+  }
+  
+  try {
+    const uploadId = await s3CreateMultipartUpload(request.fileName, request.contentType, target.client, target.bucketName);
+    return { uploadId, key: request.fileName };
+  } catch (error) {
+    return {
+      uploadId: "",
+      key: "",
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
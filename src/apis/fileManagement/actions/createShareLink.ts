@@ -0,0 +1,51 @@
+import { CreateShareLinkRequest, CreateShareLinkResponse } from '../types';
+import { createShareLink as recordShareLink } from '@/server/s3/shareLinks';
+import { S3Target } from '@/server/s3/profiles';
+
+const MIN_EXPIRY = 60; // 1 minute
+// Pre-signed URLs are valid for at most 7 days
+const MAX_EXPIRY = 7 * 24 * 3600;
+const MAX_SHARED_BY_LENGTH = 100;
+
+export async function createShareLink(request: CreateShareLinkRequest, target: S3Target): Promise<CreateShareLinkResponse> {
+  if (!request.fileName || request.fileName.endsWith('/')) {
+    return {
+      link: null,
+      error: "Missing required field: fileName"
+    };
+  }
+  if (!Number.isInteger(request.expiresIn) || request.expiresIn < MIN_EXPIRY || request.expiresIn > MAX_EXPIRY) {
+    return {
+      link: null,
+      error: `expiresIn must be between ${MIN_EXPIRY} seconds and 7 days`
+    };
+  }
+  if (request.downloadName !== undefined && /[/\\]/.test(request.downloadName)) {
+    return {
+      link: null,
+      error: "downloadName must be a file name without folders"
+    };
+  }
+
+  try {
+    const link = await recordShareLink(request.fileName, {
+      expiresIn: request.expiresIn,
+      forceDownload: request.forceDownload,
+      downloadName: request.downloadName?.trim() || undefined,
+      sharedBy: request.sharedBy?.trim().slice(0, MAX_SHARED_BY_LENGTH) || undefined
+    }, target.client, target.bucketName);
+
+    return { link };
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotFound') {
+      return {
+        link: null,
+        error: `File not found: ${request.fileName}`
+      };
+    }
+    return {
+      link: null,
+      error: `Failed to create share link: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -1,7 +1,9 @@
 import { DeleteFileRequest, DeleteFileResponse } from '../types';
 import { deleteFile as s3DeleteFile } from '@/server/s3/sdk';
+import { invalidateFolderStats } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
 
-export async function deleteFile(request: DeleteFileRequest): Promise<DeleteFileResponse> {
+export async function deleteFile(request: DeleteFileRequest, target: S3Target): Promise<DeleteFileResponse> {
   if (!request.fileName) {
     return {
       success: false,
@@ -10,7 +12,8 @@ export async function deleteFile(request: DeleteFileRequest): Promise<DeleteFile
   }
   
   try {
-    await s3DeleteFile(request.fileName);
+    await s3DeleteFile(request.fileName, target.client, target.bucketName);
+    await invalidateFolderStats(request.fileName, target.client, target.bucketName);
     return { success: true };
   } catch (error) {
     return {
@@ -1,10 +1,14 @@
 import { DeleteFolderRequest, DeleteFolderResponse } from '../types';
-import { deleteFile, listFiles } from '@/server/s3/sdk';
+import { deletePrefix } from '@/server/s3/sdk';
+import { invalidateFolderStats } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
 
-export async function deleteFolder(request: DeleteFolderRequest): Promise<DeleteFolderResponse> {
+export async function deleteFolder(request: DeleteFolderRequest, target: S3Target): Promise<DeleteFolderResponse> {
   if (!request.folderName) {
     return {
       success: false,
+      deleted: [],
+      failed: [],
       error: "Missing required field: folderName"
     };
   }
@@ -15,21 +19,23 @@ export async function deleteFolder(request: DeleteFolderRequest): Promise<Delete
       ? request.folderName 
       : `${request.folderName}/`;
     
-    // List all files in the folder
-    const files = await listFiles(folderKey);
+    // Delete everything under the folder, including nested subfolders and the folder marker
+    const { deleted, failed } = await deletePrefix(folderKey, target.client, target.bucketName);
+    await invalidateFolderStats(folderKey, target.client, target.bucketName);
     
-    // Delete all files in the folder
-    for (const file of files) {
-      await deleteFile(file.key);
-    }
-    
-    // Delete the folder marker itself
-    await deleteFile(folderKey);
-    
-    return { success: true };
+    return {
+      success: failed.length === 0,
+      deleted,
+      failed,
+      error: failed.length > 0
+        ? `Failed to delete ${failed.length} of ${deleted.length + failed.length} objects`
+        : undefined
+    };
   } catch (error) {
     return {
       success: false,
+      deleted: [],
+      failed: [],
       error: error instanceof Error ? error.message : String(error)
     };
   }
@@ -0,0 +1,48 @@
+import { DeleteManyRequest, DeleteManyResponse } from '../types';
+import { deleteFiles, deletePrefix } from '@/server/s3/sdk';
+import { invalidateFolderStats } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function deleteMany(request: DeleteManyRequest, target: S3Target): Promise<DeleteManyResponse> {
+  if (!request.keys || request.keys.length === 0) {
+    return {
+      success: false,
+      deleted: [],
+      failed: [],
+      error: "Missing required field: keys"
+    };
+  }
+  
+  try {
+    const folderKeys = request.keys.filter(key => key.endsWith('/'));
+    const fileKeys = request.keys.filter(key => !key.endsWith('/'));
+    
+    // Files go out in batches, folders are walked one by one
+    const result = await deleteFiles(fileKeys, target.client, target.bucketName);
+    for (const folderKey of folderKeys) {
+      const folderResult = await deletePrefix(folderKey, target.client, target.bucketName);
+      result.deleted.push(...folderResult.deleted);
+      result.failed.push(...folderResult.failed);
+    }
+    
+    for (const key of request.keys) {
+      await invalidateFolderStats(key, target.client, target.bucketName);
+    }
+    
+    return {
+      success: result.failed.length === 0,
+      deleted: result.deleted,
+      failed: result.failed,
+      error: result.failed.length > 0
+        ? `Failed to delete ${result.failed.length} of ${result.deleted.length + result.failed.length} objects`
+        : undefined
+    };
+  } catch (error) {
+    return {
+      success: false,
+      deleted: [],
+      failed: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { ExtractArchiveRequest, ExtractArchiveResponse, ExtractResult } from '../types';
+import { extractArchive as extractArchiveObjects } from '@/server/s3/archiveExtract';
+import { getArchiveFormat } from '@/server/s3/archiveReader';
+import { startJob } from '@/server/jobs';
+import { S3Target } from '@/server/s3/profiles';
+import { EXTRACT_JOB_TYPE, toExtractJob } from './extractJob';
+
+const CONFLICT_POLICIES = ['skip', 'overwrite', 'rename'];
+
+export async function extractArchive(request: ExtractArchiveRequest, target: S3Target): Promise<ExtractArchiveResponse> {
+  if (!request.archiveKey) {
+    return {
+      error: "Missing required field: archiveKey"
+    };
+  }
+
+  if (typeof request.destinationPrefix !== 'string') {
+    return {
+      error: "Missing required field: destinationPrefix"
+    };
+  }
+
+  if (!getArchiveFormat(request.archiveKey)) {
+    return {
+      error: "Only .zip, .tar, .tar.gz and .tgz archives can be extracted"
+    };
+  }
+
+  if (request.conflictPolicy && !CONFLICT_POLICIES.includes(request.conflictPolicy)) {
+    return {
+      error: `Invalid conflictPolicy: ${request.conflictPolicy}`
+    };
+  }
+
+  try {
+    // The extraction outlives this request, the client polls it with getExtractJob
+    const job = startJob<ExtractResult>(EXTRACT_JOB_TYPE, ({ report, signal }) => extractArchiveObjects(
+      request.archiveKey,
+      request.destinationPrefix,
+      {
+        conflictPolicy: request.conflictPolicy,
+        deleteArchive: request.deleteArchive,
+        signal,
+        onProgress: (progress) => report({
+          processed: progress.processed,
+          bytes: progress.bytes,
+          totalBytes: progress.totalBytes,
+          message: progress.current
+        })
+      },
+      target.client,
+      target.bucketName
+    ), { label: `Extract ${request.archiveKey.slice(request.archiveKey.lastIndexOf('/') + 1)}` });
+
+    return { job: toExtractJob(job) };
+  } catch (error) {
+    return {
+      error: `Failed to start extraction: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { ExtractJob, ExtractResult } from '../types';
+import { Job, getJob } from '@/server/jobs';
+
+export const EXTRACT_JOB_TYPE = 'extractArchive';
+
+// The client's view of a background extraction
+export const toExtractJob = (job: Job<ExtractResult>): ExtractJob => ({
+  id: job.id,
+  status: job.status,
+  progress: {
+    processed: job.progress.processed,
+    bytes: job.progress.bytes || 0,
+    totalBytes: job.progress.totalBytes || 0,
+    current: job.progress.message
+  },
+  result: job.result,
+  error: job.error,
+  createdAt: job.createdAt,
+  finishedAt: job.finishedAt
+});
+
+/**
+ * Look up an extraction job
+ * @throws When there is no extraction job with this id
+ */
+export const findExtractJob = async (jobId: string): Promise<Job<ExtractResult>> => {
+  const job = await getJob<ExtractResult>(jobId);
+  if (job.type !== EXTRACT_JOB_TYPE) {
+    throw new Error(`Unknown job: ${jobId}`);
+  }
+  return job;
+};
@@ -0,0 +1,94 @@
+import type { LifecycleRule as S3LifecycleRule, CORSRule } from '@aws-sdk/client-s3';
+import {
+  GetBucketSettingsRequest,
+  GetBucketSettingsResponse,
+  BucketSettings,
+  BucketSettingsSection,
+  BucketPolicy,
+  CorsRule,
+  LifecycleRule,
+  LifecycleRuleFilter
+} from '../types';
+import {
+  getBucketVersioning,
+  getLifecycleRules,
+  getCorsRules,
+  getBucketPolicy,
+  canManageBucketSettings
+} from '@/server/s3/bucketSettings';
+import { S3Target } from '@/server/s3/profiles';
+
+// Map an SDK lifecycle rule onto its JSON shape, dates become ISO strings
+const toLifecycleRule = (rule: S3LifecycleRule): LifecycleRule => ({
+  ID: rule.ID,
+  Status: rule.Status || 'Disabled',
+  Filter: rule.Filter as LifecycleRuleFilter | undefined,
+  Prefix: rule.Prefix,
+  Expiration: rule.Expiration && {
+    ...rule.Expiration,
+    Date: rule.Expiration.Date?.toISOString()
+  },
+  Transitions: rule.Transitions?.map(transition => ({
+    Days: transition.Days,
+    Date: transition.Date?.toISOString(),
+    StorageClass: transition.StorageClass || ''
+  })),
+  NoncurrentVersionExpiration: rule.NoncurrentVersionExpiration,
+  NoncurrentVersionTransitions: rule.NoncurrentVersionTransitions?.map(transition => ({
+    NoncurrentDays: transition.NoncurrentDays,
+    NewerNoncurrentVersions: transition.NewerNoncurrentVersions,
+    StorageClass: transition.StorageClass || ''
+  })),
+  AbortIncompleteMultipartUpload: rule.AbortIncompleteMultipartUpload
+});
+
+const toCorsRule = (rule: CORSRule): CorsRule => ({
+  ID: rule.ID,
+  AllowedOrigins: rule.AllowedOrigins || [],
+  AllowedMethods: rule.AllowedMethods || [],
+  AllowedHeaders: rule.AllowedHeaders,
+  ExposeHeaders: rule.ExposeHeaders,
+  MaxAgeSeconds: rule.MaxAgeSeconds
+});
+
+export async function getBucketSettings(_request: GetBucketSettingsRequest, target: S3Target): Promise<GetBucketSettingsResponse> {
+  if (!canManageBucketSettings(target.client)) {
+    return {
+      settings: null,
+      error: "Bucket settings are not available for profiles confined to a folder"
+    };
+  }
+
+  try {
+    // Each section is read on its own; credentials often may read some settings and not others
+    const [versioning, lifecycle, cors, policy] = await Promise.allSettled([
+      getBucketVersioning(target.client, target.bucketName),
+      getLifecycleRules(target.client, target.bucketName),
+      getCorsRules(target.client, target.bucketName),
+      getBucketPolicy(target.client, target.bucketName)
+    ]);
+
+    const unavailable: Partial<Record<BucketSettingsSection, string>> = {};
+    const valueOf = <T, R>(section: BucketSettingsSection, result: PromiseSettledResult<T>, map: (value: T) => R, fallback: R): R => {
+      if (result.status === 'fulfilled') {
+        return map(result.value);
+      }
+      unavailable[section] = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      return fallback;
+    };
+
+    const settings: BucketSettings = {
+      versioning: valueOf('versioning', versioning, status => status || 'Unversioned', 'Unversioned'),
+      lifecycleRules: valueOf('lifecycle', lifecycle, rules => rules.map(toLifecycleRule), []),
+      corsRules: valueOf('cors', cors, rules => rules.map(toCorsRule), []),
+      policy: valueOf('policy', policy, document => document ? JSON.parse(document) as BucketPolicy : null, null)
+    };
+
+    return Object.keys(unavailable).length > 0 ? { settings, unavailable } : { settings };
+  } catch (error) {
+    return {
+      settings: null,
+      error: `Failed to read bucket settings: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,18 @@
+import { GetExtractJobRequest, GetExtractJobResponse } from '../types';
+import { findExtractJob, toExtractJob } from './extractJob';
+
+export async function getExtractJob(request: GetExtractJobRequest): Promise<GetExtractJobResponse> {
+  if (!request.jobId) {
+    return {
+      error: "Missing required field: jobId"
+    };
+  }
+
+  try {
+    return { job: toExtractJob(await findExtractJob(request.jobId)) };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
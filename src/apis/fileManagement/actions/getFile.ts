@@ -1,23 +1,116 @@
 import { GetFileRequest, GetFileResponse } from '../types';
-import { getFileAsString } from '@/server/s3/sdk';
+import { getFileAsBuffer, getFileRangeAsBuffer, getFileTail, S3FileRange } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
 
-export async function getFile(request: GetFileRequest): Promise<GetFileResponse> {
+// Largest range returned at once; bigger files are read a range at a time
+const MAX_RANGE_LENGTH = 8 * 1024 * 1024;
+const MAX_TAIL_LINES = 100000;
+
+// Number of UTF-8 continuation bytes at the start, left from a character cut by the range
+const countLeadingContinuationBytes = (content: Buffer): number => {
+  let count = 0;
+  while (count < 3 && count < content.length && (content[count] & 0xc0) === 0x80) {
+    count++;
+  }
+  return count;
+};
+
+// Length of the content without a UTF-8 character cut off at its end
+const getCompleteUtf8Length = (content: Buffer): number => {
+  for (let i = content.length - 1; i >= Math.max(0, content.length - 4); i--) {
+    if ((content[i] & 0xc0) === 0x80) continue;
+
+    const charLength = content[i] >= 0xf0 ? 4 : content[i] >= 0xe0 ? 3 : content[i] >= 0xc0 ? 2 : 1;
+    return i + charLength <= content.length ? content.length : i;
+  }
+  return content.length;
+};
+
+const isNonNegativeInteger = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+};
+
+export async function getFile(request: GetFileRequest, target: S3Target): Promise<GetFileResponse> {
   if (!request.fileName) {
     return {
       content: "",
       error: "Missing required field: fileName"
     };
   }
-  
+
+  const isTail = request.tailLines !== undefined;
+  const isRange = request.offset !== undefined || request.length !== undefined;
+
+  if (isTail && isRange) {
+    return {
+      content: "",
+      error: "Use either tailLines or offset and length, not both"
+    };
+  }
+  if (isTail && (!isNonNegativeInteger(request.tailLines) || request.tailLines < 1 || request.tailLines > MAX_TAIL_LINES)) {
+    return {
+      content: "",
+      error: `tailLines must be between 1 and ${MAX_TAIL_LINES}`
+    };
+  }
+  if (isRange && (
+    (request.offset !== undefined && !isNonNegativeInteger(request.offset)) ||
+    (request.length !== undefined && (!isNonNegativeInteger(request.length) || request.length < 1))
+  )) {
+    return {
+      content: "",
+      error: "offset must be a non-negative integer and length a positive integer"
+    };
+  }
+
   try {
-    const content = await getFileAsString(request.fileName);
-    return { 
-      content,
-      contentType: request.fileName.endsWith('.json') ? 'application/json' : 
-                  request.fileName.endsWith('.txt') ? 'text/plain' :
-                  'text/plain'
+    const encoding = request.encoding || 'utf-8';
+
+    if (!isTail && !isRange) {
+      const { content, contentType } = await getFileAsBuffer(request.fileName, target.client, target.bucketName);
+
+      return {
+        content: content.toString(encoding === 'base64' ? 'base64' : 'utf-8'),
+        // The stored type only; the viewer decides how to show untyped objects
+        contentType,
+        encoding
+      };
+    }
+
+    const range: S3FileRange = isTail
+      ? await getFileTail(request.fileName, request.tailLines as number, target.client, target.bucketName)
+      : await getFileRangeAsBuffer(
+        request.fileName,
+        request.offset || 0,
+        Math.min(request.length || MAX_RANGE_LENGTH, MAX_RANGE_LENGTH),
+        target.client,
+        target.bucketName
+      );
+
+    let { content, offset } = range;
+    if (encoding === 'utf-8') {
+      // Ranges are cut between characters, so each one decodes on its own
+      const skipped = countLeadingContinuationBytes(content);
+      const end = offset + content.length < range.totalSize ? getCompleteUtf8Length(content) : content.length;
+      content = content.subarray(skipped, Math.max(skipped, end));
+      offset += skipped;
+    }
+
+    return {
+      content: content.toString(encoding === 'base64' ? 'base64' : 'utf-8'),
+      contentType: range.contentType,
+      encoding,
+      offset,
+      length: content.length,
+      totalSize: range.totalSize
     };
   } catch (error) {
+    if (error instanceof Error && error.name === 'InvalidObjectState') {
+      return {
+        content: "",
+        error: `${request.fileName} is archived and must be restored before it can be read`
+      };
+    }
     return {
       content: "",
       error: `Failed to get file: ${error instanceof Error ? error.message : String(error)}`
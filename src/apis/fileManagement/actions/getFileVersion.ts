@@ -0,0 +1,31 @@
+import { GetFileVersionRequest, GetFileVersionResponse } from '../types';
+import { getFileVersionAsBuffer } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function getFileVersion(request: GetFileVersionRequest, target: S3Target): Promise<GetFileVersionResponse> {
+  if (!request.fileName || !request.versionId) {
+    return {
+      content: "",
+      versionId: request.versionId || "",
+      error: "Missing required fields: fileName and versionId"
+    };
+  }
+  
+  try {
+    const { content, contentType } = await getFileVersionAsBuffer(request.fileName, request.versionId, target.client, target.bucketName);
+    const encoding = request.encoding || 'utf-8';
+
+    return {
+      content: content.toString(encoding === 'base64' ? 'base64' : 'utf-8'),
+      versionId: request.versionId,
+      contentType: contentType || 'application/octet-stream',
+      encoding
+    };
+  } catch (error) {
+    return {
+      content: "",
+      versionId: request.versionId,
+      error: `Failed to get file version: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { GetPreviewUrlRequest, GetPreviewUrlResponse } from '../types';
+import { getSignedPreviewUrl } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+const PREVIEW_URL_EXPIRY = 3600; // 1 hour
+
+export async function getPreviewUrl(request: GetPreviewUrlRequest, target: S3Target): Promise<GetPreviewUrlResponse> {
+  if (!request.fileName) {
+    return {
+      url: "",
+      expiresIn: 0,
+      error: "Missing required field: fileName"
+    };
+  }
+
+  try {
+    const url = await getSignedPreviewUrl(
+      request.fileName,
+      request.contentType,
+      PREVIEW_URL_EXPIRY,
+      target.client,
+      target.bucketName
+    );
+
+    return { url, expiresIn: PREVIEW_URL_EXPIRY };
+  } catch (error) {
+    return {
+      url: "",
+      expiresIn: 0,
+      error: `Failed to create preview link: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
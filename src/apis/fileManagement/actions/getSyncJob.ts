@@ -0,0 +1,18 @@
+import { GetSyncJobRequest, GetSyncJobResponse } from '../types';
+import { findSyncJob, toSyncJob } from './syncJob';
+
+export async function getSyncJob(request: GetSyncJobRequest): Promise<GetSyncJobResponse> {
+  if (!request.jobId) {
+    return {
+      error: "Missing required field: jobId"
+    };
+  }
+
+  try {
+    return { job: toSyncJob(await findSyncJob(request.jobId)) };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
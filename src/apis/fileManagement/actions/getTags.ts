@@ -0,0 +1,22 @@
+import { GetTagsRequest, GetTagsResponse } from '../types';
+import { getFileTags } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function getTags(request: GetTagsRequest, target: S3Target): Promise<GetTagsResponse> {
+  if (!request.fileName) {
+    return {
+      tags: [],
+      error: "Missing required field: fileName"
+    };
+  }
+  
+  try {
+    const tags = await getFileTags(request.fileName, target.client, target.bucketName);
+    return { tags };
+  } catch (error) {
+    return {
+      tags: [],
+      error: `Failed to get tags: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { GetUploadUrlRequest, GetUploadUrlResponse } from '../types';
+import { getSignedUploadUrl } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+// Default lifetime of an upload URL in seconds
+const DEFAULT_UPLOAD_URL_EXPIRY = 900;
+
+export async function getUploadUrl(request: GetUploadUrlRequest, target: S3Target): Promise<GetUploadUrlResponse> {
+  if (!request.fileName) {
+    return {
+      url: "",
+      key: "",
+      contentType: "",
+      expiresIn: 0,
+      error: "Missing required field: fileName"
+    };
+  }
+  
+  try {
+    const contentType = request.contentType || 'application/octet-stream';
+    const expiresIn = request.expiresIn || DEFAULT_UPLOAD_URL_EXPIRY;
+    const url = await getSignedUploadUrl(request.fileName, contentType, expiresIn, target.client, target.bucketName);
+    
+    return {
+      url,
+      key: request.fileName,
+      contentType,
+      expiresIn
+    };
+  } catch (error) {
+    return {
+      url: "",
+      key: "",
+      contentType: "",
+      expiresIn: 0,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
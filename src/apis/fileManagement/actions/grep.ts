@@ -0,0 +1,39 @@
+import { GrepRequest, GrepResponse } from '../types';
+import { grepObjects } from '@/server/s3/grep';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function grep(request: GrepRequest, target: S3Target): Promise<GrepResponse> {
+  if (!request.pattern) {
+    return {
+      matches: [],
+      scannedCount: 0,
+      skippedCount: 0,
+      error: "Missing required field: pattern"
+    };
+  }
+
+  try {
+    const page = await grepObjects(request.prefix || '', {
+      pattern: request.pattern,
+      isRegex: request.isRegex,
+      caseSensitive: request.caseSensitive,
+      maxObjectSize: request.maxObjectSize,
+      concurrency: request.concurrency,
+      continuationToken: request.continuationToken
+    }, target.client, target.bucketName);
+
+    return {
+      matches: page.matches,
+      scannedCount: page.scannedCount,
+      skippedCount: page.skippedCount,
+      nextContinuationToken: page.nextContinuationToken
+    };
+  } catch (error) {
+    return {
+      matches: [],
+      scannedCount: 0,
+      skippedCount: 0,
+      error: `Content search failed: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
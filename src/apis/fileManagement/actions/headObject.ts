@@ -0,0 +1,45 @@
+import type { HeadObjectCommandOutput } from '@aws-sdk/client-s3';
+import { HeadObjectRequest, HeadObjectResponse, ObjectProperties } from '../types';
+import { headFile, isArchivedObject, parseRestoreStatus } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+// Map a HEAD response onto the API's object properties
+export function toObjectProperties(fileName: string, head: HeadObjectCommandOutput): ObjectProperties {
+  const restore = parseRestoreStatus(head.Restore);
+
+  return {
+    key: fileName,
+    size: head.ContentLength || 0,
+    lastModified: head.LastModified || new Date(),
+    etag: head.ETag,
+    contentType: head.ContentType,
+    cacheControl: head.CacheControl,
+    contentDisposition: head.ContentDisposition,
+    contentEncoding: head.ContentEncoding,
+    // S3 omits the storage class for STANDARD objects
+    storageClass: head.StorageClass || 'STANDARD',
+    restore,
+    archived: isArchivedObject(head.StorageClass, restore),
+    versionId: head.VersionId,
+    metadata: head.Metadata || {}
+  };
+}
+
+export async function headObject(request: HeadObjectRequest, target: S3Target): Promise<HeadObjectResponse> {
+  if (!request.fileName) {
+    return {
+      properties: null,
+      error: "Missing required field: fileName"
+    };
+  }
+  
+  try {
+    const head = await headFile(request.fileName, target.client, target.bucketName);
+    return { properties: toObjectProperties(request.fileName, head) };
+  } catch (error) {
+    return {
+      properties: null,
+      error: `Failed to get object properties: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
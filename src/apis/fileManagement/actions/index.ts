@@ -4,6 +4,46 @@ import { writeFile } from './writeFile';
 import { deleteFile } from './deleteFile';
 import { createFolder } from './createFolder';
 import { deleteFolder } from './deleteFolder';
+import { getUploadUrl } from './getUploadUrl';
+import { confirmUpload } from './confirmUpload';
+import { createMultipartUpload } from './createMultipartUpload';
+import { signUploadParts } from './signUploadParts';
+import { listUploadParts } from './listUploadParts';
+import { completeMultipartUpload } from './completeMultipartUpload';
+import { abortMultipartUpload } from './abortMultipartUpload';
+import { checkExists } from './checkExists';
+import { copyItem } from './copyItem';
+import { moveItem } from './moveItem';
+import { renameItem } from './renameItem';
+import { deleteMany } from './deleteMany';
+import { listVersions } from './listVersions';
+import { getFileVersion } from './getFileVersion';
+import { restoreVersion } from './restoreVersion';
+import { headObject } from './headObject';
+import { updateMetadata } from './updateMetadata';
+import { getTags } from './getTags';
+import { putTags } from './putTags';
+import { listProfiles } from './listProfiles';
+import { listBuckets } from './listBuckets';
+import { search } from './search';
+import { grep } from './grep';
+import { zipDownload } from './zipDownload';
+import { extractArchive } from './extractArchive';
+import { getExtractJob } from './getExtractJob';
+import { cancelExtractJob } from './cancelExtractJob';
+import { getPreviewUrl } from './getPreviewUrl';
+import { changeStorageClass } from './changeStorageClass';
+import { restoreArchivedFile } from './restoreArchivedFile';
+import { getBucketSettings } from './getBucketSettings';
+import { updateBucketVersioning } from './updateBucketVersioning';
+import { updateBucketLifecycle } from './updateBucketLifecycle';
+import { updateBucketCors } from './updateBucketCors';
+import { updateBucketPolicy } from './updateBucketPolicy';
+import { createShareLink } from './createShareLink';
+import { listShareLinks } from './listShareLinks';
+import { startSync } from './startSync';
+import { getSyncJob } from './getSyncJob';
+import { cancelSyncJob } from './cancelSyncJob';
 
 export {
   listFiles,
@@ -11,5 +51,45 @@ export {
   writeFile,
   deleteFile,
   createFolder,
-  deleteFolder
+  deleteFolder,
+  getUploadUrl,
+  confirmUpload,
+  createMultipartUpload,
+  signUploadParts,
+  listUploadParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  checkExists,
+  copyItem,
+  moveItem,
+  renameItem,
+  deleteMany,
+  listVersions,
+  getFileVersion,
+  restoreVersion,
+  headObject,
+  updateMetadata,
+  getTags,
+  putTags,
+  listProfiles,
+  listBuckets,
+  search,
+  grep,
+  zipDownload,
+  extractArchive,
+  getExtractJob,
+  cancelExtractJob,
+  getPreviewUrl,
+  changeStorageClass,
+  restoreArchivedFile,
+  getBucketSettings,
+  updateBucketVersioning,
+  updateBucketLifecycle,
+  updateBucketCors,
+  updateBucketPolicy,
+  createShareLink,
+  listShareLinks,
+  startSync,
+  getSyncJob,
+  cancelSyncJob
 };
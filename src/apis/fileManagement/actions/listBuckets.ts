@@ -0,0 +1,30 @@
+import { ListBucketsRequest, ListBucketsResponse } from '../types';
+import { listBuckets as s3ListBuckets } from '@/server/s3/sdk';
+import { getProfile, getProfileClient } from '@/server/s3/profiles';
+
+export async function listBuckets(request: ListBucketsRequest): Promise<ListBucketsResponse> {
+  try {
+    const profile = getProfile(request.profileId);
+
+    // A profile restricted to a fixed set of buckets only offers those
+    if (profile.buckets) {
+      return { buckets: profile.buckets.map(name => ({ name })) };
+    }
+
+    try {
+      return { buckets: await s3ListBuckets(getProfileClient(profile)) };
+    } catch (error) {
+      // Credentials scoped to a single bucket usually cannot call ListBuckets
+      const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+      if ((status === 403 || (error instanceof Error && error.name === 'AccessDenied')) && profile.config.bucketName) {
+        return { buckets: [{ name: profile.config.bucketName }] };
+      }
+      throw error;
+    }
+  } catch (error) {
+    return {
+      buckets: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
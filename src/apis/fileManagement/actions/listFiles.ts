@@ -1,20 +1,30 @@
 import { ListFilesRequest, ListFilesResponse, FileInfo } from '../types';
-import { listFiles as s3ListFiles } from '@/server/s3/sdk';
+import { listFilesPage } from '@/server/s3/sdk';
+import { isFolderStatsIndexEnabled, createIndexedFolderStatsResolver } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
 
-export async function listFiles(request: ListFilesRequest): Promise<ListFilesResponse> {
+export async function listFiles(request: ListFilesRequest, target: S3Target): Promise<ListFilesResponse> {
   try {
-    const s3Files = await s3ListFiles(request.prefix);
+    const page = await listFilesPage(request.prefix, {
+      pageSize: request.pageSize,
+      continuationToken: request.continuationToken,
+      resolveFolderStats: isFolderStatsIndexEnabled()
+        ? createIndexedFolderStatsResolver(request.refreshStats === true, target.client, target.bucketName)
+        : undefined
+    }, target.client, target.bucketName);
     
     // Convert S3Files to FileInfo ensuring isFolder is always a boolean
-    const files: FileInfo[] = s3Files.map(file => ({
+    const files: FileInfo[] = page.files.map(file => ({
       key: file.key,
       size: file.size,
       lastModified: file.lastModified,
       isFolder: file.isFolder === true,
-      fileCount: file.fileCount
+      fileCount: file.fileCount,
+      storageClass: file.storageClass,
+      restore: file.restore
     }));
     
-    return { files };
+    return { files, nextContinuationToken: page.nextContinuationToken };
   } catch (error) {
     return {
       files: [],
@@ -0,0 +1,13 @@
+import { ListProfilesResponse } from '../types';
+import { getProfiles, toProfileInfo } from '@/server/s3/profiles';
+
+export async function listProfiles(): Promise<ListProfilesResponse> {
+  try {
+    return { profiles: getProfiles().map(toProfileInfo) };
+  } catch (error) {
+    return {
+      profiles: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
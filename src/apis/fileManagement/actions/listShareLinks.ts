@@ -0,0 +1,15 @@
+import { ListShareLinksRequest, ListShareLinksResponse } from '../types';
+import { listShareLinks as readShareLinks } from '@/server/s3/shareLinks';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function listShareLinks(_request: ListShareLinksRequest, target: S3Target): Promise<ListShareLinksResponse> {
+  try {
+    const links = await readShareLinks(target.client, target.bucketName);
+    return { links };
+  } catch (error) {
+    return {
+      links: [],
+      error: `Failed to list share links: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
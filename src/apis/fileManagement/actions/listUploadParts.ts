@@ -0,0 +1,22 @@
+import { ListUploadPartsRequest, ListUploadPartsResponse } from '../types';
+import { listUploadedParts } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function listUploadParts(request: ListUploadPartsRequest, target: S3Target): Promise<ListUploadPartsResponse> {
+  if (!request.fileName || !request.uploadId) {
+    return {
+      parts: [],
+      error: "Missing required fields: fileName and uploadId are required"
+    };
+  }
+  
+  try {
+    const parts = await listUploadedParts(request.fileName, request.uploadId, target.client, target.bucketName);
+    return { parts };
+  } catch (error) {
+    return {
+      parts: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
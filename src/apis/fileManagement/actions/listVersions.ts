@@ -0,0 +1,31 @@
+import { ListVersionsRequest, ListVersionsResponse } from '../types';
+import { listObjectVersions } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function listVersions(request: ListVersionsRequest, target: S3Target): Promise<ListVersionsResponse> {
+  if (!request.fileName) {
+    return {
+      versions: [],
+      error: "Missing required field: fileName"
+    };
+  }
+  
+  try {
+    const versions = await listObjectVersions(request.fileName, target.client, target.bucketName);
+    
+    return {
+      versions: versions.map(version => ({
+        versionId: version.versionId,
+        size: version.size,
+        lastModified: version.lastModified,
+        isLatest: version.isLatest,
+        isDeleteMarker: version.isDeleteMarker
+      }))
+    };
+  } catch (error) {
+    return {
+      versions: [],
+      error: `Failed to list versions: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { MoveRequest, MoveResponse } from '../types';
+import { transferItem } from './transferItem';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function moveItem(request: MoveRequest, target: S3Target): Promise<MoveResponse> {
+  if (!request.sourceKey || !request.destinationKey) {
+    return {
+      key: "",
+      transferred: 0,
+      failed: [],
+      error: "Missing required fields: sourceKey and destinationKey"
+    };
+  }
+
+  try {
+    // S3 has no move, so copy every object and delete the original
+    return await transferItem(request.sourceKey, request.destinationKey, target, {
+      deleteSource: true,
+      overwrite: request.overwrite
+    });
+  } catch (error) {
+    return {
+      key: "",
+      transferred: 0,
+      failed: [],
+      error: `Failed to move: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { PutTagsRequest, PutTagsResponse } from '../types';
+import { putFileTags } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+// S3 object tagging limits
+const MAX_TAGS = 10;
+const MAX_TAG_KEY_LENGTH = 128;
+const MAX_TAG_VALUE_LENGTH = 256;
+
+export async function putTags(request: PutTagsRequest, target: S3Target): Promise<PutTagsResponse> {
+  if (!request.fileName || !request.tags) {
+    return {
+      success: false,
+      error: "Missing required fields: fileName and tags"
+    };
+  }
+  
+  if (request.tags.length > MAX_TAGS) {
+    return {
+      success: false,
+      error: `An object can have at most ${MAX_TAGS} tags`
+    };
+  }
+  
+  const seenKeys = new Set<string>();
+  for (const tag of request.tags) {
+    if (!tag.key || tag.key.length > MAX_TAG_KEY_LENGTH) {
+      return {
+        success: false,
+        error: `Tag keys must be 1-${MAX_TAG_KEY_LENGTH} characters: ${tag.key}`
+      };
+    }
+    if ((tag.value || '').length > MAX_TAG_VALUE_LENGTH) {
+      return {
+        success: false,
+        error: `Tag values must be at most ${MAX_TAG_VALUE_LENGTH} characters: ${tag.key}`
+      };
+    }
+    if (seenKeys.has(tag.key)) {
+      return {
+        success: false,
+        error: `Duplicate tag key: ${tag.key}`
+      };
+    }
+    seenKeys.add(tag.key);
+  }
+  
+  try {
+    await putFileTags(request.fileName, request.tags.map(tag => ({ key: tag.key, value: tag.value || '' })), target.client, target.bucketName);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to update tags: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
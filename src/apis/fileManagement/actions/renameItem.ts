@@ -0,0 +1,44 @@
+import { RenameRequest, RenameResponse } from '../types';
+import { transferItem } from './transferItem';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function renameItem(request: RenameRequest, target: S3Target): Promise<RenameResponse> {
+  if (!request.sourceKey || !request.newName) {
+    return {
+      key: "",
+      transferred: 0,
+      failed: [],
+      error: "Missing required fields: sourceKey and newName"
+    };
+  }
+
+  const newName = request.newName.trim();
+  if (!newName || newName.includes('/') || newName === '.' || newName === '..') {
+    return {
+      key: "",
+      transferred: 0,
+      failed: [],
+      error: `Invalid name: ${request.newName}`
+    };
+  }
+
+  try {
+    // Keep the item in its parent folder and swap only the last path segment
+    const isFolder = request.sourceKey.endsWith('/');
+    const path = isFolder ? request.sourceKey.slice(0, -1) : request.sourceKey;
+    const parent = path.substring(0, path.lastIndexOf('/') + 1);
+    const destinationKey = `${parent}${newName}${isFolder ? '/' : ''}`;
+
+    return await transferItem(request.sourceKey, destinationKey, target, {
+      deleteSource: true,
+      overwrite: request.overwrite
+    });
+  } catch (error) {
+    return {
+      key: "",
+      transferred: 0,
+      failed: [],
+      error: `Failed to rename: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { RestoreArchivedFileRequest, RestoreArchivedFileResponse, RestoreTier } from '../types';
+import { restoreArchivedFile as requestRestore } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+const DEFAULT_RESTORE_DAYS = 7;
+const MAX_RESTORE_DAYS = 30;
+const RESTORE_TIERS: RestoreTier[] = ['Expedited', 'Standard', 'Bulk'];
+
+export async function restoreArchivedFile(request: RestoreArchivedFileRequest, target: S3Target): Promise<RestoreArchivedFileResponse> {
+  if (!request.fileName) {
+    return {
+      restore: null,
+      error: "Missing required field: fileName"
+    };
+  }
+
+  const days = request.days ?? DEFAULT_RESTORE_DAYS;
+  if (!Number.isInteger(days) || days < 1 || days > MAX_RESTORE_DAYS) {
+    return {
+      restore: null,
+      error: `days must be between 1 and ${MAX_RESTORE_DAYS}`
+    };
+  }
+  if (request.tier !== undefined && !RESTORE_TIERS.includes(request.tier)) {
+    return {
+      restore: null,
+      error: `tier must be one of ${RESTORE_TIERS.join(', ')}`
+    };
+  }
+
+  try {
+    const restore = await requestRestore(request.fileName, days, request.tier, target.client, target.bucketName);
+    return { restore };
+  } catch (error) {
+    return {
+      restore: null,
+      error: `Failed to restore file: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,25 @@
+import { RestoreVersionRequest, RestoreVersionResponse } from '../types';
+import { restoreFileVersion } from '@/server/s3/sdk';
+import { invalidateFolderStats } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function restoreVersion(request: RestoreVersionRequest, target: S3Target): Promise<RestoreVersionResponse> {
+  if (!request.fileName || !request.versionId) {
+    return {
+      key: "",
+      error: "Missing required fields: fileName and versionId"
+    };
+  }
+  
+  try {
+    await restoreFileVersion(request.fileName, request.versionId, target.client, target.bucketName);
+    await invalidateFolderStats(request.fileName, target.client, target.bucketName);
+    
+    return { key: request.fileName };
+  } catch (error) {
+    return {
+      key: "",
+      error: `Failed to restore version: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
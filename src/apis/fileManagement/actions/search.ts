@@ -0,0 +1,61 @@
+import { SearchRequest, SearchResponse, FileInfo } from '../types';
+import { searchObjects } from '@/server/s3/search';
+import { S3Target } from '@/server/s3/profiles';
+
+// Parse an optional ISO date filter
+const parseDate = (value: string | undefined, field: string): Date | undefined => {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date in ${field}: ${value}`);
+  }
+  return date;
+};
+
+export async function search(request: SearchRequest, target: S3Target): Promise<SearchResponse> {
+  if (!request.query) {
+    return {
+      files: [],
+      scannedCount: 0,
+      error: "Missing required field: query"
+    };
+  }
+
+  try {
+    const { query } = request;
+
+    const page = await searchObjects(request.prefix || '', {
+      pattern: query.pattern,
+      matchType: query.matchType,
+      caseSensitive: query.caseSensitive,
+      minSize: query.minSize,
+      maxSize: query.maxSize,
+      modifiedAfter: parseDate(query.modifiedAfter, 'modifiedAfter'),
+      modifiedBefore: parseDate(query.modifiedBefore, 'modifiedBefore'),
+      extensions: query.extensions
+    }, {
+      pageSize: request.pageSize,
+      continuationToken: request.continuationToken
+    }, target.client, target.bucketName);
+
+    const files: FileInfo[] = page.files.map(file => ({
+      key: file.key,
+      size: file.size,
+      lastModified: file.lastModified,
+      isFolder: false
+    }));
+
+    return {
+      files,
+      scannedCount: page.scannedCount,
+      nextContinuationToken: page.nextContinuationToken
+    };
+  } catch (error) {
+    return {
+      files: [],
+      scannedCount: 0,
+      error: `Search failed: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { SignUploadPartsRequest, SignUploadPartsResponse } from '../types';
+import { getSignedUploadPartUrl } from '@/server/s3/sdk';
+import { S3Target } from '@/server/s3/profiles';
+
+// S3 part numbers range from 1 to 10,000
+const MAX_PART_NUMBER = 10000;
+
+export async function signUploadParts(request: SignUploadPartsRequest, target: S3Target): Promise<SignUploadPartsResponse> {
+  if (!request.fileName || !request.uploadId || !request.partNumbers?.length) {
+    return {
+      urls: [],
+      error: "Missing required fields: fileName, uploadId and partNumbers are required"
+    };
+  }
+  
+  const invalidPart = request.partNumbers.find(
+    partNumber => !Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PART_NUMBER
+  );
+  if (invalidPart !== undefined) {
+    return {
+      urls: [],
+      error: `Invalid part number: ${invalidPart}`
+    };
+  }
+  
+  try {
+    const urls = await Promise.all(request.partNumbers.map(async (partNumber) => ({
+      partNumber,
+      url: await getSignedUploadPartUrl(request.fileName, request.uploadId, partNumber, request.expiresIn, target.client, target.bucketName)
+    })));
+    
+    return { urls };
+  } catch (error) {
+    return {
+      urls: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
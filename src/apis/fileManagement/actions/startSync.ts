@@ -0,0 +1,77 @@
+import { StartSyncRequest, StartSyncResponse, SyncResult } from '../types';
+import { syncFolders } from '@/server/s3/sync';
+import { startJob } from '@/server/jobs';
+import { S3Target, resolveS3Target } from '@/server/s3/profiles';
+import { SYNC_JOB_TYPE, toSyncJob, toSyncResult } from './syncJob';
+
+const toFolderPrefix = (prefix: string): string => {
+  return prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+};
+
+export async function startSync(request: StartSyncRequest, target: S3Target): Promise<StartSyncResponse> {
+  if (typeof request.sourcePrefix !== 'string') {
+    return {
+      error: "Missing required field: sourcePrefix"
+    };
+  }
+
+  if (!request.destination || typeof request.destination.prefix !== 'string') {
+    return {
+      error: "Missing required field: destination"
+    };
+  }
+
+  try {
+    // The destination bucket defaults to the source bucket only within the same profile
+    const destinationProfileId = request.destination.profileId || target.profileId;
+    const destination = resolveS3Target(
+      destinationProfileId,
+      request.destination.bucket || (destinationProfileId === target.profileId ? target.bucketName : undefined)
+    );
+
+    const sourcePrefix = toFolderPrefix(request.sourcePrefix);
+    const destinationPrefix = toFolderPrefix(request.destination.prefix);
+
+    // Folders inside each other would keep copying (or deleting) their own files
+    if (
+      destination.client === target.client &&
+      destination.bucketName === target.bucketName &&
+      (destinationPrefix.startsWith(sourcePrefix) || sourcePrefix.startsWith(destinationPrefix))
+    ) {
+      return {
+        error: "Source and destination folders cannot be the same or inside each other"
+      };
+    }
+
+    const dryRun = request.dryRun || false;
+
+    // The sync outlives this request, the client polls it with getSyncJob
+    const job = startJob<SyncResult>(SYNC_JOB_TYPE, async ({ report, signal }) => toSyncResult(
+      await syncFolders(
+        { client: target.client, bucketName: target.bucketName, prefix: sourcePrefix },
+        { client: destination.client, bucketName: destination.bucketName, prefix: destinationPrefix },
+        {
+          deleteExtraneous: request.deleteExtraneous,
+          dryRun,
+          signal,
+          onProgress: (progress) => report({
+            processed: progress.processed,
+            total: progress.total,
+            bytes: progress.bytes,
+            totalBytes: progress.totalBytes,
+            message: progress.current
+          })
+        }
+      ),
+      dryRun
+    ), {
+      label: `${dryRun ? 'Preview sync' : 'Sync'} of ${sourcePrefix ? `/${sourcePrefix}` : 'the bucket root'} to ${destination.bucketName}/${destinationPrefix}`
+    });
+
+    return { job: toSyncJob(job) };
+  } catch (error) {
+    return {
+      error: `Failed to start sync: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,56 @@
+import { SyncJob, SyncResult } from '../types';
+import { Job, getJob } from '@/server/jobs';
+import { S3SyncResult } from '@/server/s3/sync';
+
+export const SYNC_JOB_TYPE = 'sync';
+
+// Changes kept in a job result; the counts always cover all of them
+const MAX_LISTED_CHANGES = 1000;
+
+// The result of a sync in the shape clients get, with the list of changes cut off
+export const toSyncResult = (result: S3SyncResult, dryRun: boolean): SyncResult => ({
+  dryRun,
+  addCount: result.changes.filter(change => change.type === 'add').length,
+  updateCount: result.changes.filter(change => change.type === 'update').length,
+  deleteCount: result.changes.filter(change => change.type === 'delete').length,
+  unchangedCount: result.unchangedCount,
+  changes: result.changes.slice(0, MAX_LISTED_CHANGES).map(change => ({
+    type: change.type,
+    key: change.key,
+    size: change.size,
+    reason: change.reason
+  })),
+  changesTruncated: result.changes.length > MAX_LISTED_CHANGES,
+  applied: result.applied,
+  bytes: result.bytes,
+  failed: result.failed
+});
+
+// The client's view of a background sync
+export const toSyncJob = (job: Job<SyncResult>): SyncJob => ({
+  id: job.id,
+  status: job.status,
+  progress: {
+    processed: job.progress.processed,
+    total: job.progress.total || 0,
+    bytes: job.progress.bytes || 0,
+    totalBytes: job.progress.totalBytes || 0,
+    current: job.progress.message
+  },
+  result: job.result,
+  error: job.error,
+  createdAt: job.createdAt,
+  finishedAt: job.finishedAt
+});
+
+/**
+ * Look up a sync job
+ * @throws When there is no sync job with this id
+ */
+export const findSyncJob = async (jobId: string): Promise<Job<SyncResult>> => {
+  const job = await getJob<SyncResult>(jobId);
+  if (job.type !== SYNC_JOB_TYPE) {
+    throw new Error(`Unknown job: ${jobId}`);
+  }
+  return job;
+};
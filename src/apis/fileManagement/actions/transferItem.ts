@@ -0,0 +1,128 @@
+import { TransferFailure, TransferResponse } from '../types';
+import {
+  copyFile,
+  deleteFile,
+  fileExists,
+  listAllObjects,
+  prefixExists
+} from '@/server/s3/sdk';
+import { invalidateFolderStats } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
+
+// Number of objects copied at the same time during folder transfers
+const TRANSFER_CONCURRENCY = 5;
+
+type TransferOptions = {
+  // Delete each source object once it was copied (move / rename)
+  deleteSource: boolean;
+  overwrite?: boolean;
+};
+
+const failure = (key: string, error: string): TransferResponse => ({
+  key,
+  transferred: 0,
+  failed: [],
+  error
+});
+
+/**
+ * Copy or move a file, or a folder with everything under it.
+ * Folder transfers continue past individual failures and report them in `failed`.
+ */
+export async function transferItem(
+  sourceKey: string,
+  destinationKey: string,
+  target: S3Target,
+  options: TransferOptions
+): Promise<TransferResponse> {
+  const isFolder = sourceKey.endsWith('/');
+  const destination = isFolder && !destinationKey.endsWith('/')
+    ? `${destinationKey}/`
+    : destinationKey;
+
+  if (destination === sourceKey) {
+    return failure(destination, "Source and destination are the same");
+  }
+
+  if (!isFolder) {
+    if (destination.endsWith('/')) {
+      return failure(destination, "Destination of a file must be a file key");
+    }
+
+    if (!options.overwrite && await fileExists(destination, target.client, target.bucketName)) {
+      return failure(destination, `Destination already exists: ${destination}`);
+    }
+
+    await copyFile(sourceKey, destination, undefined, target.client, target.bucketName);
+    if (options.deleteSource) {
+      await deleteFile(sourceKey, target.client, target.bucketName);
+      await invalidateFolderStats(sourceKey, target.client, target.bucketName);
+    }
+    await invalidateFolderStats(destination, target.client, target.bucketName);
+
+    return { key: destination, transferred: 1, failed: [] };
+  }
+
+  if (destination.startsWith(sourceKey)) {
+    return failure(destination, "Cannot copy or move a folder into itself");
+  }
+
+  if (!options.overwrite && await prefixExists(destination, target.client, target.bucketName)) {
+    return failure(destination, `Destination folder already exists: ${destination}`);
+  }
+
+  const objects = await listAllObjects(sourceKey, target.client, target.bucketName);
+  if (objects.length === 0) {
+    return failure(destination, `Folder not found: ${sourceKey}`);
+  }
+
+  const failed: TransferFailure[] = [];
+  let transferred = 0;
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < objects.length) {
+      const object = objects[nextIndex++];
+      if (!object.Key) continue;
+
+      const targetKey = `${destination}${object.Key.slice(sourceKey.length)}`;
+
+      try {
+        await copyFile(
+          object.Key,
+          targetKey,
+          { size: object.Size || 0, storageClass: object.StorageClass },
+          target.client,
+          target.bucketName
+        );
+        if (options.deleteSource) {
+          await deleteFile(object.Key, target.client, target.bucketName);
+        }
+        transferred += 1;
+      } catch (error) {
+        failed.push({
+          key: object.Key,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(TRANSFER_CONCURRENCY, objects.length) }, worker)
+  );
+
+  if (options.deleteSource) {
+    await invalidateFolderStats(sourceKey, target.client, target.bucketName);
+  }
+  await invalidateFolderStats(destination, target.client, target.bucketName);
+
+  return {
+    key: destination,
+    transferred,
+    failed,
+    error: failed.length > 0
+      ? `Failed to transfer ${failed.length} of ${objects.length} objects`
+      : undefined
+  };
+}
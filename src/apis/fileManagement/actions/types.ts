@@ -6,7 +6,47 @@ import {
   WriteFileRequest,
   DeleteFileRequest,
   CreateFolderRequest,
-  DeleteFolderRequest
+  DeleteFolderRequest,
+  GetUploadUrlRequest,
+  ConfirmUploadRequest,
+  CreateMultipartUploadRequest,
+  SignUploadPartsRequest,
+  ListUploadPartsRequest,
+  CompleteMultipartUploadRequest,
+  AbortMultipartUploadRequest,
+  CheckExistsRequest,
+  CopyRequest,
+  MoveRequest,
+  RenameRequest,
+  DeleteManyRequest,
+  ListVersionsRequest,
+  GetFileVersionRequest,
+  RestoreVersionRequest,
+  HeadObjectRequest,
+  UpdateMetadataRequest,
+  GetTagsRequest,
+  PutTagsRequest,
+  ListProfilesRequest,
+  ListBucketsRequest,
+  SearchRequest,
+  GrepRequest,
+  ZipDownloadRequest,
+  ExtractArchiveRequest,
+  GetExtractJobRequest,
+  CancelExtractJobRequest,
+  GetPreviewUrlRequest,
+  ChangeStorageClassRequest,
+  RestoreArchivedFileRequest,
+  GetBucketSettingsRequest,
+  UpdateBucketVersioningRequest,
+  UpdateBucketLifecycleRequest,
+  UpdateBucketCorsRequest,
+  UpdateBucketPolicyRequest,
+  CreateShareLinkRequest,
+  ListShareLinksRequest,
+  StartSyncRequest,
+  GetSyncJobRequest,
+  CancelSyncJobRequest
 } from '../types';
 
 // Re-export types to be used by action handlers
@@ -18,5 +58,45 @@ export type {
   WriteFileRequest,
   DeleteFileRequest,
   CreateFolderRequest,
-  DeleteFolderRequest
+  DeleteFolderRequest,
+  GetUploadUrlRequest,
+  ConfirmUploadRequest,
+  CreateMultipartUploadRequest,
+  SignUploadPartsRequest,
+  ListUploadPartsRequest,
+  CompleteMultipartUploadRequest,
+  AbortMultipartUploadRequest,
+  CheckExistsRequest,
+  CopyRequest,
+  MoveRequest,
+  RenameRequest,
+  DeleteManyRequest,
+  ListVersionsRequest,
+  GetFileVersionRequest,
+  RestoreVersionRequest,
+  HeadObjectRequest,
+  UpdateMetadataRequest,
+  GetTagsRequest,
+  PutTagsRequest,
+  ListProfilesRequest,
+  ListBucketsRequest,
+  SearchRequest,
+  GrepRequest,
+  ZipDownloadRequest,
+  ExtractArchiveRequest,
+  GetExtractJobRequest,
+  CancelExtractJobRequest,
+  GetPreviewUrlRequest,
+  ChangeStorageClassRequest,
+  RestoreArchivedFileRequest,
+  GetBucketSettingsRequest,
+  UpdateBucketVersioningRequest,
+  UpdateBucketLifecycleRequest,
+  UpdateBucketCorsRequest,
+  UpdateBucketPolicyRequest,
+  CreateShareLinkRequest,
+  ListShareLinksRequest,
+  StartSyncRequest,
+  GetSyncJobRequest,
+  CancelSyncJobRequest
 };
@@ -0,0 +1,30 @@
+import { UpdateBucketCorsRequest, UpdateBucketCorsResponse } from '../types';
+import { putCorsRules } from '@/server/s3/bucketSettings';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function updateBucketCors(request: UpdateBucketCorsRequest, target: S3Target): Promise<UpdateBucketCorsResponse> {
+  if (!Array.isArray(request.rules)) {
+    return {
+      success: false,
+      error: "Missing required field: rules"
+    };
+  }
+
+  const invalid = request.rules.findIndex(rule => !Array.isArray(rule.AllowedOrigins) || !Array.isArray(rule.AllowedMethods));
+  if (invalid !== -1) {
+    return {
+      success: false,
+      error: `Rule ${invalid + 1}: AllowedOrigins and AllowedMethods must be lists`
+    };
+  }
+
+  try {
+    await putCorsRules(request.rules, target.client, target.bucketName);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to update CORS rules: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
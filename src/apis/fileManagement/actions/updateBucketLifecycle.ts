@@ -0,0 +1,58 @@
+import type { LifecycleRule as S3LifecycleRule, TransitionStorageClass } from '@aws-sdk/client-s3';
+import { UpdateBucketLifecycleRequest, UpdateBucketLifecycleResponse, LifecycleRule } from '../types';
+import { putLifecycleRules } from '@/server/s3/bucketSettings';
+import { S3Target } from '@/server/s3/profiles';
+
+const toDate = (value: string | undefined): Date | undefined => {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+};
+
+// Map a rule's JSON shape onto the SDK's, ISO strings become dates
+const toS3LifecycleRule = (rule: LifecycleRule): S3LifecycleRule => ({
+  ...rule,
+  Expiration: rule.Expiration && {
+    ...rule.Expiration,
+    Date: toDate(rule.Expiration.Date)
+  },
+  Transitions: rule.Transitions?.map(transition => ({
+    ...transition,
+    Date: toDate(transition.Date),
+    StorageClass: transition.StorageClass as TransitionStorageClass
+  })),
+  NoncurrentVersionTransitions: rule.NoncurrentVersionTransitions?.map(transition => ({
+    ...transition,
+    StorageClass: transition.StorageClass as TransitionStorageClass
+  }))
+});
+
+export async function updateBucketLifecycle(request: UpdateBucketLifecycleRequest, target: S3Target): Promise<UpdateBucketLifecycleResponse> {
+  if (!Array.isArray(request.rules)) {
+    return {
+      success: false,
+      error: "Missing required field: rules"
+    };
+  }
+
+  const invalid = request.rules.findIndex(rule => rule.Status !== 'Enabled' && rule.Status !== 'Disabled');
+  if (invalid !== -1) {
+    return {
+      success: false,
+      error: `Rule ${invalid + 1}: Status must be Enabled or Disabled`
+    };
+  }
+
+  try {
+    await putLifecycleRules(request.rules.map(toS3LifecycleRule), target.client, target.bucketName);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to update lifecycle rules: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { UpdateBucketPolicyRequest, UpdateBucketPolicyResponse } from '../types';
+import { putBucketPolicy } from '@/server/s3/bucketSettings';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function updateBucketPolicy(request: UpdateBucketPolicyRequest, target: S3Target): Promise<UpdateBucketPolicyResponse> {
+  if (request.policy === undefined) {
+    return {
+      success: false,
+      error: "Missing required field: policy"
+    };
+  }
+  if (request.policy !== null && !Array.isArray(request.policy.Statement)) {
+    return {
+      success: false,
+      error: "The policy must have a Statement list"
+    };
+  }
+
+  try {
+    await putBucketPolicy(request.policy && JSON.stringify(request.policy), target.client, target.bucketName);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to update the bucket policy: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { UpdateBucketVersioningRequest, UpdateBucketVersioningResponse } from '../types';
+import { putBucketVersioning } from '@/server/s3/bucketSettings';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function updateBucketVersioning(request: UpdateBucketVersioningRequest, target: S3Target): Promise<UpdateBucketVersioningResponse> {
+  if (request.status !== 'Enabled' && request.status !== 'Suspended') {
+    return {
+      success: false,
+      error: "status must be Enabled or Suspended"
+    };
+  }
+
+  try {
+    await putBucketVersioning(request.status, target.client, target.bucketName);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to update versioning: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
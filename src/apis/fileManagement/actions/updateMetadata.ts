@@ -0,0 +1,57 @@
+import { UpdateMetadataRequest, UpdateMetadataResponse } from '../types';
+import { headFile, updateFileMetadata } from '@/server/s3/sdk';
+import { toObjectProperties } from './headObject';
+import { S3Target } from '@/server/s3/profiles';
+
+// S3 limits user-defined metadata to 2 KB (keys and values together)
+const MAX_USER_METADATA_SIZE = 2 * 1024;
+const METADATA_KEY_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+export async function updateMetadata(request: UpdateMetadataRequest, target: S3Target): Promise<UpdateMetadataResponse> {
+  if (!request.fileName) {
+    return {
+      properties: null,
+      error: "Missing required field: fileName"
+    };
+  }
+  
+  // S3 stores metadata keys in lowercase
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of Object.entries(request.metadata || {})) {
+    const normalizedKey = key.trim().toLowerCase().replace(/^x-amz-meta-/, '');
+    if (!METADATA_KEY_PATTERN.test(normalizedKey)) {
+      return {
+        properties: null,
+        error: `Invalid metadata key: ${key}`
+      };
+    }
+    metadata[normalizedKey] = value;
+  }
+  
+  const metadataSize = Object.entries(metadata)
+    .reduce((total, [key, value]) => total + Buffer.byteLength(key) + Buffer.byteLength(value), 0);
+  if (metadataSize > MAX_USER_METADATA_SIZE) {
+    return {
+      properties: null,
+      error: `User metadata is ${metadataSize} bytes, the limit is ${MAX_USER_METADATA_SIZE}`
+    };
+  }
+  
+  try {
+    await updateFileMetadata(request.fileName, {
+      contentType: request.contentType || undefined,
+      cacheControl: request.cacheControl || undefined,
+      contentDisposition: request.contentDisposition || undefined,
+      contentEncoding: request.contentEncoding || undefined,
+      metadata
+    }, target.client, target.bucketName);
+    
+    const head = await headFile(request.fileName, target.client, target.bucketName);
+    return { properties: toObjectProperties(request.fileName, head) };
+  } catch (error) {
+    return {
+      properties: null,
+      error: `Failed to update metadata: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -1,7 +1,9 @@
 import { WriteFileRequest, WriteFileResponse } from '../types';
 import { uploadFile } from '@/server/s3/sdk';
+import { invalidateFolderStats } from '@/server/s3/folderStatsIndex';
+import { S3Target } from '@/server/s3/profiles';
 
-export async function writeFile(request: WriteFileRequest): Promise<WriteFileResponse> {
+export async function writeFile(request: WriteFileRequest, target: S3Target): Promise<WriteFileResponse> {
   if (!request.fileName || request.content === undefined) {
     return {
       key: "",
@@ -11,10 +13,14 @@ export async function writeFile(request: WriteFileRequest): Promise<WriteFileRes
   
   try {
     const key = await uploadFile({
-      content: request.content,
+      content: request.encoding === 'base64'
+        ? Buffer.from(request.content, 'base64')
+        : request.content,
       fileName: request.fileName,
       contentType: request.contentType
-    });
+    }, target.client, target.bucketName);
+
+    await invalidateFolderStats(key, target.client, target.bucketName);
     
     return { key };
   } catch (error) {
@@ -0,0 +1,32 @@
+import { ZipDownloadRequest, ZipDownloadResponse } from '../types';
+import { createZipDownload } from '@/server/s3/zipDownload';
+import { S3Target } from '@/server/s3/profiles';
+
+export async function zipDownload(request: ZipDownloadRequest, target: S3Target): Promise<ZipDownloadResponse> {
+  if (!request.keys || request.keys.length === 0) {
+    return {
+      url: "",
+      fileName: "",
+      fileCount: 0,
+      size: 0,
+      expiresIn: 0,
+      error: "Missing required field: keys"
+    };
+  }
+
+  try {
+    return await createZipDownload(request.keys, {
+      basePrefix: request.basePrefix,
+      fileName: request.fileName
+    }, target.client, target.bucketName);
+  } catch (error) {
+    return {
+      url: "",
+      fileName: "",
+      fileCount: 0,
+      size: 0,
+      expiresIn: 0,
+      error: `Failed to build zip: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+}
@@ -6,10 +6,63 @@ import {
   WriteFileResponse,
   DeleteFileResponse,
   CreateFolderResponse,
-  DeleteFolderResponse
+  DeleteFolderResponse,
+  FileEncoding,
+  GetUploadUrlResponse,
+  ConfirmUploadResponse,
+  UploadPart,
+  CreateMultipartUploadResponse,
+  SignUploadPartsResponse,
+  ListUploadPartsResponse,
+  CompleteMultipartUploadResponse,
+  AbortMultipartUploadResponse,
+  CheckExistsResponse,
+  CopyResponse,
+  MoveResponse,
+  RenameResponse,
+  DeleteManyResponse,
+  ListVersionsResponse,
+  GetFileVersionResponse,
+  RestoreVersionResponse,
+  HeadObjectResponse,
+  UpdateMetadataResponse,
+  GetTagsResponse,
+  PutTagsResponse,
+  ObjectTag,
+  BucketTarget,
+  ListProfilesResponse,
+  ListBucketsResponse,
+  SearchQuery,
+  SearchResponse,
+  GrepResponse,
+  ZipDownloadResponse,
+  ExtractConflictPolicy,
+  ExtractArchiveResponse,
+  GetExtractJobResponse,
+  CancelExtractJobResponse,
+  GetPreviewUrlResponse,
+  StorageClassOption,
+  ChangeStorageClassResponse,
+  RestoreTier,
+  RestoreArchivedFileResponse,
+  GetBucketSettingsResponse,
+  UpdateBucketVersioningResponse,
+  LifecycleRule,
+  UpdateBucketLifecycleResponse,
+  CorsRule,
+  UpdateBucketCorsResponse,
+  BucketPolicy,
+  UpdateBucketPolicyResponse,
+  CreateShareLinkResponse,
+  ListShareLinksResponse,
+  SyncLocation,
+  StartSyncResponse,
+  GetSyncJobResponse,
+  CancelSyncJobResponse
 } from "./types";
 import apiClient from "@/client/utils/apiClient";
 import { name } from "./index";
+import { callInBackground } from "@/apis/jobs/client";
 import type { CacheResult } from "@/server/cache/types";
 
 // Main function to manage files
@@ -25,58 +78,657 @@ export const manageFiles = async (
   );
 };
 
+// Same as manageFiles for operations that can outlast a request: the server runs them as a job,
+// shown on the jobs page, and the call resolves once the job ended
+const manageFilesInBackground = async (
+  request: FileManagementRequest,
+  label: string
+): Promise<CacheResult<FileManagementResponse>> => {
+  return callInBackground<FileManagementResponse, FileManagementRequest>(name, request, label);
+};
+
+// Keys ending with a slash are folders, copied or moved with everything under them
+const isFolderKey = (key: string) => key.endsWith('/');
+
 // Helper functions for specific operations
 export const listFiles = async (
-  prefix?: string
+  prefix?: string,
+  options: { pageSize?: number; continuationToken?: string; refreshStats?: boolean } = {},
+  target?: BucketTarget
 ): Promise<CacheResult<ListFilesResponse>> => {
-  return manageFiles({ action: 'list', prefix }) as Promise<CacheResult<ListFilesResponse>>;
+  return manageFiles({
+    action: 'list',
+    ...target,
+    prefix,
+    pageSize: options.pageSize,
+    continuationToken: options.continuationToken,
+    refreshStats: options.refreshStats
+  }) as Promise<CacheResult<ListFilesResponse>>;
 };
 
 export const getFile = async (
-  fileName: string
+  fileName: string,
+  encoding?: FileEncoding,
+  target?: BucketTarget
 ): Promise<CacheResult<GetFileResponse>> => {
   return manageFiles({
     action: 'getFile',
-    fileName
+    ...target,
+    fileName,
+    encoding
+  }) as Promise<CacheResult<GetFileResponse>>;
+};
+
+// Read `length` bytes of a file starting at byte `offset`
+export const getFileRange = async (
+  fileName: string,
+  offset: number,
+  length: number,
+  encoding?: FileEncoding,
+  target?: BucketTarget
+): Promise<CacheResult<GetFileResponse>> => {
+  return manageFiles({
+    action: 'getFile',
+    ...target,
+    fileName,
+    encoding,
+    offset,
+    length
+  }) as Promise<CacheResult<GetFileResponse>>;
+};
+
+// Read the last lines of a file
+export const getFileTail = async (
+  fileName: string,
+  tailLines: number,
+  encoding?: FileEncoding,
+  target?: BucketTarget
+): Promise<CacheResult<GetFileResponse>> => {
+  return manageFiles({
+    action: 'getFile',
+    ...target,
+    fileName,
+    encoding,
+    tailLines
   }) as Promise<CacheResult<GetFileResponse>>;
 };
 
 export const writeFile = async (
   fileName: string,
   content: string,
-  contentType?: string
+  contentType?: string,
+  encoding?: FileEncoding,
+  target?: BucketTarget
 ): Promise<CacheResult<WriteFileResponse>> => {
   return manageFiles({
     action: 'write',
+    ...target,
     fileName,
     content,
-    contentType
+    contentType,
+    encoding
   }) as Promise<CacheResult<WriteFileResponse>>;
 };
 
 export const deleteFile = async (
-  fileName: string
+  fileName: string,
+  target?: BucketTarget
 ): Promise<CacheResult<DeleteFileResponse>> => {
   return manageFiles({
     action: 'delete',
+    ...target,
     fileName
   }) as Promise<CacheResult<DeleteFileResponse>>;
 };
 
 export const createFolder = async (
-  folderName: string
+  folderName: string,
+  target?: BucketTarget
 ): Promise<CacheResult<CreateFolderResponse>> => {
   return manageFiles({
     action: 'createFolder',
+    ...target,
     folderName
   }) as Promise<CacheResult<CreateFolderResponse>>;
 };
 
 export const deleteFolder = async (
-  folderName: string
+  folderName: string,
+  target?: BucketTarget
 ): Promise<CacheResult<DeleteFolderResponse>> => {
-  return manageFiles({
+  return manageFilesInBackground({
     action: 'deleteFolder',
+    ...target,
     folderName
-  }) as Promise<CacheResult<DeleteFolderResponse>>;
+  }, `Delete ${folderName}`) as Promise<CacheResult<DeleteFolderResponse>>;
+};
+
+export const getUploadUrl = async (
+  fileName: string,
+  contentType?: string,
+  target?: BucketTarget
+): Promise<CacheResult<GetUploadUrlResponse>> => {
+  return manageFiles({
+    action: 'getUploadUrl',
+    ...target,
+    fileName,
+    contentType
+  }) as Promise<CacheResult<GetUploadUrlResponse>>;
+};
+
+export const confirmUpload = async (
+  fileName: string,
+  expectedSize?: number,
+  target?: BucketTarget
+): Promise<CacheResult<ConfirmUploadResponse>> => {
+  return manageFiles({
+    action: 'confirmUpload',
+    ...target,
+    fileName,
+    expectedSize
+  }) as Promise<CacheResult<ConfirmUploadResponse>>;
+};
+
+export const createMultipartUpload = async (
+  fileName: string,
+  contentType?: string,
+  target?: BucketTarget
+): Promise<CacheResult<CreateMultipartUploadResponse>> => {
+  return manageFiles({
+    action: 'createMultipartUpload',
+    ...target,
+    fileName,
+    contentType
+  }) as Promise<CacheResult<CreateMultipartUploadResponse>>;
+};
+
+export const signUploadParts = async (
+  fileName: string,
+  uploadId: string,
+  partNumbers: number[],
+  target?: BucketTarget
+): Promise<CacheResult<SignUploadPartsResponse>> => {
+  return manageFiles({
+    action: 'signUploadParts',
+    ...target,
+    fileName,
+    uploadId,
+    partNumbers
+  }) as Promise<CacheResult<SignUploadPartsResponse>>;
+};
+
+export const listUploadParts = async (
+  fileName: string,
+  uploadId: string,
+  target?: BucketTarget
+): Promise<CacheResult<ListUploadPartsResponse>> => {
+  return manageFiles({
+    action: 'listUploadParts',
+    ...target,
+    fileName,
+    uploadId
+  }) as Promise<CacheResult<ListUploadPartsResponse>>;
+};
+
+export const completeMultipartUpload = async (
+  fileName: string,
+  uploadId: string,
+  parts: UploadPart[],
+  target?: BucketTarget
+): Promise<CacheResult<CompleteMultipartUploadResponse>> => {
+  return manageFiles({
+    action: 'completeMultipartUpload',
+    ...target,
+    fileName,
+    uploadId,
+    parts
+  }) as Promise<CacheResult<CompleteMultipartUploadResponse>>;
+};
+
+export const abortMultipartUpload = async (
+  fileName: string,
+  uploadId: string,
+  target?: BucketTarget
+): Promise<CacheResult<AbortMultipartUploadResponse>> => {
+  return manageFiles({
+    action: 'abortMultipartUpload',
+    ...target,
+    fileName,
+    uploadId
+  }) as Promise<CacheResult<AbortMultipartUploadResponse>>;
+};
+
+export const checkExists = async (
+  keys: string[],
+  target?: BucketTarget
+): Promise<CacheResult<CheckExistsResponse>> => {
+  return manageFiles({
+    action: 'checkExists',
+    ...target,
+    keys
+  }) as Promise<CacheResult<CheckExistsResponse>>;
+};
+
+export const copyItem = async (
+  sourceKey: string,
+  destinationKey: string,
+  overwrite?: boolean,
+  target?: BucketTarget
+): Promise<CacheResult<CopyResponse>> => {
+  const request: FileManagementRequest = {
+    action: 'copy',
+    ...target,
+    sourceKey,
+    destinationKey,
+    overwrite
+  };
+  return (isFolderKey(sourceKey)
+    ? manageFilesInBackground(request, `Copy ${sourceKey} to ${destinationKey}`)
+    : manageFiles(request)) as Promise<CacheResult<CopyResponse>>;
+};
+
+export const moveItem = async (
+  sourceKey: string,
+  destinationKey: string,
+  overwrite?: boolean,
+  target?: BucketTarget
+): Promise<CacheResult<MoveResponse>> => {
+  const request: FileManagementRequest = {
+    action: 'move',
+    ...target,
+    sourceKey,
+    destinationKey,
+    overwrite
+  };
+  return (isFolderKey(sourceKey)
+    ? manageFilesInBackground(request, `Move ${sourceKey} to ${destinationKey}`)
+    : manageFiles(request)) as Promise<CacheResult<MoveResponse>>;
+};
+
+export const renameItem = async (
+  sourceKey: string,
+  newName: string,
+  overwrite?: boolean,
+  target?: BucketTarget
+): Promise<CacheResult<RenameResponse>> => {
+  const request: FileManagementRequest = {
+    action: 'rename',
+    ...target,
+    sourceKey,
+    newName,
+    overwrite
+  };
+  return (isFolderKey(sourceKey)
+    ? manageFilesInBackground(request, `Rename ${sourceKey} to ${newName}`)
+    : manageFiles(request)) as Promise<CacheResult<RenameResponse>>;
+};
+
+export const deleteMany = async (
+  keys: string[],
+  target?: BucketTarget
+): Promise<CacheResult<DeleteManyResponse>> => {
+  return manageFilesInBackground({
+    action: 'deleteMany',
+    ...target,
+    keys
+  }, `Delete ${keys.length === 1 ? keys[0] : `${keys.length} items`}`) as Promise<CacheResult<DeleteManyResponse>>;
+};
+
+export const listVersions = async (
+  fileName: string,
+  target?: BucketTarget
+): Promise<CacheResult<ListVersionsResponse>> => {
+  return manageFiles({
+    action: 'listVersions',
+    ...target,
+    fileName
+  }) as Promise<CacheResult<ListVersionsResponse>>;
+};
+
+export const getFileVersion = async (
+  fileName: string,
+  versionId: string,
+  encoding?: FileEncoding,
+  target?: BucketTarget
+): Promise<CacheResult<GetFileVersionResponse>> => {
+  return manageFiles({
+    action: 'getFileVersion',
+    ...target,
+    fileName,
+    versionId,
+    encoding
+  }) as Promise<CacheResult<GetFileVersionResponse>>;
+};
+
+export const restoreVersion = async (
+  fileName: string,
+  versionId: string,
+  target?: BucketTarget
+): Promise<CacheResult<RestoreVersionResponse>> => {
+  return manageFiles({
+    action: 'restoreVersion',
+    ...target,
+    fileName,
+    versionId
+  }) as Promise<CacheResult<RestoreVersionResponse>>;
+};
+
+export const headObject = async (
+  fileName: string,
+  target?: BucketTarget
+): Promise<CacheResult<HeadObjectResponse>> => {
+  return manageFiles({
+    action: 'headObject',
+    ...target,
+    fileName
+  }) as Promise<CacheResult<HeadObjectResponse>>;
+};
+
+export const updateMetadata = async (
+  fileName: string,
+  metadata: {
+    contentType?: string;
+    cacheControl?: string;
+    contentDisposition?: string;
+    contentEncoding?: string;
+    metadata?: Record<string, string>;
+  },
+  target?: BucketTarget
+): Promise<CacheResult<UpdateMetadataResponse>> => {
+  return manageFiles({
+    action: 'updateMetadata',
+    ...target,
+    fileName,
+    ...metadata
+  }) as Promise<CacheResult<UpdateMetadataResponse>>;
+};
+
+export const getTags = async (
+  fileName: string,
+  target?: BucketTarget
+): Promise<CacheResult<GetTagsResponse>> => {
+  return manageFiles({
+    action: 'getTags',
+    ...target,
+    fileName
+  }) as Promise<CacheResult<GetTagsResponse>>;
+};
+
+export const putTags = async (
+  fileName: string,
+  tags: ObjectTag[],
+  target?: BucketTarget
+): Promise<CacheResult<PutTagsResponse>> => {
+  return manageFiles({
+    action: 'putTags',
+    ...target,
+    fileName,
+    tags
+  }) as Promise<CacheResult<PutTagsResponse>>;
+};
+
+export const listProfiles = async (): Promise<CacheResult<ListProfilesResponse>> => {
+  return manageFiles({
+    action: 'listProfiles'
+  }) as Promise<CacheResult<ListProfilesResponse>>;
+};
+
+export const listBuckets = async (
+  profileId?: string
+): Promise<CacheResult<ListBucketsResponse>> => {
+  return manageFiles({
+    action: 'listBuckets',
+    profileId
+  }) as Promise<CacheResult<ListBucketsResponse>>;
+};
+
+export const searchFiles = async (
+  prefix: string,
+  query: SearchQuery,
+  options: { pageSize?: number; continuationToken?: string } = {},
+  target?: BucketTarget
+): Promise<CacheResult<SearchResponse>> => {
+  return manageFiles({
+    action: 'search',
+    ...target,
+    prefix,
+    query,
+    pageSize: options.pageSize,
+    continuationToken: options.continuationToken
+  }) as Promise<CacheResult<SearchResponse>>;
+};
+
+export const grepFiles = async (
+  prefix: string,
+  pattern: string,
+  options: {
+    isRegex?: boolean;
+    caseSensitive?: boolean;
+    maxObjectSize?: number;
+    concurrency?: number;
+    continuationToken?: string;
+  } = {},
+  target?: BucketTarget
+): Promise<CacheResult<GrepResponse>> => {
+  return manageFiles({
+    action: 'grep',
+    ...target,
+    prefix,
+    pattern,
+    ...options
+  }) as Promise<CacheResult<GrepResponse>>;
+};
+
+export const zipDownload = async (
+  keys: string[],
+  options: { basePrefix?: string; fileName?: string } = {},
+  target?: BucketTarget
+): Promise<CacheResult<ZipDownloadResponse>> => {
+  return manageFilesInBackground({
+    action: 'zipDownload',
+    ...target,
+    keys,
+    basePrefix: options.basePrefix,
+    fileName: options.fileName
+  }, `Zip ${options.fileName || (keys.length === 1 ? keys[0] : `${keys.length} items`)}`) as Promise<CacheResult<ZipDownloadResponse>>;
+};
+
+export const extractArchive = async (
+  archiveKey: string,
+  destinationPrefix: string,
+  options: { conflictPolicy?: ExtractConflictPolicy; deleteArchive?: boolean } = {},
+  target?: BucketTarget
+): Promise<CacheResult<ExtractArchiveResponse>> => {
+  return manageFiles({
+    action: 'extractArchive',
+    ...target,
+    archiveKey,
+    destinationPrefix,
+    conflictPolicy: options.conflictPolicy,
+    deleteArchive: options.deleteArchive
+  }) as Promise<CacheResult<ExtractArchiveResponse>>;
+};
+
+export const getExtractJob = async (
+  jobId: string,
+  target?: BucketTarget
+): Promise<CacheResult<GetExtractJobResponse>> => {
+  return manageFiles({
+    action: 'getExtractJob',
+    ...target,
+    jobId
+  }) as Promise<CacheResult<GetExtractJobResponse>>;
+};
+
+export const cancelExtractJob = async (
+  jobId: string,
+  target?: BucketTarget
+): Promise<CacheResult<CancelExtractJobResponse>> => {
+  return manageFiles({
+    action: 'cancelExtractJob',
+    ...target,
+    jobId
+  }) as Promise<CacheResult<CancelExtractJobResponse>>;
+};
+
+export const getPreviewUrl = async (
+  fileName: string,
+  contentType?: string,
+  target?: BucketTarget
+): Promise<CacheResult<GetPreviewUrlResponse>> => {
+  return manageFiles({
+    action: 'getPreviewUrl',
+    ...target,
+    fileName,
+    contentType
+  }) as Promise<CacheResult<GetPreviewUrlResponse>>;
+};
+
+// Move files, or folders with everything under them, to another storage class
+export const changeStorageClass = async (
+  keys: string[],
+  storageClass: StorageClassOption,
+  target?: BucketTarget
+): Promise<CacheResult<ChangeStorageClassResponse>> => {
+  return manageFilesInBackground({
+    action: 'changeStorageClass',
+    ...target,
+    keys,
+    storageClass
+  }, `Move ${keys.length === 1 ? keys[0] : `${keys.length} items`} to ${storageClass}`) as Promise<CacheResult<ChangeStorageClassResponse>>;
+};
+
+export const restoreArchivedFile = async (
+  fileName: string,
+  days?: number,
+  tier?: RestoreTier,
+  target?: BucketTarget
+): Promise<CacheResult<RestoreArchivedFileResponse>> => {
+  return manageFiles({
+    action: 'restoreArchivedFile',
+    ...target,
+    fileName,
+    days,
+    tier
+  }) as Promise<CacheResult<RestoreArchivedFileResponse>>;
+};
+
+// Versioning, lifecycle rules, CORS rules and policy of the bucket
+export const getBucketSettings = async (
+  target?: BucketTarget
+): Promise<CacheResult<GetBucketSettingsResponse>> => {
+  return manageFiles({
+    action: 'getBucketSettings',
+    ...target
+  }) as Promise<CacheResult<GetBucketSettingsResponse>>;
+};
+
+export const updateBucketVersioning = async (
+  status: 'Enabled' | 'Suspended',
+  target?: BucketTarget
+): Promise<CacheResult<UpdateBucketVersioningResponse>> => {
+  return manageFiles({
+    action: 'updateBucketVersioning',
+    ...target,
+    status
+  }) as Promise<CacheResult<UpdateBucketVersioningResponse>>;
+};
+
+export const updateBucketLifecycle = async (
+  rules: LifecycleRule[],
+  target?: BucketTarget
+): Promise<CacheResult<UpdateBucketLifecycleResponse>> => {
+  return manageFiles({
+    action: 'updateBucketLifecycle',
+    ...target,
+    rules
+  }) as Promise<CacheResult<UpdateBucketLifecycleResponse>>;
+};
+
+export const updateBucketCors = async (
+  rules: CorsRule[],
+  target?: BucketTarget
+): Promise<CacheResult<UpdateBucketCorsResponse>> => {
+  return manageFiles({
+    action: 'updateBucketCors',
+    ...target,
+    rules
+  }) as Promise<CacheResult<UpdateBucketCorsResponse>>;
+};
+
+// Replace the bucket policy, null removes it
+export const updateBucketPolicy = async (
+  policy: BucketPolicy | null,
+  target?: BucketTarget
+): Promise<CacheResult<UpdateBucketPolicyResponse>> => {
+  return manageFiles({
+    action: 'updateBucketPolicy',
+    ...target,
+    policy
+  }) as Promise<CacheResult<UpdateBucketPolicyResponse>>;
+};
+
+// Create a pre-signed link to a file and record it in the bucket's link registry
+export const createShareLink = async (
+  fileName: string,
+  options: { expiresIn: number; forceDownload?: boolean; downloadName?: string; sharedBy?: string },
+  target?: BucketTarget
+): Promise<CacheResult<CreateShareLinkResponse>> => {
+  return manageFiles({
+    action: 'createShareLink',
+    ...target,
+    fileName,
+    expiresIn: options.expiresIn,
+    forceDownload: options.forceDownload,
+    downloadName: options.downloadName,
+    sharedBy: options.sharedBy
+  }) as Promise<CacheResult<CreateShareLinkResponse>>;
+};
+
+export const listShareLinks = async (
+  target?: BucketTarget
+): Promise<CacheResult<ListShareLinksResponse>> => {
+  return manageFiles({
+    action: 'listShareLinks',
+    ...target
+  }) as Promise<CacheResult<ListShareLinksResponse>>;
+};
+
+// Sync a folder of the target bucket into another folder, bucket or profile in the background
+export const startSync = async (
+  sourcePrefix: string,
+  destination: SyncLocation,
+  options: { deleteExtraneous?: boolean; dryRun?: boolean } = {},
+  target?: BucketTarget
+): Promise<CacheResult<StartSyncResponse>> => {
+  return manageFiles({
+    action: 'startSync',
+    ...target,
+    sourcePrefix,
+    destination,
+    deleteExtraneous: options.deleteExtraneous,
+    dryRun: options.dryRun
+  }) as Promise<CacheResult<StartSyncResponse>>;
+};
+
+export const getSyncJob = async (
+  jobId: string,
+  target?: BucketTarget
+): Promise<CacheResult<GetSyncJobResponse>> => {
+  return manageFiles({
+    action: 'getSyncJob',
+    ...target,
+    jobId
+  }) as Promise<CacheResult<GetSyncJobResponse>>;
+};
+
+export const cancelSyncJob = async (
+  jobId: string,
+  target?: BucketTarget
+): Promise<CacheResult<CancelSyncJobResponse>> => {
+  return manageFiles({
+    action: 'cancelSyncJob',
+    ...target,
+    jobId
+  }) as Promise<CacheResult<CancelSyncJobResponse>>;
 };
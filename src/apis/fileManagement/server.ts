@@ -6,7 +6,35 @@ import {
   WriteFileResponse,
   DeleteFileResponse,
   CreateFolderResponse,
-  DeleteFolderResponse
+  DeleteFolderResponse,
+  GetUploadUrlResponse,
+  ConfirmUploadResponse,
+  CreateMultipartUploadResponse,
+  SignUploadPartsResponse,
+  ListUploadPartsResponse,
+  CheckExistsResponse,
+  TransferResponse,
+  DeleteManyResponse,
+  ListVersionsResponse,
+  GetFileVersionResponse,
+  HeadObjectResponse,
+  UpdateMetadataResponse,
+  GetTagsResponse,
+  PutTagsResponse,
+  ListProfilesResponse,
+  ListBucketsResponse,
+  SearchResponse,
+  GrepResponse,
+  ZipDownloadResponse,
+  ExtractJobResponse,
+  GetPreviewUrlResponse,
+  ChangeStorageClassResponse,
+  RestoreArchivedFileResponse,
+  GetBucketSettingsResponse,
+  UpdateBucketSettingsResponse,
+  CreateShareLinkResponse,
+  ListShareLinksResponse,
+  SyncJobResponse
 } from "./types";
 import { name } from './index';
 import {
@@ -15,8 +43,49 @@ import {
   writeFile,
   deleteFile,
   createFolder,
-  deleteFolder
+  deleteFolder,
+  getUploadUrl,
+  confirmUpload,
+  createMultipartUpload,
+  signUploadParts,
+  listUploadParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  checkExists,
+  copyItem,
+  moveItem,
+  renameItem,
+  deleteMany,
+  listVersions,
+  getFileVersion,
+  restoreVersion,
+  headObject,
+  updateMetadata,
+  getTags,
+  putTags,
+  listProfiles,
+  listBuckets,
+  search,
+  grep,
+  zipDownload,
+  extractArchive,
+  getExtractJob,
+  cancelExtractJob,
+  getPreviewUrl,
+  changeStorageClass,
+  restoreArchivedFile,
+  getBucketSettings,
+  updateBucketVersioning,
+  updateBucketLifecycle,
+  updateBucketCors,
+  updateBucketPolicy,
+  createShareLink,
+  listShareLinks,
+  startSync,
+  getSyncJob,
+  cancelSyncJob
 } from './actions';
+import { resolveS3Target } from '@/server/s3/profiles';
 
 export { name };
 
@@ -31,25 +100,150 @@ export const process = async (request: FileManagementRequest): Promise<FileManag
       } as ListFilesResponse;
     }
 
+    // Profile and bucket listings run before a bucket has been picked
+    if (request.action === 'listProfiles') {
+      return listProfiles();
+    }
+    if (request.action === 'listBuckets') {
+      return listBuckets(request);
+    }
+
+    // Every other action works in the requested profile and bucket
+    const target = resolveS3Target(request.profileId, request.bucket);
+
     // Route to the appropriate action handler
     switch (request.action) {
       case 'list':
-        return listFiles(request);
+        return listFiles(request, target);
         
       case 'getFile':
-        return getFile(request);
+        return getFile(request, target);
         
       case 'write':
-        return writeFile(request);
+        return writeFile(request, target);
         
       case 'delete':
-        return deleteFile(request);
+        return deleteFile(request, target);
         
       case 'createFolder':
-        return createFolder(request);
+        return createFolder(request, target);
         
       case 'deleteFolder':
-        return deleteFolder(request);
+        return deleteFolder(request, target);
+        
+      case 'getUploadUrl':
+        return getUploadUrl(request, target);
+        
+      case 'confirmUpload':
+        return confirmUpload(request, target);
+        
+      case 'createMultipartUpload':
+        return createMultipartUpload(request, target);
+        
+      case 'signUploadParts':
+        return signUploadParts(request, target);
+        
+      case 'listUploadParts':
+        return listUploadParts(request, target);
+        
+      case 'completeMultipartUpload':
+        return completeMultipartUpload(request, target);
+        
+      case 'abortMultipartUpload':
+        return abortMultipartUpload(request, target);
+        
+      case 'checkExists':
+        return checkExists(request, target);
+        
+      case 'copy':
+        return copyItem(request, target);
+        
+      case 'move':
+        return moveItem(request, target);
+        
+      case 'rename':
+        return renameItem(request, target);
+        
+      case 'deleteMany':
+        return deleteMany(request, target);
+        
+      case 'listVersions':
+        return listVersions(request, target);
+        
+      case 'getFileVersion':
+        return getFileVersion(request, target);
+        
+      case 'restoreVersion':
+        return restoreVersion(request, target);
+        
+      case 'headObject':
+        return headObject(request, target);
+        
+      case 'updateMetadata':
+        return updateMetadata(request, target);
+        
+      case 'getTags':
+        return getTags(request, target);
+        
+      case 'putTags':
+        return putTags(request, target);
+        
+      case 'search':
+        return search(request, target);
+        
+      case 'grep':
+        return grep(request, target);
+        
+      case 'zipDownload':
+        return zipDownload(request, target);
+        
+      case 'extractArchive':
+        return extractArchive(request, target);
+        
+      case 'getExtractJob':
+        return getExtractJob(request);
+        
+      case 'cancelExtractJob':
+        return cancelExtractJob(request);
+        
+      case 'getPreviewUrl':
+        return getPreviewUrl(request, target);
+        
+      case 'changeStorageClass':
+        return changeStorageClass(request, target);
+        
+      case 'restoreArchivedFile':
+        return restoreArchivedFile(request, target);
+        
+      case 'getBucketSettings':
+        return getBucketSettings(request, target);
+        
+      case 'updateBucketVersioning':
+        return updateBucketVersioning(request, target);
+        
+      case 'updateBucketLifecycle':
+        return updateBucketLifecycle(request, target);
+        
+      case 'updateBucketCors':
+        return updateBucketCors(request, target);
+        
+      case 'updateBucketPolicy':
+        return updateBucketPolicy(request, target);
+        
+      case 'createShareLink':
+        return createShareLink(request, target);
+        
+      case 'listShareLinks':
+        return listShareLinks(request, target);
+        
+      case 'startSync':
+        return startSync(request, target);
+        
+      case 'getSyncJob':
+        return getSyncJob(request);
+        
+      case 'cancelSyncJob':
+        return cancelSyncJob(request);
         
       default: {
         // In TypeScript's control flow analysis, by the time we reach this default case,
@@ -80,17 +274,209 @@ export const process = async (request: FileManagementRequest): Promise<FileManag
         
       case 'write':
       case 'createFolder':
+      case 'completeMultipartUpload':
+      case 'restoreVersion':
         return {
           key: "",
           error: error instanceof Error ? error.message : String(error)
         } as WriteFileResponse | CreateFolderResponse;
         
       case 'delete':
+      case 'abortMultipartUpload':
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        } as DeleteFileResponse;
+        
       case 'deleteFolder':
+      case 'deleteMany':
         return {
           success: false,
+          deleted: [],
+          failed: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as DeleteFolderResponse | DeleteManyResponse;
+        
+      case 'getUploadUrl':
+        return {
+          url: "",
+          key: "",
+          contentType: "",
+          expiresIn: 0,
+          error: error instanceof Error ? error.message : String(error)
+        } as GetUploadUrlResponse;
+        
+      case 'confirmUpload':
+        return {
+          file: null,
+          error: error instanceof Error ? error.message : String(error)
+        } as ConfirmUploadResponse;
+        
+      case 'createMultipartUpload':
+        return {
+          uploadId: "",
+          key: "",
+          error: error instanceof Error ? error.message : String(error)
+        } as CreateMultipartUploadResponse;
+        
+      case 'signUploadParts':
+        return {
+          urls: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as SignUploadPartsResponse;
+        
+      case 'listUploadParts':
+        return {
+          parts: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as ListUploadPartsResponse;
+        
+      case 'checkExists':
+        return {
+          existing: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as CheckExistsResponse;
+        
+      case 'listVersions':
+        return {
+          versions: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as ListVersionsResponse;
+        
+      case 'getFileVersion':
+        return {
+          content: "",
+          versionId: "",
+          error: error instanceof Error ? error.message : String(error)
+        } as GetFileVersionResponse;
+        
+      case 'headObject':
+      case 'updateMetadata':
+        return {
+          properties: null,
+          error: error instanceof Error ? error.message : String(error)
+        } as HeadObjectResponse | UpdateMetadataResponse;
+        
+      case 'getTags':
+        return {
+          tags: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as GetTagsResponse;
+        
+      case 'putTags':
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        } as PutTagsResponse;
+        
+      case 'copy':
+      case 'move':
+      case 'rename':
+        return {
+          key: "",
+          transferred: 0,
+          failed: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as TransferResponse;
+        
+      case 'listProfiles':
+        return {
+          profiles: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as ListProfilesResponse;
+        
+      case 'listBuckets':
+        return {
+          buckets: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as ListBucketsResponse;
+        
+      case 'search':
+        return {
+          files: [],
+          scannedCount: 0,
+          error: error instanceof Error ? error.message : String(error)
+        } as SearchResponse;
+        
+      case 'grep':
+        return {
+          matches: [],
+          scannedCount: 0,
+          skippedCount: 0,
+          error: error instanceof Error ? error.message : String(error)
+        } as GrepResponse;
+        
+      case 'zipDownload':
+        return {
+          url: "",
+          fileName: "",
+          fileCount: 0,
+          size: 0,
+          expiresIn: 0,
+          error: error instanceof Error ? error.message : String(error)
+        } as ZipDownloadResponse;
+        
+      case 'extractArchive':
+      case 'getExtractJob':
+      case 'cancelExtractJob':
+        return {
+          error: error instanceof Error ? error.message : String(error)
+        } as ExtractJobResponse;
+        
+      case 'getPreviewUrl':
+        return {
+          url: "",
+          expiresIn: 0,
+          error: error instanceof Error ? error.message : String(error)
+        } as GetPreviewUrlResponse;
+        
+      case 'changeStorageClass':
+        return {
+          changed: 0,
+          unchanged: 0,
+          failed: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as ChangeStorageClassResponse;
+        
+      case 'restoreArchivedFile':
+        return {
+          restore: null,
+          error: error instanceof Error ? error.message : String(error)
+        } as RestoreArchivedFileResponse;
+        
+      case 'getBucketSettings':
+        return {
+          settings: null,
+          error: error instanceof Error ? error.message : String(error)
+        } as GetBucketSettingsResponse;
+        
+      case 'updateBucketVersioning':
+      case 'updateBucketLifecycle':
+      case 'updateBucketCors':
+      case 'updateBucketPolicy':
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        } as UpdateBucketSettingsResponse;
+        
+      case 'createShareLink':
+        return {
+          link: null,
+          error: error instanceof Error ? error.message : String(error)
+        } as CreateShareLinkResponse;
+        
+      case 'listShareLinks':
+        return {
+          links: [],
+          error: error instanceof Error ? error.message : String(error)
+        } as ListShareLinksResponse;
+        
+      case 'startSync':
+      case 'getSyncJob':
+      case 'cancelSyncJob':
+        return {
           error: error instanceof Error ? error.message : String(error)
-        } as DeleteFileResponse | DeleteFolderResponse;
+        } as SyncJobResponse;
         
       default: {
         // In TypeScript's control flow analysis, by the time we reach this default case,
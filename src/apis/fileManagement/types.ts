@@ -1,28 +1,322 @@
 // Types for file management API
 
+// A part of a multipart upload as reported by S3
+export type UploadPart = {
+  partNumber: number;
+  etag: string;
+  size?: number;
+};
+
+// Storage classes files can be moved between. GLACIER files are archived:
+// their content can only be read after a restore.
+export type StorageClassOption = 'STANDARD' | 'STANDARD_IA' | 'GLACIER';
+
+// How fast an archived file is restored: Expedited (minutes), Standard (hours) or Bulk (up to 12 hours)
+export type RestoreTier = 'Expedited' | 'Standard' | 'Bulk';
+
+// State of a restore requested for an archived file
+export type RestoreStatus = {
+  // The restored copy is still being prepared
+  ongoing: boolean;
+  // When a finished restore is removed again
+  expiryDate?: Date;
+};
+
+// Bucket settings use the JSON shapes of the S3 API and AWS CLI, so documents can be
+// copied between the editor and `aws s3api`. Dates are ISO strings.
+
+// 'Unversioned' buckets never had versioning enabled; once enabled it can only be suspended
+export type BucketVersioningStatus = 'Enabled' | 'Suspended' | 'Unversioned';
+
+export type LifecycleTag = {
+  Key: string;
+  Value: string;
+};
+
+// Which objects a lifecycle rule applies to; an empty filter matches the whole bucket
+export type LifecycleRuleFilter = {
+  Prefix?: string;
+  Tag?: LifecycleTag;
+  ObjectSizeGreaterThan?: number;
+  ObjectSizeLessThan?: number;
+  // Several conditions that must all match
+  And?: {
+    Prefix?: string;
+    Tags?: LifecycleTag[];
+    ObjectSizeGreaterThan?: number;
+    ObjectSizeLessThan?: number;
+  };
+};
+
+export type LifecycleTransition = {
+  Days?: number;
+  Date?: string;
+  StorageClass: string;
+};
+
+export type LifecycleRule = {
+  ID?: string;
+  Status: 'Enabled' | 'Disabled';
+  Filter?: LifecycleRuleFilter;
+  // Filter of older configurations, replaced by Filter.Prefix
+  Prefix?: string;
+  Expiration?: {
+    Days?: number;
+    Date?: string;
+    ExpiredObjectDeleteMarker?: boolean;
+  };
+  Transitions?: LifecycleTransition[];
+  NoncurrentVersionExpiration?: {
+    NoncurrentDays?: number;
+    NewerNoncurrentVersions?: number;
+  };
+  NoncurrentVersionTransitions?: {
+    NoncurrentDays?: number;
+    NewerNoncurrentVersions?: number;
+    StorageClass: string;
+  }[];
+  AbortIncompleteMultipartUpload?: {
+    DaysAfterInitiation?: number;
+  };
+};
+
+export type CorsRule = {
+  ID?: string;
+  AllowedOrigins: string[];
+  AllowedMethods: string[];
+  AllowedHeaders?: string[];
+  ExposeHeaders?: string[];
+  MaxAgeSeconds?: number;
+};
+
+// Principal, Action and Resource take a single value or a list
+export type PolicyStatement = {
+  Sid?: string;
+  Effect: 'Allow' | 'Deny';
+  Principal?: string | Record<string, string | string[]>;
+  NotPrincipal?: string | Record<string, string | string[]>;
+  Action?: string | string[];
+  NotAction?: string | string[];
+  Resource?: string | string[];
+  NotResource?: string | string[];
+  Condition?: Record<string, Record<string, unknown>>;
+};
+
+export type BucketPolicy = {
+  Version?: string;
+  Id?: string;
+  Statement: PolicyStatement[];
+};
+
+export type BucketSettings = {
+  versioning: BucketVersioningStatus;
+  lifecycleRules: LifecycleRule[];
+  corsRules: CorsRule[];
+  // null when the bucket has no policy
+  policy: BucketPolicy | null;
+};
+
+export type BucketSettingsSection = 'versioning' | 'lifecycle' | 'cors' | 'policy';
+
+// A pre-signed link handed out for a file, as recorded in the bucket's link registry
+export type ShareLink = {
+  id: string;
+  key: string;
+  url: string;
+  // Served as an attachment instead of shown in the browser
+  forceDownload: boolean;
+  // File name sent in the Content-Disposition header
+  downloadName?: string;
+  // Name entered by whoever shared the file
+  sharedBy?: string;
+  createdAt: Date;
+  expiresAt: Date;
+};
+
+// One side of a sync: a folder in a bucket of a profile
+export type SyncLocation = BucketTarget & {
+  // Folder to sync, '' for the whole bucket
+  prefix: string;
+};
+
+export type SyncChangeType = 'add' | 'update' | 'delete';
+
+// A file a sync copies or deletes
+export type SyncChange = {
+  type: SyncChangeType;
+  // Key below the synced folders, the same on both sides
+  key: string;
+  // Size of the source file, or of the destination file for deletes
+  size: number;
+  // Why an existing file is copied again, e.g. "size differs"
+  reason?: string;
+};
+
 export type FileInfo = {
   key: string;
   size: number;
   lastModified: Date;
   isFolder: boolean;
   fileCount?: number;
+  // Files only
+  storageClass?: string;
+  restore?: RestoreStatus;
 };
 
+// A stored version of a file (the bucket must have versioning enabled)
+export type FileVersion = {
+  versionId: string;
+  size: number;
+  lastModified: Date;
+  isLatest: boolean;
+  // The file was deleted at this point, there is no content to show
+  isDeleteMarker: boolean;
+};
+
+// System and user metadata of a stored object
+export type ObjectProperties = {
+  key: string;
+  size: number;
+  lastModified: Date;
+  etag?: string;
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  storageClass?: string;
+  // Set once a restore was requested for an archived file
+  restore?: RestoreStatus;
+  // The file is archived and not restored, so its content cannot be read
+  archived: boolean;
+  versionId?: string;
+  // User metadata (x-amz-meta-* headers) without the prefix
+  metadata: Record<string, string>;
+};
+
+export type ObjectTag = {
+  key: string;
+  value: string;
+};
+
+// How a search pattern is matched against keys
+export type SearchMatchType = 'contains' | 'glob' | 'regex';
+
+// What to look for in a search; every given filter has to match
+export type SearchQuery = {
+  // Text, glob (e.g. "**/*.pdf") or regular expression, depending on matchType
+  pattern?: string;
+  // Defaults to 'contains'
+  matchType?: SearchMatchType;
+  caseSensitive?: boolean;
+  // Size range in bytes
+  minSize?: number;
+  maxSize?: number;
+  // Modified date range as ISO strings
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  // Extensions with or without the leading dot, e.g. ["pdf", ".png"]
+  extensions?: string[];
+};
+
+// A line of an object that matches a grep pattern
+export type GrepLine = {
+  lineNumber: number;
+  // The line, shortened around the match when it is long
+  snippet: string;
+  // Position of the first match within the snippet
+  matchStart: number;
+  matchEnd: number;
+};
+
+// An object whose content matches a grep pattern
+export type GrepMatch = {
+  key: string;
+  size: number;
+  lastModified: Date;
+  // The first matching lines
+  lines: GrepLine[];
+  // Number of matching lines, including the ones not returned
+  lineCount: number;
+};
+
+// A server-side S3 connection profile. Credentials never leave the server.
+export type ConnectionProfile = {
+  id: string;
+  name: string;
+  region: string;
+  // Custom endpoint of an S3-compatible service
+  endpoint?: string;
+  defaultBucket?: string;
+  // When set, only these buckets can be used with the profile
+  buckets?: string[];
+  // Folder of the bucket the profile is confined to; keys are relative to it
+  rootPrefix?: string;
+};
+
+export type BucketInfo = {
+  name: string;
+  creationDate?: Date;
+};
+
+// Profile and bucket a client call runs against, both optional
+export type BucketTarget = {
+  profileId?: string;
+  bucket?: string;
+};
+
+// How file content is encoded in request and response payloads.
+// Use 'base64' for binary files so bytes survive the JSON round trip.
+export type FileEncoding = 'utf-8' | 'base64';
+
 // Base request type
 export type FileManagementBaseRequest = {
-  action: 'list' | 'write' | 'delete' | 'createFolder' | 'deleteFolder' | 'getFile';
+  action: 'list' | 'write' | 'delete' | 'createFolder' | 'deleteFolder' | 'getFile'
+    | 'getUploadUrl' | 'confirmUpload'
+    | 'createMultipartUpload' | 'signUploadParts' | 'listUploadParts'
+    | 'completeMultipartUpload' | 'abortMultipartUpload'
+    | 'checkExists'
+    | 'copy' | 'move' | 'rename'
+    | 'deleteMany'
+    | 'listVersions' | 'getFileVersion' | 'restoreVersion'
+    | 'headObject' | 'updateMetadata' | 'getTags' | 'putTags'
+    | 'listProfiles' | 'listBuckets'
+    | 'search' | 'grep'
+    | 'zipDownload'
+    | 'extractArchive' | 'getExtractJob' | 'cancelExtractJob'
+    | 'getPreviewUrl'
+    | 'changeStorageClass' | 'restoreArchivedFile'
+    | 'getBucketSettings' | 'updateBucketVersioning' | 'updateBucketLifecycle'
+    | 'updateBucketCors' | 'updateBucketPolicy'
+    | 'createShareLink' | 'listShareLinks'
+    | 'startSync' | 'getSyncJob' | 'cancelSyncJob';
+  // Connection profile to use, defaults to the profile built from the AWS_* environment
+  profileId?: string;
+  // Bucket to work in, defaults to the profile's default bucket
+  bucket?: string;
 };
 
 // List files request
 export type ListFilesRequest = FileManagementBaseRequest & {
   action: 'list';
   prefix?: string;
+  // Maximum number of entries to return in this page (1-1000)
+  pageSize?: number;
+  // Cursor returned as nextContinuationToken by the previous page
+  continuationToken?: string;
+  // Recompute folder stats instead of reading them from the persisted index
+  refreshStats?: boolean;
 };
 
 // Get file content request
 export type GetFileRequest = FileManagementBaseRequest & {
   action: 'getFile';
   fileName: string;
+  encoding?: FileEncoding;
+  // Read `length` bytes from `offset` instead of the whole file
+  offset?: number;
+  length?: number;
+  // Read only the last N lines of the file
+  tailLines?: number;
 };
 
 // Write file request
@@ -31,6 +325,7 @@ export type WriteFileRequest = FileManagementBaseRequest & {
   fileName: string;
   content: string;
   contentType?: string;
+  encoding?: FileEncoding;
 };
 
 // Delete file request
@@ -51,6 +346,318 @@ export type DeleteFolderRequest = FileManagementBaseRequest & {
   folderName: string;
 };
 
+// Get a pre-signed URL for uploading directly from the browser
+export type GetUploadUrlRequest = FileManagementBaseRequest & {
+  action: 'getUploadUrl';
+  fileName: string;
+  contentType?: string;
+  // URL lifetime in seconds
+  expiresIn?: number;
+};
+
+// Confirm that a direct upload reached the bucket
+export type ConfirmUploadRequest = FileManagementBaseRequest & {
+  action: 'confirmUpload';
+  fileName: string;
+  expectedSize?: number;
+};
+
+// Start a multipart upload
+export type CreateMultipartUploadRequest = FileManagementBaseRequest & {
+  action: 'createMultipartUpload';
+  fileName: string;
+  contentType?: string;
+};
+
+// Get pre-signed URLs for uploading parts of a multipart upload
+export type SignUploadPartsRequest = FileManagementBaseRequest & {
+  action: 'signUploadParts';
+  fileName: string;
+  uploadId: string;
+  partNumbers: number[];
+  // URL lifetime in seconds
+  expiresIn?: number;
+};
+
+// List the parts S3 already has for a multipart upload (used to resume)
+export type ListUploadPartsRequest = FileManagementBaseRequest & {
+  action: 'listUploadParts';
+  fileName: string;
+  uploadId: string;
+};
+
+// Assemble uploaded parts into the final object
+export type CompleteMultipartUploadRequest = FileManagementBaseRequest & {
+  action: 'completeMultipartUpload';
+  fileName: string;
+  uploadId: string;
+  parts: UploadPart[];
+};
+
+// Abort a multipart upload and discard its parts
+export type AbortMultipartUploadRequest = FileManagementBaseRequest & {
+  action: 'abortMultipartUpload';
+  fileName: string;
+  uploadId: string;
+};
+
+// Check which of the given keys already exist (e.g. before uploading)
+export type CheckExistsRequest = FileManagementBaseRequest & {
+  action: 'checkExists';
+  keys: string[];
+};
+
+// Delete several files and folders in one request (folder keys end in '/')
+export type DeleteManyRequest = FileManagementBaseRequest & {
+  action: 'deleteMany';
+  keys: string[];
+};
+
+// List the versions and delete markers of a file
+export type ListVersionsRequest = FileManagementBaseRequest & {
+  action: 'listVersions';
+  fileName: string;
+};
+
+// Get the content of a specific version of a file
+export type GetFileVersionRequest = FileManagementBaseRequest & {
+  action: 'getFileVersion';
+  fileName: string;
+  versionId: string;
+  encoding?: FileEncoding;
+};
+
+// Make an older version the current content of the file
+export type RestoreVersionRequest = FileManagementBaseRequest & {
+  action: 'restoreVersion';
+  fileName: string;
+  versionId: string;
+};
+
+// Get the properties of a file without its content
+export type HeadObjectRequest = FileManagementBaseRequest & {
+  action: 'headObject';
+  fileName: string;
+};
+
+// Replace the editable metadata of a file. Fields left out are removed from the object.
+export type UpdateMetadataRequest = FileManagementBaseRequest & {
+  action: 'updateMetadata';
+  fileName: string;
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  metadata?: Record<string, string>;
+};
+
+// Get the tags of a file
+export type GetTagsRequest = FileManagementBaseRequest & {
+  action: 'getTags';
+  fileName: string;
+};
+
+// Replace all tags of a file
+export type PutTagsRequest = FileManagementBaseRequest & {
+  action: 'putTags';
+  fileName: string;
+  tags: ObjectTag[];
+};
+
+// Copy a file, or a folder with everything under it (keys ending in '/')
+export type CopyRequest = FileManagementBaseRequest & {
+  action: 'copy';
+  sourceKey: string;
+  destinationKey: string;
+  // Replace existing objects at the destination
+  overwrite?: boolean;
+};
+
+// Move a file or folder to another key
+export type MoveRequest = FileManagementBaseRequest & {
+  action: 'move';
+  sourceKey: string;
+  destinationKey: string;
+  overwrite?: boolean;
+};
+
+// Rename a file or folder within its parent folder
+export type RenameRequest = FileManagementBaseRequest & {
+  action: 'rename';
+  sourceKey: string;
+  // New name without any path, e.g. "report.txt"
+  newName: string;
+  overwrite?: boolean;
+};
+
+// List the configured connection profiles
+export type ListProfilesRequest = FileManagementBaseRequest & {
+  action: 'listProfiles';
+};
+
+// List the buckets available in the profile given by profileId
+export type ListBucketsRequest = FileManagementBaseRequest & {
+  action: 'listBuckets';
+};
+
+// Search the keys under a prefix (or the whole bucket), one page of matches at a time
+export type SearchRequest = FileManagementBaseRequest & {
+  action: 'search';
+  // Folder to search in, empty for the whole bucket
+  prefix?: string;
+  query: SearchQuery;
+  // Maximum number of matches to return in this page (1-1000)
+  pageSize?: number;
+  // Token from the previous page of the same search
+  continuationToken?: string;
+};
+
+// Search the content of the text objects under a prefix, one batch of objects at a time
+export type GrepRequest = FileManagementBaseRequest & {
+  action: 'grep';
+  // Folder to search in, empty for the whole bucket
+  prefix?: string;
+  pattern: string;
+  // Treat the pattern as a regular expression instead of a literal
+  isRegex?: boolean;
+  caseSensitive?: boolean;
+  // Larger objects are skipped, in bytes (default 1 MB, at most 20 MB)
+  maxObjectSize?: number;
+  // Number of objects read at the same time (default 8, at most 32)
+  concurrency?: number;
+  // Token from the previous page of the same search
+  continuationToken?: string;
+};
+
+// Build a zip archive of folders and files and get a link to download it
+export type ZipDownloadRequest = FileManagementBaseRequest & {
+  action: 'zipDownload';
+  // Folder prefixes (ending in "/") and file keys to include
+  keys: string[];
+  // Entry names are relative to this folder, defaults to the common parent of the keys
+  basePrefix?: string;
+  // Name of the downloaded file, defaults to the folder name
+  fileName?: string;
+};
+
+// What to do with archive entries whose key already exists
+export type ExtractConflictPolicy = 'skip' | 'overwrite' | 'rename';
+
+// Extract a .zip, .tar, .tar.gz or .tgz archive from the bucket into a folder.
+// The extraction runs in the background; poll it with getExtractJob.
+export type ExtractArchiveRequest = FileManagementBaseRequest & {
+  action: 'extractArchive';
+  archiveKey: string;
+  // Folder to extract into, '' for the root
+  destinationPrefix: string;
+  // Defaults to 'skip'
+  conflictPolicy?: ExtractConflictPolicy;
+  // Remove the archive afterwards, e.g. when it was only uploaded to be extracted
+  deleteArchive?: boolean;
+};
+
+export type GetExtractJobRequest = FileManagementBaseRequest & {
+  action: 'getExtractJob';
+  jobId: string;
+};
+
+export type CancelExtractJobRequest = FileManagementBaseRequest & {
+  action: 'cancelExtractJob';
+  jobId: string;
+};
+
+// Get a short-lived link that shows a file in the browser, for media and PDF previews
+export type GetPreviewUrlRequest = FileManagementBaseRequest & {
+  action: 'getPreviewUrl';
+  fileName: string;
+  // Serve the file with this type instead of the stored one
+  contentType?: string;
+};
+
+// Move files, or folders with everything under them, to another storage class
+export type ChangeStorageClassRequest = FileManagementBaseRequest & {
+  action: 'changeStorageClass';
+  keys: string[];
+  storageClass: StorageClassOption;
+};
+
+// Ask for a temporary readable copy of an archived file
+export type RestoreArchivedFileRequest = FileManagementBaseRequest & {
+  action: 'restoreArchivedFile';
+  fileName: string;
+  // How long the restored copy is kept, 7 days by default
+  days?: number;
+  // Defaults to 'Standard'
+  tier?: RestoreTier;
+};
+
+export type GetBucketSettingsRequest = FileManagementBaseRequest & {
+  action: 'getBucketSettings';
+};
+
+export type UpdateBucketVersioningRequest = FileManagementBaseRequest & {
+  action: 'updateBucketVersioning';
+  status: 'Enabled' | 'Suspended';
+};
+
+// Replaces every lifecycle rule; an empty list removes the configuration
+export type UpdateBucketLifecycleRequest = FileManagementBaseRequest & {
+  action: 'updateBucketLifecycle';
+  rules: LifecycleRule[];
+};
+
+// Replaces every CORS rule; an empty list removes the configuration
+export type UpdateBucketCorsRequest = FileManagementBaseRequest & {
+  action: 'updateBucketCors';
+  rules: CorsRule[];
+};
+
+export type UpdateBucketPolicyRequest = FileManagementBaseRequest & {
+  action: 'updateBucketPolicy';
+  // null removes the policy
+  policy: BucketPolicy | null;
+};
+
+// Create a pre-signed link to a file and record it in the link registry
+export type CreateShareLinkRequest = FileManagementBaseRequest & {
+  action: 'createShareLink';
+  fileName: string;
+  // Seconds the link stays valid, at most 7 days
+  expiresIn: number;
+  forceDownload?: boolean;
+  downloadName?: string;
+  sharedBy?: string;
+};
+
+// Links of the bucket that have not expired yet
+export type ListShareLinksRequest = FileManagementBaseRequest & {
+  action: 'listShareLinks';
+};
+
+// Make a folder of another bucket or profile match a folder of this bucket: missing files are
+// copied, changed ones (by size, ETag or modification time) copied again and, with
+// deleteExtraneous, files the source does not have are deleted. Runs in the background; poll it
+// with getSyncJob. A dry run only reports the changes.
+export type StartSyncRequest = FileManagementBaseRequest & {
+  action: 'startSync';
+  // Folder of the request's bucket to copy from, '' for the whole bucket
+  sourcePrefix: string;
+  // Profile and bucket default to the request's
+  destination: SyncLocation;
+  deleteExtraneous?: boolean;
+  dryRun?: boolean;
+};
+
+export type GetSyncJobRequest = FileManagementBaseRequest & {
+  action: 'getSyncJob';
+  jobId: string;
+};
+
+export type CancelSyncJobRequest = FileManagementBaseRequest & {
+  action: 'cancelSyncJob';
+  jobId: string;
+};
+
 // Combined request type
 export type FileManagementRequest = 
   | ListFilesRequest
@@ -58,17 +665,65 @@ export type FileManagementRequest =
   | WriteFileRequest
   | DeleteFileRequest
   | CreateFolderRequest
-  | DeleteFolderRequest;
+  | DeleteFolderRequest
+  | GetUploadUrlRequest
+  | ConfirmUploadRequest
+  | CreateMultipartUploadRequest
+  | SignUploadPartsRequest
+  | ListUploadPartsRequest
+  | CompleteMultipartUploadRequest
+  | AbortMultipartUploadRequest
+  | CheckExistsRequest
+  | CopyRequest
+  | MoveRequest
+  | RenameRequest
+  | DeleteManyRequest
+  | ListVersionsRequest
+  | GetFileVersionRequest
+  | RestoreVersionRequest
+  | HeadObjectRequest
+  | UpdateMetadataRequest
+  | GetTagsRequest
+  | PutTagsRequest
+  | ListProfilesRequest
+  | ListBucketsRequest
+  | SearchRequest
+  | GrepRequest
+  | ZipDownloadRequest
+  | ExtractArchiveRequest
+  | GetExtractJobRequest
+  | CancelExtractJobRequest
+  | GetPreviewUrlRequest
+  | ChangeStorageClassRequest
+  | RestoreArchivedFileRequest
+  | GetBucketSettingsRequest
+  | UpdateBucketVersioningRequest
+  | UpdateBucketLifecycleRequest
+  | UpdateBucketCorsRequest
+  | UpdateBucketPolicyRequest
+  | CreateShareLinkRequest
+  | ListShareLinksRequest
+  | StartSyncRequest
+  | GetSyncJobRequest
+  | CancelSyncJobRequest;
 
 // Response types
 export type ListFilesResponse = {
   files: FileInfo[];
+  // Present when more entries are available under the prefix
+  nextContinuationToken?: string;
   error?: string;
 };
 
 export type GetFileResponse = {
   content: string;
+  // Content type stored with the object, if any
   contentType?: string;
+  encoding?: FileEncoding;
+  // Set for range and tail reads: the bytes returned and the size of the whole object
+  offset?: number;
+  length?: number;
+  totalSize?: number;
   error?: string;
 };
 
@@ -87,11 +742,328 @@ export type CreateFolderResponse = {
   error?: string;
 };
 
+// A key that could not be deleted
+export type DeleteFailure = {
+  key: string;
+  error: string;
+};
+
 export type DeleteFolderResponse = {
+  // True when every object under the folder was deleted
+  success: boolean;
+  deleted: string[];
+  failed: DeleteFailure[];
+  error?: string;
+};
+
+export type GetUploadUrlResponse = {
+  url: string;
+  key: string;
+  // Content-Type header the upload must be sent with
+  contentType: string;
+  expiresIn: number;
+  error?: string;
+};
+
+export type ConfirmUploadResponse = {
+  file: FileInfo | null;
+  error?: string;
+};
+
+export type CreateMultipartUploadResponse = {
+  uploadId: string;
+  key: string;
+  error?: string;
+};
+
+export type SignUploadPartsResponse = {
+  urls: { partNumber: number; url: string }[];
+  error?: string;
+};
+
+export type ListUploadPartsResponse = {
+  parts: UploadPart[];
+  error?: string;
+};
+
+export type CompleteMultipartUploadResponse = {
+  key: string;
+  error?: string;
+};
+
+export type AbortMultipartUploadResponse = {
+  success: boolean;
+  error?: string;
+};
+
+export type CheckExistsResponse = {
+  existing: string[];
+  error?: string;
+};
+
+export type DeleteManyResponse = {
+  success: boolean;
+  deleted: string[];
+  failed: DeleteFailure[];
+  error?: string;
+};
+
+export type ListVersionsResponse = {
+  // Newest first
+  versions: FileVersion[];
+  error?: string;
+};
+
+export type GetFileVersionResponse = {
+  content: string;
+  versionId: string;
+  contentType?: string;
+  encoding?: FileEncoding;
+  error?: string;
+};
+
+export type RestoreVersionResponse = {
+  key: string;
+  error?: string;
+};
+
+export type HeadObjectResponse = {
+  properties: ObjectProperties | null;
+  error?: string;
+};
+
+export type UpdateMetadataResponse = {
+  // Properties after the update
+  properties: ObjectProperties | null;
+  error?: string;
+};
+
+export type GetTagsResponse = {
+  tags: ObjectTag[];
+  error?: string;
+};
+
+export type PutTagsResponse = {
   success: boolean;
   error?: string;
 };
 
+// An object that could not be copied or moved
+export type TransferFailure = {
+  key: string;
+  error: string;
+};
+
+// Result of a copy, move or rename. Folder transfers run object by object,
+// so some objects may have been transferred when others failed.
+export type TransferResponse = {
+  // Destination key of the file or folder
+  key: string;
+  // Number of objects transferred
+  transferred: number;
+  failed: TransferFailure[];
+  error?: string;
+};
+
+export type CopyResponse = TransferResponse;
+export type MoveResponse = TransferResponse;
+export type RenameResponse = TransferResponse;
+
+export type ListProfilesResponse = {
+  profiles: ConnectionProfile[];
+  error?: string;
+};
+
+export type ListBucketsResponse = {
+  buckets: BucketInfo[];
+  error?: string;
+};
+
+export type SearchResponse = {
+  // Matching files with their full keys
+  files: FileInfo[];
+  // Number of objects looked at for this page
+  scannedCount: number;
+  // Present while part of the prefix has not been searched yet
+  nextContinuationToken?: string;
+  error?: string;
+};
+
+export type GrepResponse = {
+  matches: GrepMatch[];
+  // Objects whose content was searched in this page
+  scannedCount: number;
+  // Objects skipped for being too large, binary or unreadable
+  skippedCount: number;
+  // Present while part of the prefix has not been searched yet
+  nextContinuationToken?: string;
+  error?: string;
+};
+
+export type ZipDownloadResponse = {
+  // Pre-signed link to the archive
+  url: string;
+  fileName: string;
+  // Number of files in the archive
+  fileCount: number;
+  // Size of the archive in bytes
+  size: number;
+  // Seconds until the link expires
+  expiresIn: number;
+  error?: string;
+};
+
+// An archive entry that could not be extracted
+export type ExtractFailure = {
+  // Path inside the archive
+  name: string;
+  error: string;
+};
+
+export type ExtractResult = {
+  // Files written, including renamed ones
+  extractedCount: number;
+  // Files written under a new name because the key was taken
+  renamedCount: number;
+  // Files left alone because the key was taken
+  skippedCount: number;
+  folderCount: number;
+  // Uncompressed bytes written
+  size: number;
+  failed: ExtractFailure[];
+};
+
+export type ExtractJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// A background extraction, as last seen by the server
+export type ExtractJob = {
+  id: string;
+  status: ExtractJobStatus;
+  progress: {
+    // Archive entries handled so far
+    processed: number;
+    // Bytes of the archive read so far, and its size
+    bytes: number;
+    totalBytes: number;
+    // Path of the entry being extracted
+    current?: string;
+  };
+  // Set once the job completed
+  result?: ExtractResult;
+  // Why the job failed
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+};
+
+export type ExtractJobResponse = {
+  job?: ExtractJob;
+  error?: string;
+};
+
+export type ExtractArchiveResponse = ExtractJobResponse;
+export type GetExtractJobResponse = ExtractJobResponse;
+export type CancelExtractJobResponse = ExtractJobResponse;
+
+export type GetPreviewUrlResponse = {
+  url: string;
+  // Seconds until the link expires
+  expiresIn: number;
+  error?: string;
+};
+
+// Objects are moved one by one, some may have moved when others failed
+export type ChangeStorageClassResponse = {
+  // Objects moved to the new storage class
+  changed: number;
+  // Objects that already were in it
+  unchanged: number;
+  failed: TransferFailure[];
+  error?: string;
+};
+
+export type RestoreArchivedFileResponse = {
+  restore: RestoreStatus | null;
+  error?: string;
+};
+
+export type GetBucketSettingsResponse = {
+  settings: BucketSettings | null;
+  // Sections that could not be read, e.g. for lack of permission, with the reason.
+  // Their values in settings are placeholders and must not be saved back.
+  unavailable?: Partial<Record<BucketSettingsSection, string>>;
+  error?: string;
+};
+
+export type UpdateBucketSettingsResponse = {
+  success: boolean;
+  error?: string;
+};
+
+export type UpdateBucketVersioningResponse = UpdateBucketSettingsResponse;
+export type UpdateBucketLifecycleResponse = UpdateBucketSettingsResponse;
+export type UpdateBucketCorsResponse = UpdateBucketSettingsResponse;
+export type UpdateBucketPolicyResponse = UpdateBucketSettingsResponse;
+
+export type CreateShareLinkResponse = {
+  link: ShareLink | null;
+  error?: string;
+};
+
+export type ListShareLinksResponse = {
+  // Newest first
+  links: ShareLink[];
+  error?: string;
+};
+
+export type SyncResult = {
+  dryRun: boolean;
+  addCount: number;
+  updateCount: number;
+  deleteCount: number;
+  // Files that are the same on both sides
+  unchangedCount: number;
+  // The changes in key order, cut off for very large syncs (see changesTruncated)
+  changes: SyncChange[];
+  changesTruncated: boolean;
+  // Changes carried out; 0 for a dry run
+  applied: number;
+  // Bytes copied
+  bytes: number;
+  failed: TransferFailure[];
+};
+
+// A background sync, as last seen by the server
+export type SyncJob = {
+  id: string;
+  status: ExtractJobStatus;
+  progress: {
+    // Changes applied so far, and the changes planned
+    processed: number;
+    total: number;
+    // Bytes copied so far, and the bytes to copy
+    bytes: number;
+    totalBytes: number;
+    // Key being copied
+    current?: string;
+  };
+  // Set once the job completed
+  result?: SyncResult;
+  // Why the job failed
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+};
+
+export type SyncJobResponse = {
+  job?: SyncJob;
+  error?: string;
+};
+
+export type StartSyncResponse = SyncJobResponse;
+export type GetSyncJobResponse = SyncJobResponse;
+export type CancelSyncJobResponse = SyncJobResponse;
+
 // Combined response type
 export type FileManagementResponse = 
   | ListFilesResponse
@@ -99,4 +1071,35 @@ export type FileManagementResponse =
   | WriteFileResponse
   | DeleteFileResponse
   | CreateFolderResponse
-  | DeleteFolderResponse;
+  | DeleteFolderResponse
+  | GetUploadUrlResponse
+  | ConfirmUploadResponse
+  | CreateMultipartUploadResponse
+  | SignUploadPartsResponse
+  | ListUploadPartsResponse
+  | CompleteMultipartUploadResponse
+  | AbortMultipartUploadResponse
+  | CheckExistsResponse
+  | TransferResponse
+  | DeleteManyResponse
+  | ListVersionsResponse
+  | GetFileVersionResponse
+  | RestoreVersionResponse
+  | HeadObjectResponse
+  | UpdateMetadataResponse
+  | GetTagsResponse
+  | PutTagsResponse
+  | ListProfilesResponse
+  | ListBucketsResponse
+  | SearchResponse
+  | GrepResponse
+  | ZipDownloadResponse
+  | ExtractJobResponse
+  | GetPreviewUrlResponse
+  | ChangeStorageClassResponse
+  | RestoreArchivedFileResponse
+  | GetBucketSettingsResponse
+  | UpdateBucketSettingsResponse
+  | CreateShareLinkResponse
+  | ListShareLinksResponse
+  | SyncJobResponse;
@@ -2,4 +2,5 @@
 export * as chat from './chat';
 export * as fileManagement from './fileManagement';
 export * as clearCache from './settings/clearCache';
+export * as jobs from './jobs';
 export * from './types';
@@ -0,0 +1,136 @@
+import {
+  JobsRequest,
+  JobsResponse,
+  JobDetails,
+  ListJobsResponse,
+  GetJobResponse,
+  CancelJobResponse,
+  RetryJobResponse,
+  BackgroundCallResponse
+} from "./types";
+import apiClient from "@/client/utils/apiClient";
+import { name } from "./index";
+import type { CacheResult } from "@/server/cache/types";
+
+// Polling starts fast for short calls and slows down for long ones
+const FIRST_POLL_INTERVAL = 250;
+const MAX_POLL_INTERVAL = 2000;
+
+// Main function to manage jobs
+export const manageJobs = async (
+  request: JobsRequest
+): Promise<CacheResult<JobsResponse>> => {
+  return apiClient.call<CacheResult<JobsResponse>>(
+    name,
+    request,
+    {
+      disableCache: true
+    }
+  );
+};
+
+export const listJobs = async (): Promise<CacheResult<ListJobsResponse>> => {
+  return manageJobs({
+    action: 'list'
+  }) as Promise<CacheResult<ListJobsResponse>>;
+};
+
+export const getJob = async (
+  jobId: string
+): Promise<CacheResult<GetJobResponse>> => {
+  return manageJobs({
+    action: 'get',
+    jobId
+  }) as Promise<CacheResult<GetJobResponse>>;
+};
+
+export const cancelJob = async (
+  jobId: string
+): Promise<CacheResult<CancelJobResponse>> => {
+  return manageJobs({
+    action: 'cancel',
+    jobId
+  }) as Promise<CacheResult<CancelJobResponse>>;
+};
+
+export const retryJob = async (
+  jobId: string
+): Promise<CacheResult<RetryJobResponse>> => {
+  return manageJobs({
+    action: 'retry',
+    jobId
+  }) as Promise<CacheResult<RetryJobResponse>>;
+};
+
+/**
+ * Call any API as a background job instead of waiting for its response
+ * @param apiName Name of the API, e.g. "fileManagement"
+ * @param params The API's usual parameters
+ * @param label Shown in the jobs list
+ */
+export const startBackgroundCall = async <TParams>(
+  apiName: string,
+  params: TParams,
+  label?: string
+): Promise<CacheResult<BackgroundCallResponse>> => {
+  return apiClient.call<CacheResult<BackgroundCallResponse>>(
+    apiName,
+    params,
+    {
+      disableCache: true,
+      background: true,
+      jobLabel: label
+    }
+  );
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Poll a job until it ends
+ * @param onUpdate Called with every state seen while the job is queued or running
+ * @returns The job's result
+ * @throws When the job failed, was cancelled or is unknown
+ */
+export const waitForJob = async <TResult>(
+  jobId: string,
+  onUpdate?: (job: JobDetails) => void
+): Promise<TResult> => {
+  let interval = FIRST_POLL_INTERVAL;
+
+  for (;;) {
+    await wait(interval);
+    interval = Math.min(interval * 2, MAX_POLL_INTERVAL);
+
+    const { data } = await getJob(jobId);
+    if (data.error || !data.job) {
+      throw new Error(data.error || 'Lost track of the job');
+    }
+
+    const job = data.job;
+    if (job.status === 'completed') {
+      return job.result as TResult;
+    }
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(job.error || `The job was ${job.status}`);
+    }
+    onUpdate?.(job);
+  }
+};
+
+/**
+ * Call an API as a background job and wait for its response, for calls that may take longer
+ * than a request is allowed to. The job shows up in the jobs list while it runs.
+ */
+export const callInBackground = async <TResponse, TParams = unknown>(
+  apiName: string,
+  params: TParams,
+  label?: string
+): Promise<CacheResult<TResponse>> => {
+  const { data } = await startBackgroundCall(apiName, params, label);
+  if (data.error || !data.jobId) {
+    throw new Error(data.error || 'The background job did not start');
+  }
+
+  return { data: await waitForJob<TResponse>(data.jobId), isFromCache: false };
+};
@@ -0,0 +1,5 @@
+// Export types for both client and server
+export * from './types';
+
+// Export the API name - must be unique across all APIs
+export const name = "jobs";
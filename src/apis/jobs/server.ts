@@ -0,0 +1,77 @@
+import {
+  JobDetails,
+  JobInfo,
+  JobsRequest,
+  JobsResponse,
+  JobResponse,
+  ListJobsResponse
+} from './types';
+import { Job, getJob, listJobs, cancelJob, retryJob, canCancelJob, canRetryJob } from '@/server/jobs';
+import { name } from './index';
+
+export { name };
+
+const toJobInfo = (job: Job): JobInfo => ({
+  id: job.id,
+  type: job.type,
+  label: job.label,
+  status: job.status,
+  progress: job.progress,
+  attempt: job.attempt,
+  canCancel: canCancelJob(job),
+  canRetry: canRetryJob(job),
+  error: job.error,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  finishedAt: job.finishedAt
+});
+
+const toJobDetails = (job: Job): JobDetails => ({
+  ...toJobInfo(job),
+  logs: job.logs,
+  result: job.result
+});
+
+// Process function that handles all job operations
+export const process = async (request: JobsRequest): Promise<JobsResponse> => {
+  try {
+    switch (request.action) {
+      case 'list':
+        return { jobs: (await listJobs()).map(toJobInfo) };
+
+      case 'get':
+      case 'cancel':
+      case 'retry': {
+        if (!request.jobId) {
+          return { job: null, error: "Missing required field: jobId" };
+        }
+
+        const job = request.action === 'get'
+          ? await getJob(request.jobId)
+          : request.action === 'cancel'
+            ? await cancelJob(request.jobId)
+            : await retryJob(request.jobId);
+        return { job: toJobDetails(job) };
+      }
+
+      default:
+        return {
+          jobs: [],
+          error: `Unknown action: ${(request as { action?: string }).action}`
+        } as ListJobsResponse;
+    }
+  } catch (error) {
+    console.error(`Error processing jobs action ${request.action}:`, error);
+
+    if (request.action === 'list') {
+      return {
+        jobs: [],
+        error: error instanceof Error ? error.message : String(error)
+      } as ListJobsResponse;
+    }
+    return {
+      job: null,
+      error: error instanceof Error ? error.message : String(error)
+    } as JobResponse;
+  }
+};
@@ -0,0 +1,109 @@
+/**
+ * Types for the background jobs API
+ */
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobLogEntry = {
+  time: string;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+};
+
+// A job as shown in lists
+export type JobInfo = {
+  id: string;
+  // What the job does, e.g. "extractArchive" or "api:fileManagement"
+  type: string;
+  // Human readable description, e.g. "Extract photos.zip"
+  label?: string;
+  status: JobStatus;
+  progress: {
+    // Units of work done so far, and in total when known
+    processed: number;
+    total?: number;
+    bytes?: number;
+    totalBytes?: number;
+    // Current step
+    message?: string;
+  };
+  // Runs so far, retries included
+  attempt: number;
+  // Whether the job can be stopped with cancelJob
+  canCancel: boolean;
+  // Whether the job can be run again with retryJob
+  canRetry: boolean;
+  // Why the job failed
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+// A single job with its log and result
+export type JobDetails = JobInfo & {
+  // Most recent lines, oldest first
+  logs: JobLogEntry[];
+  // Set once the job completed; for background API calls the API's response
+  result?: unknown;
+};
+
+// Base request type
+export type JobsBaseRequest = {
+  action: 'list' | 'get' | 'cancel' | 'retry';
+};
+
+// Recent jobs, newest first
+export type ListJobsRequest = JobsBaseRequest & {
+  action: 'list';
+};
+
+export type GetJobRequest = JobsBaseRequest & {
+  action: 'get';
+  jobId: string;
+};
+
+// Stop a queued or running job; work done so far is kept
+export type CancelJobRequest = JobsBaseRequest & {
+  action: 'cancel';
+  jobId: string;
+};
+
+// Run a failed or cancelled job again
+export type RetryJobRequest = JobsBaseRequest & {
+  action: 'retry';
+  jobId: string;
+};
+
+// Combined request type
+export type JobsRequest =
+  | ListJobsRequest
+  | GetJobRequest
+  | CancelJobRequest
+  | RetryJobRequest;
+
+export type ListJobsResponse = {
+  jobs: JobInfo[];
+  error?: string;
+};
+
+export type JobResponse = {
+  job: JobDetails | null;
+  error?: string;
+};
+
+export type GetJobResponse = JobResponse;
+export type CancelJobResponse = JobResponse;
+export type RetryJobResponse = JobResponse;
+
+// Combined response type
+export type JobsResponse =
+  | ListJobsResponse
+  | JobResponse;
+
+// Response of any API called with the background option: the job that runs the call.
+// The job's result is what the API would have responded.
+export type BackgroundCallResponse = {
+  jobId: string;
+  error?: string;
+};
@@ -3,6 +3,8 @@ import { apiHandlers } from "./apis";
 import { withCache } from "@/server/cache";
 import { CacheResult } from "@/server/cache/types";
 import { connectToDatabase } from "@/server/db/context";
+import { startJob } from "@/server/jobs";
+import type { BackgroundCallResponse } from "./jobs/types";
 
 export const processApiCall = async (request: NextApiRequest): Promise<CacheResult<unknown>> => {
   const name = request.body.name as keyof typeof apiHandlers;
@@ -18,6 +20,27 @@ export const processApiCall = async (request: NextApiRequest): Promise<CacheResu
     throw new Error(`API handler not found for name: ${name}`);
   }
 
+  // Calls that may outlast the request run as a job; the caller polls the jobs API for the response.
+  // Handlers do not take a cancel signal, so such a job runs until it ends and is not run twice.
+  if (request.body.options?.background) {
+    const job = startJob(`api:${name}`, async ({ log }) => {
+      const response = await apiHandler.process(params);
+      // Handlers report failures in their response, which stays the job's result
+      const error = (response as { error?: unknown } | null)?.error;
+      if (typeof error === 'string' && error) {
+        log(error, 'error');
+      }
+      return response;
+    }, {
+      label: request.body.options.jobLabel || (params?.action ? `${name} ${params.action}` : name),
+      cancellable: false,
+      retryable: false
+    });
+
+    const data: BackgroundCallResponse = { jobId: job.id };
+    return { data, isFromCache: false };
+  }
+
   const result = await withCache(() => apiHandler.process(params), {
     key: name,
     params,
@@ -5,6 +5,7 @@ import FolderIcon from '@mui/icons-material/Folder';
 import SettingsIcon from '@mui/icons-material/Settings';
 import InsightsIcon from '@mui/icons-material/Insights';
 import StorageIcon from '@mui/icons-material/Storage';
+import WorkHistoryIcon from '@mui/icons-material/WorkHistory';
 
 export const navItems: NavItem[] = [
   { path: '/', label: 'Home', icon: <HomeIcon /> },
@@ -21,4 +22,5 @@ export const menuItems: NavItem[] = [
   { path: '/mongodb', label: 'MongoDB', icon: <StorageIcon /> },
   { path: '/settings', label: 'Settings', icon: <SettingsIcon /> },
   { path: '/ai-monitoring', label: 'AI Monitoring', icon: <InsightsIcon /> },
+  { path: '/jobs', label: 'Jobs', icon: <WorkHistoryIcon /> },
 ];
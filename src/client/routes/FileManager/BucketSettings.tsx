@@ -0,0 +1,133 @@
+import React from 'react';
+import {
+  Typography,
+  Paper,
+  Box,
+  Alert,
+  Button,
+  CircularProgress,
+  Container
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Refresh as RefreshIcon
+} from '@mui/icons-material';
+import { useBucketSelection, useBucketSettings } from './hooks';
+import {
+  BucketSelector,
+  VersioningEditor,
+  LifecycleRulesEditor,
+  CorsRulesEditor,
+  BucketPolicyEditor
+} from './components';
+
+export const BucketSettings = () => {
+  const {
+    target,
+    profiles,
+    buckets,
+    selectedProfileId,
+    selectedBucket,
+    loading: loadingBuckets,
+    error: bucketError,
+    selectProfile,
+    selectBucket,
+    navigateWithSelection
+  } = useBucketSelection();
+
+  const {
+    settings,
+    unavailable,
+    loading,
+    error,
+    reload,
+    saveVersioning,
+    saveLifecycleRules,
+    saveCorsRules,
+    savePolicy
+  } = useBucketSettings(target);
+
+  // Settings apply to the whole bucket, profiles confined to a folder cannot manage them
+  const confinedToFolder = !!profiles.find(profile => profile.id === selectedProfileId)?.rootPrefix;
+
+  return (
+    <Container maxWidth="lg" sx={{ p: 0 }}>
+      <Paper elevation={2} sx={{ p: 1, mt: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="h4" component="h1" gutterBottom>
+            Bucket Settings
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button startIcon={<RefreshIcon />} onClick={reload} disabled={loading}>
+              Reload
+            </Button>
+            <Button startIcon={<ArrowBackIcon />} onClick={() => navigateWithSelection('/file-manager')}>
+              Back to files
+            </Button>
+          </Box>
+        </Box>
+
+        <BucketSelector
+          profiles={profiles}
+          buckets={buckets}
+          selectedProfileId={selectedProfileId}
+          selectedBucket={selectedBucket}
+          loading={loadingBuckets}
+          onSelectProfile={selectProfile}
+          onSelectBucket={selectBucket}
+        />
+
+        {bucketError && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {bucketError}
+          </Alert>
+        )}
+
+        {confinedToFolder && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            This profile is confined to a folder of the bucket. Bucket settings apply to the whole
+            bucket and are not available with it.
+          </Alert>
+        )}
+
+        {error && !confinedToFolder && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading && !settings && !confinedToFolder && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {settings && !confinedToFolder && (
+          <>
+            <VersioningEditor
+              status={settings.versioning}
+              unavailable={unavailable.versioning}
+              onSave={saveVersioning}
+            />
+            <LifecycleRulesEditor
+              rules={settings.lifecycleRules}
+              unavailable={unavailable.lifecycle}
+              onSave={saveLifecycleRules}
+            />
+            <CorsRulesEditor
+              rules={settings.corsRules}
+              unavailable={unavailable.cors}
+              onSave={saveCorsRules}
+            />
+            <BucketPolicyEditor
+              policy={settings.policy}
+              bucketName={selectedBucket}
+              unavailable={unavailable.policy}
+              onSave={savePolicy}
+            />
+          </>
+        )}
+      </Paper>
+    </Container>
+  );
+};
@@ -1,28 +1,63 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Typography,
   Paper,
   Box,
   Alert,
+  Button,
   Container
 } from '@mui/material';
-import { useFileManager } from './hooks';
+import {
+  Settings as SettingsIcon,
+  Link as LinkIcon
+} from '@mui/icons-material';
+import { useFileManager, useBucketSelection, useFileSearch } from './hooks';
 import {
   FileList,
   Breadcrumbs,
+  FileToolbar,
   NewFileDialog,
   NewFolderDialog,
   EditFileDialog,
   ViewFileDialog,
-  DeleteConfirmDialog
+  DeleteConfirmDialog,
+  MoveDialog,
+  HistoryDialog,
+  PropertiesPanel,
+  BucketSelector,
+  SearchResults,
+  GrepDialog,
+  ExtractArchiveDialog,
+  SyncDialog,
+  StorageClassDialog,
+  RestoreArchiveDialog,
+  ShareDialog,
+  MultipartUploadPanel,
+  UploadQueuePanel
 } from './components';
 
 export const FileManager = () => {
+  const {
+    target,
+    profiles,
+    buckets,
+    selectedProfileId,
+    selectedBucket,
+    loading: loadingBuckets,
+    error: bucketError,
+    selectProfile,
+    selectBucket,
+    navigateWithSelection
+  } = useBucketSelection();
+
   const {
     // State
     files,
     loading,
+    loadingMore,
+    hasMoreFiles,
     error,
+    currentPrefix,
     breadcrumbs,
 
     // File creation
@@ -42,7 +77,8 @@ export const FileManager = () => {
     // File edit
     editingFile,
     editFileContent,
-    setEditFileContent,
+    editContentType,
+    editValidationError,
     showEditFileDialog,
     loadingFileContent,
 
@@ -53,33 +89,158 @@ export const FileManager = () => {
     isJsonContent,
     jsonViewTab,
     setJsonViewTab,
+    viewHighlight,
+    viewPreview,
+    viewPage,
+    loadingViewPage,
+    followingViewFile,
+    viewPageError,
+    goToViewPage,
+    followViewFile,
 
     // Delete confirmation
     itemToDelete,
     showDeleteConfirmDialog,
 
+    // Version history
+    historyFile,
+    showHistoryDialog,
+
+    // Properties panel
+    propertiesFile,
+    showPropertiesPanel,
+
+    // Multi-select
+    selectedKeys,
+    selectedFiles,
+    showDeleteSelectedDialog,
+
+    // Zip download
+    preparingZip,
+
+    // Move / copy
+    itemToMove,
+    showMoveDialog,
+
+    // Storage class and restore
+    storageClassItems,
+    showStorageClassDialog,
+    fileToRestore,
+    showRestoreDialog,
+
+    // Share links
+    fileToShare,
+    showShareDialog,
+
+    // Multipart uploads
+    multipartUploads,
+    resumeMultipartUpload,
+    retryMultipartUpload,
+    abortMultipartUpload,
+    dismissMultipartUpload,
+
+    // Upload queue
+    uploadQueue,
+    resolveUploadConflict,
+    resolveAllUploadConflicts,
+    retryQueuedUpload,
+    clearFinishedUploads,
+
+    // Archive extraction
+    archiveExtraction,
+    cancelArchiveExtraction,
+    resetArchiveExtraction,
+
     // Actions
     fetchFiles,
+    handleRefresh,
+    loadMoreFiles,
     handleNavigateToFolder,
     handleBreadcrumbNavigation,
+    handleNavigateToPath,
     handleCreateFile,
     handleCreateFolder,
     handleEditFile,
+    handleEditFileContentChange,
     handleSaveEditedFile,
     handleViewFile,
+    handleShowHistory,
+    handleShowProperties,
+    handleChangeStorageClass,
+    handleChangeStorageClassSelected,
+    handleRestoreFile,
+    handleShareFile,
     handleCopyFile,
     handleDownloadFile,
+    handleDownloadZip,
+    handleDownloadSelected,
+    handleUploadFiles,
+    handleExtractArchive,
+    handleRenameItem,
+    handleMoveItem,
+    handleConfirmMove,
     handleDeleteItem,
     handleConfirmDelete,
+    handleToggleSelect,
+    handleSelectAll,
+    handleDeleteSelected,
+    handleConfirmDeleteSelected,
     resetDialogs
-  } = useFileManager();
+  } = useFileManager(target);
+
+  const {
+    activeSearch,
+    results: searchResults,
+    scannedCount,
+    hasMore: hasMoreSearchResults,
+    searching,
+    error: searchError,
+    search,
+    loadMore: loadMoreSearchResults,
+    clearSearch
+  } = useFileSearch(target);
+
+  const [showGrepDialog, setShowGrepDialog] = useState(false);
+  const [showExtractDialog, setShowExtractDialog] = useState(false);
+  const [showSyncDialog, setShowSyncDialog] = useState(false);
+
+  // Bucket settings apply to the whole bucket, profiles confined to a folder cannot manage them
+  const confinedToFolder = !!profiles.find(profile => profile.id === selectedProfileId)?.rootPrefix;
 
   return (
     <Container maxWidth="lg" sx={{ p: 0 }}>
       <Paper elevation={2} sx={{ p: 1, mt: 3, mb: 3 }}>
-        <Typography variant="h4" component="h1" gutterBottom>
-          File Manager
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="h4" component="h1" gutterBottom>
+            File Manager
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button startIcon={<LinkIcon />} onClick={() => navigateWithSelection('/file-manager/shared-links')}>
+              Shared links
+            </Button>
+            {!confinedToFolder && (
+              <Button startIcon={<SettingsIcon />} onClick={() => navigateWithSelection('/file-manager/settings')}>
+                Bucket settings
+              </Button>
+            )}
+          </Box>
+        </Box>
+
+        <BucketSelector
+          profiles={profiles}
+          buckets={buckets}
+          selectedProfileId={selectedProfileId}
+          selectedBucket={selectedBucket}
+          loading={loadingBuckets}
+          onSelectProfile={selectProfile}
+          onSelectBucket={selectBucket}
+        />
+
+        {bucketError && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {bucketError}
+          </Alert>
+        )}
 
         {error && (
           <Alert severity="error" sx={{ mb: 2 }}>
@@ -87,25 +248,89 @@ export const FileManager = () => {
           </Alert>
         )}
 
+        <FileToolbar
+          onNewFile={() => setShowNewFileDialog(true)}
+          onNewFolder={() => setShowNewFolderDialog(true)}
+          onUpload={(entries) => handleUploadFiles(entries)}
+          onExtractArchive={() => setShowExtractDialog(true)}
+          onSync={() => setShowSyncDialog(true)}
+          onRefresh={handleRefresh}
+          onSearch={(query, scope) => search(scope === 'folder' ? currentPrefix : '', query)}
+          onClearSearch={clearSearch}
+          onSearchContents={() => setShowGrepDialog(true)}
+          searchActive={!!activeSearch}
+          canSearchFolder={currentPrefix !== ''}
+        />
+
         <Breadcrumbs
           breadcrumbs={breadcrumbs}
           onNavigate={handleBreadcrumbNavigation}
-          onNewFile={() => setShowNewFileDialog(true)}
-          onNewFolder={() => setShowNewFolderDialog(true)}
-          onRefresh={fetchFiles}
+        />
+
+        <UploadQueuePanel
+          items={uploadQueue}
+          onResolveConflict={resolveUploadConflict}
+          onResolveAllConflicts={resolveAllUploadConflicts}
+          onRetry={retryQueuedUpload}
+          onClearFinished={clearFinishedUploads}
+        />
+
+        <MultipartUploadPanel
+          uploads={multipartUploads}
+          onResume={resumeMultipartUpload}
+          onRetry={retryMultipartUpload}
+          onAbort={abortMultipartUpload}
+          onDismiss={dismissMultipartUpload}
         />
 
         <Box sx={{ mt: 2 }}>
-          <FileList
-            files={files}
-            loading={loading}
-            onNavigateToFolder={handleNavigateToFolder}
-            onDeleteItem={handleDeleteItem}
-            onEditFile={handleEditFile}
-            onViewFile={handleViewFile}
-            onCopyFile={handleCopyFile}
-            onDownloadFile={handleDownloadFile}
-          />
+          {activeSearch ? (
+            <SearchResults
+              results={searchResults}
+              prefix={activeSearch.prefix}
+              scannedCount={scannedCount}
+              searching={searching}
+              hasMore={hasMoreSearchResults}
+              error={searchError}
+              onLoadMore={loadMoreSearchResults}
+              onOpenFolder={(prefix) => {
+                clearSearch();
+                handleNavigateToPath(prefix);
+              }}
+              onViewFile={handleViewFile}
+              onClose={clearSearch}
+            />
+          ) : (
+            <FileList
+              files={files}
+              loading={loading}
+              loadingMore={loadingMore}
+              hasMore={hasMoreFiles}
+              onLoadMore={loadMoreFiles}
+              onNavigateToFolder={handleNavigateToFolder}
+              onDeleteItem={handleDeleteItem}
+              onEditFile={handleEditFile}
+              onViewFile={handleViewFile}
+              onShowHistory={handleShowHistory}
+              onShowProperties={handleShowProperties}
+              onCopyFile={handleCopyFile}
+              onDownloadFile={handleDownloadFile}
+              onDownloadZip={(file) => handleDownloadZip([file])}
+              onDownloadSelected={handleDownloadSelected}
+              preparingZip={preparingZip}
+              onRenameItem={handleRenameItem}
+              onMoveItem={handleMoveItem}
+              onChangeStorageClass={handleChangeStorageClass}
+              onChangeStorageClassSelected={handleChangeStorageClassSelected}
+              onRestoreFile={handleRestoreFile}
+              onShareFile={handleShareFile}
+              selectedKeys={selectedKeys}
+              onToggleSelect={handleToggleSelect}
+              onSelectAll={handleSelectAll}
+              onDeleteSelected={handleDeleteSelected}
+              onDropFiles={handleUploadFiles}
+            />
+          )}
         </Box>
 
         {/* Dialogs */}
@@ -134,11 +359,42 @@ export const FileManager = () => {
           loading={loading || loadingFileContent}
           file={editingFile}
           fileContent={editFileContent}
+          contentType={editContentType}
+          validationError={editValidationError}
           onClose={() => resetDialogs()}
-          onFileContentChange={setEditFileContent}
+          onFileContentChange={handleEditFileContentChange}
           onSave={handleSaveEditedFile}
         />
 
+        <GrepDialog
+          open={showGrepDialog}
+          target={target}
+          initialPrefix={currentPrefix}
+          onClose={() => setShowGrepDialog(false)}
+          onOpenMatch={handleViewFile}
+        />
+
+        <ExtractArchiveDialog
+          open={showExtractDialog}
+          currentPrefix={currentPrefix}
+          extraction={archiveExtraction}
+          onExtract={handleExtractArchive}
+          onCancel={cancelArchiveExtraction}
+          onReset={resetArchiveExtraction}
+          onClose={() => setShowExtractDialog(false)}
+        />
+
+        <SyncDialog
+          open={showSyncDialog}
+          target={target}
+          profiles={profiles}
+          selectedProfileId={selectedProfileId}
+          selectedBucket={selectedBucket}
+          currentPrefix={currentPrefix}
+          onClose={() => setShowSyncDialog(false)}
+          onSynced={() => fetchFiles()}
+        />
+
         <ViewFileDialog
           open={showViewFileDialog}
           loading={loadingFileContent}
@@ -146,8 +402,18 @@ export const FileManager = () => {
           fileContent={viewFileContent}
           isJsonContent={isJsonContent}
           jsonViewTab={jsonViewTab}
+          highlight={viewHighlight}
+          preview={viewPreview}
+          page={viewPage}
+          pageLoading={loadingViewPage}
+          following={followingViewFile}
+          pageError={viewPageError}
           onClose={() => resetDialogs()}
           onTabChange={setJsonViewTab}
+          onDownload={handleDownloadFile}
+          onPageChange={goToViewPage}
+          onFollowChange={followViewFile}
+          onRestore={handleRestoreFile}
         />
 
         <DeleteConfirmDialog
@@ -157,6 +423,66 @@ export const FileManager = () => {
           onClose={() => resetDialogs()}
           onConfirm={handleConfirmDelete}
         />
+
+        <DeleteConfirmDialog
+          open={showDeleteSelectedDialog}
+          loading={loading}
+          item={null}
+          selectedItems={selectedFiles}
+          onClose={() => resetDialogs()}
+          onConfirm={handleConfirmDeleteSelected}
+        />
+
+        <HistoryDialog
+          open={showHistoryDialog}
+          file={historyFile}
+          target={target}
+          onClose={() => resetDialogs()}
+          onRestored={() => fetchFiles()}
+        />
+
+        <PropertiesPanel
+          open={showPropertiesPanel}
+          file={propertiesFile}
+          target={target}
+          onClose={() => resetDialogs()}
+          onUpdated={() => fetchFiles()}
+          onRestore={handleRestoreFile}
+        />
+
+        <MoveDialog
+          open={showMoveDialog}
+          loading={loading}
+          item={itemToMove}
+          target={target}
+          initialPrefix={currentPrefix}
+          onClose={() => resetDialogs()}
+          onConfirm={handleConfirmMove}
+        />
+
+        <StorageClassDialog
+          open={showStorageClassDialog}
+          items={storageClassItems}
+          target={target}
+          onClose={() => resetDialogs()}
+          onChanged={() => fetchFiles()}
+        />
+
+        <RestoreArchiveDialog
+          open={showRestoreDialog}
+          file={fileToRestore}
+          target={target}
+          onClose={() => resetDialogs()}
+          onRestored={() => fetchFiles()}
+        />
+
+        <ShareDialog
+          open={showShareDialog}
+          file={fileToShare}
+          target={target}
+          onClose={() => resetDialogs()}
+          onShowLinks={() => navigateWithSelection('/file-manager/shared-links')}
+        />
       </Paper>
     </Container>
   );
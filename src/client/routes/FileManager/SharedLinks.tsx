@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import {
+  Typography,
+  Paper,
+  Box,
+  Alert,
+  Button,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  Container,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer
+} from '@mui/material';
+import {
+  ArrowBack as ArrowBackIcon,
+  Refresh as RefreshIcon,
+  ContentCopy as CopyIcon,
+  OpenInNew as OpenIcon
+} from '@mui/icons-material';
+import { useBucketSelection, useShareLinks } from './hooks';
+import { BucketSelector } from './components';
+import { formatDateTime, formatTimeLeft } from './components/formatters';
+
+export const SharedLinks = () => {
+  const {
+    target,
+    profiles,
+    buckets,
+    selectedProfileId,
+    selectedBucket,
+    loading: loadingBuckets,
+    error: bucketError,
+    selectProfile,
+    selectBucket,
+    navigateWithSelection
+  } = useBucketSelection();
+
+  const { links, loading, error, reload } = useShareLinks(target);
+  // Id of the link last copied to the clipboard
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const handleCopy = async (id: string, url: string) => {
+    await navigator.clipboard.writeText(url);
+    setCopiedId(id);
+  };
+
+  return (
+    <Container maxWidth="lg" sx={{ p: 0 }}>
+      <Paper elevation={2} sx={{ p: 1, mt: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="h4" component="h1" gutterBottom>
+            Shared Links
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button startIcon={<RefreshIcon />} onClick={reload} disabled={loading}>
+              Reload
+            </Button>
+            <Button startIcon={<ArrowBackIcon />} onClick={() => navigateWithSelection('/file-manager')}>
+              Back to files
+            </Button>
+          </Box>
+        </Box>
+
+        <BucketSelector
+          profiles={profiles}
+          buckets={buckets}
+          selectedProfileId={selectedProfileId}
+          selectedBucket={selectedBucket}
+          loading={loadingBuckets}
+          onSelectProfile={selectProfile}
+          onSelectBucket={selectBucket}
+        />
+
+        {bucketError && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {bucketError}
+          </Alert>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Links handed out for files of this bucket that still work. A link cannot be revoked;
+          it stops working when it expires or when the file is deleted.
+        </Typography>
+
+        {loading && links.length === 0 ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : links.length === 0 ? (
+          <Typography color="text.secondary" sx={{ p: 2 }}>
+            No active links
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>File</TableCell>
+                  <TableCell>Shared by</TableCell>
+                  <TableCell>Created</TableCell>
+                  <TableCell>Expires</TableCell>
+                  <TableCell>Opens as</TableCell>
+                  <TableCell align="right">Link</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {links.map(link => (
+                  <TableRow key={link.id}>
+                    <TableCell sx={{ wordBreak: 'break-all' }}>
+                      {link.key}
+                      {link.downloadName && link.downloadName !== link.key.split('/').pop() && (
+                        <Typography variant="caption" color="text.secondary" component="div">
+                          as {link.downloadName}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{link.sharedBy || '—'}</TableCell>
+                    <TableCell>{formatDateTime(link.createdAt)}</TableCell>
+                    <TableCell>
+                      <Tooltip title={formatDateTime(link.expiresAt)}>
+                        <span>{formatTimeLeft(link.expiresAt)}</span>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell>{link.forceDownload ? 'Download' : 'Shown in browser'}</TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Tooltip title={copiedId === link.id ? 'Copied' : 'Copy link'}>
+                        <IconButton size="small" onClick={() => handleCopy(link.id, link.url)}>
+                          <CopyIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Open">
+                        <IconButton size="small" component="a" href={link.url} target="_blank" rel="noopener noreferrer">
+                          <OpenIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+    </Container>
+  );
+};
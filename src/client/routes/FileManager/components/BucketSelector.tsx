@@ -0,0 +1,76 @@
+import React from 'react';
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  CircularProgress
+} from '@mui/material';
+import type { BucketInfo, ConnectionProfile } from '@/apis/fileManagement/types';
+
+interface BucketSelectorProps {
+  profiles: ConnectionProfile[];
+  buckets: BucketInfo[];
+  selectedProfileId: string;
+  selectedBucket: string;
+  loading: boolean;
+  onSelectProfile: (profileId: string) => void;
+  onSelectBucket: (bucket: string) => void;
+}
+
+export const BucketSelector = ({
+  profiles,
+  buckets,
+  selectedProfileId,
+  selectedBucket,
+  loading,
+  onSelectProfile,
+  onSelectBucket
+}: BucketSelectorProps) => {
+  // Keep a bucket from the URL selectable even when the listing does not include it
+  const bucketNames = buckets.map(bucket => bucket.name);
+  if (selectedBucket && !bucketNames.includes(selectedBucket)) {
+    bucketNames.unshift(selectedBucket);
+  }
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+      {profiles.length > 1 && (
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel id="file-manager-profile-label">Profile</InputLabel>
+          <Select
+            labelId="file-manager-profile-label"
+            value={profiles.some(profile => profile.id === selectedProfileId) ? selectedProfileId : ''}
+            label="Profile"
+            onChange={(e) => onSelectProfile(e.target.value)}
+          >
+            {profiles.map(profile => (
+              <MenuItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      <FormControl size="small" sx={{ minWidth: 240 }}>
+        <InputLabel id="file-manager-bucket-label">Bucket</InputLabel>
+        <Select
+          labelId="file-manager-bucket-label"
+          value={selectedBucket}
+          label="Bucket"
+          onChange={(e) => onSelectBucket(e.target.value)}
+        >
+          {bucketNames.map(name => (
+            <MenuItem key={name} value={name}>
+              {name}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {loading && <CircularProgress size={20} />}
+    </Box>
+  );
+};
@@ -0,0 +1,967 @@
+import React, { useEffect, useId, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Tabs,
+  Tab,
+  Button,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  Alert,
+  TextField,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  Switch
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import type {
+  BucketPolicy,
+  BucketVersioningStatus,
+  CorsRule,
+  LifecycleRule,
+  PolicyStatement
+} from '@/apis/fileManagement/types';
+import { validateContent } from '@/client/utils/contentValidation';
+import type { ContentError } from '@/client/utils/contentValidation';
+import {
+  TRANSITION_STORAGE_CLASSES,
+  CORS_METHODS,
+  parseLifecycleJson,
+  parseCorsJson,
+  parsePolicyJson,
+  validateLifecycleRules,
+  validateCorsRules,
+  validateBucketPolicy
+} from '@/client/utils/bucketSettingsValidation';
+import type { ParsedSettings } from '@/client/utils/bucketSettingsValidation';
+import { CodeEditor } from './CodeEditor';
+
+type EditMode = 'form' | 'json';
+
+interface SettingsSectionProps<T> {
+  title: string;
+  description: string;
+  // The value the bucket has; the draft starts from it and Reset returns to it
+  value: T;
+  // Why the section could not be read; it is shown read-only then
+  unavailable?: string;
+  toJson: (value: T) => string;
+  parseJson: (text: string) => ParsedSettings<T>;
+  validate: (value: T) => string[];
+  onSave: (value: T) => Promise<void>;
+  renderForm: (draft: T, setDraft: (value: T) => void, disabled: boolean) => React.ReactNode;
+}
+
+/**
+ * One bucket setting, edited in a form or as JSON.
+ * Switching from JSON to the form parses the document first and stays on JSON when it is
+ * invalid. Save validates the draft and only sends it when there are no problems.
+ */
+const SettingsSection = <T,>({
+  title,
+  description,
+  value,
+  unavailable,
+  toJson,
+  parseJson,
+  validate,
+  onSave,
+  renderForm
+}: SettingsSectionProps<T>) => {
+  const [mode, setMode] = useState<EditMode>('form');
+  const [draft, setDraft] = useState<T>(value);
+  const [jsonText, setJsonText] = useState(() => toJson(value));
+  const [syntaxError, setSyntaxError] = useState<ContentError | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // Start over from the bucket's value whenever it changes, e.g. after a save or reload
+  useEffect(() => {
+    setDraft(value);
+    setJsonText(toJson(value));
+    setSyntaxError(null);
+    setErrors([]);
+    setSaveError(null);
+  }, [value, toJson]);
+
+  const savedJson = toJson(value);
+  const dirty = mode === 'json' ? jsonText !== savedJson : toJson(draft) !== savedJson;
+
+  // The JSON document as a value, or null with its problems shown
+  const readJson = (): { value: T } | null => {
+    const error = jsonText.trim() ? validateContent(jsonText, 'json') : null;
+    setSyntaxError(error);
+    if (error) {
+      setErrors([]);
+      return null;
+    }
+
+    const parsed = parseJson(jsonText);
+    setErrors(parsed.errors);
+    return parsed.errors.length > 0 ? null : { value: parsed.value as T };
+  };
+
+  const handleModeChange = (nextMode: EditMode) => {
+    if (nextMode === mode) return;
+
+    if (nextMode === 'json') {
+      setJsonText(toJson(draft));
+      setErrors([]);
+    } else {
+      const parsed = readJson();
+      if (!parsed) return;
+      setDraft(parsed.value);
+    }
+    setMode(nextMode);
+  };
+
+  const handleDraftChange = (nextDraft: T) => {
+    setDraft(nextDraft);
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setSaveError(null);
+    setSaved(false);
+
+    let next = draft;
+    if (mode === 'json') {
+      const parsed = readJson();
+      if (!parsed) return;
+      next = parsed.value;
+    }
+
+    const problems = validate(next);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setSaving(true);
+    try {
+      await onSave(next);
+      setSaved(true);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : `Failed to save ${title.toLowerCase()}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setDraft(value);
+    setJsonText(savedJson);
+    setSyntaxError(null);
+    setErrors([]);
+    setSaveError(null);
+    setSaved(false);
+  };
+
+  const disabled = saving || !!unavailable;
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2 }}>
+        <Typography variant="h6">{title}</Typography>
+        <Tabs value={mode} onChange={(_event, nextMode: EditMode) => handleModeChange(nextMode)}>
+          <Tab label="Form" value="form" />
+          <Tab label="JSON" value="json" />
+        </Tabs>
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {description}
+      </Typography>
+
+      {unavailable && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Could not read this setting: {unavailable}
+        </Alert>
+      )}
+
+      {mode === 'form'
+        ? renderForm(draft, handleDraftChange, disabled)
+        : (
+          <CodeEditor
+            value={jsonText}
+            onChange={(text) => {
+              setJsonText(text);
+              setSaved(false);
+            }}
+            language="json"
+            disabled={disabled}
+            errorLine={syntaxError?.line}
+            height={320}
+          />
+        )}
+
+      {syntaxError && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          Invalid JSON
+          {syntaxError.line && ` at line ${syntaxError.line}${syntaxError.column ? `, column ${syntaxError.column}` : ''}`}
+          : {syntaxError.message}
+        </Alert>
+      )}
+
+      {errors.length > 0 && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {errors.slice(0, 10).map(error => <div key={error}>{error}</div>)}
+          {errors.length > 10 && <div>and {errors.length - 10} more</div>}
+        </Alert>
+      )}
+
+      {saveError && (
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {saveError}
+        </Alert>
+      )}
+
+      {saved && !dirty && (
+        <Alert severity="success" sx={{ mt: 2 }}>
+          Saved
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 2 }}>
+        <Button onClick={handleReset} disabled={disabled || !dirty}>Reset</Button>
+        <Button onClick={handleSave} disabled={disabled || !dirty} variant="contained">
+          {saving ? <CircularProgress size={24} /> : 'Save'}
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+// A whole number of days, '' while the field is empty
+const DaysField = ({
+  label,
+  value,
+  disabled,
+  helperText,
+  onChange
+}: {
+  label: string;
+  value: number | undefined;
+  disabled: boolean;
+  helperText?: string;
+  onChange: (value: number | undefined) => void;
+}) => (
+  <TextField
+    size="small"
+    type="number"
+    label={label}
+    value={value ?? ''}
+    disabled={disabled}
+    helperText={helperText}
+    onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+    sx={{ width: 220 }}
+  />
+);
+
+const splitLines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// A list of values, one per line; the text keeps blank lines while it is being typed
+const ListField = ({
+  label,
+  values,
+  disabled,
+  helperText,
+  onChange
+}: {
+  label: string;
+  values: string[];
+  disabled: boolean;
+  helperText?: string;
+  onChange: (values: string[]) => void;
+}) => {
+  const [text, setText] = useState(values.join('\n'));
+
+  useEffect(() => {
+    setText(current => splitLines(current).join('\n') === values.join('\n') ? current : values.join('\n'));
+  }, [values]);
+
+  return (
+    <TextField
+      size="small"
+      label={label}
+      multiline
+      minRows={2}
+      fullWidth
+      value={text}
+      disabled={disabled}
+      helperText={helperText}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(splitLines(e.target.value));
+      }}
+    />
+  );
+};
+
+// Boxed list item with a delete button in its corner
+const RuleBox = ({
+  title,
+  disabled,
+  onDelete,
+  children
+}: {
+  title: string;
+  disabled: boolean;
+  onDelete: () => void;
+  children: React.ReactNode;
+}) => (
+  <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 2, mb: 2 }}>
+    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+      <Typography variant="subtitle2">{title}</Typography>
+      <Tooltip title="Remove">
+        <span>
+          <IconButton size="small" onClick={onDelete} disabled={disabled}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+    </Box>
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {children}
+    </Box>
+  </Box>
+);
+
+const replaceAt = <T,>(items: T[], index: number, item: T): T[] => items.map((current, position) => position === index ? item : current);
+const removeAt = <T,>(items: T[], index: number): T[] => items.filter((_item, position) => position !== index);
+
+// A unique "<prefix>-<n>" for a new rule or statement
+const nextId = (prefix: string, ids: (string | undefined)[]): string => {
+  let number = ids.length + 1;
+  while (ids.includes(`${prefix}-${number}`)) number++;
+  return `${prefix}-${number}`;
+};
+
+const toPrettyJson = (value: unknown): string => JSON.stringify(value, null, 2);
+
+interface VersioningEditorProps {
+  status: BucketVersioningStatus;
+  unavailable?: string;
+  onSave: (status: 'Enabled' | 'Suspended') => Promise<void>;
+}
+
+const versioningToJson = (status: BucketVersioningStatus) => toPrettyJson({ Status: status });
+
+const validateVersioning = (status: BucketVersioningStatus): string[] => {
+  return status === 'Unversioned' ? ['Versioning cannot be turned off again; choose Enabled or Suspended'] : [];
+};
+
+const parseVersioningJson = (text: string): ParsedSettings<BucketVersioningStatus> => {
+  try {
+    const status = (JSON.parse(text) as { Status?: unknown }).Status;
+    if (status === 'Enabled' || status === 'Suspended' || status === 'Unversioned') {
+      return { value: status, errors: [] };
+    }
+  } catch {
+    // Reported below like any other unexpected document
+  }
+  return { value: null, errors: ['Expected {"Status": "Enabled"} or {"Status": "Suspended"}'] };
+};
+
+export const VersioningEditor = ({ status, unavailable, onSave }: VersioningEditorProps) => (
+  <SettingsSection<BucketVersioningStatus>
+    title="Versioning"
+    description="Versioned buckets keep every overwritten or deleted version of a file. Once enabled, versioning can only be suspended: new writes replace the current version, older versions are kept."
+    value={status}
+    unavailable={unavailable}
+    toJson={versioningToJson}
+    parseJson={parseVersioningJson}
+    validate={validateVersioning}
+    onSave={(next) => onSave(next as 'Enabled' | 'Suspended')}
+    renderForm={(draft, setDraft, disabled) => (
+      <FormControl size="small" sx={{ minWidth: 220 }}>
+        <InputLabel id="versioning-status-label">Status</InputLabel>
+        <Select
+          labelId="versioning-status-label"
+          value={draft}
+          label="Status"
+          disabled={disabled}
+          onChange={(e) => setDraft(e.target.value as BucketVersioningStatus)}
+        >
+          {status === 'Unversioned' && <MenuItem value="Unversioned">Never enabled</MenuItem>}
+          <MenuItem value="Enabled">Enabled</MenuItem>
+          <MenuItem value="Suspended">Suspended</MenuItem>
+        </Select>
+      </FormControl>
+    )}
+  />
+);
+
+// Prefix a lifecycle rule applies to, wherever the rule keeps it
+const getRulePrefix = (rule: LifecycleRule): string => {
+  return rule.Filter?.Prefix ?? rule.Filter?.And?.Prefix ?? rule.Prefix ?? '';
+};
+
+const setRulePrefix = (rule: LifecycleRule, prefix: string): LifecycleRule => {
+  if (rule.Prefix !== undefined) {
+    return { ...rule, Prefix: prefix };
+  }
+  if (rule.Filter?.And) {
+    return { ...rule, Filter: { ...rule.Filter, And: { ...rule.Filter.And, Prefix: prefix } } };
+  }
+  return { ...rule, Filter: { ...rule.Filter, Prefix: prefix } };
+};
+
+// Filter conditions the form cannot show
+const hasComplexFilter = (rule: LifecycleRule): boolean => {
+  const filter = rule.Filter || {};
+  return filter.Tag !== undefined || filter.And !== undefined
+    || filter.ObjectSizeGreaterThan !== undefined || filter.ObjectSizeLessThan !== undefined;
+};
+
+// Set or clear an optional action of a rule
+const withAction = <K extends Exclude<keyof LifecycleRule, 'Status'>>(rule: LifecycleRule, key: K, value: LifecycleRule[K] | undefined): LifecycleRule => {
+  const next: Partial<LifecycleRule> & Pick<LifecycleRule, 'Status'> = { ...rule };
+  if (value === undefined) {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+};
+
+const lifecycleToJson = (rules: LifecycleRule[]) => toPrettyJson({ Rules: rules });
+
+const LifecycleRuleForm = ({
+  rule,
+  disabled,
+  onChange
+}: {
+  rule: LifecycleRule;
+  disabled: boolean;
+  onChange: (rule: LifecycleRule) => void;
+}) => {
+  const labelId = useId();
+  const transitions = rule.Transitions || [];
+  const expiration = rule.Expiration;
+  const expirationByDays = !expiration || expiration.Days !== undefined;
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+        <TextField
+          size="small"
+          label="Rule ID"
+          value={rule.ID || ''}
+          disabled={disabled}
+          onChange={(e) => onChange(withAction(rule, 'ID', e.target.value || undefined))}
+        />
+        <TextField
+          size="small"
+          label="Applies to prefix"
+          placeholder="Whole bucket"
+          value={getRulePrefix(rule)}
+          disabled={disabled}
+          helperText={hasComplexFilter(rule) ? 'The rule has more filter conditions, see JSON' : undefined}
+          onChange={(e) => onChange(setRulePrefix(rule, e.target.value))}
+        />
+        <FormControlLabel
+          control={
+            <Switch
+              checked={rule.Status === 'Enabled'}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...rule, Status: e.target.checked ? 'Enabled' : 'Disabled' })}
+            />
+          }
+          label="Enabled"
+        />
+      </Box>
+
+      {transitions.map((transition, index) => (
+        <Box key={index} sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel id={`${labelId}-transition-${index}`}>Move to</InputLabel>
+            <Select
+              labelId={`${labelId}-transition-${index}`}
+              value={transition.StorageClass}
+              label="Move to"
+              disabled={disabled}
+              onChange={(e) => onChange({
+                ...rule,
+                Transitions: replaceAt(transitions, index, { ...transition, StorageClass: e.target.value })
+              })}
+            >
+              {TRANSITION_STORAGE_CLASSES.map(storageClass => (
+                <MenuItem key={storageClass} value={storageClass}>{storageClass}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <DaysField
+            label="Days after creation"
+            value={transition.Days}
+            disabled={disabled || transition.Date !== undefined}
+            helperText={transition.Date !== undefined ? `On ${transition.Date}, see JSON` : undefined}
+            onChange={(days) => onChange({
+              ...rule,
+              Transitions: replaceAt(transitions, index, { ...transition, Days: days })
+            })}
+          />
+          <Tooltip title="Remove transition">
+            <span>
+              <IconButton
+                size="small"
+                disabled={disabled}
+                onClick={() => onChange(withAction(rule, 'Transitions', transitions.length > 1 ? removeAt(transitions, index) : undefined))}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+      ))}
+      <Box>
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          disabled={disabled}
+          onClick={() => onChange({ ...rule, Transitions: [...transitions, { Days: 30, StorageClass: 'STANDARD_IA' }] })}
+        >
+          Add transition
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+        <DaysField
+          label="Delete after (days)"
+          value={expiration?.Days}
+          disabled={disabled || !expirationByDays}
+          helperText={expirationByDays ? undefined : 'Set in JSON'}
+          onChange={(days) => onChange(withAction(rule, 'Expiration', days === undefined ? undefined : { Days: days }))}
+        />
+        <DaysField
+          label="Delete old versions after (days)"
+          value={rule.NoncurrentVersionExpiration?.NoncurrentDays}
+          disabled={disabled}
+          onChange={(days) => onChange(withAction(
+            rule,
+            'NoncurrentVersionExpiration',
+            days === undefined ? undefined : { ...rule.NoncurrentVersionExpiration, NoncurrentDays: days }
+          ))}
+        />
+        <DaysField
+          label="Abort unfinished uploads after (days)"
+          value={rule.AbortIncompleteMultipartUpload?.DaysAfterInitiation}
+          disabled={disabled}
+          onChange={(days) => onChange(withAction(
+            rule,
+            'AbortIncompleteMultipartUpload',
+            days === undefined ? undefined : { DaysAfterInitiation: days }
+          ))}
+        />
+      </Box>
+      {rule.NoncurrentVersionTransitions && (
+        <Typography variant="caption" color="text.secondary">
+          {rule.NoncurrentVersionTransitions.length} transition(s) of old versions, edit them in JSON
+        </Typography>
+      )}
+    </>
+  );
+};
+
+interface LifecycleRulesEditorProps {
+  rules: LifecycleRule[];
+  unavailable?: string;
+  onSave: (rules: LifecycleRule[]) => Promise<void>;
+}
+
+export const LifecycleRulesEditor = ({ rules, unavailable, onSave }: LifecycleRulesEditorProps) => (
+  <SettingsSection<LifecycleRule[]>
+    title="Lifecycle Rules"
+    description="Move files to cheaper storage classes or delete them once they reach a certain age. Rules run once a day; saving without rules removes the configuration."
+    value={rules}
+    unavailable={unavailable}
+    toJson={lifecycleToJson}
+    parseJson={parseLifecycleJson}
+    validate={validateLifecycleRules}
+    onSave={onSave}
+    renderForm={(draft, setDraft, disabled) => (
+      <>
+        {draft.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            No lifecycle rules
+          </Typography>
+        )}
+        {draft.map((rule, index) => (
+          <RuleBox
+            key={index}
+            title={`Rule ${index + 1}`}
+            disabled={disabled}
+            onDelete={() => setDraft(removeAt(draft, index))}
+          >
+            <LifecycleRuleForm
+              rule={rule}
+              disabled={disabled}
+              onChange={(next) => setDraft(replaceAt(draft, index, next))}
+            />
+          </RuleBox>
+        ))}
+        <Button
+          startIcon={<AddIcon />}
+          disabled={disabled}
+          onClick={() => setDraft([...draft, {
+            ID: nextId('rule', draft.map(rule => rule.ID)),
+            Status: 'Enabled',
+            Filter: { Prefix: '' },
+            AbortIncompleteMultipartUpload: { DaysAfterInitiation: 7 }
+          }])}
+        >
+          Add rule
+        </Button>
+      </>
+    )}
+  />
+);
+
+const corsToJson = (rules: CorsRule[]) => toPrettyJson({ CORSRules: rules });
+
+// Set or clear an optional list of a CORS rule
+const withList = (rule: CorsRule, key: 'AllowedHeaders' | 'ExposeHeaders', values: string[]): CorsRule => {
+  const next = { ...rule };
+  if (values.length === 0) {
+    delete next[key];
+  } else {
+    next[key] = values;
+  }
+  return next;
+};
+
+const CorsRuleForm = ({
+  rule,
+  disabled,
+  onChange
+}: {
+  rule: CorsRule;
+  disabled: boolean;
+  onChange: (rule: CorsRule) => void;
+}) => {
+  const toggleMethod = (method: string, checked: boolean) => {
+    const methods = checked
+      ? CORS_METHODS.filter(candidate => candidate === method || rule.AllowedMethods.includes(candidate))
+      : rule.AllowedMethods.filter(candidate => candidate !== method);
+    onChange({ ...rule, AllowedMethods: methods });
+  };
+
+  return (
+    <>
+      <TextField
+        size="small"
+        label="Rule ID"
+        value={rule.ID || ''}
+        disabled={disabled}
+        onChange={(e) => {
+          const next: CorsRule = { ...rule, ID: e.target.value };
+          if (!e.target.value) delete next.ID;
+          onChange(next);
+        }}
+        sx={{ maxWidth: 300 }}
+      />
+      <ListField
+        label="Allowed origins"
+        values={rule.AllowedOrigins}
+        disabled={disabled}
+        helperText="One per line, e.g. https://example.com or *"
+        onChange={(values) => onChange({ ...rule, AllowedOrigins: values })}
+      />
+      <Box>
+        {CORS_METHODS.map(method => (
+          <FormControlLabel
+            key={method}
+            control={
+              <Checkbox
+                size="small"
+                checked={rule.AllowedMethods.includes(method)}
+                disabled={disabled}
+                onChange={(e) => toggleMethod(method, e.target.checked)}
+              />
+            }
+            label={method}
+          />
+        ))}
+      </Box>
+      <ListField
+        label="Allowed headers"
+        values={rule.AllowedHeaders || []}
+        disabled={disabled}
+        helperText="Request headers browsers may send, one per line; * allows any"
+        onChange={(values) => onChange(withList(rule, 'AllowedHeaders', values))}
+      />
+      <ListField
+        label="Exposed headers"
+        values={rule.ExposeHeaders || []}
+        disabled={disabled}
+        helperText="Response headers scripts may read, e.g. ETag"
+        onChange={(values) => onChange(withList(rule, 'ExposeHeaders', values))}
+      />
+      <TextField
+        size="small"
+        type="number"
+        label="Cache preflight for (seconds)"
+        value={rule.MaxAgeSeconds ?? ''}
+        disabled={disabled}
+        onChange={(e) => {
+          const next: CorsRule = { ...rule, MaxAgeSeconds: Number(e.target.value) };
+          if (e.target.value === '') delete next.MaxAgeSeconds;
+          onChange(next);
+        }}
+        sx={{ maxWidth: 300 }}
+      />
+    </>
+  );
+};
+
+interface CorsRulesEditorProps {
+  rules: CorsRule[];
+  unavailable?: string;
+  onSave: (rules: CorsRule[]) => Promise<void>;
+}
+
+export const CorsRulesEditor = ({ rules, unavailable, onSave }: CorsRulesEditorProps) => (
+  <SettingsSection<CorsRule[]>
+    title="CORS Rules"
+    description="Which web pages may read and write files of this bucket from a browser. The first rule matching a request's origin and method is used; saving without rules removes the configuration."
+    value={rules}
+    unavailable={unavailable}
+    toJson={corsToJson}
+    parseJson={parseCorsJson}
+    validate={validateCorsRules}
+    onSave={onSave}
+    renderForm={(draft, setDraft, disabled) => (
+      <>
+        {draft.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            No CORS rules, browsers on other sites cannot access the bucket
+          </Typography>
+        )}
+        {draft.map((rule, index) => (
+          <RuleBox
+            key={index}
+            title={`Rule ${index + 1}`}
+            disabled={disabled}
+            onDelete={() => setDraft(removeAt(draft, index))}
+          >
+            <CorsRuleForm
+              rule={rule}
+              disabled={disabled}
+              onChange={(next) => setDraft(replaceAt(draft, index, next))}
+            />
+          </RuleBox>
+        ))}
+        <Button
+          startIcon={<AddIcon />}
+          disabled={disabled}
+          onClick={() => setDraft([...draft, {
+            AllowedOrigins: ['*'],
+            AllowedMethods: ['GET', 'HEAD'],
+            MaxAgeSeconds: 3000
+          }])}
+        >
+          Add rule
+        </Button>
+      </>
+    )}
+  />
+);
+
+const toList = (value: string | string[] | undefined): string[] => {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+// A single value stays a string, like in policies written by hand
+const fromList = (values: string[]): string | string[] => values.length === 1 ? values[0] : values;
+
+// Principals the form can edit: "*" or AWS accounts, users and roles
+const getPrincipals = (statement: PolicyStatement): string[] | null => {
+  const principal = statement.Principal;
+  if (principal === undefined) return [];
+  if (typeof principal === 'string') return [principal];
+  const keys = Object.keys(principal);
+  return keys.length === 1 && keys[0] === 'AWS' ? toList(principal.AWS) : null;
+};
+
+const setPrincipals = (statement: PolicyStatement, principals: string[]): PolicyStatement => {
+  if (principals.length === 0) {
+    const next = { ...statement };
+    delete next.Principal;
+    return next;
+  }
+  return {
+    ...statement,
+    Principal: principals.length === 1 && principals[0] === '*' ? '*' : { AWS: fromList(principals) }
+  };
+};
+
+const policyToJson = (policy: BucketPolicy | null) => policy ? toPrettyJson(policy) : '';
+
+const validatePolicyDraft = (policy: BucketPolicy | null): string[] => policy ? validateBucketPolicy(policy) : [];
+
+const PolicyStatementForm = ({
+  statement,
+  disabled,
+  onChange
+}: {
+  statement: PolicyStatement;
+  disabled: boolean;
+  onChange: (statement: PolicyStatement) => void;
+}) => {
+  const effectLabelId = useId();
+  const principals = getPrincipals(statement);
+  const jsonOnly = [
+    statement.NotPrincipal !== undefined && 'NotPrincipal',
+    statement.NotAction !== undefined && 'NotAction',
+    statement.NotResource !== undefined && 'NotResource',
+    statement.Condition !== undefined && 'Condition'
+  ].filter(Boolean);
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+        <TextField
+          size="small"
+          label="Sid"
+          value={statement.Sid || ''}
+          disabled={disabled}
+          onChange={(e) => {
+            const next: PolicyStatement = { ...statement, Sid: e.target.value };
+            if (!e.target.value) delete next.Sid;
+            onChange(next);
+          }}
+        />
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel id={effectLabelId}>Effect</InputLabel>
+          <Select
+            labelId={effectLabelId}
+            value={statement.Effect}
+            label="Effect"
+            disabled={disabled}
+            onChange={(e) => onChange({ ...statement, Effect: e.target.value as PolicyStatement['Effect'] })}
+          >
+            <MenuItem value="Allow">Allow</MenuItem>
+            <MenuItem value="Deny">Deny</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+      {principals ? (
+        <ListField
+          label="Principals"
+          values={principals}
+          disabled={disabled}
+          helperText="* for everyone, or account, user and role ARNs, one per line"
+          onChange={(values) => onChange(setPrincipals(statement, values))}
+        />
+      ) : (
+        <Typography variant="caption" color="text.secondary">
+          Principal: {JSON.stringify(statement.Principal)} (edit in JSON)
+        </Typography>
+      )}
+      <ListField
+        label="Actions"
+        values={toList(statement.Action)}
+        disabled={disabled}
+        helperText="One per line, e.g. s3:GetObject or s3:*"
+        onChange={(values) => onChange({ ...statement, Action: fromList(values) })}
+      />
+      <ListField
+        label="Resources"
+        values={toList(statement.Resource)}
+        disabled={disabled}
+        helperText="One per line, e.g. arn:aws:s3:::bucket/*"
+        onChange={(values) => onChange({ ...statement, Resource: fromList(values) })}
+      />
+      {jsonOnly.length > 0 && (
+        <Typography variant="caption" color="text.secondary">
+          Also has {jsonOnly.join(', ')}, edit in JSON
+        </Typography>
+      )}
+    </>
+  );
+};
+
+interface BucketPolicyEditorProps {
+  policy: BucketPolicy | null;
+  // Used in the resource of a new policy
+  bucketName: string;
+  unavailable?: string;
+  onSave: (policy: BucketPolicy | null) => Promise<void>;
+}
+
+export const BucketPolicyEditor = ({ policy, bucketName, unavailable, onSave }: BucketPolicyEditorProps) => (
+  <SettingsSection<BucketPolicy | null>
+    title="Bucket Policy"
+    description="Who may do what with the bucket and its files, on top of the permissions of their own credentials. Saving an empty policy removes it."
+    value={policy}
+    unavailable={unavailable}
+    toJson={policyToJson}
+    parseJson={parsePolicyJson}
+    validate={validatePolicyDraft}
+    onSave={onSave}
+    renderForm={(draft, setDraft, disabled) => draft ? (
+      <>
+        {draft.Statement.map((statement, index) => (
+          <RuleBox
+            key={index}
+            title={`Statement ${index + 1}`}
+            disabled={disabled}
+            onDelete={() => setDraft({ ...draft, Statement: removeAt(draft.Statement, index) })}
+          >
+            <PolicyStatementForm
+              statement={statement}
+              disabled={disabled}
+              onChange={(next) => setDraft({ ...draft, Statement: replaceAt(draft.Statement, index, next) })}
+            />
+          </RuleBox>
+        ))}
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            startIcon={<AddIcon />}
+            disabled={disabled}
+            onClick={() => setDraft({
+              ...draft,
+              Statement: [...draft.Statement, { Effect: 'Allow', Principal: '*', Action: 's3:GetObject', Resource: `arn:aws:s3:::${bucketName}/*` }]
+            })}
+          >
+            Add statement
+          </Button>
+          <Button color="error" disabled={disabled} onClick={() => setDraft(null)}>
+            Remove policy
+          </Button>
+        </Box>
+      </>
+    ) : (
+      <>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          The bucket has no policy
+        </Typography>
+        <Button
+          startIcon={<AddIcon />}
+          disabled={disabled}
+          onClick={() => setDraft({
+            Version: '2012-10-17',
+            Statement: [{
+              Sid: 'PublicRead',
+              Effect: 'Allow',
+              Principal: '*',
+              Action: 's3:GetObject',
+              Resource: `arn:aws:s3:::${bucketName}/*`
+            }]
+          })}
+        >
+          Add policy
+        </Button>
+      </>
+    )}
+  />
+);
@@ -0,0 +1,384 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  IconButton,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  KeyboardArrowDown as NextIcon,
+  KeyboardArrowUp as PreviousIcon,
+  Search as SearchIcon
+} from '@mui/icons-material';
+import { tokenizeCode, EditorLanguage } from '@/client/utils/syntaxHighlight';
+import { toHighlightRegExp } from '@/client/utils/textHighlight';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  language: EditorLanguage;
+  disabled?: boolean;
+  // Line (1-based) to mark in the gutter, e.g. where validation failed
+  errorLine?: number;
+  height?: number;
+}
+
+const LINE_HEIGHT = 20;
+const PADDING = 8;
+// Larger text is edited without highlighting to keep typing responsive
+const MAX_HIGHLIGHT_LENGTH = 200 * 1024;
+// Stop collecting search matches after this many
+const MAX_MATCHES = 1000;
+
+// Shared by the textarea and the layers behind it, so the text lines up exactly
+const textLayerSx = {
+  m: 0,
+  p: `${PADDING}px`,
+  fontFamily: 'monospace',
+  fontSize: 13,
+  lineHeight: `${LINE_HEIGHT}px`,
+  whiteSpace: 'pre',
+  tabSize: 4,
+  border: 0,
+  letterSpacing: 'normal'
+} as const;
+
+const tokenColorsSx = {
+  '& .token-keyword': { color: 'secondary.main' },
+  '& .token-string': { color: 'success.main' },
+  '& .token-number': { color: 'warning.main' },
+  '& .token-literal': { color: 'info.main' },
+  '& .token-comment': { color: 'text.disabled', fontStyle: 'italic' },
+  '& .token-property': { color: 'primary.main' },
+  '& .token-punctuation': { color: 'text.secondary' },
+  '& .token-heading': { color: 'primary.main', fontWeight: 'bold' },
+  '& .token-emphasis': { fontStyle: 'italic', color: 'secondary.main' },
+  '& .token-code': { color: 'success.main' },
+  '& .token-link': { color: 'info.main', textDecoration: 'underline' }
+};
+
+interface TextMatch {
+  start: number;
+  end: number;
+}
+
+/**
+ * Code editor with syntax highlighting, line numbers and search and replace.
+ * The text is edited in a plain textarea with transparent text; the highlighted copy and
+ * the search marks are drawn in layers behind it and scrolled along with it.
+ */
+export const CodeEditor = ({
+  value,
+  onChange,
+  language,
+  disabled = false,
+  errorLine,
+  height = 400
+}: CodeEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const layersRef = useRef<HTMLDivElement | null>(null);
+  const gutterRef = useRef<HTMLDivElement | null>(null);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [isRegex, setIsRegex] = useState(false);
+  const [currentMatch, setCurrentMatch] = useState(0);
+
+  const tokens = useMemo(
+    () => tokenizeCode(value, value.length > MAX_HIGHLIGHT_LENGTH ? 'plain' : language),
+    [value, language]
+  );
+  const lineCount = useMemo(() => value.split('\n').length, [value]);
+  const lineNumbers = useMemo(() => Array.from({ length: lineCount }, (_, index) => index + 1).join('\n'), [lineCount]);
+
+  const searchRegExp = useMemo(
+    () => searchOpen ? toHighlightRegExp({ pattern: query, isRegex, caseSensitive }) : null,
+    [searchOpen, query, isRegex, caseSensitive]
+  );
+
+  const matches = useMemo(() => {
+    const found: TextMatch[] = [];
+    if (!searchRegExp) return found;
+
+    searchRegExp.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while (found.length < MAX_MATCHES && (match = searchRegExp.exec(value)) !== null) {
+      // Skip empty matches (e.g. "a*") so the loop always moves forward
+      if (match[0].length === 0) {
+        searchRegExp.lastIndex++;
+        continue;
+      }
+      found.push({ start: match.index, end: match.index + match[0].length });
+    }
+    return found;
+  }, [searchRegExp, value]);
+
+  const activeMatch = matches.length > 0 ? Math.min(currentMatch, matches.length - 1) : -1;
+
+  // Move the layers and the gutter along with the textarea
+  const syncScroll = useCallback(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    if (layersRef.current) {
+      layersRef.current.style.transform = `translate(${-textarea.scrollLeft}px, ${-textarea.scrollTop}px)`;
+    }
+    if (gutterRef.current) {
+      gutterRef.current.style.transform = `translateY(${-textarea.scrollTop}px)`;
+    }
+  }, []);
+
+  useEffect(() => {
+    syncScroll();
+  }, [value, syncScroll]);
+
+  // Scroll a match into the middle of the view
+  const revealMatch = useCallback((index: number) => {
+    const textarea = textareaRef.current;
+    const match = matches[index];
+    if (!textarea || !match) return;
+
+    const line = value.slice(0, match.start).split('\n').length - 1;
+    textarea.scrollTop = Math.max(0, line * LINE_HEIGHT - textarea.clientHeight / 2);
+    syncScroll();
+  }, [matches, value, syncScroll]);
+
+  const goToMatch = (step: number) => {
+    if (matches.length === 0) return;
+
+    const next = (activeMatch + step + matches.length) % matches.length;
+    setCurrentMatch(next);
+    revealMatch(next);
+  };
+
+  // In literal mode "$" in the replacement is not a group reference
+  const replacementText = isRegex ? replacement : replacement.replace(/\$/g, '$$$$');
+
+  const replaceCurrent = () => {
+    if (!searchRegExp || activeMatch < 0) return;
+
+    // A sticky copy of the pattern replaces just the match at its position, expanding $1 etc.
+    const single = new RegExp(searchRegExp.source, searchRegExp.flags.replace('g', '') + 'y');
+    single.lastIndex = matches[activeMatch].start;
+    onChange(value.replace(single, replacementText));
+  };
+
+  const replaceAll = () => {
+    if (!searchRegExp || matches.length === 0) return;
+    onChange(value.replace(searchRegExp, replacementText));
+  };
+
+  const openSearch = () => {
+    const textarea = textareaRef.current;
+    // Search for the selected text, if any
+    if (textarea && textarea.selectionStart !== textarea.selectionEnd) {
+      const selected = value.slice(textarea.selectionStart, textarea.selectionEnd);
+      if (!selected.includes('\n')) {
+        setQuery(selected);
+        setIsRegex(false);
+      }
+    }
+    setSearchOpen(true);
+    setTimeout(() => searchInputRef.current?.select(), 0);
+  };
+
+  const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && (e.key === 'f' || e.key === 'h')) {
+      e.preventDefault();
+      openSearch();
+    }
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      goToMatch(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      // Close the search bar rather than the dialog
+      e.stopPropagation();
+      setSearchOpen(false);
+      textareaRef.current?.focus();
+    }
+  };
+
+  // The text split at the matches, for the layer that marks them
+  const renderMatchLayer = () => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+
+    matches.forEach((match, index) => {
+      parts.push(value.slice(position, match.start));
+      parts.push(
+        <Box
+          key={index}
+          component="mark"
+          sx={{
+            color: 'transparent',
+            bgcolor: index === activeMatch ? 'warning.light' : 'action.selected',
+            borderRadius: 0.5
+          }}
+        >
+          {value.slice(match.start, match.end)}
+        </Box>
+      );
+      position = match.end;
+    });
+    parts.push(value.slice(position));
+
+    return parts;
+  };
+
+  return (
+    <Box>
+      {searchOpen ? (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+          <TextField
+            size="small"
+            placeholder="Find"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setCurrentMatch(0);
+            }}
+            onKeyDown={handleSearchKeyDown}
+            inputRef={searchInputRef}
+            error={Boolean(query) && !searchRegExp}
+            sx={{ width: 200 }}
+          />
+          <Typography variant="caption" color="text.secondary" sx={{ minWidth: 60 }}>
+            {query ? `${activeMatch + 1} of ${matches.length}${matches.length >= MAX_MATCHES ? '+' : ''}` : ''}
+          </Typography>
+          <IconButton size="small" onClick={() => goToMatch(-1)} disabled={matches.length === 0}>
+            <PreviousIcon fontSize="small" />
+          </IconButton>
+          <IconButton size="small" onClick={() => goToMatch(1)} disabled={matches.length === 0}>
+            <NextIcon fontSize="small" />
+          </IconButton>
+          <FormControlLabel
+            control={<Checkbox size="small" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />}
+            label="Match case"
+          />
+          <FormControlLabel
+            control={<Checkbox size="small" checked={isRegex} onChange={(e) => setIsRegex(e.target.checked)} />}
+            label="Regex"
+          />
+          <TextField
+            size="small"
+            placeholder="Replace"
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                e.stopPropagation();
+                setSearchOpen(false);
+              }
+            }}
+            disabled={disabled}
+            sx={{ width: 200 }}
+          />
+          <Button size="small" onClick={replaceCurrent} disabled={disabled || activeMatch < 0}>Replace</Button>
+          <Button size="small" onClick={replaceAll} disabled={disabled || matches.length === 0}>Replace All</Button>
+          <IconButton size="small" onClick={() => setSearchOpen(false)} sx={{ ml: 'auto' }}>
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      ) : (
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 0.5 }}>
+          <Tooltip title="Find and replace (Ctrl+F)">
+            <IconButton size="small" onClick={openSearch}>
+              <SearchIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Box>
+      )}
+
+      <Box
+        sx={{
+          display: 'flex',
+          height,
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1,
+          overflow: 'hidden',
+          bgcolor: disabled ? 'action.hover' : 'background.paper'
+        }}
+      >
+        {/* Line numbers */}
+        <Box sx={{ overflow: 'hidden', flexShrink: 0, borderRight: 1, borderColor: 'divider', bgcolor: 'action.hover' }}>
+          <Box ref={gutterRef} sx={{ position: 'relative' }}>
+            {errorLine && errorLine <= lineCount && (
+              <Box
+                sx={{
+                  position: 'absolute',
+                  left: 0,
+                  right: 0,
+                  top: PADDING + (errorLine - 1) * LINE_HEIGHT,
+                  height: LINE_HEIGHT,
+                  bgcolor: 'error.main',
+                  opacity: 0.3
+                }}
+              />
+            )}
+            <Box component="pre" sx={{ ...textLayerSx, position: 'relative', textAlign: 'right', color: 'text.secondary', userSelect: 'none' }}>
+              {lineNumbers}
+            </Box>
+          </Box>
+        </Box>
+
+        <Box sx={{ position: 'relative', flex: 1, overflow: 'hidden' }}>
+          <Box ref={layersRef} sx={{ position: 'absolute', top: 0, left: 0, minWidth: '100%' }} aria-hidden>
+            {/* Trailing line break so an empty last line keeps its height */}
+            <Box component="pre" sx={{ ...textLayerSx, position: 'absolute', top: 0, left: 0, color: 'transparent' }}>
+              {renderMatchLayer()}{'\n'}
+            </Box>
+            <Box component="pre" sx={{ ...textLayerSx, ...tokenColorsSx, position: 'relative', color: 'text.primary' }}>
+              {tokens.map((token, index) => token.type === 'plain' ? (
+                <React.Fragment key={index}>{token.text}</React.Fragment>
+              ) : (
+                <span key={index} className={`token-${token.type}`}>{token.text}</span>
+              ))}
+              {'\n'}
+            </Box>
+          </Box>
+
+          <Box
+            component="textarea"
+            ref={textareaRef}
+            value={value}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onChange(e.target.value)}
+            onScroll={syncScroll}
+            onKeyDown={handleEditorKeyDown}
+            disabled={disabled}
+            spellCheck={false}
+            wrap="off"
+            autoCapitalize="off"
+            autoComplete="off"
+            sx={{
+              ...textLayerSx,
+              position: 'absolute',
+              inset: 0,
+              width: '100%',
+              height: '100%',
+              boxSizing: 'border-box',
+              resize: 'none',
+              outline: 'none',
+              overflow: 'auto',
+              bgcolor: 'transparent',
+              color: 'transparent',
+              caretColor: (theme) => theme.palette.text.primary,
+              '&::selection': { bgcolor: 'action.selected' }
+            }}
+          />
+        </Box>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  Typography
+} from '@mui/material';
+import { parseDelimited } from '@/client/utils/delimitedText';
+
+interface CsvTableProps {
+  text: string;
+  // "," for CSV, "\t" for TSV
+  delimiter: string;
+}
+
+// Rows parsed and shown; large files are cut off here
+const MAX_TABLE_ROWS = 1000;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Delimited text as a table whose columns sort on click; the first row is the header
+export const CsvTable = ({ text, delimiter }: CsvTableProps) => {
+  const [sortColumn, setSortColumn] = useState<number | null>(null);
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+
+  const { header, body, truncated } = useMemo(() => {
+    // One extra row for the header
+    const table = parseDelimited(text, delimiter, MAX_TABLE_ROWS + 1);
+    return { header: table.rows[0] || [], body: table.rows.slice(1), truncated: table.truncated };
+  }, [text, delimiter]);
+  const columnCount = body.reduce((count, row) => Math.max(count, row.length), header.length);
+
+  const sortedRows = useMemo(() => {
+    if (sortColumn === null) return body;
+
+    const sorted = [...body].sort((a, b) => collator.compare(a[sortColumn] || '', b[sortColumn] || ''));
+    return sortDirection === 'asc' ? sorted : sorted.reverse();
+  }, [body, sortColumn, sortDirection]);
+
+  const handleSort = (column: number) => {
+    if (sortColumn === column) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortColumn(column);
+      setSortDirection('asc');
+    }
+  };
+
+  return (
+    <>
+      <TableContainer sx={{ maxHeight: 420, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              {Array.from({ length: columnCount }, (_, column) => (
+                <TableCell key={column} sx={{ fontWeight: 'bold', whiteSpace: 'nowrap' }}>
+                  <TableSortLabel
+                    active={sortColumn === column}
+                    direction={sortColumn === column ? sortDirection : 'asc'}
+                    onClick={() => handleSort(column)}
+                  >
+                    {header[column] ?? ''}
+                  </TableSortLabel>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sortedRows.map((row, index) => (
+              <TableRow key={index} hover>
+                {Array.from({ length: columnCount }, (_, column) => (
+                  <TableCell key={column}>{row[column] ?? ''}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      {truncated && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          Showing the first {MAX_TABLE_ROWS} rows. Download the file to see all of it.
+        </Typography>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  LinearProgress,
+  Typography,
+  Box,
+  Alert
+} from '@mui/material';
+import { Unarchive as UnarchiveIcon } from '@mui/icons-material';
+import type { ExtractConflictPolicy } from '@/apis/fileManagement/types';
+import type { ArchiveExtraction } from '../hooks/useArchiveExtract';
+import { formatFileSize } from './formatters';
+
+interface ExtractArchiveDialogProps {
+  open: boolean;
+  // Folder the archive will be extracted into
+  currentPrefix: string;
+  extraction: ArchiveExtraction | null;
+  onExtract: (file: File, conflictPolicy: ExtractConflictPolicy) => void;
+  onCancel: () => void;
+  // Clear a finished extraction to start another one
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const ARCHIVE_EXTENSIONS = '.zip,.tar,.tar.gz,.tgz';
+// Failed entries listed in the summary
+const MAX_SHOWN_FAILURES = 5;
+
+const formatFolder = (prefix: string) => (prefix ? `/${prefix}` : 'the bucket root');
+
+// Progress of an upload or extraction that is still running
+const ExtractionProgress = ({ extraction }: { extraction: ArchiveExtraction }) => {
+  if (extraction.stage === 'uploading') {
+    return (
+      <>
+        <Typography variant="body2">
+          Uploading {extraction.fileName}
+          {!extraction.multipart && ` • ${formatFileSize(extraction.uploaded)} of ${formatFileSize(extraction.size)}`}
+        </Typography>
+        <LinearProgress
+          variant={extraction.multipart ? 'indeterminate' : 'determinate'}
+          value={extraction.size > 0 ? (extraction.uploaded / extraction.size) * 100 : 100}
+          sx={{ mt: 1 }}
+        />
+        {extraction.multipart && (
+          <Typography variant="caption" color="text.secondary">
+            Large archives are uploaded in parts, see large uploads for details
+          </Typography>
+        )}
+      </>
+    );
+  }
+
+  const progress = extraction.job?.progress;
+  return (
+    <>
+      <Typography variant="body2">
+        Extracting into {formatFolder(extraction.destinationPrefix)}
+        {progress && ` • ${progress.processed} entries`}
+      </Typography>
+      <LinearProgress
+        variant={progress && progress.totalBytes > 0 ? 'determinate' : 'indeterminate'}
+        value={progress && progress.totalBytes > 0 ? Math.min(100, (progress.bytes / progress.totalBytes) * 100) : 0}
+        sx={{ mt: 1 }}
+      />
+      {progress?.current && (
+        <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+          {progress.current}
+        </Typography>
+      )}
+    </>
+  );
+};
+
+// Outcome of a finished extraction
+const ExtractionSummary = ({ extraction }: { extraction: ArchiveExtraction }) => {
+  const result = extraction.job?.result;
+
+  if (extraction.stage === 'completed' && result) {
+    const failed = result.failed.slice(0, MAX_SHOWN_FAILURES);
+    return (
+      <>
+        <Alert severity={result.failed.length > 0 ? 'warning' : 'success'}>
+          Extracted {result.extractedCount} files ({formatFileSize(result.size)}) into {formatFolder(extraction.destinationPrefix)}
+          {result.renamedCount > 0 && `, ${result.renamedCount} renamed`}
+          {result.skippedCount > 0 && `, ${result.skippedCount} skipped because they already exist`}
+          {result.failed.length > 0 && `, ${result.failed.length} failed`}
+        </Alert>
+        {failed.map(failure => (
+          <Typography key={failure.name} variant="caption" component="div" color="text.secondary" sx={{ mt: 0.5, wordBreak: 'break-all' }}>
+            {failure.name}: {failure.error}
+          </Typography>
+        ))}
+        {result.failed.length > failed.length && (
+          <Typography variant="caption" component="div" color="text.secondary">
+            and {result.failed.length - failed.length} more
+          </Typography>
+        )}
+      </>
+    );
+  }
+
+  if (extraction.stage === 'cancelled') {
+    return (
+      <Alert severity="info">
+        Extraction cancelled{extraction.job ? ', files extracted before stopping were kept' : ''}
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert severity="error">
+      {extraction.error || 'Extraction failed'}
+    </Alert>
+  );
+};
+
+export const ExtractArchiveDialog = ({
+  open,
+  currentPrefix,
+  extraction,
+  onExtract,
+  onCancel,
+  onReset,
+  onClose
+}: ExtractArchiveDialogProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [conflictPolicy, setConflictPolicy] = useState<ExtractConflictPolicy>('skip');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const running = extraction?.stage === 'uploading' || extraction?.stage === 'extracting';
+
+  // Start with an empty form once an extraction has been started
+  useEffect(() => {
+    if (extraction) setFile(null);
+  }, [extraction]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFile(e.target.files?.[0] || null);
+    // Allow choosing the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Extract Archive</DialogTitle>
+      <DialogContent>
+        {extraction ? (
+          <Box sx={{ mt: 1 }}>
+            {running ? <ExtractionProgress extraction={extraction} /> : <ExtractionSummary extraction={extraction} />}
+            {running && extraction.error && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                {extraction.error}
+              </Alert>
+            )}
+          </Box>
+        ) : (
+          <Box sx={{ mt: 1 }}>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Upload a .zip, .tar, .tar.gz or .tgz file; its files and folders are extracted into {formatFolder(currentPrefix)}.
+            </Typography>
+
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, my: 2 }}>
+              <Button variant="outlined" onClick={() => fileInputRef.current?.click()}>
+                Choose Archive
+              </Button>
+              <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>
+                {file ? `${file.name} (${formatFileSize(file.size)})` : 'No file chosen'}
+              </Typography>
+            </Box>
+
+            <FormControl size="small" fullWidth>
+              <InputLabel id="extract-archive-conflict-label">If a file already exists</InputLabel>
+              <Select
+                labelId="extract-archive-conflict-label"
+                value={conflictPolicy}
+                label="If a file already exists"
+                onChange={(e) => setConflictPolicy(e.target.value as ExtractConflictPolicy)}
+              >
+                <MenuItem value="skip">Skip it</MenuItem>
+                <MenuItem value="overwrite">Overwrite it</MenuItem>
+                <MenuItem value="rename">Keep both, rename the extracted file</MenuItem>
+              </Select>
+            </FormControl>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ARCHIVE_EXTENSIONS}
+              hidden
+              onChange={handleFileChange}
+            />
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {running && (
+          <Button color="error" onClick={onCancel}>
+            Stop
+          </Button>
+        )}
+        {extraction && !running && (
+          <Button onClick={onReset}>
+            Extract Another
+          </Button>
+        )}
+        <Button onClick={onClose}>
+          {running ? 'Hide' : 'Close'}
+        </Button>
+        {!extraction && (
+          <Button
+            variant="contained"
+            startIcon={<UnarchiveIcon />}
+            disabled={!file}
+            onClick={() => file && onExtract(file, conflictPolicy)}
+          >
+            Extract
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
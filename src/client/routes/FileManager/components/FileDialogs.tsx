@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { 
   Dialog,
   DialogTitle,
@@ -10,9 +10,25 @@ import {
   CircularProgress,
   Tabs,
   Tab,
-  Box
+  Box,
+  Alert,
+  ButtonGroup,
+  FormControlLabel,
+  Switch,
+  Typography
 } from '@mui/material';
 import type { FileInfo } from '@/apis/fileManagement/types';
+import { splitHighlights, HighlightPattern } from '@/client/utils/textHighlight';
+import type { FilePreviewData } from '@/client/utils/filePreview';
+import { getEditorLanguage } from '@/client/utils/syntaxHighlight';
+import type { ContentError } from '@/client/utils/contentValidation';
+import { VirtualizedText } from './VirtualizedText';
+import { HexDump } from './HexDump';
+import { CsvTable } from './CsvTable';
+import { MarkdownView } from './MarkdownView';
+import { CodeEditor } from './CodeEditor';
+import { formatFileSize } from './formatters';
+import type { FilePage, FilePagePosition } from '../hooks/useFilePages';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -149,9 +165,13 @@ interface EditFileDialogProps {
   loading: boolean;
   file: FileInfo | null;
   fileContent: string;
+  // Content type the file is saved with; picks the highlighting when the extension does not
+  contentType?: string;
+  // Syntax error found on save; the save is blocked until forced
+  validationError?: ContentError | null;
   onClose: () => void;
   onFileContentChange: (value: string) => void;
-  onSave: () => void;
+  onSave: (force?: boolean) => void;
 }
 
 export const EditFileDialog = ({
@@ -159,32 +179,48 @@ export const EditFileDialog = ({
   loading,
   file,
   fileContent,
+  contentType,
+  validationError,
   onClose,
   onFileContentChange,
   onSave
 }: EditFileDialogProps) => {
   // Extract filename from the key
   const fileName = file ? file.key.split('/').pop() || file.key : '';
+  const language = file ? getEditorLanguage(file.key, contentType) : 'plain';
   
   return (
-    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="lg">
       <DialogTitle>Edit File: {fileName}</DialogTitle>
       <DialogContent>
-        <TextField
-          margin="dense"
-          label="File Content"
-          fullWidth
-          multiline
-          rows={15}
+        {validationError && (
+          <Alert
+            severity="error"
+            sx={{ mb: 1 }}
+            action={
+              <Button color="inherit" size="small" onClick={() => onSave(true)} disabled={loading}>
+                Save Anyway
+              </Button>
+            }
+          >
+            {language === 'json' ? 'Invalid JSON' : 'Invalid YAML'}
+            {validationError.line && ` at line ${validationError.line}${validationError.column ? `, column ${validationError.column}` : ''}`}
+            : {validationError.message}
+          </Alert>
+        )}
+        <CodeEditor
           value={fileContent}
-          onChange={(e) => onFileContentChange(e.target.value)}
+          onChange={onFileContentChange}
+          language={language}
           disabled={loading}
+          errorLine={validationError?.line}
+          height={480}
         />
       </DialogContent>
       <DialogActions>
         <Button onClick={onClose} disabled={loading}>Cancel</Button>
         <Button 
-          onClick={onSave} 
+          onClick={() => onSave()} 
           disabled={loading}
           variant="contained"
           color="primary"
@@ -196,6 +232,136 @@ export const EditFileDialog = ({
   );
 };
 
+interface HighlightedTextProps {
+  text: string;
+  highlight: HighlightPattern;
+}
+
+// Read-only text with the matches of a pattern marked, scrolled to the target match
+const HighlightedText = ({ text, highlight }: HighlightedTextProps) => {
+  const targetRef = useRef<HTMLElement | null>(null);
+  const segments = useMemo(() => splitHighlights(text, highlight), [text, highlight]);
+
+  useEffect(() => {
+    targetRef.current?.scrollIntoView({ block: 'center' });
+  }, [segments]);
+
+  return (
+    <Box
+      component="pre"
+      sx={{
+        whiteSpace: 'pre-wrap',
+        wordBreak: 'break-word',
+        fontFamily: 'monospace',
+        maxHeight: 420,
+        overflow: 'auto',
+        m: 0,
+        p: 1,
+        border: 1,
+        borderColor: 'divider',
+        borderRadius: 1
+      }}
+    >
+      {segments.map((segment, index) => segment.match ? (
+        <mark
+          key={index}
+          ref={segment.isTarget ? targetRef : undefined}
+          style={segment.isTarget ? { outline: '2px solid orange' } : undefined}
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ))}
+    </Box>
+  );
+};
+
+// Text longer than this is shown with a viewer that only renders the visible lines
+const LARGE_TEXT_LENGTH = 100 * 1024;
+
+interface TextContentProps {
+  text: string;
+  highlight?: HighlightPattern | null;
+}
+
+// Read-only text, virtualized when large
+const TextContent = ({ text, highlight }: TextContentProps) => {
+  if (highlight) {
+    return <HighlightedText text={text} highlight={highlight} />;
+  }
+
+  if (text.length > LARGE_TEXT_LENGTH) {
+    return <VirtualizedText text={text} />;
+  }
+
+  return (
+    <TextField
+      fullWidth
+      multiline
+      rows={15}
+      value={text}
+      InputProps={{ readOnly: true }}
+    />
+  );
+};
+
+interface PagedTextProps {
+  page: FilePage | null;
+  loading: boolean;
+  following: boolean;
+  error?: string | null;
+  onPageChange: (position: FilePagePosition) => void;
+  onFollowChange: (following: boolean) => void;
+}
+
+// A page of a large text file with paging controls and a follow switch for growing files
+const PagedText = ({ page, loading, following, error, onPageChange, onFollowChange }: PagedTextProps) => {
+  const end = page ? page.offset + page.length : 0;
+  const atStart = !page || page.offset === 0;
+  const atEnd = !page || end >= page.totalSize;
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+        <ButtonGroup size="small" disabled={loading || following}>
+          <Button onClick={() => onPageChange('first')} disabled={atStart}>Start</Button>
+          <Button onClick={() => onPageChange('previous')} disabled={atStart}>Previous</Button>
+          <Button onClick={() => onPageChange('next')} disabled={atEnd}>Next</Button>
+          <Button onClick={() => onPageChange('last')}>End</Button>
+        </ButtonGroup>
+        <FormControlLabel
+          control={<Switch size="small" checked={following} onChange={(e) => onFollowChange(e.target.checked)} disabled={!page} />}
+          label="Follow"
+        />
+        {page && (
+          <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
+            {page.totalSize === 0
+              ? 'Empty file'
+              : `Bytes ${formatFileSize(page.offset)} – ${formatFileSize(end)} of ${formatFileSize(page.totalSize)}`}
+          </Typography>
+        )}
+      </Box>
+      {error && <Alert severity="error" sx={{ mb: 1 }}>{error}</Alert>}
+      {loading && !page ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Box sx={{ opacity: loading ? 0.5 : 1 }}>
+          {/* A new page starts scrolled to the top */}
+          <VirtualizedText
+            key={page?.offset}
+            text={page?.content || ''}
+            lineNumbers={atStart}
+            followEnd={following}
+          />
+        </Box>
+      )}
+    </>
+  );
+};
+
 interface ViewFileDialogProps {
   open: boolean;
   loading: boolean;
@@ -203,8 +369,22 @@ interface ViewFileDialogProps {
   fileContent: string;
   isJsonContent: boolean;
   jsonViewTab: number;
+  // Search match to mark in the content, e.g. when opened from content search results
+  highlight?: HighlightPattern | null;
+  // How to show the file; plain text when missing
+  preview?: FilePreviewData | null;
+  // The page shown of files that are read a page at a time
+  page?: FilePage | null;
+  pageLoading?: boolean;
+  following?: boolean;
+  pageError?: string | null;
   onClose: () => void;
   onTabChange: (newValue: number) => void;
+  onDownload?: (file: FileInfo) => void;
+  onPageChange?: (position: FilePagePosition) => void;
+  onFollowChange?: (following: boolean) => void;
+  // Offered for archived files, which cannot be read until restored
+  onRestore?: (file: FileInfo) => void;
 }
 
 export const ViewFileDialog = ({
@@ -214,11 +394,22 @@ export const ViewFileDialog = ({
   fileContent,
   isJsonContent,
   jsonViewTab,
+  highlight,
+  preview,
+  page = null,
+  pageLoading = false,
+  following = false,
+  pageError,
   onClose,
-  onTabChange
+  onTabChange,
+  onDownload,
+  onPageChange = () => undefined,
+  onFollowChange = () => undefined,
+  onRestore
 }: ViewFileDialogProps) => {
   // Extract filename from the key
   const fileName = file ? file.key.split('/').pop() || file.key : '';
+  const kind = preview?.kind || 'text';
   
   let parsedJson = null;
   let formattedJson = '';
@@ -232,6 +423,156 @@ export const ViewFileDialog = ({
       isJsonContent = false;
     }
   }
+
+  // Rendered and source views of tables and Markdown share the JSON tabs
+  const renderTabs = (labels: [string, string], rendered: React.ReactNode) => (
+    <>
+      <Tabs 
+        value={jsonViewTab} 
+        onChange={(_, newValue) => onTabChange(newValue)}
+        sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}
+      >
+        <Tab label={labels[0]} />
+        <Tab label={labels[1]} />
+      </Tabs>
+      <TabPanel value={jsonViewTab} index={0}>
+        {rendered}
+      </TabPanel>
+      <TabPanel value={jsonViewTab} index={1}>
+        <TextContent text={fileContent} />
+      </TabPanel>
+    </>
+  );
+
+  const renderContent = () => {
+    if (kind === 'image') {
+      return (
+        <Box
+          component="img"
+          src={preview?.url}
+          alt={fileName}
+          sx={{ display: 'block', maxWidth: '100%', maxHeight: '70vh', mx: 'auto' }}
+        />
+      );
+    }
+
+    if (kind === 'audio') {
+      return <audio controls src={preview?.url} style={{ width: '100%' }} />;
+    }
+
+    if (kind === 'video') {
+      return <video controls src={preview?.url} style={{ display: 'block', maxWidth: '100%', maxHeight: '70vh', margin: '0 auto' }} />;
+    }
+
+    if (kind === 'pdf') {
+      return (
+        <Box
+          component="iframe"
+          src={preview?.url}
+          title={fileName}
+          sx={{ width: '100%', height: '70vh', border: 0 }}
+        />
+      );
+    }
+
+    if (kind === 'table') {
+      return renderTabs(['Table', 'Raw'], <CsvTable text={fileContent} delimiter={preview?.delimiter || ','} />);
+    }
+
+    if (kind === 'markdown') {
+      return renderTabs(['Rendered', 'Source'], <MarkdownView source={fileContent} />);
+    }
+
+    if (kind === 'paged') {
+      return (
+        <PagedText
+          page={page}
+          loading={pageLoading}
+          following={following}
+          error={pageError}
+          onPageChange={onPageChange}
+          onFollowChange={onFollowChange}
+        />
+      );
+    }
+
+    if (kind === 'archived') {
+      const ongoing = !!preview?.restore?.ongoing;
+
+      return (
+        <Box sx={{ textAlign: 'center', p: 3 }}>
+          <DialogContentText sx={{ mb: 2 }}>
+            This file is archived in {preview?.storageClass}. Its content can only be read once it is restored.
+            {ongoing && ' A restore is in progress; depending on the retrieval tier it takes minutes to hours.'}
+          </DialogContentText>
+          {onRestore && file && !ongoing && (
+            <Button variant="outlined" onClick={() => onRestore(file)}>Restore</Button>
+          )}
+        </Box>
+      );
+    }
+
+    if (kind === 'binary') {
+      if (!preview?.bytes?.length) {
+        return (
+          <Box sx={{ textAlign: 'center', p: 3 }}>
+            <DialogContentText sx={{ mb: 2 }}>
+              This file cannot be previewed{preview?.contentType && ` (${preview.contentType})`}.
+            </DialogContentText>
+            {onDownload && file && (
+              <Button variant="outlined" onClick={() => onDownload(file)}>Download</Button>
+            )}
+          </Box>
+        );
+      }
+
+      return (
+        <>
+          <HexDump bytes={preview.bytes} />
+          {preview.bytes.length < preview.size && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              Showing the first {formatFileSize(preview.bytes.length)} of {formatFileSize(preview.size)}.
+            </Typography>
+          )}
+        </>
+      );
+    }
+
+    if (isJsonContent) {
+      return (
+        <>
+          <Tabs 
+            value={jsonViewTab} 
+            onChange={(_, newValue) => onTabChange(newValue)}
+            sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}
+          >
+            <Tab label="Formatted" />
+            <Tab label="Raw" />
+          </Tabs>
+          <TabPanel value={jsonViewTab} index={0}>
+            {highlight ? (
+              <HighlightedText text={formattedJson} highlight={highlight} />
+            ) : formattedJson.length > LARGE_TEXT_LENGTH ? (
+              <VirtualizedText text={formattedJson} />
+            ) : (
+              <pre style={{ 
+                whiteSpace: 'pre-wrap', 
+                wordBreak: 'break-word',
+                fontFamily: 'monospace'
+              }}>
+                {formattedJson}
+              </pre>
+            )}
+          </TabPanel>
+          <TabPanel value={jsonViewTab} index={1}>
+            <TextContent text={fileContent} highlight={highlight} />
+          </TabPanel>
+        </>
+      );
+    }
+
+    return <TextContent text={fileContent} highlight={highlight} />;
+  };
   
   return (
     <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
@@ -241,46 +582,12 @@ export const ViewFileDialog = ({
           <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
             <CircularProgress />
           </Box>
-        ) : isJsonContent ? (
-          <>
-            <Tabs 
-              value={jsonViewTab} 
-              onChange={(_, newValue) => onTabChange(newValue)}
-              sx={{ borderBottom: 1, borderColor: 'divider', mb: 2 }}
-            >
-              <Tab label="Formatted" />
-              <Tab label="Raw" />
-            </Tabs>
-            <TabPanel value={jsonViewTab} index={0}>
-              <pre style={{ 
-                whiteSpace: 'pre-wrap', 
-                wordBreak: 'break-word',
-                fontFamily: 'monospace'
-              }}>
-                {formattedJson}
-              </pre>
-            </TabPanel>
-            <TabPanel value={jsonViewTab} index={1}>
-              <TextField
-                fullWidth
-                multiline
-                rows={15}
-                value={fileContent}
-                InputProps={{ readOnly: true }}
-              />
-            </TabPanel>
-          </>
-        ) : (
-          <TextField
-            fullWidth
-            multiline
-            rows={15}
-            value={fileContent}
-            InputProps={{ readOnly: true }}
-          />
-        )}
+        ) : renderContent()}
       </DialogContent>
       <DialogActions>
+        {onDownload && file && kind !== 'archived' && (
+          <Button onClick={() => onDownload(file)}>Download</Button>
+        )}
         <Button onClick={onClose}>Close</Button>
       </DialogActions>
     </Dialog>
@@ -291,6 +598,8 @@ interface DeleteConfirmDialogProps {
   open: boolean;
   loading: boolean;
   item: FileInfo | null;
+  // Confirm deleting several items at once instead of a single item
+  selectedItems?: FileInfo[];
   onClose: () => void;
   onConfirm: () => void;
 }
@@ -299,20 +608,29 @@ export const DeleteConfirmDialog = ({
   open,
   loading,
   item,
+  selectedItems = [],
   onClose,
   onConfirm
 }: DeleteConfirmDialogProps) => {
   // Extract filename from the key
   const itemName = item ? item.key.split('/').pop() || item.key : '';
+  const selectedFolderCount = selectedItems.filter(selected => selected.isFolder).length;
   
   return (
     <Dialog open={open} onClose={onClose}>
       <DialogTitle>Confirm Delete</DialogTitle>
       <DialogContent>
-        <DialogContentText>
-          Are you sure you want to delete {item?.isFolder ? 'folder' : 'file'} &ldquo;{itemName}&rdquo;?
-          {item?.isFolder && ' This will delete all contents inside the folder.'}
-        </DialogContentText>
+        {selectedItems.length > 0 ? (
+          <DialogContentText>
+            Are you sure you want to delete {selectedItems.length} selected items?
+            {selectedFolderCount > 0 && ` This includes ${selectedFolderCount} folders and all of their contents.`}
+          </DialogContentText>
+        ) : (
+          <DialogContentText>
+            Are you sure you want to delete {item?.isFolder ? 'folder' : 'file'} &ldquo;{itemName}&rdquo;?
+            {item?.isFolder && ' This will delete all contents inside the folder.'}
+          </DialogContentText>
+        )}
       </DialogContent>
       <DialogActions>
         <Button onClick={onClose} disabled={loading}>Cancel</Button>
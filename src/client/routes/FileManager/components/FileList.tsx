@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   List,
   ListItem,
@@ -10,7 +10,10 @@ import {
   useTheme,
   Typography,
   Button,
-  Box
+  Box,
+  TextField,
+  Checkbox,
+  Chip
 } from '@mui/material';
 import {
   Folder as FolderIcon,
@@ -19,43 +22,57 @@ import {
   Edit as EditIcon,
   Visibility as VisibilityIcon,
   ContentCopy as CopyIcon,
-  Download as DownloadIcon
+  Download as DownloadIcon,
+  DriveFileRenameOutline as RenameIcon,
+  DriveFileMove as MoveIcon,
+  History as HistoryIcon,
+  Info as InfoIcon,
+  FolderZip as FolderZipIcon,
+  Inventory2 as StorageClassIcon,
+  Unarchive as RestoreIcon,
+  Share as ShareIcon
 } from '@mui/icons-material';
 import type { FileInfo } from '@/apis/fileManagement/types';
+import { getDroppedFiles, LocalFileEntry } from '@/client/utils/dropFiles';
+import { formatFileSize, formatDateTime, formatArchiveState, getArchiveState } from './formatters';
 
 interface FileListProps {
   files: FileInfo[];
   loading: boolean;
+  loadingMore?: boolean;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
   onNavigateToFolder: (prefix: string, folderName: string) => void;
   onDeleteItem: (file: FileInfo) => void;
   onEditFile: (file: FileInfo) => void;
   onViewFile: (file: FileInfo) => void;
+  onShowHistory?: (file: FileInfo) => void;
+  onShowProperties?: (file: FileInfo) => void;
   onCopyFile?: (file: FileInfo) => void;
   onDownloadFile?: (file: FileInfo) => void;
+  // Download folders (or several selected items) as one zip archive
+  onDownloadZip?: (file: FileInfo) => void;
+  onDownloadSelected?: () => void;
+  preparingZip?: boolean;
+  // Resolves to true when the rename succeeded and the editor can close
+  onRenameItem?: (file: FileInfo, newName: string) => Promise<boolean>;
+  onMoveItem?: (file: FileInfo) => void;
+  // Move a file, a folder or the selection to another storage class
+  onChangeStorageClass?: (file: FileInfo) => void;
+  onChangeStorageClassSelected?: () => void;
+  // Request a readable copy of an archived file
+  onRestoreFile?: (file: FileInfo) => void;
+  // Create a link others can download the file with
+  onShareFile?: (file: FileInfo) => void;
+  // Multi-select, shown when onToggleSelect is provided
+  selectedKeys?: Set<string>;
+  onToggleSelect?: (file: FileInfo) => void;
+  onSelectAll?: (selected: boolean) => void;
+  onDeleteSelected?: () => void;
+  // Files dropped on the list go to the current folder, or into the folder row they were dropped on
+  onDropFiles?: (entries: LocalFileEntry[], folder?: FileInfo) => void;
 }
 
-const formatFileSize = (bytes: number): string => {
-  if (bytes === 0) return '0 B';
-
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-};
-
-// Function to format date and time
-const formatDateTime = (date: Date): string => {
-  const options: Intl.DateTimeFormatOptions = {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit'
-  };
-  return new Date(date).toLocaleString(undefined, options);
-};
-
 // Function to shorten long filenames
 const shortenFileName = (fileName: string, maxLength = 50): string => {
   if (fileName.length <= maxLength) return fileName;
@@ -73,25 +90,101 @@ const shortenFileName = (fileName: string, maxLength = 50): string => {
 export const FileList = ({
   files,
   loading,
+  loadingMore = false,
+  hasMore = false,
+  onLoadMore = () => { },
   onNavigateToFolder,
   onDeleteItem,
   onEditFile,
   onViewFile,
+  onShowHistory,
+  onShowProperties,
   onCopyFile = () => { },
-  onDownloadFile = () => { }
+  onDownloadFile = () => { },
+  onDownloadZip,
+  onDownloadSelected,
+  preparingZip = false,
+  onRenameItem,
+  onMoveItem,
+  onChangeStorageClass,
+  onChangeStorageClassSelected,
+  onRestoreFile,
+  onShareFile,
+  selectedKeys = new Set<string>(),
+  onToggleSelect,
+  onSelectAll = () => { },
+  onDeleteSelected = () => { },
+  onDropFiles
 }: FileListProps) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  const [visibleFiles, setVisibleFiles] = useState<FileInfo[]>([]);
-  const [itemsPerPage] = useState(20);
-  const [currentPage, setCurrentPage] = useState(1);
+  // Key of the folder row being dragged over, '' for the list itself
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // Key of the item whose name is being edited inline
+  const [renamingKey, setRenamingKey] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [savingRename, setSavingRename] = useState(false);
+
+  const startRename = (file: FileInfo) => {
+    const path = file.key.endsWith('/') ? file.key.slice(0, -1) : file.key;
+    setRenamingKey(file.key);
+    setRenameValue(path.substring(path.lastIndexOf('/') + 1));
+  };
+
+  const submitRename = async (file: FileInfo) => {
+    if (!onRenameItem || !renameValue.trim()) return;
+
+    setSavingRename(true);
+    const renamed = await onRenameItem(file, renameValue.trim());
+    setSavingRename(false);
+
+    if (renamed) {
+      setRenamingKey(null);
+    }
+  };
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const getDropProps = (folder?: FileInfo) => {
+    if (!onDropFiles) return {};
+
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'copy';
+        setDropTarget(folder ? folder.key : '');
+      },
+      onDragLeave: (e: React.DragEvent) => {
+        // Ignore moves between children of the same target
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+        setDropTarget(current => current === (folder ? folder.key : '') ? null : current);
+      },
+      onDrop: async (e: React.DragEvent) => {
+        if (!isFileDrag(e)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setDropTarget(null);
+
+        const entries = await getDroppedFiles(e.dataTransfer);
+        if (entries.length > 0) {
+          onDropFiles(entries, folder);
+        }
+      }
+    };
+  };
 
-  // Sort files by date and prepare for pagination
-  useEffect(() => {
-    if (!files.length) return;
+  const dropZoneSx = {
+    minHeight: 120,
+    borderRadius: 1,
+    outline: dropTarget === '' ? `2px dashed ${theme.palette.primary.main}` : 'none',
+    outlineOffset: 2
+  };
 
-    // Sort files by date (newest first) and separate folders to keep them at the top
-    const sortedFiles = [...files].sort((a, b) => {
+  // Sort loaded files by date, keeping folders at the top
+  const visibleFiles = useMemo(() => {
+    return [...files].sort((a, b) => {
       // Always keep folders at top
       if (a.isFolder && !b.isFolder) return -1;
       if (!a.isFolder && b.isFolder) return 1;
@@ -100,28 +193,23 @@ export const FileList = ({
       const dateB = new Date(b.lastModified).getTime();
       return dateB - dateA;
     });
-
-    // Update visible files based on current page
-    const slicedFiles = sortedFiles.slice(0, currentPage * itemsPerPage);
-    setVisibleFiles(slicedFiles);
-  }, [files, currentPage, itemsPerPage]);
-
-  const handleLoadMore = () => {
-    setCurrentPage(prev => prev + 1);
-  };
+  }, [files]);
 
   if (loading) {
     return <CircularProgress />;
   }
 
   if (files.length === 0) {
-    return <div>No files found in this directory.</div>;
+    return (
+      <Box {...getDropProps()} sx={dropZoneSx}>
+        No files found in this directory.
+        {onDropFiles && ' Drop files here to upload them.'}
+      </Box>
+    );
   }
 
-  const remainingFiles = files.length - visibleFiles.length;
-
   return (
-    <>
+    <Box {...getDropProps()} sx={dropZoneSx}>
       <Box
         sx={{
           display: 'flex',
@@ -131,13 +219,58 @@ export const FileList = ({
           mt: 1
         }}
       >
-        <Typography
-          variant="body2"
-          color="text.secondary"
-          sx={{ fontWeight: 500 }}
-        >
-          Showing {visibleFiles.length} of {files.length} items
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {onToggleSelect && (
+            <Checkbox
+              size="small"
+              checked={selectedKeys.size > 0 && selectedKeys.size === files.length}
+              indeterminate={selectedKeys.size > 0 && selectedKeys.size < files.length}
+              onChange={(e) => onSelectAll(e.target.checked)}
+              inputProps={{ 'aria-label': 'Select all' }}
+              sx={{ p: 0.5 }}
+            />
+          )}
+
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{ fontWeight: 500 }}
+          >
+            Showing {visibleFiles.length} items{hasMore ? ' (more available)' : ''}
+          </Typography>
+
+          {onToggleSelect && selectedKeys.size > 0 && (
+            <Button
+              size="small"
+              color="error"
+              startIcon={<DeleteIcon />}
+              onClick={onDeleteSelected}
+            >
+              Delete selected ({selectedKeys.size})
+            </Button>
+          )}
+
+          {onToggleSelect && onDownloadSelected && selectedKeys.size > 0 && (
+            <Button
+              size="small"
+              startIcon={preparingZip ? <CircularProgress size={16} /> : <FolderZipIcon />}
+              onClick={onDownloadSelected}
+              disabled={preparingZip}
+            >
+              Download as zip
+            </Button>
+          )}
+
+          {onToggleSelect && onChangeStorageClassSelected && selectedKeys.size > 0 && (
+            <Button
+              size="small"
+              startIcon={<StorageClassIcon />}
+              onClick={onChangeStorageClassSelected}
+            >
+              Storage class
+            </Button>
+          )}
+        </Box>
 
         {files.length > 0 && (
           <Typography variant="caption" color="text.secondary">
@@ -155,13 +288,19 @@ export const FileList = ({
           const prefix = file.key.substring(0, file.key.length - fileName.length);
           // Get shortened filename for display
           const displayName = isMobile ? shortenFileName(fileName, 40) : shortenFileName(fileName, 30);
+          const archiveState = file.isFolder ? null : getArchiveState(file.storageClass, file.restore);
 
           return (
             <ListItem
               key={file.key}
+              {...(file.isFolder ? getDropProps(file) : {})}
               sx={{
                 borderBottom: '1px solid #eee',
                 '&:hover': { backgroundColor: 'rgba(0, 0, 0, 0.04)' },
+                ...(dropTarget === file.key && {
+                  backgroundColor: 'action.selected',
+                  outline: `2px dashed ${theme.palette.primary.main}`
+                }),
                 p: 0,
                 mb: 1.5,
                 borderRadius: 1,
@@ -187,11 +326,22 @@ export const FileList = ({
                     cursor: file.isFolder ? 'pointer' : 'default'
                   }}
                   onClick={() => {
-                    if (file.isFolder) {
+                    if (file.isFolder && renamingKey !== file.key) {
                       onNavigateToFolder(prefix, fileName);
                     }
                   }}
                 >
+                  {onToggleSelect && (
+                    <Checkbox
+                      size="small"
+                      checked={selectedKeys.has(file.key)}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={() => onToggleSelect(file)}
+                      inputProps={{ 'aria-label': `Select ${fileName}` }}
+                      sx={{ p: 0.5, mr: 1 }}
+                    />
+                  )}
+
                   <ListItemIcon sx={{ minWidth: isMobile ? 36 : 48 }}>
                     {file.isFolder ?
                       <FolderIcon color="primary" fontSize={isMobile ? "medium" : "medium"} /> :
@@ -200,17 +350,35 @@ export const FileList = ({
                   </ListItemIcon>
 
                   <Box sx={{ flexGrow: 1, overflow: 'hidden' }}>
-                    <Typography
-                      sx={{
-                        fontWeight: 500,
-                        fontSize: isMobile ? '0.95rem' : '1.1rem',
-                        overflow: 'hidden',
-                        textOverflow: 'ellipsis',
-                        whiteSpace: 'nowrap'
-                      }}
-                    >
-                      {displayName}
-                    </Typography>
+                    {renamingKey === file.key ? (
+                      <TextField
+                        autoFocus
+                        size="small"
+                        fullWidth
+                        value={renameValue}
+                        disabled={savingRename}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') submitRename(file);
+                          if (e.key === 'Escape') setRenamingKey(null);
+                        }}
+                        onBlur={() => !savingRename && setRenamingKey(null)}
+                        helperText="Enter to rename, Esc to cancel"
+                      />
+                    ) : (
+                      <Typography
+                        sx={{
+                          fontWeight: 500,
+                          fontSize: isMobile ? '0.95rem' : '1.1rem',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          whiteSpace: 'nowrap'
+                        }}
+                      >
+                        {displayName}
+                      </Typography>
+                    )}
                   </Box>
                 </Box>
 
@@ -227,17 +395,27 @@ export const FileList = ({
                   }}
                 >
                   {/* File info */}
-                  <Typography
-                    variant="caption"
-                    sx={{
-                      fontSize: '0.75rem',
-                      color: 'text.secondary',
-                      mr: 1,
-                      flexShrink: 0
-                    }}
-                  >
-                    {file.isFolder ? 'Folder' : formatFileSize(file.size)} • {formatDateTime(file.lastModified)}
-                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mr: 1, flexShrink: 0 }}>
+                    <Typography
+                      variant="caption"
+                      sx={{
+                        fontSize: '0.75rem',
+                        color: 'text.secondary'
+                      }}
+                    >
+                      {file.isFolder ? 'Folder' : formatFileSize(file.size)} • {formatDateTime(file.lastModified)}
+                      {file.storageClass && ` • ${file.storageClass}`}
+                    </Typography>
+                    {archiveState && (
+                      <Chip
+                        size="small"
+                        label={formatArchiveState(file.storageClass, file.restore)}
+                        color={archiveState === 'archived' ? 'default' : archiveState === 'restoring' ? 'warning' : 'success'}
+                        variant="outlined"
+                        sx={{ height: 20, fontSize: '0.7rem' }}
+                      />
+                    )}
+                  </Box>
 
                   {/* Actions */}
                   <Box sx={{ display: 'flex', gap: 0.5 }}>
@@ -263,6 +441,30 @@ export const FileList = ({
                           </IconButton>
                         </Tooltip>
 
+                        {onShowProperties && (
+                          <Tooltip title="Properties">
+                            <IconButton
+                              onClick={() => onShowProperties(file)}
+                              size="small"
+                              sx={{ p: 0.5 }}
+                            >
+                              <InfoIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+
+                        {onShowHistory && (
+                          <Tooltip title="History">
+                            <IconButton
+                              onClick={() => onShowHistory(file)}
+                              size="small"
+                              sx={{ p: 0.5 }}
+                            >
+                              <HistoryIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+
                         <Tooltip title="Copy">
                           <IconButton
                             onClick={() => onCopyFile(file)}
@@ -282,9 +484,85 @@ export const FileList = ({
                             <DownloadIcon fontSize="small" />
                           </IconButton>
                         </Tooltip>
+
+                        {/* Links to archived files would not work until they are restored */}
+                        {onShareFile && archiveState !== 'archived' && archiveState !== 'restoring' && (
+                          <Tooltip title="Share">
+                            <IconButton
+                              onClick={() => onShareFile(file)}
+                              size="small"
+                              sx={{ p: 0.5 }}
+                            >
+                              <ShareIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+
+                        {onRestoreFile && (archiveState === 'archived' || archiveState === 'restored') && (
+                          <Tooltip title={archiveState === 'archived' ? 'Restore' : 'Extend restore'}>
+                            <IconButton
+                              onClick={() => onRestoreFile(file)}
+                              size="small"
+                              sx={{ p: 0.5 }}
+                            >
+                              <RestoreIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
                       </>
                     )}
 
+                    {onChangeStorageClass && (
+                      <Tooltip title="Storage class">
+                        <IconButton
+                          onClick={() => onChangeStorageClass(file)}
+                          size="small"
+                          sx={{ p: 0.5 }}
+                        >
+                          <StorageClassIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+
+                    {file.isFolder && onDownloadZip && (
+                      <Tooltip title="Download as zip">
+                        <span>
+                          <IconButton
+                            onClick={() => onDownloadZip(file)}
+                            size="small"
+                            disabled={preparingZip}
+                            sx={{ p: 0.5 }}
+                          >
+                            <FolderZipIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    )}
+
+                    {onRenameItem && (
+                      <Tooltip title="Rename">
+                        <IconButton
+                          onClick={() => startRename(file)}
+                          size="small"
+                          sx={{ p: 0.5 }}
+                        >
+                          <RenameIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+
+                    {onMoveItem && (
+                      <Tooltip title="Move / Copy">
+                        <IconButton
+                          onClick={() => onMoveItem(file)}
+                          size="small"
+                          sx={{ p: 0.5 }}
+                        >
+                          <MoveIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+
                     <Tooltip title="Delete">
                       <IconButton
                         onClick={() => onDeleteItem(file)}
@@ -303,18 +581,19 @@ export const FileList = ({
         })}
       </List>
 
-      {remainingFiles > 0 && (
+      {hasMore && (
         <Box sx={{ display: 'flex', justifyContent: 'center', mt: 3, mb: 3 }}>
           <Button
             variant="contained"
-            onClick={handleLoadMore}
+            onClick={onLoadMore}
+            disabled={loadingMore}
             size={isMobile ? "medium" : "large"}
             sx={{ px: 3, py: 1 }}
           >
-            Load More ({remainingFiles} files remaining)
+            {loadingMore ? <CircularProgress size={24} /> : 'Load More'}
           </Button>
         </Box>
       )}
-    </>
+    </Box>
   );
 };
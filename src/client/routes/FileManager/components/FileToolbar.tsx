@@ -1,6 +1,6 @@
-import React from 'react';
-import { 
-  Box, 
+import React, { useRef } from 'react';
+import {
+  Box,
   Button,
   useMediaQuery,
   useTheme,
@@ -9,27 +9,60 @@ import {
 import {
   Add as AddIcon,
   CreateNewFolder as CreateNewFolderIcon,
-  Refresh as RefreshIcon
+  Refresh as RefreshIcon,
+  UploadFile as UploadFileIcon,
+  DriveFolderUpload as DriveFolderUploadIcon,
+  FindInPage as FindInPageIcon,
+  Unarchive as UnarchiveIcon,
+  Sync as SyncIcon
 } from '@mui/icons-material';
+import { getInputFiles, LocalFileEntry } from '@/client/utils/dropFiles';
+import type { SearchQuery } from '@/apis/fileManagement/types';
+import { SearchBar, SearchScope } from './SearchBar';
 
 interface FileToolbarProps {
   onNewFile: () => void;
   onNewFolder: () => void;
   onRefresh: () => void;
+  onUpload?: (entries: LocalFileEntry[]) => void;
+  onExtractArchive?: () => void;
+  onSync?: () => void;
+  onSearch?: (query: SearchQuery, scope: SearchScope) => void;
+  onClearSearch?: () => void;
+  onSearchContents?: () => void;
+  searchActive?: boolean;
+  // Offer searching only the current folder (false at the bucket root)
+  canSearchFolder?: boolean;
 }
 
 export const FileToolbar = ({
   onNewFile,
   onNewFolder,
-  onRefresh
+  onRefresh,
+  onUpload,
+  onExtractArchive,
+  onSync,
+  onSearch,
+  onClearSearch,
+  onSearchContents,
+  searchActive = false,
+  canSearchFolder = false
 }: FileToolbarProps) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onUpload?.(getInputFiles(e.target.files));
+    // Allow selecting the same files again
+    e.target.value = '';
+  };
+
   return (
     <Box sx={{ mb: 2 }}>
-      <Stack 
-        direction={isMobile ? 'column' : 'row'} 
+      <Stack
+        direction={isMobile ? 'column' : 'row'}
         spacing={1}
         sx={{ width: '100%' }}
       >
@@ -41,7 +74,7 @@ export const FileToolbar = ({
         >
           New File
         </Button>
-        
+
         <Button
           variant="contained"
           startIcon={<CreateNewFolderIcon />}
@@ -50,7 +83,62 @@ export const FileToolbar = ({
         >
           New Folder
         </Button>
-        
+
+        {onUpload && (
+          <>
+            <Button
+              variant="contained"
+              startIcon={<UploadFileIcon />}
+              onClick={() => fileInputRef.current?.click()}
+              fullWidth={isMobile}
+            >
+              Upload Files
+            </Button>
+
+            <Button
+              variant="contained"
+              startIcon={<DriveFolderUploadIcon />}
+              onClick={() => folderInputRef.current?.click()}
+              fullWidth={isMobile}
+            >
+              Upload Folder
+            </Button>
+          </>
+        )}
+
+        {onExtractArchive && (
+          <Button
+            variant="contained"
+            startIcon={<UnarchiveIcon />}
+            onClick={onExtractArchive}
+            fullWidth={isMobile}
+          >
+            Extract Archive
+          </Button>
+        )}
+
+        {onSync && (
+          <Button
+            variant="outlined"
+            startIcon={<SyncIcon />}
+            onClick={onSync}
+            fullWidth={isMobile}
+          >
+            Sync
+          </Button>
+        )}
+
+        {onSearchContents && (
+          <Button
+            variant="outlined"
+            startIcon={<FindInPageIcon />}
+            onClick={onSearchContents}
+            fullWidth={isMobile}
+          >
+            Search Contents
+          </Button>
+        )}
+
         <Button
           variant="outlined"
           startIcon={<RefreshIcon />}
@@ -60,6 +148,37 @@ export const FileToolbar = ({
           Refresh
         </Button>
       </Stack>
+
+      {onSearch && onClearSearch && (
+        <SearchBar
+          active={searchActive}
+          canSearchFolder={canSearchFolder}
+          onSearch={onSearch}
+          onClear={onClearSearch}
+        />
+      )}
+
+      {onUpload && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            hidden
+            onChange={handleInputChange}
+          />
+          <input
+            // webkitdirectory is not part of React's input attributes
+            ref={(el) => {
+              folderInputRef.current = el;
+              el?.setAttribute('webkitdirectory', '');
+            }}
+            type="file"
+            hidden
+            onChange={handleInputChange}
+          />
+        </>
+      )}
     </Box>
   );
 };
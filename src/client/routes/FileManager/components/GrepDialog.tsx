@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Checkbox,
+  FormControlLabel,
+  ToggleButton,
+  ToggleButtonGroup,
+  List,
+  ListItemButton,
+  Typography,
+  Box,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import type { BucketTarget, FileInfo, GrepMatch } from '@/apis/fileManagement/types';
+import type { HighlightPattern } from '@/client/utils/textHighlight';
+import { useGrep } from '../hooks/useGrep';
+
+interface GrepDialogProps {
+  open: boolean;
+  target: BucketTarget;
+  // Folder shown in the file list, offered as search scope
+  initialPrefix: string;
+  onClose: () => void;
+  // Open a matching file with the match marked
+  onOpenMatch: (file: FileInfo, highlight: HighlightPattern) => void;
+}
+
+const DEFAULT_MAX_SIZE_KB = 1024;
+const DEFAULT_CONCURRENCY = 8;
+
+// A snippet line with the first match marked
+const SnippetLine = ({ snippet, matchStart, matchEnd }: { snippet: string; matchStart: number; matchEnd: number }) => (
+  <>
+    {snippet.slice(0, matchStart)}
+    <mark>{snippet.slice(matchStart, matchEnd)}</mark>
+    {snippet.slice(matchEnd)}
+  </>
+);
+
+const toFileInfo = (match: GrepMatch): FileInfo => ({
+  key: match.key,
+  size: match.size,
+  lastModified: match.lastModified,
+  isFolder: false
+});
+
+export const GrepDialog = ({
+  open,
+  target,
+  initialPrefix,
+  onClose,
+  onOpenMatch
+}: GrepDialogProps) => {
+  const [pattern, setPattern] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [searchFolder, setSearchFolder] = useState(true);
+  const [maxSizeKb, setMaxSizeKb] = useState(String(DEFAULT_MAX_SIZE_KB));
+  const [concurrency, setConcurrency] = useState(String(DEFAULT_CONCURRENCY));
+
+  const {
+    activeGrep,
+    matches,
+    scannedCount,
+    skippedCount,
+    hasMore,
+    searching,
+    error,
+    grep,
+    loadMore,
+    stop
+  } = useGrep(target);
+
+  // Stop reading in the background once the dialog is closed
+  useEffect(() => {
+    if (!open) stop();
+  }, [open, stop]);
+
+  const scopePrefix = searchFolder ? initialPrefix : '';
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pattern) return;
+
+    grep({
+      prefix: scopePrefix,
+      pattern,
+      isRegex,
+      caseSensitive,
+      maxObjectSize: Math.round((parseFloat(maxSizeKb) || DEFAULT_MAX_SIZE_KB) * 1024),
+      concurrency: parseInt(concurrency, 10) || DEFAULT_CONCURRENCY
+    });
+  };
+
+  const openMatch = (match: GrepMatch, lineNumber: number) => {
+    if (!activeGrep) return;
+
+    onOpenMatch(toFileInfo(match), {
+      pattern: activeGrep.pattern,
+      isRegex: activeGrep.isRegex,
+      caseSensitive: activeGrep.caseSensitive,
+      lineNumber
+    });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Search File Contents</DialogTitle>
+      <DialogContent>
+        <Box component="form" onSubmit={handleSearch} sx={{ mt: 1 }}>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <TextField
+              autoFocus
+              fullWidth
+              size="small"
+              label={isRegex ? 'Regular expression' : 'Text'}
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+            />
+            <Button type="submit" variant="contained" disabled={!pattern}>
+              Search
+            </Button>
+          </Box>
+
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mt: 2 }}>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={searchFolder && initialPrefix ? 'folder' : 'bucket'}
+              onChange={(_, value: string | null) => value && setSearchFolder(value === 'folder')}
+            >
+              <ToggleButton value="folder" disabled={!initialPrefix}>This folder</ToggleButton>
+              <ToggleButton value="bucket">Whole bucket</ToggleButton>
+            </ToggleButtonGroup>
+
+            <FormControlLabel
+              control={<Checkbox size="small" checked={isRegex} onChange={(e) => setIsRegex(e.target.checked)} />}
+              label="Regex"
+            />
+
+            <FormControlLabel
+              control={<Checkbox size="small" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} />}
+              label="Match case"
+            />
+
+            <TextField
+              size="small"
+              type="number"
+              label="Max file size (KB)"
+              value={maxSizeKb}
+              onChange={(e) => setMaxSizeKb(e.target.value)}
+              sx={{ width: 160 }}
+            />
+
+            <TextField
+              size="small"
+              type="number"
+              label="Parallel reads"
+              value={concurrency}
+              onChange={(e) => setConcurrency(e.target.value)}
+              inputProps={{ min: 1, max: 32 }}
+              sx={{ width: 130 }}
+            />
+          </Box>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {activeGrep && (
+          <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 2 }}>
+            {matches.length} matching files in {activeGrep.prefix ? `/${activeGrep.prefix}` : 'the whole bucket'} •
+            {' '}{scannedCount} files read, {skippedCount} skipped (too large or binary)
+            {hasMore && !searching && ' • more files to search'}
+          </Typography>
+        )}
+
+        {activeGrep && !searching && !error && matches.length === 0 && (
+          <Typography color="text.secondary" sx={{ py: 3, textAlign: 'center' }}>
+            {hasMore ? 'No matches yet' : 'No matching files'}
+          </Typography>
+        )}
+
+        <List dense>
+          {matches.map(match => (
+            <Box key={match.key} sx={{ mb: 1.5 }}>
+              <Typography variant="subtitle2" sx={{ wordBreak: 'break-all' }}>
+                {match.key}
+                <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                  {match.lineCount} {match.lineCount === 1 ? 'line' : 'lines'}
+                </Typography>
+              </Typography>
+
+              {match.lines.map(line => (
+                <ListItemButton
+                  key={line.lineNumber}
+                  onClick={() => openMatch(match, line.lineNumber)}
+                  sx={{ py: 0.25, alignItems: 'flex-start' }}
+                >
+                  <Typography
+                    variant="body2"
+                    color="text.secondary"
+                    sx={{ fontFamily: 'monospace', minWidth: 48, textAlign: 'right', mr: 1.5 }}
+                  >
+                    {line.lineNumber}
+                  </Typography>
+                  <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    <SnippetLine snippet={line.snippet} matchStart={line.matchStart} matchEnd={line.matchEnd} />
+                  </Typography>
+                </ListItemButton>
+              ))}
+
+              {match.lineCount > match.lines.length && (
+                <Typography variant="caption" color="text.secondary" sx={{ pl: 8 }}>
+                  and {match.lineCount - match.lines.length} more lines
+                </Typography>
+              )}
+            </Box>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        {searching ? (
+          <>
+            <CircularProgress size={20} sx={{ mr: 1 }} />
+            <Button onClick={stop}>Stop</Button>
+          </>
+        ) : hasMore && (
+          <Button onClick={loadMore}>Search further</Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
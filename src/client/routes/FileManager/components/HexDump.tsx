@@ -0,0 +1,33 @@
+import React, { useMemo } from 'react';
+import { VirtualizedText } from './VirtualizedText';
+
+interface HexDumpProps {
+  bytes: Uint8Array;
+}
+
+const BYTES_PER_ROW = 16;
+
+// Offset, hex bytes and printable ASCII per row, like `hexdump -C`
+const toHexDump = (bytes: Uint8Array): string => {
+  const rows: string[] = [];
+
+  for (let offset = 0; offset < bytes.length; offset += BYTES_PER_ROW) {
+    const row = bytes.subarray(offset, offset + BYTES_PER_ROW);
+    const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0'));
+    const ascii = Array.from(row, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+
+    rows.push(
+      `${offset.toString(16).padStart(8, '0')}  ` +
+      `${hex.slice(0, 8).join(' ').padEnd(23)}  ${hex.slice(8).join(' ').padEnd(23)}  |${ascii}|`
+    );
+  }
+
+  return rows.join('\n');
+};
+
+// Binary content as a hex dump
+export const HexDump = ({ bytes }: HexDumpProps) => {
+  const dump = useMemo(() => toHexDump(bytes), [bytes]);
+
+  return <VirtualizedText text={dump} lineNumbers={false} />;
+};
@@ -0,0 +1,266 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  CircularProgress,
+  List,
+  ListItem,
+  Checkbox,
+  Chip,
+  Typography,
+  Box,
+  Alert
+} from '@mui/material';
+import {
+  getFileVersion,
+  listVersions,
+  restoreVersion
+} from '@/apis/fileManagement/client';
+import type { BucketTarget, FileInfo, FileVersion } from '@/apis/fileManagement/types';
+import { diffLines, isProbablyBinary, DiffLine } from '@/client/utils/textDiff';
+import { formatFileSize, formatDateTime } from './formatters';
+
+interface HistoryDialogProps {
+  open: boolean;
+  file: FileInfo | null;
+  target: BucketTarget;
+  onClose: () => void;
+  // Called after a version was restored so the listing can be refreshed
+  onRestored?: () => void;
+}
+
+const diffLineStyles: Record<DiffLine['type'], { prefix: string; bgcolor: string }> = {
+  same: { prefix: ' ', bgcolor: 'transparent' },
+  added: { prefix: '+', bgcolor: 'rgba(46, 160, 67, 0.15)' },
+  removed: { prefix: '-', bgcolor: 'rgba(248, 81, 73, 0.15)' }
+};
+
+export const HistoryDialog = ({
+  open,
+  file,
+  target,
+  onClose,
+  onRestored
+}: HistoryDialogProps) => {
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Up to two version ids picked for comparison
+  const [selected, setSelected] = useState<string[]>([]);
+  const [diff, setDiff] = useState<DiffLine[] | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    if (!file) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data } = await listVersions(file.key, target);
+      if (data.error) {
+        setError(data.error);
+      }
+      setVersions(data.versions || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [file, target]);
+
+  useEffect(() => {
+    if (open) {
+      setSelected([]);
+      setDiff(null);
+      loadVersions();
+    }
+  }, [open, loadVersions]);
+
+  const toggleSelected = (versionId: string) => {
+    setDiff(null);
+    setSelected(prev => {
+      if (prev.includes(versionId)) {
+        return prev.filter(id => id !== versionId);
+      }
+      // Keep the most recent pick when a third version is chosen
+      return [...prev, versionId].slice(-2);
+    });
+  };
+
+  const handleCompare = async () => {
+    if (!file || selected.length !== 2) return;
+
+    setComparing(true);
+    setError(null);
+
+    try {
+      // Diff from the older to the newer version
+      const [older, newer] = versions
+        .filter(version => selected.includes(version.versionId))
+        .sort((a, b) => new Date(a.lastModified).getTime() - new Date(b.lastModified).getTime());
+
+      const [oldResponse, newResponse] = await Promise.all([
+        getFileVersion(file.key, older.versionId, undefined, target),
+        getFileVersion(file.key, newer.versionId, undefined, target)
+      ]);
+
+      const responseError = oldResponse.data.error || newResponse.data.error;
+      if (responseError) {
+        setError(responseError);
+        return;
+      }
+
+      if (isProbablyBinary(oldResponse.data.content) || isProbablyBinary(newResponse.data.content)) {
+        setError('Binary versions cannot be compared');
+        return;
+      }
+
+      setDiff(diffLines(oldResponse.data.content, newResponse.data.content));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleRestore = async (version: FileVersion) => {
+    if (!file) return;
+
+    setRestoringId(version.versionId);
+    setError(null);
+
+    try {
+      const { data } = await restoreVersion(file.key, version.versionId, target);
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+
+      setSelected([]);
+      setDiff(null);
+      await loadVersions();
+      onRestored?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const fileName = file ? file.key.split('/').pop() || file.key : '';
+  const selectableVersions = versions.filter(version => !version.isDeleteMarker);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>History of &ldquo;{fileName}&rdquo;</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          Select two versions to compare them, or restore an older version as the current file.
+        </DialogContentText>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : (
+          <List dense sx={{ mt: 1, maxHeight: 280, overflowY: 'auto' }}>
+            {versions.map(version => (
+              <ListItem
+                key={version.versionId}
+                divider
+                secondaryAction={!version.isLatest && !version.isDeleteMarker && (
+                  <Button
+                    size="small"
+                    onClick={() => handleRestore(version)}
+                    disabled={restoringId !== null}
+                  >
+                    {restoringId === version.versionId ? <CircularProgress size={18} /> : 'Restore'}
+                  </Button>
+                )}
+              >
+                <Checkbox
+                  size="small"
+                  checked={selected.includes(version.versionId)}
+                  disabled={version.isDeleteMarker}
+                  onChange={() => toggleSelected(version.versionId)}
+                  sx={{ p: 0.5, mr: 1 }}
+                />
+
+                <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                  <Typography variant="body2">
+                    {formatDateTime(version.lastModified)}
+                    {!version.isDeleteMarker && ` • ${formatFileSize(version.size)}`}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" noWrap component="div">
+                    {version.versionId}
+                  </Typography>
+                </Box>
+
+                {version.isLatest && <Chip size="small" label="Current" color="primary" sx={{ mr: 1 }} />}
+                {version.isDeleteMarker && <Chip size="small" label="Deleted" color="warning" sx={{ mr: 1 }} />}
+              </ListItem>
+            ))}
+
+            {versions.length === 0 && !error && (
+              <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                No versions found. Is versioning enabled on the bucket?
+              </Typography>
+            )}
+          </List>
+        )}
+
+        {diff && (
+          <Box
+            sx={{
+              mt: 2,
+              border: '1px solid',
+              borderColor: 'divider',
+              borderRadius: 1,
+              maxHeight: 400,
+              overflow: 'auto',
+              fontFamily: 'monospace',
+              fontSize: '0.8rem'
+            }}
+          >
+            {diff.every(line => line.type === 'same') ? (
+              <Typography variant="body2" sx={{ p: 2 }}>
+                The selected versions are identical.
+              </Typography>
+            ) : (
+              diff.map((line, index) => (
+                <Box
+                  key={index}
+                  sx={{ whiteSpace: 'pre', px: 1, bgcolor: diffLineStyles[line.type].bgcolor }}
+                >
+                  {diffLineStyles[line.type].prefix} {line.text}
+                </Box>
+              ))
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          onClick={handleCompare}
+          disabled={selected.length !== 2 || comparing || selectableVersions.length < 2}
+          variant="contained"
+        >
+          {comparing ? <CircularProgress size={24} /> : 'Compare'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
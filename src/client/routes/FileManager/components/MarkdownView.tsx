@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Divider,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { parseMarkdown } from '@/client/utils/markdown';
+import type { MarkdownBlock, MarkdownInline } from '@/client/utils/markdown';
+
+interface MarkdownViewProps {
+  source: string;
+}
+
+const HEADING_VARIANTS = ['h4', 'h5', 'h6', 'subtitle1', 'subtitle2', 'subtitle2'] as const;
+
+const codeSx = {
+  fontFamily: 'monospace',
+  fontSize: '0.875em',
+  bgcolor: 'action.hover',
+  borderRadius: 0.5
+};
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text':
+      return <React.Fragment key={index}>{node.text}</React.Fragment>;
+    case 'code':
+      return <Box key={index} component="code" sx={{ ...codeSx, px: 0.5 }}>{node.text}</Box>;
+    case 'strong':
+      return <strong key={index}>{renderInline(node.children)}</strong>;
+    case 'em':
+      return <em key={index}>{renderInline(node.children)}</em>;
+    case 'strike':
+      return <del key={index}>{renderInline(node.children)}</del>;
+    case 'link':
+      return (
+        <Link key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+          {renderInline(node.children)}
+        </Link>
+      );
+    case 'image':
+      return <Box key={index} component="img" src={node.src} alt={node.alt} sx={{ maxWidth: '100%' }} />;
+    case 'break':
+      return <br key={index} />;
+  }
+});
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode => blocks.map((block, index) => {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <Typography key={index} variant={HEADING_VARIANTS[block.level - 1]} component={`h${block.level}` as React.ElementType} gutterBottom>
+          {renderInline(block.children)}
+        </Typography>
+      );
+    case 'paragraph':
+      return (
+        <Typography key={index} variant="body1" component="p" sx={{ mb: 1.5, whiteSpace: 'pre-line' }}>
+          {renderInline(block.children)}
+        </Typography>
+      );
+    case 'code':
+      return (
+        <Box key={index} component="pre" sx={{ ...codeSx, p: 1.5, mb: 1.5, overflow: 'auto' }}>
+          <code>{block.text}</code>
+        </Box>
+      );
+    case 'quote':
+      return (
+        <Box key={index} component="blockquote" sx={{ m: 0, mb: 1.5, pl: 2, borderLeft: 4, borderColor: 'divider', color: 'text.secondary' }}>
+          {renderBlocks(block.blocks)}
+        </Box>
+      );
+    case 'list':
+      return (
+        <Box key={index} component={block.ordered ? 'ol' : 'ul'} start={block.ordered ? block.start : undefined} sx={{ mt: 0, mb: 1.5, pl: 3 }}>
+          {block.items.map((item, itemIndex) => (
+            // Single paragraphs render inline so tight lists stay tight
+            <li key={itemIndex}>
+              {item.length === 1 && item[0].type === 'paragraph' ? renderInline(item[0].children) : renderBlocks(item)}
+            </li>
+          ))}
+        </Box>
+      );
+    case 'table':
+      return (
+        <Table key={index} size="small" sx={{ mb: 1.5, width: 'auto' }}>
+          <TableHead>
+            <TableRow>
+              {block.header.map((cell, column) => (
+                <TableCell key={column} align={block.align[column]} sx={{ fontWeight: 'bold' }}>{renderInline(cell)}</TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {block.rows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {block.header.map((_, column) => (
+                  <TableCell key={column} align={block.align[column]}>{renderInline(row[column] || [])}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      );
+    case 'rule':
+      return <Divider key={index} sx={{ my: 2 }} />;
+  }
+});
+
+// Markdown rendered as React elements
+export const MarkdownView = ({ source }: MarkdownViewProps) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <Box sx={{ maxHeight: 420, overflow: 'auto', wordBreak: 'break-word' }}>
+      {renderBlocks(blocks)}
+    </Box>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  CircularProgress,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+  Box
+} from '@mui/material';
+import {
+  Folder as FolderIcon,
+  ArrowUpward as ArrowUpwardIcon
+} from '@mui/icons-material';
+import { listFiles } from '@/apis/fileManagement/client';
+import type { BucketTarget, FileInfo } from '@/apis/fileManagement/types';
+
+export type TransferMode = 'move' | 'copy';
+
+interface MoveDialogProps {
+  open: boolean;
+  loading: boolean;
+  item: FileInfo | null;
+  target: BucketTarget;
+  // Folder the picker starts in
+  initialPrefix: string;
+  onClose: () => void;
+  onConfirm: (destinationPrefix: string, mode: TransferMode) => void;
+}
+
+// Last path segment of a key, without the trailing slash of folders
+const getBaseName = (key: string): string => {
+  const path = key.endsWith('/') ? key.slice(0, -1) : key;
+  return path.substring(path.lastIndexOf('/') + 1);
+};
+
+const getParentPrefix = (prefix: string): string => {
+  const path = prefix.endsWith('/') ? prefix.slice(0, -1) : prefix;
+  return path.substring(0, path.lastIndexOf('/') + 1);
+};
+
+export const MoveDialog = ({
+  open,
+  loading,
+  item,
+  target,
+  initialPrefix,
+  onClose,
+  onConfirm
+}: MoveDialogProps) => {
+  const [browsePrefix, setBrowsePrefix] = useState(initialPrefix);
+  const [folders, setFolders] = useState<FileInfo[]>([]);
+  const [loadingFolders, setLoadingFolders] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start browsing from the current folder every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setBrowsePrefix(initialPrefix);
+    }
+  }, [open, initialPrefix]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+
+    const loadFolders = async () => {
+      setLoadingFolders(true);
+      setError(null);
+
+      try {
+        const found: FileInfo[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+          const response = await listFiles(browsePrefix, { continuationToken }, target);
+          found.push(...(response.data.files || []).filter(file => file.isFolder));
+          continuationToken = response.data.nextContinuationToken;
+        } while (continuationToken && !cancelled);
+
+        if (!cancelled) {
+          setFolders(found.sort((a, b) => a.key.localeCompare(b.key)));
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load folders');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoadingFolders(false);
+        }
+      }
+    };
+
+    loadFolders();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, browsePrefix, target]);
+
+  const itemName = item ? getBaseName(item.key) : '';
+  const destinationKey = `${browsePrefix}${itemName}${item?.isFolder ? '/' : ''}`;
+  // A folder cannot be placed inside itself, and the item is already in its own parent
+  const invalidDestination = !item
+    || destinationKey === item.key
+    || (item.isFolder && browsePrefix.startsWith(item.key));
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Move or Copy &ldquo;{itemName}&rdquo;</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          Choose the destination folder.
+        </DialogContentText>
+
+        <Typography variant="body2" sx={{ mt: 1, mb: 1, fontFamily: 'monospace' }}>
+          /{browsePrefix}
+        </Typography>
+
+        <Box sx={{ border: '1px solid', borderColor: 'divider', borderRadius: 1, height: 300, overflowY: 'auto' }}>
+          {loadingFolders ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : (
+            <List dense disablePadding>
+              {browsePrefix && (
+                <ListItemButton onClick={() => setBrowsePrefix(getParentPrefix(browsePrefix))}>
+                  <ListItemIcon sx={{ minWidth: 36 }}>
+                    <ArrowUpwardIcon fontSize="small" />
+                  </ListItemIcon>
+                  <ListItemText primary=".." />
+                </ListItemButton>
+              )}
+
+              {folders.map(folder => (
+                <ListItemButton
+                  key={folder.key}
+                  onClick={() => setBrowsePrefix(folder.key)}
+                  disabled={item?.isFolder && folder.key === item.key}
+                >
+                  <ListItemIcon sx={{ minWidth: 36 }}>
+                    <FolderIcon fontSize="small" color="primary" />
+                  </ListItemIcon>
+                  <ListItemText primary={getBaseName(folder.key)} />
+                </ListItemButton>
+              ))}
+
+              {folders.length === 0 && !error && (
+                <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>
+                  No subfolders
+                </Typography>
+              )}
+            </List>
+          )}
+
+          {error && (
+            <Typography variant="body2" color="error" sx={{ p: 2 }}>
+              {error}
+            </Typography>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={loading}>Cancel</Button>
+        <Button
+          onClick={() => onConfirm(browsePrefix, 'copy')}
+          disabled={loading || invalidDestination}
+        >
+          Copy here
+        </Button>
+        <Button
+          onClick={() => onConfirm(browsePrefix, 'move')}
+          disabled={loading || invalidDestination}
+          variant="contained"
+        >
+          {loading ? <CircularProgress size={24} /> : 'Move here'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useRef } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  LinearProgress,
+  Button,
+  Tooltip,
+  Alert
+} from '@mui/material';
+import type { MultipartUploadState, MultipartPartState } from '../hooks/useMultipartUpload';
+import { formatFileSize } from './formatters';
+
+interface MultipartUploadPanelProps {
+  uploads: MultipartUploadState[];
+  onResume: (id: string, file: File) => void;
+  onRetry: (id: string) => void;
+  onAbort: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+const partColor = (part: MultipartPartState): string => {
+  switch (part.status) {
+    case 'done':
+      return 'success.main';
+    case 'uploading':
+      return 'primary.light';
+    case 'failed':
+      return 'error.main';
+    default:
+      return 'grey.300';
+  }
+};
+
+const statusLabel: Record<MultipartUploadState['status'], string> = {
+  uploading: 'Uploading',
+  completing: 'Finishing',
+  completed: 'Completed',
+  failed: 'Failed',
+  paused: 'Paused - select the file again to resume'
+};
+
+const UploadRow = ({
+  upload,
+  onResume,
+  onRetry,
+  onAbort,
+  onDismiss
+}: { upload: MultipartUploadState } & Omit<MultipartUploadPanelProps, 'uploads'>) => {
+  const resumeInputRef = useRef<HTMLInputElement>(null);
+
+  const uploaded = upload.parts.reduce((sum, part) => sum + part.loaded, 0);
+  const progress = upload.fileSize > 0 ? (uploaded / upload.fileSize) * 100 : 0;
+  const doneParts = upload.parts.filter(part => part.status === 'done').length;
+
+  return (
+    <Box sx={{ py: 1.5, borderBottom: '1px solid', borderColor: 'divider' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+        <Box sx={{ overflow: 'hidden' }}>
+          <Typography variant="body2" sx={{ fontWeight: 500 }} noWrap>
+            {upload.key}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {statusLabel[upload.status]} • {formatFileSize(uploaded)} of {formatFileSize(upload.fileSize)} • {doneParts}/{upload.parts.length} parts
+          </Typography>
+        </Box>
+
+        <Box sx={{ display: 'flex', gap: 0.5, flexShrink: 0 }}>
+          {upload.status === 'paused' && (
+            <Button size="small" onClick={() => resumeInputRef.current?.click()}>
+              Resume
+            </Button>
+          )}
+          {upload.status === 'failed' && (
+            <Button size="small" onClick={() => onRetry(upload.id)}>
+              Retry
+            </Button>
+          )}
+          {upload.status === 'completed' ? (
+            <Button size="small" onClick={() => onDismiss(upload.id)}>
+              Dismiss
+            </Button>
+          ) : (
+            <Button
+              size="small"
+              color="error"
+              disabled={upload.status === 'completing'}
+              onClick={() => onAbort(upload.id)}
+            >
+              Abort
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      <LinearProgress
+        variant="determinate"
+        value={progress}
+        color={upload.status === 'failed' ? 'error' : 'primary'}
+        sx={{ mt: 1 }}
+      />
+
+      {/* One segment per part */}
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: '2px', mt: 0.5 }}>
+        {upload.parts.map(part => (
+          <Tooltip
+            key={part.partNumber}
+            title={`Part ${part.partNumber}: ${part.status}${part.attempts > 1 ? ` (attempt ${part.attempts})` : ''}${part.error ? ` - ${part.error}` : ''}`}
+          >
+            <Box
+              sx={{
+                width: 8,
+                height: 8,
+                borderRadius: '2px',
+                bgcolor: partColor(part),
+                opacity: part.status === 'uploading' ? 0.4 + 0.6 * (part.loaded / (part.size || 1)) : 1
+              }}
+            />
+          </Tooltip>
+        ))}
+      </Box>
+
+      {upload.error && (
+        <Alert severity="error" sx={{ mt: 1, py: 0 }}>
+          {upload.error}
+        </Alert>
+      )}
+
+      <input
+        ref={resumeInputRef}
+        type="file"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            onResume(upload.id, file);
+          }
+          e.target.value = '';
+        }}
+      />
+    </Box>
+  );
+};
+
+export const MultipartUploadPanel = ({
+  uploads,
+  ...handlers
+}: MultipartUploadPanelProps) => {
+  if (uploads.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper variant="outlined" sx={{ px: 2, py: 1, mb: 2 }}>
+      <Typography variant="subtitle2">Large uploads</Typography>
+      {uploads.map(upload => (
+        <UploadRow key={upload.id} upload={upload} {...handlers} />
+      ))}
+    </Paper>
+  );
+};
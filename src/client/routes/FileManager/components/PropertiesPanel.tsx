@@ -0,0 +1,368 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Divider,
+  CircularProgress,
+  Alert,
+  Tooltip
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material';
+import {
+  headObject,
+  updateMetadata,
+  getTags,
+  putTags
+} from '@/apis/fileManagement/client';
+import type { BucketTarget, FileInfo, ObjectProperties } from '@/apis/fileManagement/types';
+import { formatFileSize, formatDateTime, formatArchiveState } from './formatters';
+
+interface PropertiesPanelProps {
+  open: boolean;
+  file: FileInfo | null;
+  target: BucketTarget;
+  onClose: () => void;
+  // Called after metadata changed so the listing can be refreshed
+  onUpdated?: () => void;
+  // Offered for archived files
+  onRestore?: (file: FileInfo) => void;
+}
+
+type KeyValueRow = { key: string; value: string };
+
+interface KeyValueEditorProps {
+  rows: KeyValueRow[];
+  disabled: boolean;
+  keyLabel: string;
+  addLabel: string;
+  onChange: (rows: KeyValueRow[]) => void;
+}
+
+// Editable list of key / value pairs used for user metadata and tags
+const KeyValueEditor = ({ rows, disabled, keyLabel, addLabel, onChange }: KeyValueEditorProps) => (
+  <Box>
+    {rows.map((row, index) => (
+      <Box key={index} sx={{ display: 'flex', gap: 1, mb: 1 }}>
+        <TextField
+          size="small"
+          label={keyLabel}
+          value={row.key}
+          disabled={disabled}
+          onChange={(e) => onChange(rows.map((r, i) => i === index ? { ...r, key: e.target.value } : r))}
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          size="small"
+          label="Value"
+          value={row.value}
+          disabled={disabled}
+          onChange={(e) => onChange(rows.map((r, i) => i === index ? { ...r, value: e.target.value } : r))}
+          sx={{ flex: 1 }}
+        />
+        <Tooltip title="Remove">
+          <IconButton
+            size="small"
+            disabled={disabled}
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+          >
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+    ))}
+    <Button
+      size="small"
+      startIcon={<AddIcon />}
+      disabled={disabled}
+      onClick={() => onChange([...rows, { key: '', value: '' }])}
+    >
+      {addLabel}
+    </Button>
+  </Box>
+);
+
+const ReadOnlyField = ({ label, value }: { label: string; value?: string }) => (
+  <Box sx={{ mb: 1 }}>
+    <Typography variant="caption" color="text.secondary">
+      {label}
+    </Typography>
+    <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>
+      {value || '—'}
+    </Typography>
+  </Box>
+);
+
+export const PropertiesPanel = ({
+  open,
+  file,
+  target,
+  onClose,
+  onUpdated,
+  onRestore
+}: PropertiesPanelProps) => {
+  const [properties, setProperties] = useState<ObjectProperties | null>(null);
+  const [contentType, setContentType] = useState('');
+  const [cacheControl, setCacheControl] = useState('');
+  const [contentDisposition, setContentDisposition] = useState('');
+  const [contentEncoding, setContentEncoding] = useState('');
+  const [metadataRows, setMetadataRows] = useState<KeyValueRow[]>([]);
+  const [tagRows, setTagRows] = useState<KeyValueRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [savingMetadata, setSavingMetadata] = useState(false);
+  const [savingTags, setSavingTags] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Fill the form from the stored object properties
+  const applyProperties = (next: ObjectProperties) => {
+    setProperties(next);
+    setContentType(next.contentType || '');
+    setCacheControl(next.cacheControl || '');
+    setContentDisposition(next.contentDisposition || '');
+    setContentEncoding(next.contentEncoding || '');
+    setMetadataRows(Object.entries(next.metadata).map(([key, value]) => ({ key, value })));
+  };
+
+  const loadProperties = useCallback(async () => {
+    if (!file) return;
+
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const [headResponse, tagsResponse] = await Promise.all([
+        headObject(file.key, target),
+        getTags(file.key, target)
+      ]);
+
+      if (headResponse.data.error || !headResponse.data.properties) {
+        setError(headResponse.data.error || 'Failed to load properties');
+        return;
+      }
+
+      applyProperties(headResponse.data.properties);
+
+      if (tagsResponse.data.error) {
+        setError(tagsResponse.data.error);
+      }
+      setTagRows(tagsResponse.data.tags || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load properties');
+    } finally {
+      setLoading(false);
+    }
+  }, [file, target]);
+
+  useEffect(() => {
+    if (open) {
+      setProperties(null);
+      loadProperties();
+    }
+  }, [open, loadProperties]);
+
+  const handleSaveMetadata = async () => {
+    if (!file) return;
+
+    setSavingMetadata(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const metadata = Object.fromEntries(
+        metadataRows
+          .filter(row => row.key.trim())
+          .map(row => [row.key.trim(), row.value])
+      );
+
+      const { data } = await updateMetadata(file.key, {
+        contentType,
+        cacheControl,
+        contentDisposition,
+        contentEncoding,
+        metadata
+      }, target);
+
+      if (data.error || !data.properties) {
+        setError(data.error || 'Failed to update metadata');
+        return;
+      }
+
+      applyProperties(data.properties);
+      setMessage('Metadata saved');
+      onUpdated?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update metadata');
+    } finally {
+      setSavingMetadata(false);
+    }
+  };
+
+  const handleSaveTags = async () => {
+    if (!file) return;
+
+    setSavingTags(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const tags = tagRows
+        .filter(row => row.key.trim())
+        .map(row => ({ key: row.key.trim(), value: row.value }));
+
+      const { data } = await putTags(file.key, tags, target);
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+
+      setTagRows(tags);
+      setMessage('Tags saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tags');
+    } finally {
+      setSavingTags(false);
+    }
+  };
+
+  const busy = loading || savingMetadata || savingTags;
+  const archiveState = properties && formatArchiveState(properties.storageClass, properties.restore);
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: { xs: '100vw', sm: 440 }, p: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6" sx={{ flexGrow: 1 }}>
+            Properties
+          </Typography>
+          <IconButton onClick={onClose}>
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {message && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {message}
+          </Alert>
+        )}
+
+        {loading && !properties ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : properties && (
+          <>
+            <ReadOnlyField label="Key" value={properties.key} />
+            <ReadOnlyField label="Size" value={formatFileSize(properties.size)} />
+            <ReadOnlyField label="Last modified" value={formatDateTime(properties.lastModified)} />
+            <ReadOnlyField label="ETag" value={properties.etag} />
+            <ReadOnlyField label="Storage class" value={properties.storageClass} />
+            {archiveState && (
+              <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between' }}>
+                <ReadOnlyField label="Archive" value={archiveState} />
+                {onRestore && file && !properties.restore?.ongoing && (
+                  <Button size="small" onClick={() => onRestore(file)}>
+                    {properties.archived ? 'Restore' : 'Extend restore'}
+                  </Button>
+                )}
+              </Box>
+            )}
+            {properties.versionId && <ReadOnlyField label="Version" value={properties.versionId} />}
+
+            <Divider sx={{ my: 2 }} />
+
+            <Typography variant="subtitle2" gutterBottom>
+              Metadata
+            </Typography>
+            <TextField
+              size="small"
+              margin="dense"
+              label="Content-Type"
+              fullWidth
+              value={contentType}
+              disabled={busy}
+              onChange={(e) => setContentType(e.target.value)}
+            />
+            <TextField
+              size="small"
+              margin="dense"
+              label="Cache-Control"
+              fullWidth
+              value={cacheControl}
+              disabled={busy}
+              onChange={(e) => setCacheControl(e.target.value)}
+            />
+            <TextField
+              size="small"
+              margin="dense"
+              label="Content-Disposition"
+              fullWidth
+              value={contentDisposition}
+              disabled={busy}
+              onChange={(e) => setContentDisposition(e.target.value)}
+            />
+            <TextField
+              size="small"
+              margin="dense"
+              label="Content-Encoding"
+              fullWidth
+              value={contentEncoding}
+              disabled={busy}
+              onChange={(e) => setContentEncoding(e.target.value)}
+            />
+
+            <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 2, mb: 1 }}>
+              User metadata (x-amz-meta-*)
+            </Typography>
+            <KeyValueEditor
+              rows={metadataRows}
+              disabled={busy}
+              keyLabel="Name"
+              addLabel="Add metadata"
+              onChange={setMetadataRows}
+            />
+
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+              <Button variant="contained" onClick={handleSaveMetadata} disabled={busy}>
+                {savingMetadata ? <CircularProgress size={24} /> : 'Save metadata'}
+              </Button>
+            </Box>
+
+            <Divider sx={{ my: 2 }} />
+
+            <Typography variant="subtitle2" gutterBottom>
+              Tags
+            </Typography>
+            <KeyValueEditor
+              rows={tagRows}
+              disabled={busy}
+              keyLabel="Key"
+              addLabel="Add tag"
+              onChange={setTagRows}
+            />
+
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+              <Button variant="contained" onClick={handleSaveTags} disabled={busy}>
+                {savingTags ? <CircularProgress size={24} /> : 'Save tags'}
+              </Button>
+            </Box>
+          </>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  IconButton,
+  Tooltip,
+  Collapse,
+  FormControlLabel,
+  Checkbox,
+  ToggleButton,
+  ToggleButtonGroup,
+  InputAdornment,
+  Stack
+} from '@mui/material';
+import {
+  Search as SearchIcon,
+  Close as CloseIcon,
+  FilterList as FilterListIcon
+} from '@mui/icons-material';
+import type { SearchMatchType, SearchQuery } from '@/apis/fileManagement/types';
+
+export type SearchScope = 'folder' | 'bucket';
+
+interface SearchBarProps {
+  // A search is showing results
+  active: boolean;
+  // The current folder can be searched on its own
+  canSearchFolder: boolean;
+  onSearch: (query: SearchQuery, scope: SearchScope) => void;
+  onClear: () => void;
+}
+
+const PLACEHOLDERS: Record<SearchMatchType, string> = {
+  contains: 'Search file names and paths',
+  glob: 'Glob, e.g. **/*.pdf or report-??.{csv,xlsx}',
+  regex: 'Regular expression, e.g. ^logs/2024-.*\\.gz$'
+};
+
+// Convert a size in KB typed by the user to bytes
+const toBytes = (kilobytes: string): number | undefined => {
+  const value = parseFloat(kilobytes);
+  return isNaN(value) ? undefined : Math.round(value * 1024);
+};
+
+// Turn a yyyy-mm-dd date input into the start or end of that local day
+const toIsoDate = (date: string, endOfDay: boolean): string | undefined => {
+  if (!date) return undefined;
+  return new Date(`${date}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString();
+};
+
+export const SearchBar = ({
+  active,
+  canSearchFolder,
+  onSearch,
+  onClear
+}: SearchBarProps) => {
+  const [pattern, setPattern] = useState('');
+  const [matchType, setMatchType] = useState<SearchMatchType>('contains');
+  const [scope, setScope] = useState<SearchScope>('bucket');
+  const [showFilters, setShowFilters] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [minSize, setMinSize] = useState('');
+  const [maxSize, setMaxSize] = useState('');
+  const [modifiedAfter, setModifiedAfter] = useState('');
+  const [modifiedBefore, setModifiedBefore] = useState('');
+  const [extensions, setExtensions] = useState('');
+
+  const hasFilters = !!(minSize || maxSize || modifiedAfter || modifiedBefore || extensions.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pattern.trim() && !hasFilters) return;
+
+    onSearch({
+      pattern: pattern.trim() || undefined,
+      matchType,
+      caseSensitive,
+      minSize: toBytes(minSize),
+      maxSize: toBytes(maxSize),
+      modifiedAfter: toIsoDate(modifiedAfter, false),
+      modifiedBefore: toIsoDate(modifiedBefore, true),
+      extensions: extensions.split(',').map(extension => extension.trim()).filter(Boolean)
+    }, canSearchFolder ? scope : 'bucket');
+  };
+
+  const handleClear = () => {
+    setPattern('');
+    onClear();
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1 }}>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          size="small"
+          fullWidth
+          value={pattern}
+          placeholder={PLACEHOLDERS[matchType]}
+          onChange={(e) => setPattern(e.target.value)}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" />
+              </InputAdornment>
+            ),
+            endAdornment: active ? (
+              <InputAdornment position="end">
+                <IconButton size="small" onClick={handleClear} aria-label="Clear search">
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              </InputAdornment>
+            ) : undefined
+          }}
+        />
+
+        <Select
+          size="small"
+          value={matchType}
+          onChange={(e) => setMatchType(e.target.value as SearchMatchType)}
+          sx={{ minWidth: 110 }}
+        >
+          <MenuItem value="contains">Text</MenuItem>
+          <MenuItem value="glob">Glob</MenuItem>
+          <MenuItem value="regex">Regex</MenuItem>
+        </Select>
+
+        <Tooltip title="Filters">
+          <IconButton
+            onClick={() => setShowFilters(!showFilters)}
+            color={hasFilters ? 'primary' : 'default'}
+          >
+            <FilterListIcon />
+          </IconButton>
+        </Tooltip>
+
+        <Button type="submit" variant="outlined">
+          Search
+        </Button>
+      </Stack>
+
+      <Collapse in={showFilters}>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center', mt: 2 }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={canSearchFolder ? scope : 'bucket'}
+            onChange={(_, value: SearchScope | null) => value && setScope(value)}
+          >
+            <ToggleButton value="bucket">Whole bucket</ToggleButton>
+            <ToggleButton value="folder" disabled={!canSearchFolder}>This folder</ToggleButton>
+          </ToggleButtonGroup>
+
+          <TextField
+            size="small"
+            type="number"
+            label="Min size (KB)"
+            value={minSize}
+            onChange={(e) => setMinSize(e.target.value)}
+            sx={{ width: 140 }}
+          />
+
+          <TextField
+            size="small"
+            type="number"
+            label="Max size (KB)"
+            value={maxSize}
+            onChange={(e) => setMaxSize(e.target.value)}
+            sx={{ width: 140 }}
+          />
+
+          <TextField
+            size="small"
+            type="date"
+            label="Modified after"
+            value={modifiedAfter}
+            onChange={(e) => setModifiedAfter(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+
+          <TextField
+            size="small"
+            type="date"
+            label="Modified before"
+            value={modifiedBefore}
+            onChange={(e) => setModifiedBefore(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+          />
+
+          <TextField
+            size="small"
+            label="Extensions"
+            placeholder="pdf, png"
+            value={extensions}
+            onChange={(e) => setExtensions(e.target.value)}
+            sx={{ width: 160 }}
+          />
+
+          <FormControlLabel
+            control={
+              <Checkbox
+                size="small"
+                checked={caseSensitive}
+                onChange={(e) => setCaseSensitive(e.target.checked)}
+              />
+            }
+            label="Match case"
+          />
+        </Box>
+      </Collapse>
+    </Box>
+  );
+};
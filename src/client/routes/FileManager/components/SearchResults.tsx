@@ -0,0 +1,128 @@
+import React from 'react';
+import {
+  Box,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  Typography,
+  Button,
+  CircularProgress,
+  Alert
+} from '@mui/material';
+import {
+  Description as FileIcon,
+  FolderOpen as FolderOpenIcon,
+  Visibility as VisibilityIcon,
+  Close as CloseIcon
+} from '@mui/icons-material';
+import type { FileInfo } from '@/apis/fileManagement/types';
+import { formatFileSize, formatDateTime } from './formatters';
+
+interface SearchResultsProps {
+  results: FileInfo[];
+  // Folder the search ran in, '' for the whole bucket
+  prefix: string;
+  scannedCount: number;
+  searching: boolean;
+  hasMore: boolean;
+  error: string | null;
+  onLoadMore: () => void;
+  onOpenFolder: (prefix: string) => void;
+  onViewFile: (file: FileInfo) => void;
+  onClose: () => void;
+}
+
+// The folder part of a key, e.g. "a/b/" for "a/b/c.txt"
+const getFolderPrefix = (key: string): string => key.slice(0, key.lastIndexOf('/') + 1);
+
+export const SearchResults = ({
+  results,
+  prefix,
+  scannedCount,
+  searching,
+  hasMore,
+  error,
+  onLoadMore,
+  onOpenFolder,
+  onViewFile,
+  onClose
+}: SearchResultsProps) => {
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="subtitle1">
+          {results.length} {results.length === 1 ? 'match' : 'matches'} in {prefix ? `/${prefix}` : 'the whole bucket'}
+          <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+            ({scannedCount} objects scanned{hasMore ? ', more to search' : ''})
+          </Typography>
+        </Typography>
+
+        <Tooltip title="Back to folder">
+          <IconButton onClick={onClose} size="small">
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {!searching && !error && results.length === 0 && (
+        <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+          {hasMore ? 'No matches yet' : 'No matching files'}
+        </Typography>
+      )}
+
+      <List dense>
+        {results.map(file => {
+          const folder = getFolderPrefix(file.key);
+
+          return (
+            <ListItem
+              key={file.key}
+              disablePadding
+              secondaryAction={
+                <Tooltip title="View">
+                  <IconButton edge="end" size="small" onClick={() => onViewFile(file)}>
+                    <VisibilityIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              }
+            >
+              <Tooltip title={`Open /${folder}`} placement="bottom-start">
+                <ListItemButton onClick={() => onOpenFolder(folder)}>
+                  <ListItemIcon sx={{ minWidth: 40 }}>
+                    <FileIcon color="info" />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={file.key}
+                    secondary={`${formatFileSize(file.size)} • ${formatDateTime(file.lastModified)}`}
+                    primaryTypographyProps={{ sx: { wordBreak: 'break-all' } }}
+                  />
+                  <FolderOpenIcon fontSize="small" color="action" sx={{ ml: 1, mr: 2 }} />
+                </ListItemButton>
+              </Tooltip>
+            </ListItem>
+          );
+        })}
+      </List>
+
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+        {searching ? (
+          <CircularProgress size={24} />
+        ) : hasMore && (
+          <Button variant="outlined" onClick={onLoadMore}>
+            Search further
+          </Button>
+        )}
+      </Box>
+    </Box>
+  );
+};
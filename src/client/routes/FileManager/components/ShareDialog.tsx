@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Checkbox,
+  IconButton,
+  InputAdornment,
+  Tooltip,
+  Alert
+} from '@mui/material';
+import { ContentCopy as CopyIcon } from '@mui/icons-material';
+import { createShareLink } from '@/apis/fileManagement/client';
+import type { BucketTarget, FileInfo, ShareLink } from '@/apis/fileManagement/types';
+import { formatDateTime } from './formatters';
+
+const EXPIRY_OPTIONS: { value: number; label: string }[] = [
+  { value: 3600, label: '1 hour' },
+  { value: 6 * 3600, label: '6 hours' },
+  { value: 24 * 3600, label: '1 day' },
+  { value: 3 * 24 * 3600, label: '3 days' },
+  { value: 7 * 24 * 3600, label: '7 days' }
+];
+
+// The name entered last time, so it does not have to be typed for every link
+const SHARED_BY_STORAGE_KEY = 'fileManager.sharedBy';
+
+const getBaseName = (key: string): string => key.substring(key.lastIndexOf('/') + 1);
+
+interface ShareDialogProps {
+  open: boolean;
+  file: FileInfo | null;
+  target: BucketTarget;
+  onClose: () => void;
+  // Opens the list of every active link of the bucket
+  onShowLinks?: () => void;
+}
+
+export const ShareDialog = ({
+  open,
+  file,
+  target,
+  onClose,
+  onShowLinks
+}: ShareDialogProps) => {
+  const [expiresIn, setExpiresIn] = useState(24 * 3600);
+  const [forceDownload, setForceDownload] = useState(false);
+  const [downloadName, setDownloadName] = useState('');
+  const [sharedBy, setSharedBy] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open && file) {
+      setDownloadName(getBaseName(file.key));
+      setSharedBy(localStorage.getItem(SHARED_BY_STORAGE_KEY) || '');
+      setLink(null);
+      setCopied(false);
+      setError(null);
+    }
+  }, [open, file]);
+
+  const handleCreate = async () => {
+    if (!file) return;
+
+    setCreating(true);
+    setError(null);
+
+    try {
+      const { data } = await createShareLink(file.key, {
+        expiresIn,
+        forceDownload,
+        downloadName: downloadName.trim() || undefined,
+        sharedBy: sharedBy.trim() || undefined
+      }, target);
+      if (data.error || !data.link) {
+        throw new Error(data.error || 'Failed to create the link');
+      }
+
+      localStorage.setItem(SHARED_BY_STORAGE_KEY, sharedBy.trim());
+      setLink(data.link);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link.url);
+    setCopied(true);
+  };
+
+  const fileName = file ? getBaseName(file.key) : '';
+  const invalidName = /[/\\]/.test(downloadName);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Share &ldquo;{fileName}&rdquo;</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          Anyone with the link can download the file until it expires. Links cannot be revoked
+          before then, so pick the shortest time that works.
+        </DialogContentText>
+
+        <FormControl size="small" fullWidth margin="dense">
+          <InputLabel id="share-expiry-label">Expires after</InputLabel>
+          <Select
+            labelId="share-expiry-label"
+            value={expiresIn}
+            label="Expires after"
+            disabled={creating || !!link}
+            onChange={(e) => setExpiresIn(Number(e.target.value))}
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <TextField
+          size="small"
+          label="File name"
+          fullWidth
+          margin="dense"
+          value={downloadName}
+          disabled={creating || !!link}
+          error={invalidName}
+          helperText={invalidName ? 'A file name cannot contain / or \\' : 'The name the file is saved under'}
+          onChange={(e) => setDownloadName(e.target.value)}
+        />
+
+        <TextField
+          size="small"
+          label="Shared by"
+          fullWidth
+          margin="dense"
+          value={sharedBy}
+          disabled={creating || !!link}
+          helperText="Shown in the list of shared links"
+          onChange={(e) => setSharedBy(e.target.value)}
+        />
+
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={forceDownload}
+              disabled={creating || !!link}
+              onChange={(e) => setForceDownload(e.target.checked)}
+            />
+          }
+          label="Always download, even for files browsers can show"
+        />
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {link && (
+          <>
+            <TextField
+              size="small"
+              label="Link"
+              fullWidth
+              margin="dense"
+              value={link.url}
+              InputProps={{
+                readOnly: true,
+                endAdornment: (
+                  <InputAdornment position="end">
+                    <Tooltip title={copied ? 'Copied' : 'Copy link'}>
+                      <IconButton size="small" onClick={handleCopy}>
+                        <CopyIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </InputAdornment>
+                )
+              }}
+              onFocus={(e) => e.target.select()}
+            />
+            <Alert severity="success" sx={{ mt: 1 }}>
+              Valid until {formatDateTime(link.expiresAt)}
+            </Alert>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {onShowLinks && <Button onClick={onShowLinks} sx={{ mr: 'auto' }}>Shared links</Button>}
+        <Button onClick={onClose} disabled={creating}>{link ? 'Close' : 'Cancel'}</Button>
+        {!link && (
+          <Button onClick={handleCreate} disabled={creating || !file || invalidName} variant="contained">
+            {creating ? <CircularProgress size={24} /> : 'Create link'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Alert
+} from '@mui/material';
+import { changeStorageClass, restoreArchivedFile } from '@/apis/fileManagement/client';
+import type {
+  BucketTarget,
+  ChangeStorageClassResponse,
+  FileInfo,
+  RestoreStatus,
+  RestoreTier,
+  StorageClassOption
+} from '@/apis/fileManagement/types';
+import { formatArchiveState } from './formatters';
+
+const STORAGE_CLASS_OPTIONS: { value: StorageClassOption; label: string }[] = [
+  { value: 'STANDARD', label: 'Standard - frequently read files' },
+  { value: 'STANDARD_IA', label: 'Standard-IA - rarely read, still instantly available' },
+  { value: 'GLACIER', label: 'Glacier - archived, must be restored before reading' }
+];
+
+const RESTORE_TIER_OPTIONS: { value: RestoreTier; label: string }[] = [
+  { value: 'Expedited', label: 'Expedited - 1 to 5 minutes' },
+  { value: 'Standard', label: 'Standard - 3 to 5 hours' },
+  { value: 'Bulk', label: 'Bulk - 5 to 12 hours, lowest cost' }
+];
+
+const MAX_RESTORE_DAYS = 30;
+
+// Last path segment of a key, without the trailing slash of folders
+const getBaseName = (key: string): string => {
+  const path = key.endsWith('/') ? key.slice(0, -1) : key;
+  return path.substring(path.lastIndexOf('/') + 1);
+};
+
+interface StorageClassDialogProps {
+  open: boolean;
+  // Files and folders to change; folders include everything under them
+  items: FileInfo[];
+  target: BucketTarget;
+  onClose: () => void;
+  // Called after objects were moved so the listing can be refreshed
+  onChanged?: () => void;
+}
+
+export const StorageClassDialog = ({
+  open,
+  items,
+  target,
+  onClose,
+  onChanged
+}: StorageClassDialogProps) => {
+  const [storageClass, setStorageClass] = useState<StorageClassOption>('STANDARD_IA');
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<ChangeStorageClassResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      // Suggest moving a single file out of its current class
+      const current = items.length === 1 ? items[0].storageClass : undefined;
+      setStorageClass(current && current !== 'STANDARD' ? 'STANDARD' : 'STANDARD_IA');
+      setResult(null);
+      setError(null);
+    }
+  }, [open, items]);
+
+  const handleApply = async () => {
+    setSaving(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const { data } = await changeStorageClass(items.map(item => item.key), storageClass, target);
+      if (data.error && data.failed.length === 0) {
+        throw new Error(data.error);
+      }
+
+      setResult(data);
+      if (data.changed > 0) {
+        onChanged?.();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change the storage class');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const title = items.length === 1 ? `“${getBaseName(items[0].key)}”` : `${items.length} items`;
+  const hasFolders = items.some(item => item.isFolder);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Storage Class of {title}</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          Each file is copied onto itself in the new storage class.
+          {hasFolders && ' Folders include every file under them.'}
+          {' '}Archived files have to be restored before they can be moved out of Glacier.
+        </DialogContentText>
+
+        <FormControl size="small" fullWidth>
+          <InputLabel id="storage-class-label">Storage class</InputLabel>
+          <Select
+            labelId="storage-class-label"
+            value={storageClass}
+            label="Storage class"
+            disabled={saving}
+            onChange={(e) => setStorageClass(e.target.value as StorageClassOption)}
+          >
+            {STORAGE_CLASS_OPTIONS.map(option => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {result && (
+          <Alert severity={result.failed.length > 0 ? 'warning' : 'success'} sx={{ mt: 2 }}>
+            {result.changed} moved, {result.unchanged} already in {storageClass}
+            {result.failed.length > 0 && `, ${result.failed.length} failed: `}
+            {result.failed.slice(0, 3).map(failure => `${failure.key} (${failure.error})`).join(', ')}
+            {result.failed.length > 3 && ` and ${result.failed.length - 3} more`}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>{result ? 'Close' : 'Cancel'}</Button>
+        <Button onClick={handleApply} disabled={saving || items.length === 0} variant="contained">
+          {saving ? <CircularProgress size={24} /> : 'Apply'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+interface RestoreArchiveDialogProps {
+  open: boolean;
+  file: FileInfo | null;
+  target: BucketTarget;
+  onClose: () => void;
+  // Called after the restore was requested so the listing can show its state
+  onRestored?: () => void;
+}
+
+export const RestoreArchiveDialog = ({
+  open,
+  file,
+  target,
+  onClose,
+  onRestored
+}: RestoreArchiveDialogProps) => {
+  const [days, setDays] = useState('7');
+  const [tier, setTier] = useState<RestoreTier>('Standard');
+  const [restoring, setRestoring] = useState(false);
+  const [restore, setRestore] = useState<RestoreStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setRestore(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const dayCount = Number(days);
+  const validDays = Number.isInteger(dayCount) && dayCount >= 1 && dayCount <= MAX_RESTORE_DAYS;
+
+  const handleRestore = async () => {
+    if (!file) return;
+
+    setRestoring(true);
+    setError(null);
+
+    try {
+      const { data } = await restoreArchivedFile(file.key, dayCount, tier, target);
+      if (data.error || !data.restore) {
+        throw new Error(data.error || 'Failed to restore the file');
+      }
+
+      setRestore(data.restore);
+      onRestored?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore the file');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const fileName = file ? getBaseName(file.key) : '';
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Restore &ldquo;{fileName}&rdquo;</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          The file is archived in {file?.storageClass}. A restore makes a temporary copy that can be read
+          and downloaded for the chosen number of days; the file itself stays archived.
+        </DialogContentText>
+
+        <TextField
+          size="small"
+          type="number"
+          label="Keep the restored copy for (days)"
+          fullWidth
+          margin="dense"
+          value={days}
+          disabled={restoring}
+          error={!validDays}
+          helperText={validDays ? undefined : `Between 1 and ${MAX_RESTORE_DAYS} days`}
+          onChange={(e) => setDays(e.target.value)}
+        />
+
+        <FormControl size="small" fullWidth margin="dense">
+          <InputLabel id="restore-tier-label">Retrieval</InputLabel>
+          <Select
+            labelId="restore-tier-label"
+            value={tier}
+            label="Retrieval"
+            disabled={restoring}
+            onChange={(e) => setTier(e.target.value as RestoreTier)}
+          >
+            {RESTORE_TIER_OPTIONS.map(option => (
+              <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {restore && (
+          <Alert severity={restore.ongoing ? 'info' : 'success'} sx={{ mt: 2 }}>
+            {restore.ongoing
+              ? 'Restore requested. The file can be read once it finishes; its state shows in the file list.'
+              : formatArchiveState(file?.storageClass, restore)}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={restoring}>{restore ? 'Close' : 'Cancel'}</Button>
+        <Button onClick={handleRestore} disabled={restoring || !validDays || !file} variant="contained">
+          {restoring ? <CircularProgress size={24} /> : 'Restore'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,369 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Checkbox,
+  LinearProgress,
+  List,
+  ListItem,
+  Chip,
+  Typography,
+  Box,
+  Alert
+} from '@mui/material';
+import { Sync as SyncIcon } from '@mui/icons-material';
+import { listBuckets } from '@/apis/fileManagement/client';
+import type {
+  BucketInfo,
+  BucketTarget,
+  ConnectionProfile,
+  SyncChange,
+  SyncChangeType,
+  SyncLocation
+} from '@/apis/fileManagement/types';
+import { useSync } from '../hooks/useSync';
+import type { SyncRun } from '../hooks/useSync';
+import { formatFileSize } from './formatters';
+
+interface SyncDialogProps {
+  open: boolean;
+  target: BucketTarget;
+  profiles: ConnectionProfile[];
+  // Profile and bucket shown in the file manager, the default destination
+  selectedProfileId: string;
+  selectedBucket: string;
+  // Folder shown in the file list, the one that is synced
+  currentPrefix: string;
+  onClose: () => void;
+  // Called after a real sync ended
+  onSynced?: () => void;
+}
+
+// Failed files listed in the summary
+const MAX_SHOWN_FAILURES = 5;
+
+const CHANGE_LABELS: Record<SyncChangeType, { label: string; color: 'success' | 'info' | 'error' }> = {
+  add: { label: 'Add', color: 'success' },
+  update: { label: 'Update', color: 'info' },
+  delete: { label: 'Delete', color: 'error' }
+};
+
+const formatFolder = (prefix: string) => (prefix ? `/${prefix}` : 'the bucket root');
+
+const toFolderPrefix = (prefix: string) => (prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix);
+
+const ChangeList = ({ changes, truncated }: { changes: SyncChange[]; truncated: boolean }) => (
+  <Box sx={{ maxHeight: 320, overflow: 'auto', mt: 1, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+    <List dense disablePadding>
+      {changes.map(change => (
+        <ListItem key={change.key} sx={{ gap: 1 }}>
+          <Chip
+            size="small"
+            variant="outlined"
+            label={CHANGE_LABELS[change.type].label}
+            color={CHANGE_LABELS[change.type].color}
+            sx={{ minWidth: 68 }}
+          />
+          <Typography variant="body2" sx={{ flexGrow: 1, wordBreak: 'break-all' }}>
+            {change.key}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+            {change.reason ? `${change.reason} • ` : ''}{formatFileSize(change.size)}
+          </Typography>
+        </ListItem>
+      ))}
+    </List>
+    {truncated && (
+      <Typography variant="caption" color="text.secondary" component="div" sx={{ px: 2, py: 1 }}>
+        Only the first {changes.length} changes are listed
+      </Typography>
+    )}
+  </Box>
+);
+
+// Progress of a sync that is still running
+const SyncProgress = ({ run }: { run: SyncRun }) => {
+  const progress = run.job?.progress;
+
+  // A dry run, and a real run until both folders are listed, have nothing to count yet
+  if (run.dryRun || !progress || progress.total === 0) {
+    return (
+      <>
+        <Typography variant="body2">Comparing {formatFolder(run.sourcePrefix)} with the destination…</Typography>
+        <LinearProgress sx={{ mt: 1 }} />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Typography variant="body2">
+        Syncing {formatFolder(run.sourcePrefix)} • {progress.processed} of {progress.total} changes • {formatFileSize(progress.bytes)} of {formatFileSize(progress.totalBytes)}
+      </Typography>
+      <LinearProgress
+        variant="determinate"
+        value={Math.min(100, (progress.processed / progress.total) * 100)}
+        sx={{ mt: 1 }}
+      />
+      {progress.current && (
+        <Typography variant="caption" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+          {progress.current}
+        </Typography>
+      )}
+    </>
+  );
+};
+
+// Outcome of a finished dry run or sync
+const SyncSummary = ({ run }: { run: SyncRun }) => {
+  const result = run.job?.result;
+
+  if (run.stage === 'completed' && result) {
+    const counts = `${result.addCount} to add, ${result.updateCount} to update, ${result.deleteCount} to delete, ${result.unchangedCount} unchanged`;
+
+    if (result.dryRun) {
+      const total = result.addCount + result.updateCount + result.deleteCount;
+      return (
+        <>
+          <Alert severity="info">
+            {total === 0 ? `Nothing to do, ${result.unchangedCount} files are already in sync` : counts}
+          </Alert>
+          {total > 0 && <ChangeList changes={result.changes} truncated={result.changesTruncated} />}
+        </>
+      );
+    }
+
+    const failed = result.failed.slice(0, MAX_SHOWN_FAILURES);
+    return (
+      <>
+        <Alert severity={result.failed.length > 0 ? 'warning' : 'success'}>
+          Applied {result.applied} changes, copied {formatFileSize(result.bytes)} ({counts})
+          {result.failed.length > 0 && `, ${result.failed.length} failed`}
+        </Alert>
+        {failed.map(failure => (
+          <Typography key={failure.key} variant="caption" component="div" color="text.secondary" sx={{ mt: 0.5, wordBreak: 'break-all' }}>
+            {failure.key}: {failure.error}
+          </Typography>
+        ))}
+        {result.failed.length > failed.length && (
+          <Typography variant="caption" component="div" color="text.secondary">
+            and {result.failed.length - failed.length} more
+          </Typography>
+        )}
+      </>
+    );
+  }
+
+  if (run.stage === 'cancelled') {
+    return (
+      <Alert severity="info">
+        Sync cancelled{!run.dryRun && run.job ? ', changes made before stopping were kept' : ''}
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert severity="error">
+      {run.error || 'Sync failed'}
+    </Alert>
+  );
+};
+
+export const SyncDialog = ({
+  open,
+  target,
+  profiles,
+  selectedProfileId,
+  selectedBucket,
+  currentPrefix,
+  onClose,
+  onSynced
+}: SyncDialogProps) => {
+  // Empty values fall back to the profile and bucket shown in the file manager
+  const [destinationProfileId, setDestinationProfileId] = useState('');
+  const [destinationBucket, setDestinationBucket] = useState('');
+  const [destinationPrefix, setDestinationPrefix] = useState('');
+  const [deleteExtraneous, setDeleteExtraneous] = useState(false);
+  const [buckets, setBuckets] = useState<BucketInfo[]>([]);
+
+  const { run, sync, cancel, reset } = useSync({ target, onSynced });
+  const running = run?.stage === 'running';
+  const runningRef = useRef(running);
+
+  const profileId = destinationProfileId || selectedProfileId;
+  const sameProfile = profileId === selectedProfileId;
+  const bucket = destinationBucket
+    || (sameProfile ? selectedBucket : profiles.find(profile => profile.id === profileId)?.defaultBucket || '');
+
+  // Buckets of the destination profile
+  useEffect(() => {
+    if (!open) return;
+
+    let active = true;
+    listBuckets(profileId)
+      .then(({ data }) => {
+        if (active) setBuckets(data.buckets || []);
+      })
+      .catch(() => {
+        if (active) setBuckets([]);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [open, profileId]);
+
+  useEffect(() => {
+    runningRef.current = running;
+  }, [running]);
+
+  // A result only belongs to the folder it was computed for; a running sync is left to finish
+  useEffect(() => {
+    if (!runningRef.current) reset();
+  }, [currentPrefix, target, reset]);
+
+  // Any change to the form makes a previous dry run outdated
+  const changeForm = (apply: () => void) => {
+    apply();
+    reset();
+  };
+
+  const destination: SyncLocation = { profileId, bucket: bucket || undefined, prefix: destinationPrefix };
+  const destinationFolder = toFolderPrefix(destinationPrefix);
+  const samePlace = sameProfile && bucket === selectedBucket
+    && (destinationFolder.startsWith(currentPrefix) || currentPrefix.startsWith(destinationFolder));
+  const previewed = run?.dryRun && run.stage === 'completed' && run.sourcePrefix === currentPrefix;
+
+  const bucketNames = buckets.map(info => info.name);
+  if (bucket && !bucketNames.includes(bucket)) {
+    bucketNames.unshift(bucket);
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle>Sync Folder</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom sx={{ mt: 1 }}>
+          Make the destination match {formatFolder(currentPrefix)}: missing files are copied and files that differ
+          in size, checksum or modification date are copied again. Preview the changes before applying them.
+        </Typography>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, my: 2 }}>
+          {profiles.length > 1 && (
+            <FormControl size="small" sx={{ minWidth: 180 }}>
+              <InputLabel id="sync-profile-label">Destination profile</InputLabel>
+              <Select
+                labelId="sync-profile-label"
+                value={profiles.some(profile => profile.id === profileId) ? profileId : ''}
+                label="Destination profile"
+                disabled={running}
+                onChange={(e) => changeForm(() => {
+                  setDestinationProfileId(e.target.value);
+                  setDestinationBucket('');
+                })}
+              >
+                {profiles.map(profile => (
+                  <MenuItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel id="sync-bucket-label">Destination bucket</InputLabel>
+            <Select
+              labelId="sync-bucket-label"
+              value={bucket}
+              label="Destination bucket"
+              disabled={running}
+              onChange={(e) => changeForm(() => setDestinationBucket(e.target.value))}
+            >
+              {bucketNames.map(name => (
+                <MenuItem key={name} value={name}>
+                  {name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <TextField
+            size="small"
+            label="Destination folder"
+            placeholder="Empty for the bucket root"
+            value={destinationPrefix}
+            disabled={running}
+            onChange={(e) => changeForm(() => setDestinationPrefix(e.target.value.replace(/^\/+/, '')))}
+            sx={{ flexGrow: 1, minWidth: 220 }}
+          />
+        </Box>
+
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={deleteExtraneous}
+              disabled={running}
+              onChange={(e) => changeForm(() => setDeleteExtraneous(e.target.checked))}
+            />
+          }
+          label="Delete files in the destination that the source does not have"
+        />
+
+        {samePlace && (
+          <Alert severity="warning" sx={{ mt: 1 }}>
+            The destination cannot be the synced folder or inside it, nor contain it
+          </Alert>
+        )}
+
+        {run && (
+          <Box sx={{ mt: 2 }}>
+            {running ? <SyncProgress run={run} /> : <SyncSummary run={run} />}
+            {running && run.error && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                {run.error}
+              </Alert>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {running && (
+          <Button color="error" onClick={cancel}>
+            Stop
+          </Button>
+        )}
+        <Button onClick={onClose}>
+          {running ? 'Hide' : 'Close'}
+        </Button>
+        {!running && (
+          <Button
+            disabled={!bucket || samePlace}
+            onClick={() => sync(currentPrefix, destination, { deleteExtraneous, dryRun: true })}
+          >
+            Preview
+          </Button>
+        )}
+        {!running && (
+          <Button
+            variant="contained"
+            startIcon={<SyncIcon />}
+            disabled={!previewed || !bucket || samePlace}
+            onClick={() => sync(currentPrefix, destination, { deleteExtraneous, dryRun: false })}
+          >
+            Sync now
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
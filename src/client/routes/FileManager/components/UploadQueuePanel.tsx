@@ -0,0 +1,129 @@
+import React from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  LinearProgress,
+  Button,
+  Chip
+} from '@mui/material';
+import type {
+  UploadQueueItem,
+  UploadQueueStatus,
+  ConflictResolution
+} from '../hooks/useUploadQueue';
+
+interface UploadQueuePanelProps {
+  items: UploadQueueItem[];
+  onResolveConflict: (id: string, resolution: ConflictResolution) => void;
+  onResolveAllConflicts: (resolution: ConflictResolution) => void;
+  onRetry: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const statusChip: Record<UploadQueueStatus, { label: string; color: 'default' | 'primary' | 'success' | 'warning' | 'error' }> = {
+  checking: { label: 'Checking', color: 'default' },
+  pending: { label: 'Waiting', color: 'default' },
+  conflict: { label: 'Already exists', color: 'warning' },
+  uploading: { label: 'Uploading', color: 'primary' },
+  done: { label: 'Done', color: 'success' },
+  skipped: { label: 'Skipped', color: 'default' },
+  failed: { label: 'Failed', color: 'error' }
+};
+
+export const UploadQueuePanel = ({
+  items,
+  onResolveConflict,
+  onResolveAllConflicts,
+  onRetry,
+  onClearFinished
+}: UploadQueuePanelProps) => {
+  if (items.length === 0) {
+    return null;
+  }
+
+  const conflicts = items.filter(item => item.status === 'conflict').length;
+  const failed = items.filter(item => item.status === 'failed').length;
+  const finished = items.filter(item => item.status === 'done' || item.status === 'skipped').length;
+
+  return (
+    <Paper variant="outlined" sx={{ px: 2, py: 1, mb: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+        <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+          Uploads: {finished}/{items.length} finished
+          {failed > 0 && ` • ${failed} failed`}
+          {conflicts > 0 && ` • ${conflicts} conflicts`}
+        </Typography>
+
+        {conflicts > 0 && (
+          <>
+            <Button size="small" onClick={() => onResolveAllConflicts('overwrite')}>
+              Overwrite all
+            </Button>
+            <Button size="small" onClick={() => onResolveAllConflicts('skip')}>
+              Skip all
+            </Button>
+          </>
+        )}
+
+        {finished > 0 && (
+          <Button size="small" onClick={onClearFinished}>
+            Clear finished
+          </Button>
+        )}
+      </Box>
+
+      <Box sx={{ maxHeight: 240, overflowY: 'auto' }}>
+        {items.map(item => (
+          <Box
+            key={item.id}
+            sx={{ py: 0.75, borderTop: '1px solid', borderColor: 'divider' }}
+          >
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Typography variant="body2" noWrap sx={{ flexGrow: 1 }} title={item.key}>
+                {item.key}
+              </Typography>
+
+              <Chip
+                size="small"
+                label={statusChip[item.status].label}
+                color={statusChip[item.status].color}
+              />
+
+              {item.status === 'conflict' && (
+                <>
+                  <Button size="small" onClick={() => onResolveConflict(item.id, 'overwrite')}>
+                    Overwrite
+                  </Button>
+                  <Button size="small" onClick={() => onResolveConflict(item.id, 'skip')}>
+                    Skip
+                  </Button>
+                </>
+              )}
+
+              {item.status === 'failed' && (
+                <Button size="small" onClick={() => onRetry(item.id)}>
+                  Retry
+                </Button>
+              )}
+            </Box>
+
+            {item.status === 'uploading' && !item.multipart && (
+              <LinearProgress
+                variant="determinate"
+                value={item.file.size > 0 ? (item.loaded / item.file.size) * 100 : 100}
+                sx={{ mt: 0.5 }}
+              />
+            )}
+
+            {item.error && (
+              <Typography variant="caption" color="error">
+                {item.error}
+              </Typography>
+            )}
+          </Box>
+        ))}
+      </Box>
+    </Paper>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Box } from '@mui/material';
+
+interface VirtualizedTextProps {
+  text: string;
+  // Show line numbers in a gutter
+  lineNumbers?: boolean;
+  // Keep the view scrolled to the end as text is appended
+  followEnd?: boolean;
+  height?: number;
+}
+
+const LINE_HEIGHT = 20;
+// Lines rendered above and below the visible ones, so fast scrolling does not flash
+const OVERSCAN = 20;
+
+// Read-only text that only renders the lines in view, for files with many lines
+export const VirtualizedText = ({
+  text,
+  lineNumbers = true,
+  followEnd = false,
+  height = 420
+}: VirtualizedTextProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const lines = useMemo(() => text.split(/\r?\n/), [text]);
+
+  useEffect(() => {
+    if (followEnd && containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [followEnd, lines]);
+
+  const first = Math.max(0, Math.floor(scrollTop / LINE_HEIGHT) - OVERSCAN);
+  const last = Math.min(lines.length, Math.ceil((scrollTop + height) / LINE_HEIGHT) + OVERSCAN);
+  const gutterWidth = `${String(lines.length).length + 1}ch`;
+
+  return (
+    <Box
+      ref={containerRef}
+      onScroll={(e: React.UIEvent<HTMLDivElement>) => setScrollTop(e.currentTarget.scrollTop)}
+      sx={{
+        height,
+        overflow: 'auto',
+        fontFamily: 'monospace',
+        fontSize: 13,
+        border: 1,
+        borderColor: 'divider',
+        borderRadius: 1
+      }}
+    >
+      <Box sx={{ position: 'relative', height: lines.length * LINE_HEIGHT, minWidth: 'max-content' }}>
+        {lines.slice(first, last).map((line, index) => (
+          <Box
+            key={first + index}
+            sx={{
+              position: 'absolute',
+              top: (first + index) * LINE_HEIGHT,
+              height: LINE_HEIGHT,
+              lineHeight: `${LINE_HEIGHT}px`,
+              whiteSpace: 'pre',
+              display: 'flex'
+            }}
+          >
+            {lineNumbers && (
+              <Box
+                component="span"
+                sx={{ width: gutterWidth, flexShrink: 0, pr: 1, textAlign: 'right', color: 'text.secondary', userSelect: 'none' }}
+              >
+                {first + index + 1}
+              </Box>
+            )}
+            <Box component="span" sx={{ px: 1 }}>
+              {line}
+            </Box>
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+};
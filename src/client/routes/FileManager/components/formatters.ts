@@ -0,0 +1,63 @@
+// Display helpers shared by the file manager components
+
+import type { RestoreStatus } from '@/apis/fileManagement/types';
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Function to format date and time
+export const formatDateTime = (date: Date): string => {
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  };
+  return new Date(date).toLocaleString(undefined, options);
+};
+
+// Storage classes whose files have to be restored before they can be read
+const ARCHIVE_STORAGE_CLASSES = ['GLACIER', 'DEEP_ARCHIVE'];
+
+export type ArchiveState = 'archived' | 'restoring' | 'restored';
+
+// Restore state of a file, or null for files that are not archived
+export const getArchiveState = (storageClass?: string, restore?: RestoreStatus): ArchiveState | null => {
+  if (!ARCHIVE_STORAGE_CLASSES.includes(storageClass || '')) return null;
+  if (!restore) return 'archived';
+  return restore.ongoing ? 'restoring' : 'restored';
+};
+
+export const formatArchiveState = (storageClass?: string, restore?: RestoreStatus): string | null => {
+  switch (getArchiveState(storageClass, restore)) {
+    case 'archived':
+      return 'Archived';
+    case 'restoring':
+      return 'Restore in progress';
+    case 'restored':
+      return restore?.expiryDate ? `Restored until ${formatDateTime(restore.expiryDate)}` : 'Restored';
+    default:
+      return null;
+  }
+};
+
+// Time until a date in its largest unit, e.g. "3 hours left"
+export const formatTimeLeft = (date: Date): string => {
+  const minutes = Math.floor((new Date(date).getTime() - Date.now()) / 60000);
+  if (minutes < 1) return 'Expired';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} left`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} left`;
+
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} left`;
+};
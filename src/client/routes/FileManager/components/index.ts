@@ -1,6 +1,26 @@
 export { FileList } from './FileList';
 export { Breadcrumbs } from './Breadcrumbs';
 export { FileToolbar } from './FileToolbar';
+export { MultipartUploadPanel } from './MultipartUploadPanel';
+export { UploadQueuePanel } from './UploadQueuePanel';
+export { MoveDialog } from './MoveDialog';
+export { HistoryDialog } from './HistoryDialog';
+export { PropertiesPanel } from './PropertiesPanel';
+export { BucketSelector } from './BucketSelector';
+export { SearchBar } from './SearchBar';
+export type { SearchScope } from './SearchBar';
+export { SearchResults } from './SearchResults';
+export { GrepDialog } from './GrepDialog';
+export { ExtractArchiveDialog } from './ExtractArchiveDialog';
+export { StorageClassDialog, RestoreArchiveDialog } from './StorageClassDialogs';
+export { ShareDialog } from './ShareDialog';
+export { SyncDialog } from './SyncDialog';
+export {
+  VersioningEditor,
+  LifecycleRulesEditor,
+  CorsRulesEditor,
+  BucketPolicyEditor
+} from './BucketSettingsEditors';
 export { 
   NewFileDialog, 
   NewFolderDialog, 
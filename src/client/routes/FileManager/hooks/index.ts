@@ -1 +1,11 @@
 export { useFileManager } from './useFileManager';
+export { useMultipartUpload } from './useMultipartUpload';
+export { useUploadQueue } from './useUploadQueue';
+export { useArchiveExtract } from './useArchiveExtract';
+export { useBucketSelection } from './useBucketSelection';
+export { useFileSearch } from './useFileSearch';
+export { useGrep } from './useGrep';
+export { useFilePages } from './useFilePages';
+export { useBucketSettings } from './useBucketSettings';
+export { useShareLinks } from './useShareLinks';
+export { useSync } from './useSync';
@@ -0,0 +1,176 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  extractArchive,
+  getExtractJob,
+  cancelExtractJob,
+  deleteFile
+} from '@/apis/fileManagement/client';
+import type { BucketTarget, ExtractConflictPolicy, ExtractJob } from '@/apis/fileManagement/types';
+import { uploadFileDirect, MULTIPART_UPLOAD_THRESHOLD } from './useUploadQueue';
+
+// Archives are uploaded here first; the server removes them once they are extracted and hides
+// the folder from listings (see ARCHIVE_UPLOAD_PREFIX in server/s3/internalPrefixes.ts)
+const ARCHIVE_UPLOAD_PREFIX = '.uploads/';
+const POLL_INTERVAL = 1000;
+
+export type ArchiveExtractionStage = 'uploading' | 'extracting' | 'completed' | 'failed' | 'cancelled';
+
+export interface ArchiveExtraction {
+  fileName: string;
+  // Folder the archive is extracted into
+  destinationPrefix: string;
+  stage: ArchiveExtractionStage;
+  // Bytes of the archive uploaded so far
+  uploaded: number;
+  size: number;
+  // Large archives go through the multipart uploader, which shows its own progress
+  multipart: boolean;
+  // The extraction on the server, once started
+  job?: ExtractJob;
+  error?: string;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Upload a local .zip or .tar(.gz) archive and extract it into a folder of the bucket.
+ * The server does the extraction in the background; the hook polls it for progress.
+ * One extraction runs at a time.
+ */
+export const useArchiveExtract = ({
+  target,
+  startMultipartUpload,
+  onExtracted
+}: {
+  target: BucketTarget;
+  startMultipartUpload: (file: File, key: string, target: BucketTarget) => Promise<boolean>;
+  onExtracted?: () => void;
+}) => {
+  const [extraction, setExtraction] = useState<ArchiveExtraction | null>(null);
+  // Incremented for every extraction, so a replaced one stops updating state
+  const runIdRef = useRef(0);
+  const cancelledRef = useRef(false);
+  const jobIdRef = useRef<string | undefined>(undefined);
+
+  // Stop polling when the file manager goes away; the server finishes the job on its own
+  useEffect(() => () => {
+    runIdRef.current++;
+  }, []);
+
+  const extract = useCallback(async (
+    file: File,
+    destinationPrefix: string,
+    conflictPolicy: ExtractConflictPolicy
+  ) => {
+    const runId = ++runIdRef.current;
+    const isCurrent = () => runIdRef.current === runId;
+    const update = (changes: Partial<ArchiveExtraction>) => {
+      if (isCurrent()) {
+        setExtraction(current => current && { ...current, ...changes });
+      }
+    };
+
+    cancelledRef.current = false;
+    jobIdRef.current = undefined;
+
+    const multipart = file.size > MULTIPART_UPLOAD_THRESHOLD;
+    setExtraction({
+      fileName: file.name,
+      destinationPrefix,
+      stage: 'uploading',
+      uploaded: 0,
+      size: file.size,
+      multipart
+    });
+
+    const archiveKey = `${ARCHIVE_UPLOAD_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 10)}/${file.name}`;
+
+    try {
+      if (multipart) {
+        const completed = await startMultipartUpload(file, archiveKey, target);
+        if (!completed) {
+          throw new Error('Archive upload did not complete - see large uploads');
+        }
+      } else {
+        await uploadFileDirect(file, archiveKey, target, (uploaded) => update({ uploaded }));
+      }
+
+      // Cancelled during the upload: nothing was extracted and the archive is not needed
+      if (cancelledRef.current || !isCurrent()) {
+        await deleteFile(archiveKey, target).catch(() => undefined);
+        return;
+      }
+
+      update({ stage: 'extracting', uploaded: file.size });
+
+      const { data } = await extractArchive(archiveKey, destinationPrefix, { conflictPolicy, deleteArchive: true }, target);
+      if (data.error || !data.job) {
+        throw new Error(data.error || 'Extraction did not start');
+      }
+
+      let job = data.job;
+      jobIdRef.current = job.id;
+      // Cancelled while the extraction was being started
+      if (cancelledRef.current) {
+        await cancelExtractJob(job.id, target);
+      }
+
+      while (job.status === 'queued' || job.status === 'running') {
+        update({ job });
+        await wait(POLL_INTERVAL);
+        if (!isCurrent()) return;
+
+        const { data: polled } = await getExtractJob(job.id, target);
+        if (polled.error || !polled.job) {
+          throw new Error(polled.error || 'Lost track of the extraction');
+        }
+        job = polled.job;
+      }
+
+      update({
+        job,
+        stage: job.status === 'completed' ? 'completed' : job.status === 'cancelled' ? 'cancelled' : 'failed',
+        error: job.error
+      });
+      // Files written before a failure or cancellation stay, so refresh in any case
+      onExtracted?.();
+    } catch (err) {
+      update({ stage: 'failed', error: err instanceof Error ? err.message : 'Extraction failed' });
+    }
+  }, [target, startMultipartUpload, onExtracted]);
+
+  // Stop the running extraction; files extracted so far are kept
+  const cancel = useCallback(async () => {
+    cancelledRef.current = true;
+
+    if (!jobIdRef.current) {
+      setExtraction(current => current && { ...current, stage: 'cancelled' });
+      return;
+    }
+
+    try {
+      const { data } = await cancelExtractJob(jobIdRef.current, target);
+      if (data.error) {
+        throw new Error(data.error);
+      }
+    } catch (err) {
+      setExtraction(current => current && {
+        ...current,
+        error: err instanceof Error ? err.message : 'Failed to cancel the extraction'
+      });
+    }
+  }, [target]);
+
+  // Forget a finished extraction to start another one
+  const reset = useCallback(() => {
+    runIdRef.current++;
+    setExtraction(null);
+  }, []);
+
+  return {
+    extraction,
+    extract,
+    cancel,
+    reset
+  };
+};
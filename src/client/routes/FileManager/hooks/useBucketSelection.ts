@@ -0,0 +1,110 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useRouter } from '../../../router';
+import { listProfiles, listBuckets } from '@/apis/fileManagement/client';
+import type { BucketInfo, BucketTarget, ConnectionProfile } from '@/apis/fileManagement/types';
+
+// A path with the selection as query, dropping empty values
+const toSelectionPath = (path: string, profileId?: string, bucket?: string): string => {
+  const params = new URLSearchParams();
+  if (profileId) params.set('profile', profileId);
+  if (bucket) params.set('bucket', bucket);
+
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+};
+
+/**
+ * Profile and bucket the file manager works in.
+ * The choice lives in the URL (?profile=...&bucket=...) so it survives reloads and can be shared.
+ * Missing values fall back to the server-side defaults.
+ */
+export const useBucketSelection = () => {
+  const router = useRouter();
+  const profileId = router.queryParams.profile || undefined;
+  const bucket = router.queryParams.bucket || undefined;
+
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([]);
+  const [buckets, setBuckets] = useState<BucketInfo[]>([]);
+  const [loadingProfiles, setLoadingProfiles] = useState(false);
+  const [loadingBuckets, setLoadingBuckets] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the configured profiles once
+  useEffect(() => {
+    const loadProfiles = async () => {
+      setLoadingProfiles(true);
+
+      try {
+        const { data } = await listProfiles();
+        if (data.error) {
+          setError(data.error);
+        }
+        setProfiles(data.profiles || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load profiles');
+      } finally {
+        setLoadingProfiles(false);
+      }
+    };
+
+    loadProfiles();
+  }, []);
+
+  // Load the buckets of the selected profile
+  useEffect(() => {
+    const loadBuckets = async () => {
+      setLoadingBuckets(true);
+      setError(null);
+
+      try {
+        const { data } = await listBuckets(profileId);
+        if (data.error) {
+          setError(data.error);
+        }
+        setBuckets(data.buckets || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load buckets');
+      } finally {
+        setLoadingBuckets(false);
+      }
+    };
+
+    loadBuckets();
+  }, [profileId]);
+
+  const profile = profiles.find(candidate => candidate.id === (profileId || 'default'));
+
+  // Write the selection to the URL, dropping empty values
+  const updateUrl = useCallback((nextProfileId?: string, nextBucket?: string) => {
+    router.navigate(toSelectionPath(router.currentPath.split('?')[0], nextProfileId, nextBucket));
+  }, [router]);
+
+  // Open another file manager page in the same profile and bucket
+  const navigateWithSelection = useCallback((path: string) => {
+    router.navigate(toSelectionPath(path, profileId, bucket));
+  }, [router, profileId, bucket]);
+
+  // A new profile starts in its default bucket
+  const selectProfile = useCallback((nextProfileId: string) => {
+    updateUrl(nextProfileId, undefined);
+  }, [updateUrl]);
+
+  const selectBucket = useCallback((nextBucket: string) => {
+    updateUrl(profileId, nextBucket);
+  }, [updateUrl, profileId]);
+
+  const target = useMemo<BucketTarget>(() => ({ profileId, bucket }), [profileId, bucket]);
+
+  return {
+    target,
+    profiles,
+    buckets,
+    selectedProfileId: profile?.id || profileId || 'default',
+    selectedBucket: bucket || profile?.defaultBucket || '',
+    loading: loadingProfiles || loadingBuckets,
+    error,
+    selectProfile,
+    selectBucket,
+    navigateWithSelection
+  };
+};
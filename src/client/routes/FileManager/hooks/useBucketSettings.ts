@@ -0,0 +1,102 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  getBucketSettings,
+  updateBucketVersioning,
+  updateBucketLifecycle,
+  updateBucketCors,
+  updateBucketPolicy
+} from '@/apis/fileManagement/client';
+import type {
+  BucketPolicy,
+  BucketSettings,
+  BucketSettingsSection,
+  BucketTarget,
+  CorsRule,
+  LifecycleRule,
+  UpdateBucketSettingsResponse
+} from '@/apis/fileManagement/types';
+
+/**
+ * Versioning, lifecycle rules, CORS rules and policy of the selected bucket.
+ * Each section is saved on its own; a successful save updates the loaded settings so the
+ * editors show what the bucket now has.
+ */
+export const useBucketSettings = (target: BucketTarget) => {
+  const [settings, setSettings] = useState<BucketSettings | null>(null);
+  const [unavailable, setUnavailable] = useState<Partial<Record<BucketSettingsSection, string>>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped for every load so the answer for a previous bucket is dropped
+  const loadIdRef = useRef(0);
+
+  const loadSettings = useCallback(async () => {
+    const loadId = ++loadIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data } = await getBucketSettings(target);
+      if (loadId !== loadIdRef.current) return;
+
+      if (data.error || !data.settings) {
+        throw new Error(data.error || 'Failed to load bucket settings');
+      }
+      setSettings(data.settings);
+      setUnavailable(data.unavailable || {});
+    } catch (err) {
+      if (loadId !== loadIdRef.current) return;
+      setSettings(null);
+      setUnavailable({});
+      setError(err instanceof Error ? err.message : 'Failed to load bucket settings');
+    } finally {
+      if (loadId === loadIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [target]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  // Throws with the server's message so the section that saved can show it
+  const applyUpdate = useCallback(async (
+    request: Promise<{ data: UpdateBucketSettingsResponse }>,
+    update: Partial<BucketSettings>
+  ) => {
+    const { data } = await request;
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to save bucket settings');
+    }
+    setSettings(current => current && { ...current, ...update });
+  }, []);
+
+  const saveVersioning = useCallback((status: 'Enabled' | 'Suspended') => {
+    return applyUpdate(updateBucketVersioning(status, target), { versioning: status });
+  }, [applyUpdate, target]);
+
+  const saveLifecycleRules = useCallback((rules: LifecycleRule[]) => {
+    return applyUpdate(updateBucketLifecycle(rules, target), { lifecycleRules: rules });
+  }, [applyUpdate, target]);
+
+  const saveCorsRules = useCallback((rules: CorsRule[]) => {
+    return applyUpdate(updateBucketCors(rules, target), { corsRules: rules });
+  }, [applyUpdate, target]);
+
+  const savePolicy = useCallback((policy: BucketPolicy | null) => {
+    return applyUpdate(updateBucketPolicy(policy, target), { policy });
+  }, [applyUpdate, target]);
+
+  return {
+    settings,
+    unavailable,
+    loading,
+    error,
+    reload: loadSettings,
+    saveVersioning,
+    saveLifecycleRules,
+    saveCorsRules,
+    savePolicy
+  };
+};
@@ -1,18 +1,73 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import {
   listFiles,
   writeFile,
   deleteFile,
   createFolder,
   deleteFolder,
-  getFile
+  getFile,
+  getFileRange,
+  getPreviewUrl,
+  headObject,
+  copyItem,
+  moveItem,
+  renameItem,
+  deleteMany,
+  zipDownload
 } from '@/apis/fileManagement/client';
-import type { FileInfo } from '@/apis/fileManagement/types';
+import type { BucketTarget, ExtractConflictPolicy, FileInfo, TransferResponse } from '@/apis/fileManagement/types';
+import { base64ToBytes, downloadBlob, downloadUrl } from '@/client/utils/binary';
+import type { LocalFileEntry } from '@/client/utils/dropFiles';
+import {
+  decodeText,
+  getEffectiveContentType,
+  getPreviewKind,
+  getTableDelimiter,
+  isGenericContentType
+} from '@/client/utils/filePreview';
+import type { FilePreviewData } from '@/client/utils/filePreview';
+import { getEditorLanguage } from '@/client/utils/syntaxHighlight';
+import { validateContent } from '@/client/utils/contentValidation';
+import type { ContentError } from '@/client/utils/contentValidation';
+import type { HighlightPattern } from '@/client/utils/textHighlight';
+import { useMultipartUpload } from './useMultipartUpload';
+import { useUploadQueue } from './useUploadQueue';
+import { useArchiveExtract } from './useArchiveExtract';
+import { useFilePages } from './useFilePages';
+
+// Number of entries requested from the server per listing page
+const FILES_PAGE_SIZE = 50;
+
+// Largest text files rendered as a whole; bigger ones are read a page at a time
+const MAX_TEXT_PREVIEW_SIZE = 10 * 1024 * 1024;
+// Bytes of binary files shown as a hex dump
+const MAX_BINARY_PREVIEW_SIZE = 1024 * 1024;
+
+// List the first few keys of a partly failed operation
+const describeFailedKeys = (failed: { key: string; error: string }[]): string => {
+  const shown = failed.slice(0, 3).map(failure => `${failure.key} (${failure.error})`);
+  const more = failed.length > shown.length ? ` and ${failed.length - shown.length} more` : '';
+  return `${shown.join(', ')}${more}`;
+};
+
+// Build an error message for a copy / move / rename, listing some of the objects that failed
+const describeTransferError = (response: TransferResponse): string => {
+  if (response.failed.length === 0) {
+    return response.error || 'Transfer failed';
+  }
+
+  return `${response.error}. ${response.transferred} succeeded. Failed: ${describeFailedKeys(response.failed)}`;
+};
 
-export const useFileManager = () => {
+export const useFileManager = (target: BucketTarget) => {
   // State
   const [files, setFiles] = useState<FileInfo[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextContinuationToken, setNextContinuationToken] = useState<string | undefined>(undefined);
+
+  // Bumped for every first page, so pages of a previous folder or bucket are dropped
+  const listingIdRef = useRef(0);
   const [error, setError] = useState<string | null>(null);
   const [currentPrefix, setCurrentPrefix] = useState<string>('');
   const [breadcrumbs, setBreadcrumbs] = useState<string[]>([]);
@@ -29,6 +84,9 @@ export const useFileManager = () => {
   // File edit state
   const [editingFile, setEditingFile] = useState<FileInfo | null>(null);
   const [editFileContent, setEditFileContent] = useState('');
+  // Content type kept when the file is saved
+  const [editContentType, setEditContentType] = useState<string | undefined>(undefined);
+  const [editValidationError, setEditValidationError] = useState<ContentError | null>(null);
   const [showEditFileDialog, setShowEditFileDialog] = useState(false);
   const [loadingFileContent, setLoadingFileContent] = useState(false);
 
@@ -38,32 +96,165 @@ export const useFileManager = () => {
   const [showViewFileDialog, setShowViewFileDialog] = useState(false);
   const [isJsonContent, setIsJsonContent] = useState(false);
   const [jsonViewTab, setJsonViewTab] = useState(0);
+  const [viewHighlight, setViewHighlight] = useState<HighlightPattern | null>(null);
+  const [viewPreview, setViewPreview] = useState<FilePreviewData | null>(null);
 
   // Delete confirmation state
   const [itemToDelete, setItemToDelete] = useState<FileInfo | null>(null);
   const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
 
-  // Fetch files from the API
-  const fetchFiles = useCallback(async () => {
+  // Version history state
+  const [historyFile, setHistoryFile] = useState<FileInfo | null>(null);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
+
+  // Properties panel state
+  const [propertiesFile, setPropertiesFile] = useState<FileInfo | null>(null);
+  const [showPropertiesPanel, setShowPropertiesPanel] = useState(false);
+
+  // Multi-select state
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [showDeleteSelectedDialog, setShowDeleteSelectedDialog] = useState(false);
+
+  // Zip download state
+  const [preparingZip, setPreparingZip] = useState(false);
+
+  // Move / copy state
+  const [itemToMove, setItemToMove] = useState<FileInfo | null>(null);
+  const [showMoveDialog, setShowMoveDialog] = useState(false);
+
+  // Storage class and restore state
+  const [storageClassItems, setStorageClassItems] = useState<FileInfo[]>([]);
+  const [showStorageClassDialog, setShowStorageClassDialog] = useState(false);
+  const [fileToRestore, setFileToRestore] = useState<FileInfo | null>(null);
+  const [showRestoreDialog, setShowRestoreDialog] = useState(false);
+
+  // Share link state
+  const [fileToShare, setFileToShare] = useState<FileInfo | null>(null);
+  const [showShareDialog, setShowShareDialog] = useState(false);
+
+  // Fetch the first page of files from the API
+  const fetchFiles = useCallback(async (refreshStats = false) => {
+    const listingId = ++listingIdRef.current;
     setLoading(true);
     setError(null);
+    // A page being loaded or the token of the previous listing would belong to another folder
+    setLoadingMore(false);
+    setNextContinuationToken(undefined);
 
     try {
-      const response = await listFiles(currentPrefix);
+      const response = await listFiles(currentPrefix, { pageSize: FILES_PAGE_SIZE, refreshStats }, target);
+      if (listingId !== listingIdRef.current) return;
+
       setFiles(response.data.files || []);
+      setNextContinuationToken(response.data.nextContinuationToken);
     } catch (err) {
+      if (listingId !== listingIdRef.current) return;
       setError(err instanceof Error ? err.message : 'Failed to load files');
       console.error('Error fetching files:', err);
     } finally {
-      setLoading(false);
+      if (listingId === listingIdRef.current) {
+        setLoading(false);
+      }
     }
-  }, [currentPrefix]);
+  }, [currentPrefix, target]);
+
+  // Large uploads refresh the listing when they finish
+  const {
+    uploads: multipartUploads,
+    startUpload: startMultipartUpload,
+    resumeUpload: resumeMultipartUpload,
+    retryUpload: retryMultipartUpload,
+    abortUpload: abortMultipartUpload,
+    dismissUpload: dismissMultipartUpload
+  } = useMultipartUpload(() => fetchFiles());
+
+  // Queue for uploads from the toolbar and drag-and-drop
+  const {
+    items: uploadQueue,
+    enqueue: enqueueUploads,
+    resolveConflict: resolveUploadConflict,
+    resolveAllConflicts: resolveAllUploadConflicts,
+    retryItem: retryQueuedUpload,
+    clearFinished: clearFinishedUploads
+  } = useUploadQueue({
+    target,
+    startMultipartUpload,
+    onQueueDrained: () => fetchFiles()
+  });
+
+  // Archive upload and extraction into the current folder
+  const {
+    extraction: archiveExtraction,
+    extract: extractArchive,
+    cancel: cancelArchiveExtraction,
+    reset: resetArchiveExtraction
+  } = useArchiveExtract({
+    target,
+    startMultipartUpload,
+    onExtracted: () => fetchFiles()
+  });
+
+  // Paged reading and following of text files in the viewer
+  const {
+    page: viewPage,
+    loading: loadingViewPage,
+    following: followingViewFile,
+    error: viewPageError,
+    open: openViewPages,
+    goTo: goToViewPage,
+    follow: followViewFile,
+    close: closeViewPages
+  } = useFilePages(target);
+
+  // Reload the listing and recompute folder stats
+  const handleRefresh = useCallback(() => {
+    fetchFiles(true);
+  }, [fetchFiles]);
+
+  // Fetch the next page of files and append it to the current listing
+  const loadMoreFiles = useCallback(async () => {
+    if (!nextContinuationToken) return;
+
+    const listingId = listingIdRef.current;
+    setLoadingMore(true);
+    setError(null);
+
+    try {
+      const response = await listFiles(currentPrefix, {
+        pageSize: FILES_PAGE_SIZE,
+        continuationToken: nextContinuationToken
+      }, target);
+      if (listingId !== listingIdRef.current) return;
+
+      setFiles(prev => [...prev, ...(response.data.files || [])]);
+      setNextContinuationToken(response.data.nextContinuationToken);
+    } catch (err) {
+      if (listingId !== listingIdRef.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load more files');
+      console.error('Error fetching more files:', err);
+    } finally {
+      if (listingId === listingIdRef.current) {
+        setLoadingMore(false);
+      }
+    }
+  }, [currentPrefix, nextContinuationToken, target]);
 
   // Load files on component mount and when prefix changes
   useEffect(() => {
     fetchFiles();
   }, [fetchFiles]);
 
+  // Another bucket starts at its root
+  useEffect(() => {
+    setCurrentPrefix('');
+    setBreadcrumbs([]);
+  }, [target]);
+
+  // Selection only applies to the folder being shown
+  useEffect(() => {
+    setSelectedKeys(new Set());
+  }, [currentPrefix]);
+
   // Handle navigation to a folder
   const handleNavigateToFolder = useCallback((prefix: string, folderName: string) => {
     const newPrefix = `${prefix}${folderName}`;
@@ -95,6 +286,13 @@ export const useFileManager = () => {
     }
   }, [breadcrumbs]);
 
+  // Jump straight to a folder given by its full prefix, e.g. the folder of a search result
+  const handleNavigateToPath = useCallback((prefix: string) => {
+    const segments = prefix.split('/').filter(Boolean);
+    setCurrentPrefix(segments.map(segment => `${segment}/`).join(''));
+    setBreadcrumbs(segments);
+  }, []);
+
   // Handle creating a new file
   const handleCreateFile = useCallback(async () => {
     if (!newFileName.trim()) return;
@@ -104,7 +302,7 @@ export const useFileManager = () => {
 
     try {
       const filePath = `${currentPrefix}${newFileName}`;
-      await writeFile(filePath, newFileContent);
+      await writeFile(filePath, newFileContent, getEffectiveContentType(undefined, filePath), undefined, target);
 
       // Reset state and refresh files
       setNewFileName('');
@@ -117,7 +315,7 @@ export const useFileManager = () => {
     } finally {
       setLoading(false);
     }
-  }, [currentPrefix, newFileName, newFileContent, fetchFiles]);
+  }, [currentPrefix, newFileName, newFileContent, fetchFiles, target]);
 
   // Handle creating a new folder
   const handleCreateFolder = useCallback(async () => {
@@ -128,7 +326,7 @@ export const useFileManager = () => {
 
     try {
       const folderPath = `${currentPrefix}${newFolderName}/`;
-      await createFolder(folderPath);
+      await createFolder(folderPath, target);
 
       // Reset state and refresh files
       setNewFolderName('');
@@ -140,19 +338,27 @@ export const useFileManager = () => {
     } finally {
       setLoading(false);
     }
-  }, [currentPrefix, newFolderName, fetchFiles]);
+  }, [currentPrefix, newFolderName, fetchFiles, target]);
 
   // Handle editing a file
   const handleEditFile = useCallback(async (file: FileInfo) => {
     setEditingFile(file);
+    setEditValidationError(null);
     setLoadingFileContent(true);
 
     try {
       const filePath = file.key;
 
-      const response = await getFile(filePath);
+      const response = await getFile(filePath, undefined, target);
+      // An unreadable file must not open as empty content that could be saved over it
+      if (response.data.error) {
+        throw new Error(response.data.error);
+      }
 
       setEditFileContent(response.data.content || '');
+      // Keep the stored type as is (with any charset); untyped files get one from their extension
+      const storedType = response.data.contentType;
+      setEditContentType(isGenericContentType(storedType) ? getEffectiveContentType(storedType, filePath) : storedType);
       setShowEditFileDialog(true);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load file content');
@@ -160,22 +366,37 @@ export const useFileManager = () => {
     } finally {
       setLoadingFileContent(false);
     }
+  }, [target]);
+
+  // Handle changes in the editor; a validation error is shown until the content changes
+  const handleEditFileContentChange = useCallback((content: string) => {
+    setEditFileContent(content);
+    setEditValidationError(null);
   }, []);
 
-  // Handle saving edited file
-  const handleSaveEditedFile = useCallback(async () => {
+  // Handle saving edited file. JSON and YAML with syntax errors are only saved when forced.
+  const handleSaveEditedFile = useCallback(async (force = false) => {
     if (!editingFile) return;
 
+    if (!force) {
+      const validationError = validateContent(editFileContent, getEditorLanguage(editingFile.key, editContentType));
+      if (validationError) {
+        setEditValidationError(validationError);
+        return;
+      }
+    }
+
     setLoading(true);
     setError(null);
 
     try {
       const filePath = editingFile.key;
-      await writeFile(filePath, editFileContent);
+      await writeFile(filePath, editFileContent, editContentType, undefined, target);
 
       // Reset state and refresh files
       setEditingFile(null);
       setEditFileContent('');
+      setEditValidationError(null);
       setShowEditFileDialog(false);
       fetchFiles();
     } catch (err) {
@@ -184,28 +405,94 @@ export const useFileManager = () => {
     } finally {
       setLoading(false);
     }
-  }, [editingFile, editFileContent, fetchFiles]);
+  }, [editingFile, editFileContent, editContentType, fetchFiles, target]);
 
-  // Handle viewing a file
-  const handleViewFile = useCallback(async (file: FileInfo) => {
+  // Handle viewing a file, optionally marking the matches of a content search
+  const handleViewFile = useCallback(async (file: FileInfo, highlight?: HighlightPattern) => {
     setViewingFile(file);
+    setViewHighlight(highlight || null);
     setLoadingFileContent(true);
+    closeViewPages();
 
     try {
       const filePath = file.key;
-      const response = await getFile(filePath);
-      const content = response.data.content || '';
+      const head = await headObject(filePath, target);
+      if (head.data.error || !head.data.properties) {
+        throw new Error(head.data.error || 'File not found');
+      }
 
-      setViewFileContent(content);
+      const { size, storageClass, restore, archived } = head.data.properties;
+      const contentType = getEffectiveContentType(head.data.properties.contentType, filePath);
+      let kind = getPreviewKind(contentType);
+      let content = '';
 
-      // Check if content is JSON
-      try {
-        JSON.parse(content);
-        setIsJsonContent(true);
-      } catch {
+      // Nothing of an archived file can be read, the dialog explains why and offers a restore
+      if (archived) {
+        setViewFileContent('');
         setIsJsonContent(false);
+        setViewPreview({ kind: 'archived', contentType, size, storageClass, restore });
+        setShowViewFileDialog(true);
+        return;
+      }
+
+      // Search matches are marked in the text, whatever the type renders as
+      if (highlight && kind !== 'json') {
+        kind = 'text';
+      }
+
+      const preview: FilePreviewData = { kind: kind || 'binary', contentType, size };
+
+      if (kind === 'image' || kind === 'audio' || kind === 'video' || kind === 'pdf') {
+        const response = await getPreviewUrl(filePath, contentType, target);
+        if (response.data.error) {
+          throw new Error(response.data.error);
+        }
+        preview.url = response.data.url;
+      } else if (kind === null || kind === 'binary') {
+        // Untyped objects that decode as text are read as text, others get a hex dump of their start
+        const response = await getFileRange(filePath, 0, MAX_BINARY_PREVIEW_SIZE, 'base64', target);
+        if (response.data.error) {
+          throw new Error(response.data.error);
+        }
+
+        const bytes = base64ToBytes(response.data.content || '');
+        if (kind === null && decodeText(bytes, bytes.length < size) !== null) {
+          preview.kind = 'paged';
+        } else {
+          preview.kind = 'binary';
+          preview.bytes = bytes;
+        }
+      } else if ((kind === 'text' && !highlight) || size > MAX_TEXT_PREVIEW_SIZE) {
+        // Plain text and files too large to render are read a page at a time
+        preview.kind = 'paged';
+      } else {
+        const response = await getFile(filePath, undefined, target);
+        content = response.data.content || '';
+
+        if (kind === 'table') {
+          preview.delimiter = getTableDelimiter(contentType);
+        }
+      }
+
+      if (preview.kind === 'paged') {
+        openViewPages(filePath);
       }
 
+      // JSON gets the formatted view only when it parses
+      let isJson = false;
+      if (preview.kind === 'json') {
+        try {
+          JSON.parse(content);
+          isJson = true;
+        } catch {
+          preview.kind = 'text';
+        }
+      }
+
+      setViewFileContent(content);
+      setIsJsonContent(isJson);
+      setViewPreview(preview);
+      setJsonViewTab(0);
       setShowViewFileDialog(true);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load file content');
@@ -213,13 +500,54 @@ export const useFileManager = () => {
     } finally {
       setLoadingFileContent(false);
     }
+  }, [target, openViewPages, closeViewPages]);
+
+  // Handle opening the version history of a file
+  const handleShowHistory = useCallback((file: FileInfo) => {
+    setHistoryFile(file);
+    setShowHistoryDialog(true);
+  }, []);
+
+  // Handle opening the properties panel of a file
+  const handleShowProperties = useCallback((file: FileInfo) => {
+    setPropertiesFile(file);
+    setShowPropertiesPanel(true);
+  }, []);
+
+  // Handle moving a file or folder to another storage class
+  const handleChangeStorageClass = useCallback((item: FileInfo) => {
+    setStorageClassItems([item]);
+    setShowStorageClassDialog(true);
+  }, []);
+
+  // Handle moving every selected item to another storage class
+  const handleChangeStorageClassSelected = useCallback(() => {
+    if (selectedKeys.size === 0) return;
+    setStorageClassItems(files.filter(file => selectedKeys.has(file.key)));
+    setShowStorageClassDialog(true);
+  }, [files, selectedKeys]);
+
+  // Handle requesting a readable copy of an archived file
+  const handleRestoreFile = useCallback((file: FileInfo) => {
+    setFileToRestore(file);
+    setShowRestoreDialog(true);
+  }, []);
+
+  // Handle creating a download link for a file
+  const handleShareFile = useCallback((file: FileInfo) => {
+    setFileToShare(file);
+    setShowShareDialog(true);
   }, []);
 
   // Handle copying a file to clipboard
   const handleCopyFile = useCallback(async (file: FileInfo) => {
     try {
       const filePath = file.key;
-      const response = await getFile(filePath);
+      const response = await getFile(filePath, undefined, target);
+      // e.g. archived files, which cannot be read until restored
+      if (response.data.error) {
+        throw new Error(response.data.error);
+      }
       const content = response.data.content || '';
 
       await navigator.clipboard.writeText(content);
@@ -227,35 +555,137 @@ export const useFileManager = () => {
       setError(err instanceof Error ? err.message : 'Failed to copy file content');
       console.error('Error copying file content:', err);
     }
-  }, []);
+  }, [target]);
 
   // Handle downloading a file
   const handleDownloadFile = useCallback(async (file: FileInfo) => {
     try {
       const filePath = file.key;
-      const response = await getFile(filePath);
-      const content = response.data.content || '';
-
-      // Create a blob with the file content
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
+      const response = await getFile(filePath, 'base64', target);
+      // e.g. archived files, which cannot be read until restored
+      if (response.data.error) {
+        throw new Error(response.data.error);
+      }
 
-      // Create a download link and click it
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = filePath.split('/').pop() || 'download';
-      document.body.appendChild(a);
-      a.click();
+      // Rebuild the original bytes and keep the stored content type
+      const bytes = base64ToBytes(response.data.content || '');
+      const blob = new Blob([bytes], {
+        type: response.data.contentType || 'application/octet-stream'
+      });
 
-      // Clean up
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, filePath.split('/').pop() || 'download');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to download file');
       console.error('Error downloading file:', err);
     }
+  }, [target]);
+
+  // Handle downloading folders and files as one zip archive built on the server
+  const handleDownloadZip = useCallback(async (items: FileInfo[]) => {
+    if (items.length === 0) return;
+
+    setPreparingZip(true);
+    setError(null);
+
+    try {
+      const { data } = await zipDownload(items.map(item => item.key), { basePrefix: currentPrefix }, target);
+      if (data.error) {
+        setError(data.error);
+        return;
+      }
+
+      downloadUrl(data.url, data.fileName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download zip');
+      console.error('Error downloading zip:', err);
+    } finally {
+      setPreparingZip(false);
+    }
+  }, [currentPrefix, target]);
+
+  // Handle downloading the selected items as one zip archive
+  const handleDownloadSelected = useCallback(() => {
+    handleDownloadZip(files.filter(file => selectedKeys.has(file.key)));
+  }, [files, selectedKeys, handleDownloadZip]);
+
+  // Handle uploading local files, into the current folder unless a target folder is given
+  const handleUploadFiles = useCallback((entries: LocalFileEntry[], targetFolder?: FileInfo) => {
+    setError(null);
+
+    const targetPrefix = targetFolder ? targetFolder.key : currentPrefix;
+    enqueueUploads(entries, targetPrefix).catch((err) => {
+      setError(err instanceof Error ? err.message : 'Failed to upload files');
+      console.error('Error uploading files:', err);
+    });
+  }, [currentPrefix, enqueueUploads]);
+
+  // Handle uploading a local archive and extracting it into the current folder
+  const handleExtractArchive = useCallback((file: File, conflictPolicy: ExtractConflictPolicy) => {
+    setError(null);
+    extractArchive(file, currentPrefix, conflictPolicy);
+  }, [currentPrefix, extractArchive]);
+
+  // Handle renaming a file or folder in place, resolves to true when it succeeded
+  const handleRenameItem = useCallback(async (item: FileInfo, newName: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const { data } = await renameItem(item.key, newName, undefined, target);
+
+      if (data.error) {
+        setError(describeTransferError(data));
+        // Part of a folder may already live under the new name
+        if (data.transferred > 0) fetchFiles();
+        return false;
+      }
+
+      fetchFiles();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rename item');
+      console.error('Error renaming item:', err);
+      return false;
+    }
+  }, [fetchFiles, target]);
+
+  // Handle opening the move / copy dialog
+  const handleMoveItem = useCallback((item: FileInfo) => {
+    setItemToMove(item);
+    setShowMoveDialog(true);
   }, []);
 
+  // Handle moving or copying the selected item into a folder
+  const handleConfirmMove = useCallback(async (destinationPrefix: string, mode: 'move' | 'copy') => {
+    if (!itemToMove) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const path = itemToMove.key.endsWith('/') ? itemToMove.key.slice(0, -1) : itemToMove.key;
+      const name = path.substring(path.lastIndexOf('/') + 1);
+      const destinationKey = `${destinationPrefix}${name}${itemToMove.isFolder ? '/' : ''}`;
+
+      const { data } = mode === 'move'
+        ? await moveItem(itemToMove.key, destinationKey, undefined, target)
+        : await copyItem(itemToMove.key, destinationKey, undefined, target);
+
+      if (data.error) {
+        setError(describeTransferError(data));
+      }
+
+      // Reset state and refresh files
+      setItemToMove(null);
+      setShowMoveDialog(false);
+      fetchFiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${mode} item`);
+      console.error(`Error during ${mode}:`, err);
+    } finally {
+      setLoading(false);
+    }
+  }, [itemToMove, fetchFiles, target]);
+
   // Handle deleting a file or folder
   const handleDeleteItem = useCallback((item: FileInfo) => {
     setItemToDelete(item);
@@ -270,12 +700,18 @@ export const useFileManager = () => {
     setError(null);
 
     try {
-      const path = itemToDelete.key + (itemToDelete.isFolder ? '/' : '');
+      // Folder keys already end with a slash
+      const path = itemToDelete.key;
 
       if (itemToDelete.isFolder) {
-        await deleteFolder(path);
+        const { data } = await deleteFolder(path, target);
+        if (data.error) {
+          setError(data.failed?.length
+            ? `${data.error}: ${describeFailedKeys(data.failed)}`
+            : data.error);
+        }
       } else {
-        await deleteFile(path);
+        await deleteFile(path, target);
       }
 
       // Reset state and refresh files
@@ -288,7 +724,58 @@ export const useFileManager = () => {
     } finally {
       setLoading(false);
     }
-  }, [itemToDelete, fetchFiles]);
+  }, [itemToDelete, fetchFiles, target]);
+
+  // Handle selecting or unselecting a single item
+  const handleToggleSelect = useCallback((item: FileInfo) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(item.key)) {
+        next.delete(item.key);
+      } else {
+        next.add(item.key);
+      }
+      return next;
+    });
+  }, []);
+
+  // Handle selecting or unselecting every loaded item
+  const handleSelectAll = useCallback((selected: boolean) => {
+    setSelectedKeys(selected ? new Set(files.map(file => file.key)) : new Set());
+  }, [files]);
+
+  // Handle opening the confirmation for deleting the selection
+  const handleDeleteSelected = useCallback(() => {
+    if (selectedKeys.size === 0) return;
+    setShowDeleteSelectedDialog(true);
+  }, [selectedKeys]);
+
+  // Handle deleting every selected item in one request
+  const handleConfirmDeleteSelected = useCallback(async () => {
+    if (selectedKeys.size === 0) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data } = await deleteMany(Array.from(selectedKeys), target);
+      if (data.error) {
+        setError(data.failed?.length
+          ? `${data.error}: ${describeFailedKeys(data.failed)}`
+          : data.error);
+      }
+
+      // Reset state and refresh files
+      setSelectedKeys(new Set());
+      setShowDeleteSelectedDialog(false);
+      fetchFiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete selected items');
+      console.error('Error deleting selected items:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedKeys, fetchFiles, target]);
 
   // Reset dialogs
   const resetDialogs = useCallback(() => {
@@ -296,13 +783,23 @@ export const useFileManager = () => {
     setShowNewFolderDialog(false);
     setShowEditFileDialog(false);
     setShowViewFileDialog(false);
+    closeViewPages();
     setShowDeleteConfirmDialog(false);
-  }, []);
+    setShowMoveDialog(false);
+    setShowDeleteSelectedDialog(false);
+    setShowHistoryDialog(false);
+    setShowPropertiesPanel(false);
+    setShowStorageClassDialog(false);
+    setShowRestoreDialog(false);
+    setShowShareDialog(false);
+  }, [closeViewPages]);
 
   return {
     // State
     files,
     loading,
+    loadingMore,
+    hasMoreFiles: !!nextContinuationToken,
     error,
     currentPrefix,
     breadcrumbs,
@@ -325,6 +822,8 @@ export const useFileManager = () => {
     editingFile,
     editFileContent,
     setEditFileContent,
+    editContentType,
+    editValidationError,
     showEditFileDialog,
     loadingFileContent,
 
@@ -335,24 +834,102 @@ export const useFileManager = () => {
     isJsonContent,
     jsonViewTab,
     setJsonViewTab,
+    viewHighlight,
+    viewPreview,
+    viewPage,
+    loadingViewPage,
+    followingViewFile,
+    viewPageError,
+    goToViewPage,
+    followViewFile,
 
     // Delete confirmation
     itemToDelete,
     showDeleteConfirmDialog,
 
+    // Version history
+    historyFile,
+    showHistoryDialog,
+
+    // Properties panel
+    propertiesFile,
+    showPropertiesPanel,
+
+    // Multi-select
+    selectedKeys,
+    selectedFiles: files.filter(file => selectedKeys.has(file.key)),
+    showDeleteSelectedDialog,
+
+    // Zip download
+    preparingZip,
+
+    // Move / copy
+    itemToMove,
+    showMoveDialog,
+
+    // Storage class and restore
+    storageClassItems,
+    showStorageClassDialog,
+    fileToRestore,
+    showRestoreDialog,
+
+    // Share links
+    fileToShare,
+    showShareDialog,
+
+    // Multipart uploads
+    multipartUploads,
+    resumeMultipartUpload,
+    retryMultipartUpload,
+    abortMultipartUpload,
+    dismissMultipartUpload,
+
+    // Upload queue
+    uploadQueue,
+    resolveUploadConflict,
+    resolveAllUploadConflicts,
+    retryQueuedUpload,
+    clearFinishedUploads,
+
+    // Archive extraction
+    archiveExtraction,
+    cancelArchiveExtraction,
+    resetArchiveExtraction,
+
     // Actions
     fetchFiles,
+    handleRefresh,
+    loadMoreFiles,
     handleNavigateToFolder,
     handleBreadcrumbNavigation,
+    handleNavigateToPath,
     handleCreateFile,
     handleCreateFolder,
     handleEditFile,
+    handleEditFileContentChange,
     handleSaveEditedFile,
     handleViewFile,
+    handleShowHistory,
+    handleShowProperties,
+    handleChangeStorageClass,
+    handleChangeStorageClassSelected,
+    handleRestoreFile,
+    handleShareFile,
     handleCopyFile,
     handleDownloadFile,
+    handleDownloadZip,
+    handleDownloadSelected,
+    handleUploadFiles,
+    handleExtractArchive,
+    handleRenameItem,
+    handleMoveItem,
+    handleConfirmMove,
     handleDeleteItem,
     handleConfirmDelete,
+    handleToggleSelect,
+    handleSelectAll,
+    handleDeleteSelected,
+    handleConfirmDeleteSelected,
     resetDialogs
   };
 };
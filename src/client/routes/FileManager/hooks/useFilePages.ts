@@ -0,0 +1,208 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { getFileRange, getFileTail } from '@/apis/fileManagement/client';
+import type { BucketTarget, GetFileResponse } from '@/apis/fileManagement/types';
+import type { CacheResult } from '@/server/cache/types';
+
+// Bytes read per page
+export const FILE_PAGE_SIZE = 512 * 1024;
+// Lines shown when jumping to the end of a file
+const TAIL_LINES = 1000;
+const FOLLOW_INTERVAL = 2000;
+// Followed text is trimmed from the start beyond this many characters
+const MAX_FOLLOW_LENGTH = 2 * 1024 * 1024;
+
+export type FilePagePosition = 'first' | 'previous' | 'next' | 'last';
+
+export interface FilePage {
+  key: string;
+  content: string;
+  // Bytes of the object shown: `length` bytes from `offset`
+  offset: number;
+  length: number;
+  totalSize: number;
+}
+
+const toPage = (key: string, response: GetFileResponse): FilePage => ({
+  key,
+  content: response.content,
+  offset: response.offset || 0,
+  length: response.length || 0,
+  totalSize: response.totalSize || 0
+});
+
+// Drop whole lines from the start of followed text so it stays below the limit
+const trimFollowedPage = (page: FilePage): FilePage => {
+  if (page.content.length <= MAX_FOLLOW_LENGTH) return page;
+
+  const lineBreak = page.content.indexOf('\n', page.content.length - MAX_FOLLOW_LENGTH);
+  const cut = lineBreak === -1 ? page.content.length - MAX_FOLLOW_LENGTH : lineBreak + 1;
+  const droppedBytes = new TextEncoder().encode(page.content.slice(0, cut)).length;
+
+  return {
+    ...page,
+    content: page.content.slice(cut),
+    offset: page.offset + droppedBytes,
+    length: page.length - droppedBytes
+  };
+};
+
+/**
+ * Read a large text file a page at a time with range requests. In follow mode the end of
+ * the file is polled and new bytes are appended as the object grows, like `tail -f`.
+ */
+export const useFilePages = (target: BucketTarget) => {
+  const [page, setPage] = useState<FilePage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [following, setFollowing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Incremented for every read, so a replaced one stops updating state
+  const runIdRef = useRef(0);
+  const pageRef = useRef<FilePage | null>(null);
+
+  useEffect(() => {
+    pageRef.current = page;
+  }, [page]);
+
+  const showPage = useCallback(async (key: string, read: () => Promise<CacheResult<GetFileResponse>>) => {
+    const runId = ++runIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data } = await read();
+      if (runIdRef.current !== runId) return false;
+      if (data.error) {
+        throw new Error(data.error);
+      }
+
+      const next = toPage(key, data);
+      pageRef.current = next;
+      setPage(next);
+      return true;
+    } catch (err) {
+      if (runIdRef.current === runId) {
+        setError(err instanceof Error ? err.message : 'Failed to read file');
+      }
+      return false;
+    } finally {
+      if (runIdRef.current === runId) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  const showTail = useCallback((key: string) => {
+    return showPage(key, () => getFileTail(key, TAIL_LINES, undefined, target));
+  }, [showPage, target]);
+
+  // Show the first page of a file
+  const open = useCallback((key: string) => {
+    setFollowing(false);
+    setPage(null);
+    return showPage(key, () => getFileRange(key, 0, FILE_PAGE_SIZE, undefined, target));
+  }, [showPage, target]);
+
+  const goTo = useCallback((position: FilePagePosition) => {
+    const current = pageRef.current;
+    if (!current) return;
+
+    setFollowing(false);
+    const { key, offset, length } = current;
+
+    switch (position) {
+      case 'first':
+        showPage(key, () => getFileRange(key, 0, FILE_PAGE_SIZE, undefined, target));
+        break;
+      case 'previous': {
+        const start = Math.max(0, offset - FILE_PAGE_SIZE);
+        if (offset > 0) {
+          showPage(key, () => getFileRange(key, start, offset - start, undefined, target));
+        }
+        break;
+      }
+      case 'next':
+        showPage(key, () => getFileRange(key, offset + length, FILE_PAGE_SIZE, undefined, target));
+        break;
+      case 'last':
+        showTail(key);
+        break;
+    }
+  }, [showPage, showTail, target]);
+
+  // Start following from the end of the file, or stop
+  const follow = useCallback(async (enabled: boolean) => {
+    const current = pageRef.current;
+    if (!enabled || !current) {
+      setFollowing(false);
+      return;
+    }
+
+    if (await showTail(current.key)) {
+      setFollowing(true);
+    }
+  }, [showTail]);
+
+  const close = useCallback(() => {
+    runIdRef.current++;
+    pageRef.current = null;
+    setPage(null);
+    setFollowing(false);
+    setLoading(false);
+    setError(null);
+  }, []);
+
+  useEffect(() => {
+    if (!following) return;
+
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      const current = pageRef.current;
+      const runId = runIdRef.current;
+
+      if (current) {
+        const end = current.offset + current.length;
+
+        try {
+          const { data } = await getFileRange(current.key, end, FILE_PAGE_SIZE, undefined, target);
+          if (stopped || runIdRef.current !== runId) return;
+          if (data.error) {
+            throw new Error(data.error);
+          }
+
+          if ((data.totalSize || 0) < end) {
+            // The object shrank, e.g. a rotated log: start again from its end
+            await showTail(current.key);
+          } else if (data.length) {
+            const next = trimFollowedPage({
+              ...current,
+              content: current.content + data.content,
+              length: current.length + data.length,
+              totalSize: data.totalSize || 0
+            });
+            pageRef.current = next;
+            setPage(next);
+          }
+        } catch (err) {
+          if (stopped) return;
+          setError(err instanceof Error ? err.message : 'Failed to follow file');
+          setFollowing(false);
+          return;
+        }
+      }
+
+      if (!stopped) {
+        timer = setTimeout(poll, FOLLOW_INTERVAL);
+      }
+    };
+
+    timer = setTimeout(poll, FOLLOW_INTERVAL);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [following, showTail, target]);
+
+  return { page, loading, following, error, open, goTo, follow, close };
+};
@@ -0,0 +1,116 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { searchFiles } from '@/apis/fileManagement/client';
+import type { BucketTarget, FileInfo, SearchQuery } from '@/apis/fileManagement/types';
+
+// Number of matches to collect before waiting for "load more"
+const SEARCH_PAGE_SIZE = 100;
+
+type ActiveSearch = {
+  prefix: string;
+  query: SearchQuery;
+};
+
+/**
+ * Key search across the bucket or below a folder.
+ * The server scans a bounded number of keys per request, so results arrive in pages;
+ * each search keeps requesting pages until it has a page worth of matches.
+ */
+export const useFileSearch = (target: BucketTarget) => {
+  const [activeSearch, setActiveSearch] = useState<ActiveSearch | null>(null);
+  const [results, setResults] = useState<FileInfo[]>([]);
+  const [scannedCount, setScannedCount] = useState(0);
+  const [nextContinuationToken, setNextContinuationToken] = useState<string | undefined>(undefined);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped for every new search so pages of an abandoned search are dropped
+  const searchIdRef = useRef(0);
+
+  const fetchPages = useCallback(async (search: ActiveSearch, continuationToken: string | undefined, searchId: number) => {
+    setSearching(true);
+    setError(null);
+
+    let token = continuationToken;
+    let found = 0;
+
+    try {
+      do {
+        const { data } = await searchFiles(search.prefix, search.query, {
+          pageSize: SEARCH_PAGE_SIZE,
+          continuationToken: token
+        }, target);
+
+        if (searchId !== searchIdRef.current) return;
+
+        if (data.error) {
+          setError(data.error);
+          token = undefined;
+          break;
+        }
+
+        const files = data.files || [];
+        found += files.length;
+        setResults(prev => [...prev, ...files]);
+        setScannedCount(prev => prev + data.scannedCount);
+        token = data.nextContinuationToken;
+      } while (token && found < SEARCH_PAGE_SIZE);
+
+      setNextContinuationToken(token);
+    } catch (err) {
+      if (searchId === searchIdRef.current) {
+        setError(err instanceof Error ? err.message : 'Search failed');
+        console.error('Error searching files:', err);
+      }
+    } finally {
+      if (searchId === searchIdRef.current) {
+        setSearching(false);
+      }
+    }
+  }, [target]);
+
+  // Start a new search, replacing any previous results
+  const search = useCallback((prefix: string, query: SearchQuery) => {
+    const searchId = ++searchIdRef.current;
+    const nextSearch = { prefix, query };
+
+    setActiveSearch(nextSearch);
+    setResults([]);
+    setScannedCount(0);
+    setNextContinuationToken(undefined);
+    fetchPages(nextSearch, undefined, searchId);
+  }, [fetchPages]);
+
+  // Continue the current search where the last page stopped
+  const loadMore = useCallback(() => {
+    if (!activeSearch || !nextContinuationToken || searching) return;
+    fetchPages(activeSearch, nextContinuationToken, searchIdRef.current);
+  }, [activeSearch, nextContinuationToken, searching, fetchPages]);
+
+  // Leave search mode and stop a running search
+  const clearSearch = useCallback(() => {
+    searchIdRef.current++;
+    setActiveSearch(null);
+    setResults([]);
+    setScannedCount(0);
+    setNextContinuationToken(undefined);
+    setSearching(false);
+    setError(null);
+  }, []);
+
+  // Results belong to one bucket
+  useEffect(() => {
+    clearSearch();
+  }, [target, clearSearch]);
+
+  return {
+    activeSearch,
+    results,
+    scannedCount,
+    hasMore: !!nextContinuationToken,
+    searching,
+    error,
+    search,
+    loadMore,
+    clearSearch
+  };
+};
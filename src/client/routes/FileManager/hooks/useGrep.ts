@@ -0,0 +1,135 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { grepFiles } from '@/apis/fileManagement/client';
+import type { BucketTarget, GrepMatch } from '@/apis/fileManagement/types';
+
+// Keep reading batches until at least this many files matched
+const GREP_MIN_MATCHES = 25;
+
+export type GrepParams = {
+  // Folder to search in, '' for the whole bucket
+  prefix: string;
+  pattern: string;
+  isRegex: boolean;
+  caseSensitive: boolean;
+  // Larger objects are skipped (bytes)
+  maxObjectSize?: number;
+  // Number of objects read at the same time
+  concurrency?: number;
+};
+
+/**
+ * Content search over the text objects under a prefix.
+ * The server searches one batch of objects per request; a search keeps requesting batches
+ * until enough files matched, the prefix is exhausted or it is stopped.
+ */
+export const useGrep = (target: BucketTarget) => {
+  const [activeGrep, setActiveGrep] = useState<GrepParams | null>(null);
+  const [matches, setMatches] = useState<GrepMatch[]>([]);
+  const [scannedCount, setScannedCount] = useState(0);
+  const [skippedCount, setSkippedCount] = useState(0);
+  const [nextContinuationToken, setNextContinuationToken] = useState<string | undefined>(undefined);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped for every new or stopped search so late batches are dropped
+  const grepIdRef = useRef(0);
+
+  const fetchBatches = useCallback(async (params: GrepParams, continuationToken: string | undefined, grepId: number) => {
+    setSearching(true);
+    setError(null);
+
+    let token = continuationToken;
+    let found = 0;
+
+    try {
+      do {
+        const { data } = await grepFiles(params.prefix, params.pattern, {
+          isRegex: params.isRegex,
+          caseSensitive: params.caseSensitive,
+          maxObjectSize: params.maxObjectSize,
+          concurrency: params.concurrency,
+          continuationToken: token
+        }, target);
+
+        if (grepId !== grepIdRef.current) return;
+
+        if (data.error) {
+          setError(data.error);
+          token = undefined;
+          break;
+        }
+
+        const batch = data.matches || [];
+        found += batch.length;
+        setMatches(prev => [...prev, ...batch]);
+        setScannedCount(prev => prev + data.scannedCount);
+        setSkippedCount(prev => prev + data.skippedCount);
+        token = data.nextContinuationToken;
+        setNextContinuationToken(token);
+      } while (token && found < GREP_MIN_MATCHES);
+    } catch (err) {
+      if (grepId === grepIdRef.current) {
+        setError(err instanceof Error ? err.message : 'Content search failed');
+        console.error('Error searching file contents:', err);
+      }
+    } finally {
+      if (grepId === grepIdRef.current) {
+        setSearching(false);
+      }
+    }
+  }, [target]);
+
+  // Start a new content search, replacing any previous results
+  const grep = useCallback((params: GrepParams) => {
+    const grepId = ++grepIdRef.current;
+
+    setActiveGrep(params);
+    setMatches([]);
+    setScannedCount(0);
+    setSkippedCount(0);
+    setNextContinuationToken(undefined);
+    fetchBatches(params, undefined, grepId);
+  }, [fetchBatches]);
+
+  // Continue the current search where the last batch stopped
+  const loadMore = useCallback(() => {
+    if (!activeGrep || !nextContinuationToken || searching) return;
+    fetchBatches(activeGrep, nextContinuationToken, grepIdRef.current);
+  }, [activeGrep, nextContinuationToken, searching, fetchBatches]);
+
+  // Stop requesting batches but keep the results found so far
+  const stop = useCallback(() => {
+    grepIdRef.current++;
+    setSearching(false);
+  }, []);
+
+  const reset = useCallback(() => {
+    grepIdRef.current++;
+    setActiveGrep(null);
+    setMatches([]);
+    setScannedCount(0);
+    setSkippedCount(0);
+    setNextContinuationToken(undefined);
+    setSearching(false);
+    setError(null);
+  }, []);
+
+  // Results belong to one bucket
+  useEffect(() => {
+    reset();
+  }, [target, reset]);
+
+  return {
+    activeGrep,
+    matches,
+    scannedCount,
+    skippedCount,
+    hasMore: !!nextContinuationToken,
+    searching,
+    error,
+    grep,
+    loadMore,
+    stop,
+    reset
+  };
+};
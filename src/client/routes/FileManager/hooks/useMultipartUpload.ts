@@ -0,0 +1,475 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  createMultipartUpload,
+  signUploadParts,
+  listUploadParts,
+  completeMultipartUpload,
+  abortMultipartUpload
+} from '@/apis/fileManagement/client';
+import type { BucketTarget, UploadPart } from '@/apis/fileManagement/types';
+
+// S3 requires every part except the last to be at least 5 MB
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_PART_SIZE = 16 * 1024 * 1024;
+// S3 allows at most 10,000 parts per upload
+const MAX_PARTS = 10000;
+const PARALLEL_PARTS = 4;
+const MAX_PART_ATTEMPTS = 3;
+const STORAGE_KEY = 'fileManager.multipartUploads';
+
+export type MultipartPartStatus = 'pending' | 'uploading' | 'done' | 'failed';
+
+export type MultipartUploadStatus =
+  | 'uploading'
+  | 'completing'
+  | 'completed'
+  | 'failed'
+  // Waiting for the user to select the file again (e.g. after a page reload)
+  | 'paused';
+
+export interface MultipartPartState {
+  partNumber: number;
+  size: number;
+  loaded: number;
+  status: MultipartPartStatus;
+  attempts: number;
+  etag?: string;
+  error?: string;
+}
+
+export interface MultipartUploadState {
+  id: string;
+  key: string;
+  fileName: string;
+  fileSize: number;
+  status: MultipartUploadStatus;
+  parts: MultipartPartState[];
+  error?: string;
+}
+
+// What survives a page reload
+interface PersistedMultipartUpload {
+  id: string;
+  key: string;
+  fileName: string;
+  fileSize: number;
+  fileLastModified: number;
+  contentType: string;
+  uploadId: string;
+  partSize: number;
+  completedParts: UploadPart[];
+  // Missing in records stored before profiles and buckets could be picked
+  target?: BucketTarget;
+}
+
+// In-memory bookkeeping for an upload in this session
+interface MultipartUploadRuntime {
+  record: PersistedMultipartUpload;
+  file: File | null;
+  parts: MultipartPartState[];
+  requests: Set<XMLHttpRequest>;
+  cancelled: boolean;
+  status: MultipartUploadStatus;
+  error?: string;
+}
+
+const getUploadId = (
+  key: string,
+  file: { size: number; lastModified: number },
+  target: BucketTarget = {}
+): string => {
+  // The same key in another bucket is another upload
+  const scope = target.profileId || target.bucket
+    ? `${target.profileId || ''}|${target.bucket || ''}|`
+    : '';
+  return `${scope}${key}:${file.size}:${file.lastModified}`;
+};
+
+const loadPersistedUploads = (): PersistedMultipartUpload[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as PersistedMultipartUpload[] : [];
+  } catch {
+    return [];
+  }
+};
+
+const savePersistedUploads = (records: PersistedMultipartUpload[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+};
+
+const persistUpload = (record: PersistedMultipartUpload): void => {
+  const records = loadPersistedUploads().filter(r => r.id !== record.id);
+  savePersistedUploads([...records, record]);
+};
+
+const removePersistedUpload = (id: string): void => {
+  savePersistedUploads(loadPersistedUploads().filter(r => r.id !== id));
+};
+
+const getPartSize = (fileSize: number): number => {
+  return Math.max(DEFAULT_PART_SIZE, MIN_PART_SIZE, Math.ceil(fileSize / MAX_PARTS));
+};
+
+const buildParts = (
+  fileSize: number,
+  partSize: number,
+  completedParts: UploadPart[]
+): MultipartPartState[] => {
+  const partCount = Math.max(1, Math.ceil(fileSize / partSize));
+  const completed = new Map(completedParts.map(part => [part.partNumber, part]));
+
+  return Array.from({ length: partCount }, (_, index) => {
+    const partNumber = index + 1;
+    const size = Math.min(partSize, fileSize - index * partSize);
+    const done = completed.get(partNumber);
+
+    return {
+      partNumber,
+      size,
+      loaded: done ? size : 0,
+      status: done ? 'done' : 'pending',
+      attempts: 0,
+      etag: done?.etag
+    };
+  });
+};
+
+// PUT a single part to its pre-signed URL and resolve with the part's ETag
+const putPart = (
+  url: string,
+  body: Blob,
+  onProgress: (loaded: number) => void,
+  requests: Set<XMLHttpRequest>
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    requests.add(xhr);
+
+    xhr.open('PUT', url);
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      requests.delete(xhr);
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`Part upload failed: ${xhr.status} ${xhr.statusText}`));
+        return;
+      }
+      const etag = xhr.getResponseHeader('ETag');
+      if (!etag) {
+        reject(new Error('ETag header missing - the bucket CORS rules must expose ETag'));
+        return;
+      }
+      resolve(etag);
+    };
+    xhr.onerror = () => {
+      requests.delete(xhr);
+      reject(new Error('Network error while uploading part'));
+    };
+    xhr.onabort = () => {
+      requests.delete(xhr);
+      reject(new Error('Part upload aborted'));
+    };
+
+    xhr.send(body);
+  });
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Browser-side multipart uploader with per-part progress, retries and resume.
+ * Upload ids and finished parts are kept in localStorage so an interrupted upload
+ * can continue after a reload once the user selects the same file again.
+ */
+export const useMultipartUpload = (onUploadComplete?: (key: string) => void) => {
+  const [uploads, setUploads] = useState<MultipartUploadState[]>([]);
+  const runtimesRef = useRef<Map<string, MultipartUploadRuntime>>(new Map());
+
+  // Publish the current runtime state of an upload to React state
+  const syncUpload = useCallback((id: string) => {
+    const runtime = runtimesRef.current.get(id);
+
+    setUploads(prev => {
+      if (!runtime) {
+        return prev.filter(upload => upload.id !== id);
+      }
+
+      const snapshot: MultipartUploadState = {
+        id,
+        key: runtime.record.key,
+        fileName: runtime.record.fileName,
+        fileSize: runtime.record.fileSize,
+        status: runtime.status,
+        parts: runtime.parts.map(part => ({ ...part })),
+        error: runtime.error
+      };
+
+      return prev.some(upload => upload.id === id)
+        ? prev.map(upload => upload.id === id ? snapshot : upload)
+        : [...prev, snapshot];
+    });
+  }, []);
+
+  // Restore unfinished uploads from a previous session
+  useEffect(() => {
+    for (const record of loadPersistedUploads()) {
+      runtimesRef.current.set(record.id, {
+        record,
+        file: null,
+        parts: buildParts(record.fileSize, record.partSize, record.completedParts),
+        requests: new Set(),
+        cancelled: false,
+        status: 'paused'
+      });
+      syncUpload(record.id);
+    }
+  }, [syncUpload]);
+
+  const uploadPart = useCallback(async (id: string, part: MultipartPartState) => {
+    const runtime = runtimesRef.current.get(id);
+    if (!runtime || !runtime.file) return;
+
+    const { record, file } = runtime;
+
+    while (part.attempts < MAX_PART_ATTEMPTS && !runtime.cancelled) {
+      part.attempts += 1;
+      part.status = 'uploading';
+      part.loaded = 0;
+      part.error = undefined;
+      syncUpload(id);
+
+      try {
+        const { data } = await signUploadParts(record.key, record.uploadId, [part.partNumber], record.target);
+        const url = data.urls[0]?.url;
+        if (!url) {
+          throw new Error('Failed to sign part upload');
+        }
+
+        const start = (part.partNumber - 1) * record.partSize;
+        const etag = await putPart(
+          url,
+          file.slice(start, start + part.size),
+          (loaded) => {
+            part.loaded = loaded;
+            syncUpload(id);
+          },
+          runtime.requests
+        );
+
+        part.status = 'done';
+        part.loaded = part.size;
+        part.etag = etag;
+
+        record.completedParts = [
+          ...record.completedParts.filter(p => p.partNumber !== part.partNumber),
+          { partNumber: part.partNumber, etag, size: part.size }
+        ];
+        persistUpload(record);
+        syncUpload(id);
+        return;
+      } catch (err) {
+        part.status = 'failed';
+        part.loaded = 0;
+        part.error = err instanceof Error ? err.message : String(err);
+        syncUpload(id);
+
+        // Back off before the next attempt
+        if (part.attempts < MAX_PART_ATTEMPTS && !runtime.cancelled) {
+          await wait(1000 * 2 ** (part.attempts - 1));
+        }
+      }
+    }
+  }, [syncUpload]);
+
+  // Upload all pending parts, then assemble the object.
+  // Resolves with whether the object was completed.
+  const runUpload = useCallback(async (id: string): Promise<boolean> => {
+    const runtime = runtimesRef.current.get(id);
+    if (!runtime) return false;
+
+    runtime.status = 'uploading';
+    runtime.error = undefined;
+    syncUpload(id);
+
+    const queue = runtime.parts.filter(part => part.status !== 'done');
+    const workers = Array.from({ length: Math.min(PARALLEL_PARTS, queue.length) }, async () => {
+      let part = queue.shift();
+      while (part && !runtime.cancelled) {
+        await uploadPart(id, part);
+        part = queue.shift();
+      }
+    });
+    await Promise.all(workers);
+
+    if (runtime.cancelled) return false;
+
+    const failed = runtime.parts.filter(part => part.status !== 'done');
+    if (failed.length > 0) {
+      runtime.status = 'failed';
+      runtime.error = `${failed.length} part(s) failed to upload`;
+      syncUpload(id);
+      return false;
+    }
+
+    runtime.status = 'completing';
+    syncUpload(id);
+
+    try {
+      const { data } = await completeMultipartUpload(
+        runtime.record.key,
+        runtime.record.uploadId,
+        runtime.parts.map(part => ({ partNumber: part.partNumber, etag: part.etag || '' })),
+        runtime.record.target
+      );
+      if (data.error) {
+        throw new Error(data.error);
+      }
+
+      removePersistedUpload(id);
+      runtime.status = 'completed';
+      syncUpload(id);
+      onUploadComplete?.(runtime.record.key);
+      return true;
+    } catch (err) {
+      runtime.status = 'failed';
+      runtime.error = err instanceof Error ? err.message : 'Failed to complete upload';
+      syncUpload(id);
+      return false;
+    }
+  }, [syncUpload, uploadPart, onUploadComplete]);
+
+  // Start uploading a file, resuming a stored upload of the same file when possible.
+  // Resolves with whether the object was completed.
+  const startUpload = useCallback(async (
+    file: File,
+    key: string,
+    target: BucketTarget = {}
+  ): Promise<boolean> => {
+    const id = getUploadId(key, file, target);
+    const existing = runtimesRef.current.get(id);
+
+    if (existing && (existing.status === 'uploading' || existing.status === 'completing')) {
+      return false;
+    }
+
+    let record = loadPersistedUploads().find(r => r.id === id);
+
+    if (record) {
+      // S3 is the source of truth for which parts were stored
+      try {
+        const { data } = await listUploadParts(record.key, record.uploadId, record.target);
+        if (data.error) {
+          throw new Error(data.error);
+        }
+        record.completedParts = data.parts;
+        persistUpload(record);
+      } catch {
+        // The upload expired or was aborted elsewhere - start over
+        removePersistedUpload(id);
+        record = undefined;
+      }
+    }
+
+    if (!record) {
+      const contentType = file.type || 'application/octet-stream';
+      const { data } = await createMultipartUpload(key, contentType, target);
+      if (data.error || !data.uploadId) {
+        throw new Error(data.error || 'Failed to start multipart upload');
+      }
+
+      record = {
+        id,
+        key,
+        fileName: file.name,
+        fileSize: file.size,
+        fileLastModified: file.lastModified,
+        contentType,
+        uploadId: data.uploadId,
+        partSize: getPartSize(file.size),
+        completedParts: [],
+        target
+      };
+      persistUpload(record);
+    }
+
+    runtimesRef.current.set(id, {
+      record,
+      file,
+      parts: buildParts(record.fileSize, record.partSize, record.completedParts),
+      requests: new Set(),
+      cancelled: false,
+      status: 'uploading'
+    });
+    syncUpload(id);
+
+    return runUpload(id);
+  }, [runUpload, syncUpload]);
+
+  // Resume a paused upload with the file selected again by the user
+  const resumeUpload = useCallback(async (id: string, file: File) => {
+    const runtime = runtimesRef.current.get(id);
+    if (!runtime) return;
+
+    const { record } = runtime;
+    if (getUploadId(record.key, file, record.target) !== id) {
+      runtime.error = `Selected file does not match ${record.fileName} (${record.fileSize} bytes)`;
+      syncUpload(id);
+      return;
+    }
+
+    await startUpload(file, record.key, record.target);
+  }, [startUpload, syncUpload]);
+
+  // Retry the parts that failed in the current session
+  const retryUpload = useCallback(async (id: string) => {
+    const runtime = runtimesRef.current.get(id);
+    if (!runtime || !runtime.file) return;
+
+    for (const part of runtime.parts) {
+      if (part.status === 'failed') {
+        part.status = 'pending';
+        part.attempts = 0;
+        part.error = undefined;
+      }
+    }
+
+    await runUpload(id);
+  }, [runUpload]);
+
+  // Abort an upload and discard the parts already stored in S3
+  const abortUpload = useCallback(async (id: string) => {
+    const runtime = runtimesRef.current.get(id);
+    if (!runtime) return;
+
+    runtime.cancelled = true;
+    runtime.requests.forEach(xhr => xhr.abort());
+
+    try {
+      await abortMultipartUpload(runtime.record.key, runtime.record.uploadId, runtime.record.target);
+    } catch (err) {
+      console.error('Error aborting multipart upload:', err);
+    }
+
+    removePersistedUpload(id);
+    runtimesRef.current.delete(id);
+    syncUpload(id);
+  }, [syncUpload]);
+
+  // Remove a finished upload from the list
+  const dismissUpload = useCallback((id: string) => {
+    const runtime = runtimesRef.current.get(id);
+    if (!runtime || runtime.status !== 'completed') return;
+
+    runtimesRef.current.delete(id);
+    syncUpload(id);
+  }, [syncUpload]);
+
+  return {
+    uploads,
+    startUpload,
+    resumeUpload,
+    retryUpload,
+    abortUpload,
+    dismissUpload
+  };
+};
@@ -0,0 +1,50 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { listShareLinks } from '@/apis/fileManagement/client';
+import type { BucketTarget, ShareLink } from '@/apis/fileManagement/types';
+
+/**
+ * Links of the selected bucket that have not expired yet, newest first
+ */
+export const useShareLinks = (target: BucketTarget) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped for every load so the answer for a previous bucket is dropped
+  const loadIdRef = useRef(0);
+
+  const loadLinks = useCallback(async () => {
+    const loadId = ++loadIdRef.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data } = await listShareLinks(target);
+      if (loadId !== loadIdRef.current) return;
+
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      setLinks(data.links);
+    } catch (err) {
+      if (loadId !== loadIdRef.current) return;
+      setLinks([]);
+      setError(err instanceof Error ? err.message : 'Failed to load shared links');
+    } finally {
+      if (loadId === loadIdRef.current) {
+        setLoading(false);
+      }
+    }
+  }, [target]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  return {
+    links,
+    loading,
+    error,
+    reload: loadLinks
+  };
+};
@@ -0,0 +1,135 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { startSync, getSyncJob, cancelSyncJob } from '@/apis/fileManagement/client';
+import type { BucketTarget, SyncJob, SyncLocation } from '@/apis/fileManagement/types';
+
+const POLL_INTERVAL = 1000;
+
+export type SyncRunStage = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SyncRun {
+  // Folder of the target bucket that is synced
+  sourcePrefix: string;
+  // A dry run only lists the changes
+  dryRun: boolean;
+  stage: SyncRunStage;
+  // The sync on the server, once started
+  job?: SyncJob;
+  error?: string;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sync a folder of the target bucket into another folder, bucket or profile.
+ * The server plans and copies in the background; the hook polls it for progress.
+ * One sync (or dry run) runs at a time.
+ */
+export const useSync = ({
+  target,
+  onSynced
+}: {
+  target: BucketTarget;
+  // Called after a real run ended, files may have changed even when it failed
+  onSynced?: () => void;
+}) => {
+  const [run, setRun] = useState<SyncRun | null>(null);
+  // Incremented for every run, so a replaced one stops updating state
+  const runIdRef = useRef(0);
+  const cancelledRef = useRef(false);
+  const jobIdRef = useRef<string | undefined>(undefined);
+
+  // Stop polling when the dialog goes away; the server finishes the job on its own
+  useEffect(() => () => {
+    runIdRef.current++;
+  }, []);
+
+  const sync = useCallback(async (
+    sourcePrefix: string,
+    destination: SyncLocation,
+    options: { deleteExtraneous: boolean; dryRun: boolean }
+  ) => {
+    const runId = ++runIdRef.current;
+    const isCurrent = () => runIdRef.current === runId;
+    const update = (changes: Partial<SyncRun>) => {
+      if (isCurrent()) {
+        setRun(current => current && { ...current, ...changes });
+      }
+    };
+
+    cancelledRef.current = false;
+    jobIdRef.current = undefined;
+    setRun({ sourcePrefix, dryRun: options.dryRun, stage: 'running' });
+
+    try {
+      const { data } = await startSync(sourcePrefix, destination, options, target);
+      if (data.error || !data.job) {
+        throw new Error(data.error || 'Sync did not start');
+      }
+
+      let job = data.job;
+      jobIdRef.current = job.id;
+      // Cancelled while the sync was being started
+      if (cancelledRef.current) {
+        await cancelSyncJob(job.id, target);
+      }
+
+      while (job.status === 'queued' || job.status === 'running') {
+        update({ job });
+        await wait(POLL_INTERVAL);
+        if (!isCurrent()) return;
+
+        const { data: polled } = await getSyncJob(job.id, target);
+        if (polled.error || !polled.job) {
+          throw new Error(polled.error || 'Lost track of the sync');
+        }
+        job = polled.job;
+      }
+
+      update({
+        job,
+        stage: job.status === 'completed' ? 'completed' : job.status === 'cancelled' ? 'cancelled' : 'failed',
+        error: job.error
+      });
+      if (!options.dryRun) {
+        onSynced?.();
+      }
+    } catch (err) {
+      update({ stage: 'failed', error: err instanceof Error ? err.message : 'Sync failed' });
+    }
+  }, [target, onSynced]);
+
+  // Stop the running sync; files copied or deleted so far stay that way
+  const cancel = useCallback(async () => {
+    cancelledRef.current = true;
+
+    if (!jobIdRef.current) {
+      setRun(current => current && { ...current, stage: 'cancelled' });
+      return;
+    }
+
+    try {
+      const { data } = await cancelSyncJob(jobIdRef.current, target);
+      if (data.error) {
+        throw new Error(data.error);
+      }
+    } catch (err) {
+      setRun(current => current && {
+        ...current,
+        error: err instanceof Error ? err.message : 'Failed to cancel the sync'
+      });
+    }
+  }, [target]);
+
+  // Forget a finished run, e.g. after changing what to sync
+  const reset = useCallback(() => {
+    runIdRef.current++;
+    setRun(null);
+  }, []);
+
+  return {
+    run,
+    sync,
+    cancel,
+    reset
+  };
+};
@@ -0,0 +1,224 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  getUploadUrl,
+  confirmUpload,
+  checkExists
+} from '@/apis/fileManagement/client';
+import type { BucketTarget } from '@/apis/fileManagement/types';
+import type { LocalFileEntry } from '@/client/utils/dropFiles';
+
+// Files larger than this are uploaded in parts
+export const MULTIPART_UPLOAD_THRESHOLD = 100 * 1024 * 1024;
+const PARALLEL_UPLOADS = 3;
+// Keys sent per existence check request
+const CHECK_BATCH_SIZE = 200;
+
+export type UploadQueueStatus =
+  | 'checking'
+  | 'pending'
+  | 'conflict'
+  | 'uploading'
+  | 'done'
+  | 'skipped'
+  | 'failed';
+
+export interface UploadQueueItem {
+  id: string;
+  key: string;
+  file: File;
+  // Profile and bucket the file goes to, fixed when it was queued
+  target: BucketTarget;
+  status: UploadQueueStatus;
+  // Bytes sent so far
+  loaded: number;
+  // Uploaded in parts through the multipart uploader
+  multipart: boolean;
+  error?: string;
+}
+
+export type ConflictResolution = 'overwrite' | 'skip';
+
+// Upload a file straight to S3 through a pre-signed URL, then confirm it landed
+export const uploadFileDirect = async (
+  file: File,
+  key: string,
+  target: BucketTarget,
+  onProgress: (loaded: number) => void
+): Promise<void> => {
+  const { data } = await getUploadUrl(key, file.type || 'application/octet-stream', target);
+  if (data.error || !data.url) {
+    throw new Error(data.error || 'Failed to get an upload URL');
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', data.url);
+    xhr.setRequestHeader('Content-Type', data.contentType);
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Failed to upload ${file.name}: ${xhr.status} ${xhr.statusText}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error(`Network error while uploading ${file.name}`));
+    xhr.send(file);
+  });
+
+  const { data: confirmed } = await confirmUpload(key, file.size, target);
+  if (confirmed.error) {
+    throw new Error(confirmed.error);
+  }
+};
+
+let nextItemId = 0;
+
+/**
+ * Queue of local files being uploaded into the bucket.
+ * Existing keys are reported as conflicts and wait for the user to overwrite or skip them.
+ */
+export const useUploadQueue = ({
+  target,
+  startMultipartUpload,
+  onQueueDrained
+}: {
+  target: BucketTarget;
+  startMultipartUpload: (file: File, key: string, target: BucketTarget) => Promise<boolean>;
+  onQueueDrained?: () => void;
+}) => {
+  const [items, setItems] = useState<UploadQueueItem[]>([]);
+  const itemsRef = useRef<UploadQueueItem[]>([]);
+  const activeUploadsRef = useRef(0);
+
+  // Apply a change to the queue and publish it
+  const updateItems = useCallback((update: (items: UploadQueueItem[]) => UploadQueueItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setItems(itemsRef.current);
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadQueueItem>) => {
+    updateItems(current => current.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, [updateItems]);
+
+  const uploadItem = useCallback(async (item: UploadQueueItem) => {
+    updateItem(item.id, { status: 'uploading', loaded: 0, error: undefined });
+
+    try {
+      if (item.multipart) {
+        const completed = await startMultipartUpload(item.file, item.key, item.target);
+        if (!completed) {
+          throw new Error('Multipart upload did not complete - see large uploads');
+        }
+      } else {
+        await uploadFileDirect(item.file, item.key, item.target, (loaded) => updateItem(item.id, { loaded }));
+      }
+
+      updateItem(item.id, { status: 'done', loaded: item.file.size });
+    } catch (err) {
+      updateItem(item.id, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Upload failed'
+      });
+    }
+  }, [startMultipartUpload, updateItem]);
+
+  // Start pending uploads until the parallel limit is reached
+  const processQueue = useCallback(() => {
+    while (activeUploadsRef.current < PARALLEL_UPLOADS) {
+      const next = itemsRef.current.find(item => item.status === 'pending');
+      if (!next) break;
+
+      activeUploadsRef.current += 1;
+      // Mark it right away so the next iteration picks another item
+      updateItem(next.id, { status: 'uploading' });
+
+      uploadItem(next).finally(() => {
+        activeUploadsRef.current -= 1;
+
+        const busy = itemsRef.current.some(item =>
+          item.status === 'pending' || item.status === 'uploading' || item.status === 'checking'
+        );
+        if (!busy) {
+          onQueueDrained?.();
+        }
+
+        processQueue();
+      });
+    }
+  }, [uploadItem, updateItem, onQueueDrained]);
+
+  // Add local files under the given prefix, flagging keys that already exist
+  const enqueue = useCallback(async (entries: LocalFileEntry[], targetPrefix: string) => {
+    if (!entries.length) return;
+
+    const newItems: UploadQueueItem[] = entries.map(entry => ({
+      id: `upload-${nextItemId++}`,
+      key: `${targetPrefix}${entry.relativePath}`,
+      file: entry.file,
+      target,
+      status: 'checking',
+      loaded: 0,
+      multipart: entry.file.size > MULTIPART_UPLOAD_THRESHOLD
+    }));
+    updateItems(current => [...current, ...newItems]);
+
+    const existing = new Set<string>();
+    try {
+      for (let i = 0; i < newItems.length; i += CHECK_BATCH_SIZE) {
+        const batch = newItems.slice(i, i + CHECK_BATCH_SIZE).map(item => item.key);
+        const { data } = await checkExists(batch, target);
+        data.existing.forEach(key => existing.add(key));
+      }
+    } catch (err) {
+      updateItems(current => current.map(item => newItems.some(n => n.id === item.id)
+        ? { ...item, status: 'failed', error: err instanceof Error ? err.message : 'Failed to check for conflicts' }
+        : item
+      ));
+      return;
+    }
+
+    const newIds = new Set(newItems.map(item => item.id));
+    updateItems(current => current.map(item => newIds.has(item.id)
+      ? { ...item, status: existing.has(item.key) ? 'conflict' : 'pending' }
+      : item
+    ));
+
+    processQueue();
+  }, [target, updateItems, processQueue]);
+
+  // Overwrite or skip a single conflicting file
+  const resolveConflict = useCallback((id: string, resolution: ConflictResolution) => {
+    updateItem(id, { status: resolution === 'overwrite' ? 'pending' : 'skipped' });
+    processQueue();
+  }, [updateItem, processQueue]);
+
+  // Overwrite or skip every conflicting file
+  const resolveAllConflicts = useCallback((resolution: ConflictResolution) => {
+    updateItems(current => current.map(item => item.status === 'conflict'
+      ? { ...item, status: resolution === 'overwrite' ? 'pending' : 'skipped' }
+      : item
+    ));
+    processQueue();
+  }, [updateItems, processQueue]);
+
+  // Try a failed upload again
+  const retryItem = useCallback((id: string) => {
+    updateItem(id, { status: 'pending', loaded: 0, error: undefined });
+    processQueue();
+  }, [updateItem, processQueue]);
+
+  // Remove finished and skipped entries from the queue
+  const clearFinished = useCallback(() => {
+    updateItems(current => current.filter(item => item.status !== 'done' && item.status !== 'skipped'));
+  }, [updateItems]);
+
+  return {
+    items,
+    enqueue,
+    resolveConflict,
+    resolveAllConflicts,
+    retryItem,
+    clearFinished
+  };
+};
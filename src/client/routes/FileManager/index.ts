@@ -1 +1,3 @@
 export { FileManager } from './FileManager';
+export { BucketSettings } from './BucketSettings';
+export { SharedLinks } from './SharedLinks';
@@ -0,0 +1,79 @@
+import React from 'react';
+import {
+  Typography,
+  Paper,
+  Box,
+  Alert,
+  Button,
+  CircularProgress,
+  Container
+} from '@mui/material';
+import { Refresh as RefreshIcon } from '@mui/icons-material';
+import { useJobs } from './hooks';
+import { JobTable, JobDetailsDialog } from './components';
+
+export const Jobs = () => {
+  const {
+    jobs,
+    loading,
+    error,
+    selectedJobId,
+    selectedJob,
+    reload,
+    cancel,
+    retry,
+    openDetails,
+    closeDetails
+  } = useJobs();
+
+  return (
+    <Container maxWidth="lg" sx={{ p: 0 }}>
+      <Paper elevation={2} sx={{ p: 1, mt: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <Typography variant="h4" component="h1" gutterBottom>
+            Jobs
+          </Typography>
+          <Button startIcon={<RefreshIcon />} onClick={reload}>
+            Reload
+          </Button>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Long operations such as folder deletes, copies, zip downloads, archive extraction and syncs run
+          on the server in the background. Finished jobs are listed for a week.
+        </Typography>
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : jobs.length === 0 ? (
+          <Typography color="text.secondary" sx={{ p: 2 }}>
+            No jobs
+          </Typography>
+        ) : (
+          <JobTable
+            jobs={jobs}
+            onCancel={cancel}
+            onRetry={retry}
+            onShowDetails={openDetails}
+          />
+        )}
+      </Paper>
+
+      <JobDetailsDialog
+        open={!!selectedJobId}
+        job={selectedJob}
+        onClose={closeDetails}
+        onCancel={cancel}
+        onRetry={retry}
+      />
+    </Container>
+  );
+};
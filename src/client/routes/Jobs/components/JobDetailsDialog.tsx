@@ -0,0 +1,124 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import type { JobDetails } from '@/apis/jobs/types';
+import { JobStatusChip, JobProgressBar } from './JobStatus';
+import { formatDateTime } from './formatters';
+
+interface JobDetailsDialogProps {
+  open: boolean;
+  // Null while loading
+  job: JobDetails | null;
+  onClose: () => void;
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+}
+
+const LOG_COLORS = {
+  info: 'text.primary',
+  warn: 'warning.main',
+  error: 'error.main'
+};
+
+const codeSx = {
+  fontFamily: 'monospace',
+  fontSize: 12,
+  bgcolor: 'action.hover',
+  borderRadius: 1,
+  p: 1,
+  maxHeight: 240,
+  overflow: 'auto',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-all'
+};
+
+export const JobDetailsDialog = ({
+  open,
+  job,
+  onClose,
+  onCancel,
+  onRetry
+}: JobDetailsDialogProps) => (
+  <Dialog open={open} onClose={onClose} fullWidth maxWidth="md">
+    <DialogTitle sx={{ wordBreak: 'break-all' }}>
+      {job ? job.label || job.type : 'Job'}
+    </DialogTitle>
+    <DialogContent>
+      {!job ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2 }}>
+            <JobStatusChip job={job} />
+            <Typography variant="body2" color="text.secondary">
+              {job.type} • started {formatDateTime(job.createdAt)}
+              {job.finishedAt && ` • ended ${formatDateTime(job.finishedAt)}`}
+            </Typography>
+          </Box>
+
+          <JobProgressBar job={job} />
+
+          {job.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {job.error}
+            </Alert>
+          )}
+
+          <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+            Log
+          </Typography>
+          {job.logs.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              Nothing logged
+            </Typography>
+          ) : (
+            <Box sx={codeSx}>
+              {job.logs.map((entry, index) => (
+                <Box key={index} sx={{ color: LOG_COLORS[entry.level] }}>
+                  {formatDateTime(entry.time)}  {entry.message}
+                </Box>
+              ))}
+            </Box>
+          )}
+
+          {job.result !== undefined && (
+            <>
+              <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+                Result
+              </Typography>
+              <Box sx={codeSx}>
+                {JSON.stringify(job.result, null, 2)}
+              </Box>
+            </>
+          )}
+        </>
+      )}
+    </DialogContent>
+    <DialogActions>
+      {job?.canCancel && (
+        <Button color="error" onClick={() => onCancel(job.id)}>
+          Cancel job
+        </Button>
+      )}
+      {job?.canRetry && (
+        <Button onClick={() => onRetry(job.id)}>
+          Retry
+        </Button>
+      )}
+      <Button onClick={onClose}>
+        Close
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
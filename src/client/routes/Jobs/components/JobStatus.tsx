@@ -0,0 +1,49 @@
+import React from 'react';
+import { Chip, LinearProgress, Box, Typography } from '@mui/material';
+import type { JobInfo, JobStatus } from '@/apis/jobs/types';
+
+const STATUS_LABELS: Record<JobStatus, { label: string; color: 'default' | 'info' | 'success' | 'error' | 'warning' }> = {
+  queued: { label: 'Queued', color: 'default' },
+  running: { label: 'Running', color: 'info' },
+  completed: { label: 'Completed', color: 'success' },
+  failed: { label: 'Failed', color: 'error' },
+  cancelled: { label: 'Cancelled', color: 'warning' }
+};
+
+export const JobStatusChip = ({ job }: { job: JobInfo }) => (
+  <Chip
+    size="small"
+    variant="outlined"
+    label={job.attempt > 1 ? `${STATUS_LABELS[job.status].label} (run ${job.attempt})` : STATUS_LABELS[job.status].label}
+    color={STATUS_LABELS[job.status].color}
+  />
+);
+
+// Share of the work done, from bytes when their total is known, else from units of work
+const getPercentage = (job: JobInfo): number | undefined => {
+  const { processed, total, bytes, totalBytes } = job.progress;
+  if (totalBytes) return Math.min(100, ((bytes || 0) / totalBytes) * 100);
+  if (total) return Math.min(100, (processed / total) * 100);
+  return undefined;
+};
+
+export const JobProgressBar = ({ job }: { job: JobInfo }) => {
+  const { processed, total, message } = job.progress;
+  const percentage = getPercentage(job);
+  const counts = total ? `${processed} of ${total}` : processed > 0 ? `${processed} done` : '';
+
+  return (
+    <Box sx={{ minWidth: 160 }}>
+      {job.status === 'running' && (
+        percentage === undefined
+          ? <LinearProgress />
+          : <LinearProgress variant="determinate" value={percentage} />
+      )}
+      {(counts || message) && (
+        <Typography variant="caption" color="text.secondary" component="div" sx={{ wordBreak: 'break-all' }}>
+          {[counts, message].filter(Boolean).join(' • ')}
+        </Typography>
+      )}
+    </Box>
+  );
+};
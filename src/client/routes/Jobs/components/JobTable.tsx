@@ -0,0 +1,97 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Tooltip,
+  Typography,
+  Box
+} from '@mui/material';
+import {
+  Cancel as CancelIcon,
+  Replay as RetryIcon,
+  Article as DetailsIcon
+} from '@mui/icons-material';
+import type { JobInfo } from '@/apis/jobs/types';
+import { JobStatusChip, JobProgressBar } from './JobStatus';
+import { formatDateTime, formatDuration } from './formatters';
+
+interface JobTableProps {
+  jobs: JobInfo[];
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onShowDetails: (jobId: string) => void;
+}
+
+export const JobTable = ({
+  jobs,
+  onCancel,
+  onRetry,
+  onShowDetails
+}: JobTableProps) => (
+  <TableContainer>
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Job</TableCell>
+          <TableCell>Status</TableCell>
+          <TableCell>Progress</TableCell>
+          <TableCell>Started</TableCell>
+          <TableCell>Duration</TableCell>
+          <TableCell align="right">Actions</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {jobs.map(job => (
+          <TableRow key={job.id} hover>
+            <TableCell sx={{ wordBreak: 'break-all' }}>
+              <Typography variant="body2">{job.label || job.type}</Typography>
+              {job.error && (
+                <Typography variant="caption" color="error" component="div">
+                  {job.error}
+                </Typography>
+              )}
+            </TableCell>
+            <TableCell>
+              <JobStatusChip job={job} />
+            </TableCell>
+            <TableCell>
+              <JobProgressBar job={job} />
+            </TableCell>
+            <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatDateTime(job.createdAt)}</TableCell>
+            <TableCell sx={{ whiteSpace: 'nowrap' }}>
+              {job.status === 'queued' ? '' : formatDuration(job.createdAt, job.finishedAt)}
+            </TableCell>
+            <TableCell align="right">
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                {job.canCancel && (
+                  <Tooltip title="Cancel">
+                    <IconButton size="small" color="error" onClick={() => onCancel(job.id)}>
+                      <CancelIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {job.canRetry && (
+                  <Tooltip title="Retry">
+                    <IconButton size="small" onClick={() => onRetry(job.id)}>
+                      <RetryIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                <Tooltip title="Details">
+                  <IconButton size="small" onClick={() => onShowDetails(job.id)}>
+                    <DetailsIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </TableContainer>
+);
@@ -0,0 +1,3 @@
+export { JobStatusChip, JobProgressBar } from './JobStatus';
+export { JobTable } from './JobTable';
+export { JobDetailsDialog } from './JobDetailsDialog';
@@ -0,0 +1 @@
+export { useJobs } from './useJobs';
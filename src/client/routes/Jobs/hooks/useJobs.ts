@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { listJobs, getJob, cancelJob, retryJob } from '@/apis/jobs/client';
+import type { JobDetails, JobInfo } from '@/apis/jobs/types';
+
+// Refresh rate while jobs are queued or running, and otherwise to pick up new ones
+const ACTIVE_POLL_INTERVAL = 2000;
+const IDLE_POLL_INTERVAL = 10000;
+
+const isActiveJob = (job: JobInfo) => job.status === 'queued' || job.status === 'running';
+
+/**
+ * Recent background jobs, newest first, refreshed while the page is open.
+ * One job can be opened to see its log and result.
+ */
+export const useJobs = () => {
+  const [jobs, setJobs] = useState<JobInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped after every load, to schedule the next one
+  const [loadCount, setLoadCount] = useState(0);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [selectedJob, setSelectedJob] = useState<JobDetails | null>(null);
+
+  // Compared after a load so the details of a closed job are dropped
+  const selectedJobIdRef = useRef<string | null>(null);
+
+  const loadSelectedJob = useCallback(async (jobId: string) => {
+    try {
+      const { data } = await getJob(jobId);
+      if (selectedJobIdRef.current !== jobId) return;
+
+      if (data.error || !data.job) {
+        throw new Error(data.error || 'Job not found');
+      }
+      setSelectedJob(data.job);
+    } catch (err) {
+      if (selectedJobIdRef.current !== jobId) return;
+      setError(err instanceof Error ? err.message : 'Failed to load the job');
+    }
+  }, []);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const { data } = await listJobs();
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      setJobs(data.jobs);
+      setError(null);
+
+      if (selectedJobIdRef.current) {
+        await loadSelectedJob(selectedJobIdRef.current);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load jobs');
+    } finally {
+      setLoading(false);
+      setLoadCount(count => count + 1);
+    }
+  }, [loadSelectedJob]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const hasActiveJobs = jobs.some(isActiveJob);
+
+  // Next refresh once the previous one answered, so slow answers never pile up
+  useEffect(() => {
+    if (loadCount === 0) return;
+
+    const timer = setTimeout(loadJobs, hasActiveJobs ? ACTIVE_POLL_INTERVAL : IDLE_POLL_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [loadCount, hasActiveJobs, loadJobs]);
+
+  // Run an action on a job, then show the job's new state
+  const runAction = useCallback(async (
+    action: (jobId: string) => Promise<{ data: { error?: string } }>,
+    jobId: string,
+    failure: string
+  ) => {
+    try {
+      const { data } = await action(jobId);
+      if (data.error) {
+        throw new Error(data.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    }
+    await loadJobs();
+  }, [loadJobs]);
+
+  // Stop a job; work done so far is kept
+  const cancel = useCallback((jobId: string) => {
+    return runAction(cancelJob, jobId, 'Failed to cancel the job');
+  }, [runAction]);
+
+  // Run a failed or cancelled job again
+  const retry = useCallback((jobId: string) => {
+    return runAction(retryJob, jobId, 'Failed to retry the job');
+  }, [runAction]);
+
+  const openDetails = useCallback((jobId: string) => {
+    selectedJobIdRef.current = jobId;
+    setSelectedJobId(jobId);
+    setSelectedJob(null);
+    loadSelectedJob(jobId);
+  }, [loadSelectedJob]);
+
+  const closeDetails = useCallback(() => {
+    selectedJobIdRef.current = null;
+    setSelectedJobId(null);
+    setSelectedJob(null);
+  }, []);
+
+  return {
+    jobs,
+    loading,
+    error,
+    selectedJobId,
+    selectedJob,
+    reload: loadJobs,
+    cancel,
+    retry,
+    openDetails,
+    closeDetails
+  };
+};
@@ -0,0 +1 @@
+export { Jobs } from './Jobs';
@@ -2,9 +2,10 @@ import { Home } from './Home';
 import { NotFound } from './NotFound';
 import { AIChat } from './AIChat';
 import { Settings } from './Settings';
-import { FileManager } from './FileManager';
+import { FileManager, BucketSettings, SharedLinks } from './FileManager';
 import { AIMonitoring } from './AIMonitoring';
 import { MongoDb } from './MongoDb';
+import { Jobs } from './Jobs';
 import { createRoutes } from '../router';
 
 // Define routes
@@ -13,7 +14,10 @@ export const routes = createRoutes({
   '/ai-chat': AIChat,
   '/settings': Settings,
   '/file-manager': FileManager,
+  '/file-manager/settings': BucketSettings,
+  '/file-manager/shared-links': SharedLinks,
   '/ai-monitoring': AIMonitoring,
+  '/jobs': Jobs,
   '/mongodb': MongoDb,
   '/mongodb/:database': MongoDb,
   '/mongodb/:database/:collection': MongoDb,
@@ -44,6 +44,14 @@ export type ApiOptions = {
    * Bypass the cache for this API call - will save the result to cache
    */
   bypassCache?: boolean;
+  /**
+   * Run the call as a background job - the response is the job id, see apis/jobs
+   */
+  background?: boolean;
+  /**
+   * Name of the background job in the jobs list
+   */
+  jobLabel?: string;
 };
 
 export default apiClient;
@@ -0,0 +1,73 @@
+/**
+ * Helpers for moving binary data through JSON payloads in the browser
+ */
+
+/**
+ * Decode a base64 string into bytes
+ * @param base64 The base64 encoded content
+ * @returns The decoded bytes
+ */
+export const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+};
+
+/**
+ * Read a File or Blob and encode its bytes as base64
+ * @param blob The file to read
+ * @returns The base64 encoded content (without the data URL prefix)
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.substring(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error || new Error('Failed to read file'));
+
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Trigger a browser download for a blob
+ * @param blob The content to download
+ * @param fileName The suggested file name
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+
+  // Create a download link and click it
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+
+  // Clean up
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Trigger a browser download for a URL, e.g. a pre-signed link
+ * @param url The link to download
+ * @param fileName The suggested file name (cross-origin links use the server's name)
+ */
+export const downloadUrl = (url: string, fileName: string): void => {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.rel = 'noopener';
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
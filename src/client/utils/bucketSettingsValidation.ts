@@ -0,0 +1,380 @@
+/**
+ * Check bucket lifecycle rules, CORS rules and policies before they are saved
+ *
+ * Follows the limits S3 documents, so most mistakes are reported here with the rule they
+ * belong to instead of as one generic MalformedXML error. Documents typed into the JSON
+ * editors are parsed with parse*Json, which accepts the AWS CLI shapes ({"Rules": [...]},
+ * {"CORSRules": [...]}) as well as bare rule lists.
+ */
+
+import type { BucketPolicy, CorsRule, LifecycleRule } from '@/apis/fileManagement/types';
+
+export const TRANSITION_STORAGE_CLASSES = [
+  'STANDARD_IA',
+  'ONEZONE_IA',
+  'INTELLIGENT_TIERING',
+  'GLACIER_IR',
+  'GLACIER',
+  'DEEP_ARCHIVE'
+];
+export const CORS_METHODS = ['GET', 'PUT', 'POST', 'DELETE', 'HEAD'];
+
+const MAX_LIFECYCLE_RULES = 1000;
+const MAX_CORS_RULES = 100;
+const MAX_ID_LENGTH = 255;
+const MAX_POLICY_BYTES = 20 * 1024;
+// Infrequent access classes only take objects that are at least this old
+const MIN_IA_TRANSITION_DAYS = 30;
+
+export interface ParsedSettings<T> {
+  value: T | null;
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isPositiveInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+const isNonNegativeInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0;
+
+// S3 only accepts lifecycle dates at midnight UTC
+const isMidnightUtc = (value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  const date = new Date(value);
+  return !isNaN(date.getTime()) && date.getTime() % (24 * 60 * 60 * 1000) === 0;
+};
+
+const isStringList = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+};
+
+const countWildcards = (value: string): number => value.split('*').length - 1;
+
+// "Rule 2" or "Rule 2 (archive-logs)"
+const ruleLabel = (rule: unknown, index: number): string => {
+  const id = isObject(rule) && typeof rule.ID === 'string' && rule.ID ? ` (${rule.ID})` : '';
+  return `Rule ${index + 1}${id}`;
+};
+
+const checkIds = (rules: unknown[], errors: string[]) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (!isObject(rule) || rule.ID === undefined) return;
+    if (typeof rule.ID !== 'string' || rule.ID.length > MAX_ID_LENGTH) {
+      errors.push(`Rule ${index + 1}: ID must be text of at most ${MAX_ID_LENGTH} characters`);
+    } else if (seen.has(rule.ID)) {
+      errors.push(`Rule ${index + 1}: ID "${rule.ID}" is used by another rule`);
+    }
+    if (typeof rule.ID === 'string') seen.add(rule.ID);
+  });
+};
+
+const validateLifecycleRule = (rule: unknown, index: number): string[] => {
+  const label = ruleLabel(rule, index);
+  if (!isObject(rule)) {
+    return [`${label}: must be an object`];
+  }
+
+  const errors: string[] = [];
+  const fail = (message: string) => errors.push(`${label}: ${message}`);
+
+  if (rule.Status !== 'Enabled' && rule.Status !== 'Disabled') {
+    fail('Status must be Enabled or Disabled');
+  }
+  if (rule.Filter !== undefined && rule.Prefix !== undefined) {
+    fail('use either Filter or Prefix, not both');
+  }
+  if (rule.Filter !== undefined && !isObject(rule.Filter)) {
+    fail('Filter must be an object');
+  }
+
+  const actions = ['Expiration', 'Transitions', 'NoncurrentVersionExpiration', 'NoncurrentVersionTransitions', 'AbortIncompleteMultipartUpload'];
+  if (!actions.some(action => rule[action] !== undefined)) {
+    fail('needs at least one action, e.g. an expiration or a transition');
+  }
+
+  const expiration = rule.Expiration;
+  let expirationDays: number | undefined;
+  if (expiration !== undefined) {
+    if (!isObject(expiration)) {
+      fail('Expiration must be an object');
+    } else {
+      const fields = ['Days', 'Date', 'ExpiredObjectDeleteMarker'].filter(field => expiration[field] !== undefined);
+      if (fields.length !== 1) {
+        fail('Expiration needs exactly one of Days, Date or ExpiredObjectDeleteMarker');
+      }
+      if (expiration.Days !== undefined) {
+        if (isPositiveInteger(expiration.Days)) {
+          expirationDays = expiration.Days as number;
+        } else {
+          fail('expiration Days must be a whole number above 0');
+        }
+      }
+      if (expiration.Date !== undefined && !isMidnightUtc(expiration.Date)) {
+        fail('expiration Date must be a date at midnight UTC, e.g. 2030-01-01T00:00:00Z');
+      }
+    }
+  }
+
+  if (rule.Transitions !== undefined) {
+    if (!Array.isArray(rule.Transitions)) {
+      fail('Transitions must be a list');
+    } else {
+      rule.Transitions.forEach((transition: unknown, position) => {
+        const name = `transition ${position + 1}`;
+        if (!isObject(transition)) {
+          fail(`${name} must be an object`);
+          return;
+        }
+        if (typeof transition.StorageClass !== 'string' || !TRANSITION_STORAGE_CLASSES.includes(transition.StorageClass)) {
+          fail(`${name} StorageClass must be one of ${TRANSITION_STORAGE_CLASSES.join(', ')}`);
+        }
+        if ((transition.Days === undefined) === (transition.Date === undefined)) {
+          fail(`${name} needs either Days or Date`);
+        }
+        if (transition.Days !== undefined) {
+          if (!isNonNegativeInteger(transition.Days)) {
+            fail(`${name} Days must be a whole number`);
+          } else {
+            const days = transition.Days as number;
+            if ((transition.StorageClass === 'STANDARD_IA' || transition.StorageClass === 'ONEZONE_IA') && days < MIN_IA_TRANSITION_DAYS) {
+              fail(`${name} to ${transition.StorageClass} must be at least ${MIN_IA_TRANSITION_DAYS} days after creation`);
+            }
+            if (expirationDays !== undefined && days >= expirationDays) {
+              fail(`${name} must happen before the expiration after ${expirationDays} days`);
+            }
+          }
+        }
+        if (transition.Date !== undefined && !isMidnightUtc(transition.Date)) {
+          fail(`${name} Date must be a date at midnight UTC`);
+        }
+      });
+    }
+  }
+
+  const noncurrentExpiration = rule.NoncurrentVersionExpiration;
+  if (noncurrentExpiration !== undefined && (!isObject(noncurrentExpiration) || !isPositiveInteger(noncurrentExpiration.NoncurrentDays))) {
+    fail('NoncurrentVersionExpiration needs NoncurrentDays above 0');
+  }
+
+  if (rule.NoncurrentVersionTransitions !== undefined) {
+    if (!Array.isArray(rule.NoncurrentVersionTransitions)) {
+      fail('NoncurrentVersionTransitions must be a list');
+    } else {
+      rule.NoncurrentVersionTransitions.forEach((transition: unknown, position) => {
+        const name = `noncurrent transition ${position + 1}`;
+        if (!isObject(transition)) {
+          fail(`${name} must be an object`);
+          return;
+        }
+        if (typeof transition.StorageClass !== 'string' || !TRANSITION_STORAGE_CLASSES.includes(transition.StorageClass)) {
+          fail(`${name} StorageClass must be one of ${TRANSITION_STORAGE_CLASSES.join(', ')}`);
+        }
+        if (!isPositiveInteger(transition.NoncurrentDays)) {
+          fail(`${name} needs NoncurrentDays above 0`);
+        }
+      });
+    }
+  }
+
+  const abortUploads = rule.AbortIncompleteMultipartUpload;
+  if (abortUploads !== undefined) {
+    if (!isObject(abortUploads) || !isPositiveInteger(abortUploads.DaysAfterInitiation)) {
+      fail('AbortIncompleteMultipartUpload needs DaysAfterInitiation above 0');
+    }
+    const filter = isObject(rule.Filter) ? rule.Filter : {};
+    if (filter.Tag !== undefined || (isObject(filter.And) && filter.And.Tags !== undefined)) {
+      fail('incomplete uploads cannot be aborted by a rule that filters on tags');
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Problems of a lifecycle configuration, one message per problem; empty when it can be saved
+ */
+export const validateLifecycleRules = (rules: LifecycleRule[]): string[] => {
+  if (!Array.isArray(rules)) {
+    return ['Rules must be a list'];
+  }
+  if (rules.length > MAX_LIFECYCLE_RULES) {
+    return [`A bucket can have at most ${MAX_LIFECYCLE_RULES} lifecycle rules`];
+  }
+
+  const errors: string[] = [];
+  checkIds(rules, errors);
+  rules.forEach((rule, index) => errors.push(...validateLifecycleRule(rule, index)));
+  return errors;
+};
+
+const validateCorsRule = (rule: unknown, index: number): string[] => {
+  const label = ruleLabel(rule, index);
+  if (!isObject(rule)) {
+    return [`${label}: must be an object`];
+  }
+
+  const errors: string[] = [];
+  const fail = (message: string) => errors.push(`${label}: ${message}`);
+
+  if (!isStringList(rule.AllowedOrigins) || rule.AllowedOrigins.length === 0) {
+    fail('needs at least one allowed origin');
+  } else {
+    rule.AllowedOrigins
+      .filter(origin => countWildcards(origin) > 1)
+      .forEach(origin => fail(`origin "${origin}" may contain at most one *`));
+  }
+
+  if (!isStringList(rule.AllowedMethods) || rule.AllowedMethods.length === 0) {
+    fail('needs at least one allowed method');
+  } else {
+    rule.AllowedMethods
+      .filter(method => !CORS_METHODS.includes(method))
+      .forEach(method => fail(`method "${method}" is not one of ${CORS_METHODS.join(', ')}`));
+  }
+
+  if (rule.AllowedHeaders !== undefined) {
+    if (!isStringList(rule.AllowedHeaders)) {
+      fail('AllowedHeaders must be a list of header names');
+    } else {
+      rule.AllowedHeaders
+        .filter(header => countWildcards(header) > 1)
+        .forEach(header => fail(`header "${header}" may contain at most one *`));
+    }
+  }
+  if (rule.ExposeHeaders !== undefined && !isStringList(rule.ExposeHeaders)) {
+    fail('ExposeHeaders must be a list of header names');
+  }
+  if (rule.MaxAgeSeconds !== undefined && !isNonNegativeInteger(rule.MaxAgeSeconds)) {
+    fail('MaxAgeSeconds must be a whole number of seconds');
+  }
+
+  return errors;
+};
+
+/**
+ * Problems of a CORS configuration, one message per problem; empty when it can be saved
+ */
+export const validateCorsRules = (rules: CorsRule[]): string[] => {
+  if (!Array.isArray(rules)) {
+    return ['CORSRules must be a list'];
+  }
+  if (rules.length > MAX_CORS_RULES) {
+    return [`A bucket can have at most ${MAX_CORS_RULES} CORS rules`];
+  }
+
+  const errors: string[] = [];
+  checkIds(rules, errors);
+  rules.forEach((rule, index) => errors.push(...validateCorsRule(rule, index)));
+  return errors;
+};
+
+const isPolicyValue = (value: unknown): boolean => {
+  return (typeof value === 'string' && value !== '') || (isStringList(value) && value.length > 0);
+};
+
+/**
+ * Problems of a bucket policy, one message per problem; empty when it can be saved
+ */
+export const validateBucketPolicy = (policy: BucketPolicy): string[] => {
+  if (!isObject(policy)) {
+    return ['The policy must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  if (new TextEncoder().encode(JSON.stringify(policy)).length > MAX_POLICY_BYTES) {
+    errors.push(`The policy is larger than ${MAX_POLICY_BYTES / 1024} KB`);
+  }
+  if (policy.Version !== undefined && policy.Version !== '2012-10-17' && policy.Version !== '2008-10-17') {
+    errors.push('Version must be 2012-10-17');
+  }
+  if (!Array.isArray(policy.Statement) || policy.Statement.length === 0) {
+    errors.push('The policy needs at least one statement');
+    return errors;
+  }
+
+  const sids = new Set<string>();
+  policy.Statement.forEach((statement: unknown, index) => {
+    const label = isObject(statement) && typeof statement.Sid === 'string' && statement.Sid
+      ? `Statement ${index + 1} (${statement.Sid})`
+      : `Statement ${index + 1}`;
+    if (!isObject(statement)) {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+
+    const fail = (message: string) => errors.push(`${label}: ${message}`);
+    if (typeof statement.Sid === 'string') {
+      if (sids.has(statement.Sid)) fail(`Sid "${statement.Sid}" is used by another statement`);
+      sids.add(statement.Sid);
+    }
+    if (statement.Effect !== 'Allow' && statement.Effect !== 'Deny') {
+      fail('Effect must be Allow or Deny');
+    }
+    // Principals may also be objects like {"AWS": "arn:..."}
+    if (statement.Principal === undefined && statement.NotPrincipal === undefined) {
+      fail('needs a Principal, e.g. "*" or {"AWS": "arn:aws:iam::123456789012:root"}');
+    }
+    if (!isPolicyValue(statement.Action) && !isPolicyValue(statement.NotAction)) {
+      fail('needs an Action, e.g. "s3:GetObject"');
+    }
+    if (!isPolicyValue(statement.Resource) && !isPolicyValue(statement.NotResource)) {
+      fail('needs a Resource, e.g. "arn:aws:s3:::bucket/*"');
+    }
+  });
+
+  return errors;
+};
+
+// Parse JSON and report syntax errors the way validation errors are reported
+const parseJson = (text: string): { value?: unknown; error?: string } => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+// A bare list, or the list under `key` as the AWS CLI writes it
+const parseRuleList = <T>(text: string, key: string, validate: (rules: T[]) => string[]): ParsedSettings<T[]> => {
+  if (!text.trim()) {
+    return { value: [], errors: [] };
+  }
+
+  const { value, error } = parseJson(text);
+  if (error) {
+    return { value: null, errors: [error] };
+  }
+
+  const rules = isObject(value) ? value[key] : value;
+  if (!Array.isArray(rules)) {
+    return { value: null, errors: [`Expected {"${key}": [...]} or a list of rules`] };
+  }
+
+  const errors = validate(rules as T[]);
+  return { value: errors.length > 0 ? null : rules as T[], errors };
+};
+
+export const parseLifecycleJson = (text: string): ParsedSettings<LifecycleRule[]> => {
+  return parseRuleList(text, 'Rules', validateLifecycleRules);
+};
+
+export const parseCorsJson = (text: string): ParsedSettings<CorsRule[]> => {
+  return parseRuleList(text, 'CORSRules', validateCorsRules);
+};
+
+// An empty document stands for "no policy"; value is then null without errors
+export const parsePolicyJson = (text: string): ParsedSettings<BucketPolicy> => {
+  if (!text.trim()) {
+    return { value: null, errors: [] };
+  }
+
+  const { value, error } = parseJson(text);
+  if (error) {
+    return { value: null, errors: [error] };
+  }
+
+  const errors = validateBucketPolicy(value as BucketPolicy);
+  return { value: errors.length > 0 ? null : value as BucketPolicy, errors };
+};
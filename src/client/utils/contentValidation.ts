@@ -0,0 +1,359 @@
+/**
+ * Check JSON and YAML text for syntax errors before it is saved
+ *
+ * JSON goes through JSON.parse. YAML has no parser in the client, so it is checked for the
+ * mistakes that break real parsers: tabs in indentation, bad or inconsistent indentation,
+ * sequences and mappings mixed at one level, duplicate keys, "key: a: b" values, unclosed
+ * quotes and unbalanced flow brackets. Less common mistakes may get through.
+ */
+
+import type { EditorLanguage } from './syntaxHighlight';
+
+export interface ContentError {
+  message: string;
+  // 1-based position of the error, when known
+  line?: number;
+  column?: number;
+}
+
+// Line and column (1-based) of a character offset
+const getLineAndColumn = (text: string, offset: number): { line: number; column: number } => {
+  const before = text.slice(0, offset);
+  const lastBreak = before.lastIndexOf('\n');
+  return { line: before.split('\n').length, column: offset - lastBreak };
+};
+
+/**
+ * Find where JSON stops being valid. JSON.parse decides validity; its messages differ by
+ * browser and some (Chrome, Node) have no position, so the offset is found separately.
+ */
+const findJsonError = (text: string): { offset: number; message: string } => {
+  let position = 0;
+
+  const fail = (message?: string): never => {
+    throw {
+      offset: position,
+      message: message || (position < text.length ? `Unexpected "${text[position]}"` : 'Unexpected end of input')
+    };
+  };
+  const skipWhitespace = () => {
+    while (/[ \t\n\r]/.test(text[position] || '')) position++;
+  };
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (text[position] !== char) fail(position < text.length ? `Expected "${char}" but found "${text[position]}"` : `Expected "${char}"`);
+    position++;
+  };
+
+  const parseString = () => {
+    position++;
+    while (position < text.length && text[position] !== '"') {
+      if (text[position] === '\\') {
+        position++;
+        if (!/["\\/bfnrtu]/.test(text[position] || '')) fail('Invalid escape in string');
+        if (text[position] === 'u' && !/^[\da-fA-F]{4}$/.test(text.slice(position + 1, position + 5))) fail('Invalid unicode escape');
+      } else if (text.charCodeAt(position) < 0x20) {
+        fail('Line breaks and control characters must be escaped in strings');
+      }
+      position++;
+    }
+    if (position >= text.length) fail('Unclosed string');
+    position++;
+  };
+
+  const parseValue = (): void => {
+    skipWhitespace();
+    const char = text[position];
+
+    if (char === '{') {
+      position++;
+      skipWhitespace();
+      if (text[position] === '}') {
+        position++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[position] !== '"') fail(position < text.length ? 'Expected a property name in double quotes' : undefined);
+        parseString();
+        expect(':');
+        parseValue();
+        skipWhitespace();
+        if (text[position] === ',') {
+          position++;
+          continue;
+        }
+        expect('}');
+        return;
+      }
+    }
+
+    if (char === '[') {
+      position++;
+      skipWhitespace();
+      if (text[position] === ']') {
+        position++;
+        return;
+      }
+      for (;;) {
+        parseValue();
+        skipWhitespace();
+        if (text[position] === ',') {
+          position++;
+          continue;
+        }
+        expect(']');
+        return;
+      }
+    }
+
+    if (char === '"') {
+      parseString();
+      return;
+    }
+
+    const literal = /true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+    literal.lastIndex = position;
+    const match = literal.exec(text);
+    if (!match) return fail();
+    position += match[0].length;
+  };
+
+  try {
+    parseValue();
+    skipWhitespace();
+    if (position < text.length) fail();
+  } catch (error) {
+    return error as { offset: number; message: string };
+  }
+  return { offset: 0, message: 'Invalid JSON' };
+};
+
+const validateJson = (text: string): ContentError | null => {
+  try {
+    JSON.parse(text);
+    return null;
+  } catch {
+    const { offset, message } = findJsonError(text);
+    return { message, ...getLineAndColumn(text, offset) };
+  }
+};
+
+interface YamlBlock {
+  indent: number;
+  kind: 'map' | 'seq';
+  keys: Set<string>;
+}
+
+// "key:" followed by a space or the end of the line; quoted keys may contain anything
+const YAML_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"[\]{},&*!|>%@`][^#]*?)[ \t]*:(?:[ \t]+|$)/;
+// A value that is only an anchor and/or tag, so the content follows on the next lines
+const YAML_NODE_PROPERTIES = /^(?:[&!][^\s]*\s*)+$/;
+const YAML_BLOCK_SCALAR = /^(?:[&!][^\s]*\s+)*[|>][-+]?\d*$/;
+
+// Remove a trailing comment, keeping "#" inside quotes and words like "a#b"
+const stripYamlComment = (line: string): string => {
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      // Quotes only start a string at the beginning of a scalar
+      if (i === 0 || /[\s:[{,-]/.test(line[i - 1])) quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i).trimEnd();
+    }
+  }
+
+  return line.trimEnd();
+};
+
+interface YamlFlowState {
+  // Depth of open "[" and "{"
+  depth: number;
+  // Quote character of a string that is still open at the end of the line
+  quote: string | null;
+}
+
+// Follow flow brackets and quoted strings over a line; returns an error for a stray closing bracket
+const scanYamlFlow = (line: string, state: YamlFlowState): string | null => {
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (state.quote) {
+      if (char === '\\' && state.quote === '"') i++;
+      else if (char === state.quote) state.quote = null;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return null;
+    } else if ((char === '"' || char === "'") && (i === 0 || /[\s:[{,]/.test(line[i - 1]))) {
+      state.quote = char;
+    } else if ((char === '[' || char === '{') && (state.depth > 0 || i === 0 || /[\s:[{,-]/.test(line[i - 1]))) {
+      state.depth++;
+    } else if ((char === ']' || char === '}') && state.depth > 0) {
+      state.depth--;
+    } else if ((char === ']' || char === '}') && (i === 0 || /[\s,]/.test(line[i - 1]))) {
+      return `Unexpected "${char}"`;
+    }
+  }
+
+  return null;
+};
+
+const validateYaml = (text: string): ContentError | null => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let stack: YamlBlock[] = [];
+  // The previous line opened a nested block ("key:" or "-" without a value)
+  let expectsChild = false;
+  // Lines indented deeper than this belong to a block scalar ("|" or ">")
+  let blockScalarIndent: number | null = null;
+  // Open flow collections and quoted strings may continue over several lines
+  const flow: YamlFlowState = { depth: 0, quote: null };
+  let flowStartLine = 0;
+
+  // Register a mapping key or sequence item at an indentation
+  const enter = (indent: number, kind: YamlBlock['kind']): string | null => {
+    while (stack.length > 0 && stack[stack.length - 1].indent > indent) {
+      stack.pop();
+    }
+
+    const top = stack[stack.length - 1];
+    if (!top || top.indent < indent) {
+      if (top && !expectsChild) return 'Bad indentation';
+      stack.push({ indent, kind, keys: new Set() });
+      return null;
+    }
+
+    if (top.kind === kind) return null;
+
+    // A sequence may sit at the same indentation as the key that holds it
+    if (kind === 'seq' && expectsChild) {
+      stack.push({ indent, kind, keys: new Set() });
+      return null;
+    }
+    const parent = stack[stack.length - 2];
+    if (top.kind === 'seq' && parent && parent.indent === indent && parent.kind === kind) {
+      stack.pop();
+      return null;
+    }
+    return kind === 'map' ? 'A mapping key cannot follow sequence items at the same indentation' : 'A sequence item cannot follow mapping keys at the same indentation';
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1;
+    const raw = lines[index];
+    const indent = raw.length - raw.trimStart().length;
+
+    if (blockScalarIndent !== null) {
+      if (raw.trim() === '' || indent > blockScalarIndent) continue;
+      blockScalarIndent = null;
+    }
+
+    // Inside a multi-line flow collection or string only the brackets and quotes matter
+    const startsInFlow = flow.depth > 0 || flow.quote !== null;
+    const flowError = scanYamlFlow(raw, flow);
+    if (flowError) {
+      return { message: flowError, line: lineNumber };
+    }
+    if (!startsInFlow && (flow.depth > 0 || flow.quote)) flowStartLine = lineNumber;
+    if (startsInFlow) continue;
+
+    const line = stripYamlComment(raw);
+    if (line.trim() === '') continue;
+
+    if (/^[ ]*\t/.test(raw)) {
+      return { message: 'Tabs are not allowed in indentation', line: lineNumber, column: indent + 1 };
+    }
+
+    if (indent === 0 && /^(?:---|\.\.\.)(?:\s|$)/.test(line)) {
+      stack = [];
+      expectsChild = false;
+      continue;
+    }
+    if (indent === 0 && line.startsWith('%')) continue;
+
+    let column = indent;
+    let content = line.trim();
+    // Column of the last "-" on the line, which block scalars of the item are indented past
+    let itemColumn = -1;
+
+    // "- - key: value" opens a sequence per dash, then a mapping inside the last item
+    while (/^-(?:\s|$)/.test(content)) {
+      const error = enter(column, 'seq');
+      if (error) return { message: error, line: lineNumber, column: column + 1 };
+
+      itemColumn = column;
+      const rest = content.slice(1);
+      column += 1 + (rest.length - rest.trimStart().length);
+      content = rest.trim();
+      expectsChild = true;
+    }
+
+    if (content === '') {
+      // "-" alone: the item's content follows on the next lines
+      continue;
+    }
+
+    const key = YAML_KEY.exec(content);
+    if (key) {
+      const error = enter(column, 'map');
+      if (error) return { message: error, line: lineNumber, column: column + 1 };
+
+      const block = stack[stack.length - 1];
+      const name = key[1].replace(/^(["'])([\s\S]*)\1$/, '$2');
+      if (block.keys.has(name)) {
+        return { message: `Duplicate key "${name}"`, line: lineNumber, column: column + 1 };
+      }
+      block.keys.add(name);
+
+      const value = content.slice(key[0].length).trim();
+      if (value === '' || YAML_NODE_PROPERTIES.test(value)) {
+        expectsChild = true;
+        continue;
+      }
+      if (YAML_BLOCK_SCALAR.test(value)) {
+        blockScalarIndent = column;
+        expectsChild = false;
+        continue;
+      }
+      if (!/^["'[{|>&*!]/.test(value) && /:(?:\s|$)/.test(value)) {
+        return { message: 'Mapping values are not allowed here', line: lineNumber, column: column + key[0].length + value.search(/:(?:\s|$)/) + 1 };
+      }
+      expectsChild = false;
+      continue;
+    }
+
+    // A plain value: a sequence item, a block scalar or the continuation of a multi-line scalar
+    if (YAML_BLOCK_SCALAR.test(content)) {
+      blockScalarIndent = itemColumn;
+    } else if (!expectsChild && stack.length > 0 && column <= stack[stack.length - 1].indent && stack[stack.length - 1].kind === 'map') {
+      return { message: 'Expected a "key: value" pair', line: lineNumber, column: column + 1 };
+    }
+    expectsChild = false;
+  }
+
+  if (flow.quote) {
+    return { message: 'Unclosed quote', line: flowStartLine };
+  }
+  if (flow.depth > 0) {
+    return { message: 'Unclosed "[" or "{"', line: flowStartLine };
+  }
+
+  return null;
+};
+
+/**
+ * Check text in a language that has a syntax to validate
+ * @returns The first error, or null when the text is valid or the language is not checked
+ */
+export const validateContent = (text: string, language: EditorLanguage): ContentError | null => {
+  if (language === 'json') return validateJson(text);
+  if (language === 'yaml') return validateYaml(text);
+  return null;
+};
+
+// Whether content in the language is validated before saving
+export const isValidatedLanguage = (language: EditorLanguage): boolean => {
+  return language === 'json' || language === 'yaml';
+};
@@ -0,0 +1,74 @@
+/**
+ * Parse CSV and TSV text into rows of cells
+ */
+
+export interface DelimitedTable {
+  rows: string[][];
+  // More rows followed than were parsed
+  truncated: boolean;
+}
+
+/**
+ * Split delimited text into rows and cells. Quoted cells may contain the delimiter,
+ * line breaks and doubled quotes ("") as in RFC 4180.
+ * @param text The file content
+ * @param delimiter Column separator, "," for CSV and "\t" for TSV
+ * @param maxRows Stop after this many rows
+ */
+export const parseDelimited = (text: string, delimiter: string, maxRows = Infinity): DelimitedTable => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      endRow();
+      // Treat \r\n as one line break
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      if (rows.length >= maxRows) {
+        return { rows, truncated: i + 1 < text.length };
+      }
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+
+  // The last line usually has no line break
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return { rows, truncated: false };
+};
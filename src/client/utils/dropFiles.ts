@@ -0,0 +1,76 @@
+/**
+ * Helpers for collecting files from drag-and-drop and directory pickers
+ */
+
+export interface LocalFileEntry {
+  file: File;
+  // Path relative to the drop target, e.g. "photos/2024/a.jpg"
+  relativePath: string;
+}
+
+const readFile = (entry: FileSystemFileEntry): Promise<File> => {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+};
+
+// readEntries returns results in batches, so keep reading until it returns nothing
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+
+  return entries;
+};
+
+const collectEntry = async (entry: FileSystemEntry, parentPath: string): Promise<LocalFileEntry[]> => {
+  const relativePath = `${parentPath}${entry.name}`;
+
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    return [{ file, relativePath }];
+  }
+
+  if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(child => collectEntry(child, `${relativePath}/`)));
+    return nested.flat();
+  }
+
+  return [];
+};
+
+/**
+ * Collect every file from a drop event, walking dropped directories recursively
+ * @param dataTransfer The drop event's dataTransfer
+ * @returns The dropped files with their paths relative to the drop target
+ */
+export const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<LocalFileEntry[]> => {
+  // Entries must be grabbed synchronously - the item list is cleared after the event
+  const entries = Array.from(dataTransfer.items || [])
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    // Browsers without the entries API only expose flat files
+    return Array.from(dataTransfer.files).map(file => ({ file, relativePath: file.name }));
+  }
+
+  const collected = await Promise.all(entries.map(entry => collectEntry(entry, '')));
+  return collected.flat();
+};
+
+/**
+ * Convert the files chosen in an <input type="file"> into entries, keeping
+ * the directory structure when a whole folder was picked
+ */
+export const getInputFiles = (files: FileList | null): LocalFileEntry[] => {
+  return Array.from(files || []).map(file => ({
+    file,
+    relativePath: file.webkitRelativePath || file.name
+  }));
+};
@@ -0,0 +1,158 @@
+/**
+ * Choose how a file is previewed from its content type and name
+ */
+
+import type { RestoreStatus } from '@/apis/fileManagement/types';
+
+export type PreviewKind =
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'pdf'
+  | 'table'
+  | 'markdown'
+  | 'json'
+  | 'text'
+  // Text read a page at a time, for plain text and files too large to render
+  | 'paged'
+  | 'binary'
+  // Archived and not restored, the content cannot be read
+  | 'archived';
+
+export interface FilePreviewData {
+  kind: PreviewKind;
+  // The stored content type, or the one that belongs to the file extension
+  contentType?: string;
+  size: number;
+  // Pre-signed link for images, audio, video and PDFs
+  url?: string;
+  // Column separator of tables
+  delimiter?: string;
+  // Start of binary files, shown as a hex dump
+  bytes?: Uint8Array;
+  // Storage class and restore state of archived files
+  storageClass?: string;
+  restore?: RestoreStatus;
+}
+
+// Types that say nothing about the content
+const GENERIC_CONTENT_TYPES = ['', 'application/octet-stream', 'binary/octet-stream', 'application/unknown'];
+
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  avif: 'image/avif',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  flac: 'audio/flac',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  pdf: 'application/pdf',
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  json: 'application/json',
+  txt: 'text/plain',
+  log: 'text/plain',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  xml: 'application/xml',
+  html: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  ts: 'text/plain',
+  tsx: 'text/plain',
+  py: 'text/x-python',
+  sh: 'application/x-sh',
+  sql: 'application/sql',
+  zip: 'application/zip',
+  gz: 'application/gzip',
+  tar: 'application/x-tar',
+};
+
+// Application types whose content is text
+const TEXT_APPLICATION_TYPES = [
+  'application/xml',
+  'application/javascript',
+  'application/yaml',
+  'application/x-yaml',
+  'application/x-sh',
+  'application/sql',
+  'application/toml',
+  'application/x-ndjson',
+];
+
+// Objects with a generic type are checked for text in this many leading bytes
+const TEXT_SNIFF_BYTES = 8000;
+
+const getExtension = (key: string): string => {
+  const name = key.slice(key.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+// Whether a content type says nothing about the content, e.g. application/octet-stream
+export const isGenericContentType = (contentType: string | undefined): boolean => {
+  return GENERIC_CONTENT_TYPES.includes((contentType || '').split(';')[0].trim().toLowerCase());
+};
+
+/**
+ * The content type to preview a file with: the stored type, or the type that belongs
+ * to the file extension when the stored one is missing or generic
+ */
+export const getEffectiveContentType = (contentType: string | undefined, key: string): string | undefined => {
+  const stored = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (!isGenericContentType(stored)) return stored;
+
+  return EXTENSION_CONTENT_TYPES[getExtension(key)] || (stored || undefined);
+};
+
+/**
+ * Map a content type to a previewer
+ * @returns null when the type does not tell, e.g. application/octet-stream
+ */
+export const getPreviewKind = (contentType: string | undefined): PreviewKind | null => {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (isGenericContentType(type)) return null;
+
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type.startsWith('video/')) return 'video';
+  if (type === 'application/pdf') return 'pdf';
+  if (type === 'text/csv' || type === 'text/tab-separated-values') return 'table';
+  if (type === 'text/markdown' || type === 'text/x-markdown') return 'markdown';
+  if (type === 'application/json' || type.endsWith('+json')) return 'json';
+  if (type.startsWith('text/') || type.endsWith('+xml') || TEXT_APPLICATION_TYPES.includes(type)) return 'text';
+
+  return 'binary';
+};
+
+// Column separator for a table content type
+export const getTableDelimiter = (contentType: string | undefined): string => {
+  return contentType === 'text/tab-separated-values' ? '\t' : ',';
+};
+
+/**
+ * Decode bytes as UTF-8 text
+ * @param partial The bytes are the start of a longer file and may end within a character
+ * @returns null when the bytes look binary (NUL bytes or invalid UTF-8)
+ */
+export const decodeText = (bytes: Uint8Array, partial = false): string | null => {
+  if (bytes.subarray(0, TEXT_SNIFF_BYTES).includes(0)) return null;
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: partial });
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,259 @@
+/**
+ * A small Markdown parser for previews
+ *
+ * Covers the common CommonMark and GitHub syntax: headings, paragraphs, emphasis, inline
+ * code, fenced and indented code blocks, block quotes, nested lists, tables, rules, links
+ * and images. The result is a tree the viewer renders as React elements, so no HTML from
+ * the file is ever injected into the page; raw HTML in the source is shown as text.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'strike'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'quote'; blocks: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'table'; align: ('left' | 'center' | 'right' | undefined)[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const INDENTED_CODE = /^( {4}|\t)/;
+
+// Only web and mail links are followed; anything else (e.g. javascript:) stays text
+const isSafeUrl = (url: string): boolean => /^(https?:|mailto:|#|\/(?!\/))/i.test(url);
+
+// Split a table row into its cells, ignoring the outer pipes
+const splitTableRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isBlockStart = (line: string): boolean => {
+  return HEADING.test(line) || FENCE.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+};
+
+// Inline syntax, tried in order at every position
+const INLINE_PATTERNS: { pattern: RegExp; parse: (match: RegExpExecArray) => MarkdownInline }[] = [
+  { pattern: /^\\([!-/:-@[-`{-~])/, parse: match => ({ type: 'text', text: match[1] }) },
+  { pattern: /^(`+)([\s\S]*?[^`])\1(?!`)/, parse: match => ({ type: 'code', text: match[2].trim() }) },
+  {
+    pattern: /^!\[([^\]]*)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/,
+    parse: match => isSafeUrl(match[2])
+      ? { type: 'image', alt: match[1], src: match[2] }
+      : { type: 'text', text: match[1] },
+  },
+  {
+    pattern: /^\[((?:[^\]\\]|\\.)*)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/,
+    parse: match => isSafeUrl(match[2])
+      ? { type: 'link', href: match[2], children: parseInline(match[1]) }
+      : { type: 'text', text: match[1] },
+  },
+  { pattern: /^<((?:https?:\/\/|mailto:)[^\s>]+)>/, parse: match => ({ type: 'link', href: match[1], children: [{ type: 'text', text: match[1] }] }) },
+  { pattern: /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/, parse: match => ({ type: 'strong', children: parseInline(match[2]) }) },
+  { pattern: /^(\*|_)(?=\S)([\s\S]*?\S)\1(?!\w)/, parse: match => ({ type: 'em', children: parseInline(match[2]) }) },
+  { pattern: /^~~(?=\S)([\s\S]*?\S)~~/, parse: match => ({ type: 'strike', children: parseInline(match[1]) }) },
+  { pattern: /^( {2,}|\\)\n/, parse: () => ({ type: 'break' }) },
+];
+
+// Characters that may start inline syntax; everything up to the next one is plain text
+const INLINE_START = /[\\`![<*_~ ]/;
+
+/**
+ * Parse the inline syntax of a paragraph, heading or table cell
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let plain = '';
+  let rest = text;
+
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  while (rest.length > 0) {
+    let matched = false;
+
+    for (const { pattern, parse } of INLINE_PATTERNS) {
+      const match = pattern.exec(rest);
+      if (!match) continue;
+
+      const node = parse(match);
+      if (node.type === 'text') {
+        plain += node.text;
+      } else {
+        flush();
+        nodes.push(node);
+      }
+      rest = rest.slice(match[0].length);
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      // Take the character that failed to match, then everything up to the next candidate
+      const next = rest.slice(1).search(INLINE_START);
+      const length = next === -1 ? rest.length : next + 1;
+      plain += rest.slice(0, length);
+      rest = rest.slice(length);
+    }
+  }
+
+  flush();
+  return nodes;
+};
+
+/**
+ * Parse Markdown source into blocks
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence
+      blocks.push({ type: 'code', language: fence[2] || undefined, text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      // Lines without ">" continue the quote until a blank line
+      while (i < lines.length && lines[i].trim() !== '' && (QUOTE.test(lines[i]) || !isBlockStart(lines[i]))) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', blocks: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2]);
+      const items: MarkdownBlock[][] = [];
+
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (!item || /\d/.test(item[2]) !== ordered) break;
+
+        // Continuation lines are indented past the marker
+        const indent = item[0].length;
+        const itemLines = [lines[i].slice(indent)];
+        i++;
+
+        while (i < lines.length) {
+          const next = lines[i];
+          if (next.trim() === '') {
+            // A blank line ends the item unless indented content follows
+            if (i + 1 < lines.length && /^\s+\S/.test(lines[i + 1]) && !LIST_ITEM.test(lines[i + 1])) {
+              itemLines.push('');
+              i++;
+              continue;
+            }
+            break;
+          }
+          if (/^\s/.test(next)) {
+            itemLines.push(next.replace(new RegExp(`^ {0,${indent}}`), ''));
+          } else if (!isBlockStart(next)) {
+            itemLines.push(next);
+          } else {
+            break;
+          }
+          i++;
+        }
+
+        items.push(parseMarkdown(itemLines.join('\n')));
+        // Items separated by a blank line stay in the same list
+        if (i < lines.length && lines[i].trim() === '' && i + 1 < lines.length && LIST_ITEM.test(lines[i + 1])) {
+          i++;
+        }
+      }
+
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(listItem[2], 10) : 1, items });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+      const align = splitTableRow(lines[i + 1]).map((cell) => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'center' as const;
+        if (cell.endsWith(':')) return 'right' as const;
+        if (cell.startsWith(':')) return 'left' as const;
+        return undefined;
+      });
+      const header = splitTableRow(line).map(parseInline);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+
+      while (i < lines.length && lines[i].trim() !== '' && lines[i].includes('|')) {
+        rows.push(splitTableRow(lines[i]).map(parseInline));
+        i++;
+      }
+
+      blocks.push({ type: 'table', align, header, rows });
+      continue;
+    }
+
+    if (INDENTED_CODE.test(line)) {
+      const code: string[] = [];
+      while (i < lines.length && (INDENTED_CODE.test(lines[i]) || lines[i].trim() === '')) {
+        code.push(lines[i].replace(INDENTED_CODE, ''));
+        i++;
+      }
+      blocks.push({ type: 'code', text: code.join('\n').replace(/\n+$/, '') });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() !== '' && (paragraph.length === 0 || !isBlockStart(lines[i]))) {
+      paragraph.push(lines[i].trimStart());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n').trimEnd()) });
+  }
+
+  return blocks;
+};
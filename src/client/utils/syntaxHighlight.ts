@@ -0,0 +1,240 @@
+/**
+ * Split source text into tokens for syntax highlighting in the editor
+ *
+ * The tokenizers are small rule lists rather than full grammars: they color what a reader
+ * needs to scan a file (keys, strings, numbers, comments, keywords) and never fail, so any
+ * text, valid or not, comes back as tokens that join up to the original.
+ */
+
+export type EditorLanguage = 'json' | 'yaml' | 'javascript' | 'markdown' | 'csv' | 'plain';
+
+export type TokenType =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'number'
+  | 'literal'
+  | 'comment'
+  | 'property'
+  | 'punctuation'
+  | 'heading'
+  | 'emphasis'
+  | 'code'
+  | 'link';
+
+export interface CodeToken {
+  type: TokenType;
+  text: string;
+}
+
+interface TokenRule {
+  // Sticky pattern tried at the current position
+  pattern: RegExp;
+  type: TokenType | ((match: RegExpExecArray, text: string, end: number) => TokenType);
+  // Only tried before anything but indentation on the line
+  lineStart?: boolean;
+  // The token does not end the line start, e.g. indentation or a list dash
+  keepsLineStart?: boolean;
+}
+
+const EXTENSION_LANGUAGES: Record<string, EditorLanguage> = {
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  md: 'markdown',
+  markdown: 'markdown',
+  csv: 'csv',
+  tsv: 'csv',
+};
+
+const CONTENT_TYPE_LANGUAGES: Record<string, EditorLanguage> = {
+  'application/json': 'json',
+  'application/yaml': 'yaml',
+  'application/x-yaml': 'yaml',
+  'text/yaml': 'yaml',
+  'text/javascript': 'javascript',
+  'application/javascript': 'javascript',
+  'text/markdown': 'markdown',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'csv',
+};
+
+/**
+ * Pick the editor language from the file extension, or else the content type
+ */
+export const getEditorLanguage = (key: string, contentType?: string): EditorLanguage => {
+  const name = key.slice(key.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  const extension = dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+
+  return EXTENSION_LANGUAGES[extension] || CONTENT_TYPE_LANGUAGES[type] || (type.endsWith('+json') ? 'json' : 'plain');
+};
+
+const WHITESPACE: TokenRule = { pattern: /[ \t]+/y, type: 'plain', keepsLineStart: true };
+const NEWLINE: TokenRule = { pattern: /\r?\n/y, type: 'plain' };
+const NUMBER: TokenRule = { pattern: /-?(?:0[xX][\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/y, type: 'number' };
+
+const JS_KEYWORDS = new Set([
+  'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+  'debugger', 'declare', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends',
+  'finally', 'for', 'from', 'function', 'get', 'if', 'implements', 'import', 'in',
+  'instanceof', 'interface', 'keyof', 'let', 'namespace', 'new', 'of', 'private',
+  'protected', 'public', 'readonly', 'return', 'set', 'static', 'super', 'switch', 'throw',
+  'try', 'type', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+]);
+const JS_LITERALS = new Set(['true', 'false', 'null', 'undefined', 'NaN', 'Infinity', 'this']);
+
+// A string followed by ":" is an object key
+const followedByColon = (text: string, end: number): boolean => {
+  const colon = /[ \t]*:/y;
+  colon.lastIndex = end;
+  return colon.test(text);
+};
+
+const RULES: Record<Exclude<EditorLanguage, 'csv' | 'plain'>, TokenRule[]> = {
+  json: [
+    WHITESPACE,
+    NEWLINE,
+    { pattern: /"(?:[^"\\\n]|\\.)*"?/y, type: (_, text, end) => followedByColon(text, end) ? 'property' : 'string' },
+    NUMBER,
+    { pattern: /\b(?:true|false|null)\b/y, type: 'literal' },
+    { pattern: /[{}[\],:]/y, type: 'punctuation' },
+  ],
+  yaml: [
+    WHITESPACE,
+    NEWLINE,
+    { pattern: /#.*/y, type: 'comment' },
+    { pattern: /(?:---|\.\.\.)(?=\s|$)/y, type: 'keyword', lineStart: true },
+    { pattern: /-(?=\s|$)/y, type: 'punctuation', lineStart: true, keepsLineStart: true },
+    { pattern: /(?:"(?:[^"\\\n]|\\.)*"|'(?:[^'\n]|'')*'|[^\s#:'"[\]{},][^#:\n]*?)(?=[ \t]*:(?:\s|$))/y, type: 'property', lineStart: true },
+    { pattern: /"(?:[^"\\\n]|\\.)*"?|'(?:[^'\n]|'')*'?/y, type: 'string' },
+    { pattern: /[&*][^\s,[\]{}]+|![^\s,[\]{}]*/y, type: 'keyword' },
+    { pattern: /(?:true|false|null|yes|no|on|off|~)(?=[\s,\]}]|$)/yi, type: 'literal' },
+    { pattern: /-?(?:\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.inf|\.nan)(?=[\s,\]}]|$)/yi, type: 'number' },
+    { pattern: /[:[\]{},|>]/y, type: 'punctuation' },
+    { pattern: /[^\s#:[\]{},]+/y, type: 'plain' },
+  ],
+  javascript: [
+    WHITESPACE,
+    NEWLINE,
+    { pattern: /\/\/.*/y, type: 'comment' },
+    { pattern: /\/\*[\s\S]*?(?:\*\/|$)/y, type: 'comment' },
+    { pattern: /"(?:[^"\\\n]|\\.)*"?|'(?:[^'\\\n]|\\.)*'?|`(?:[^`\\]|\\[\s\S])*`?/y, type: 'string' },
+    NUMBER,
+    {
+      pattern: /[A-Za-z_$][\w$]*/y,
+      type: (match, text, end) => {
+        if (JS_KEYWORDS.has(match[0])) return 'keyword';
+        if (JS_LITERALS.has(match[0])) return 'literal';
+        return followedByColon(text, end) ? 'property' : 'plain';
+      },
+    },
+    { pattern: /[{}()[\];,.<>=+\-*/%!&|^~?:@#]/y, type: 'punctuation' },
+  ],
+  markdown: [
+    NEWLINE,
+    { pattern: /(?:```|~~~)[\s\S]*?(?:\n[ \t]*(?:```|~~~)[^\n]*|$)/y, type: 'code', lineStart: true },
+    { pattern: /#{1,6}(?:[ \t].*|$)/y, type: 'heading', lineStart: true },
+    { pattern: />.*/y, type: 'comment', lineStart: true },
+    { pattern: /(?:[-*+]|\d{1,9}[.)])(?=[ \t])/y, type: 'keyword', lineStart: true, keepsLineStart: true },
+    { pattern: /(?:[-*_][ \t]*){3,}$/my, type: 'punctuation', lineStart: true },
+    WHITESPACE,
+    { pattern: /`[^`\n]+`/y, type: 'code' },
+    { pattern: /!?\[[^\]\n]*\]\([^)\n]*\)|<https?:\/\/[^>\s]+>/y, type: 'link' },
+    { pattern: /(\*\*|__)(?=\S)[^\n]*?\S\1|(\*|_)(?=\S)[^\n]*?\S\2|~~[^\n]+?~~/y, type: 'emphasis' },
+    { pattern: /[^\s`![<*_~\\]+/y, type: 'plain' },
+  ],
+};
+
+// Columns cycle through these so neighbouring values are easy to tell apart
+const CSV_COLUMN_TYPES: TokenType[] = ['plain', 'property', 'string', 'number'];
+
+const tokenizeDelimited = (text: string): CodeToken[] => {
+  const tokens: CodeToken[] = [];
+  // Tab-separated when the first line has tabs and no commas
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ',';
+  const cell = new RegExp(`"(?:[^"]|"")*"?|[^${delimiter === '\t' ? '\\t' : ','}\\n"]+`, 'y');
+  let column = 0;
+  let position = 0;
+
+  while (position < text.length) {
+    const char = text[position];
+
+    if (char === delimiter) {
+      tokens.push({ type: 'punctuation', text: char });
+      column++;
+      position++;
+    } else if (char === '\n') {
+      tokens.push({ type: 'plain', text: char });
+      column = 0;
+      position++;
+    } else {
+      cell.lastIndex = position;
+      const match = cell.exec(text);
+      const value = match ? match[0] : char;
+      tokens.push({ type: CSV_COLUMN_TYPES[column % CSV_COLUMN_TYPES.length], text: value });
+      position += value.length;
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Split text into tokens of the given language. The token texts joined together are
+ * always the original text.
+ */
+export const tokenizeCode = (text: string, language: EditorLanguage): CodeToken[] => {
+  if (language === 'plain') return [{ type: 'plain', text }];
+  if (language === 'csv') return tokenizeDelimited(text);
+
+  const rules = RULES[language];
+  const tokens: CodeToken[] = [];
+  let position = 0;
+  let lineStart = true;
+
+  // Join neighbouring tokens of the same type to keep the rendered spans few
+  const push = (type: TokenType, value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += value;
+    } else {
+      tokens.push({ type, text: value });
+    }
+  };
+
+  while (position < text.length) {
+    let matched = false;
+
+    for (const rule of rules) {
+      if (rule.lineStart && !lineStart) continue;
+
+      rule.pattern.lastIndex = position;
+      const match = rule.pattern.exec(text);
+      if (!match || match[0].length === 0) continue;
+
+      const end = position + match[0].length;
+      push(typeof rule.type === 'function' ? rule.type(match, text, end) : rule.type, match[0]);
+      lineStart = match[0].endsWith('\n') || (lineStart && !!rule.keepsLineStart);
+      position = end;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      push('plain', text[position]);
+      lineStart = text[position] === '\n';
+      position++;
+    }
+  }
+
+  return tokens;
+};
@@ -0,0 +1,90 @@
+/**
+ * Line based text diff for comparing file versions
+ */
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Above this many LCS table cells the changed block is shown as removed + added
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Longest common subsequence diff of two line arrays
+const diffBlock = (oldLines: string[], newLines: string[]): DiffLine[] => {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    return [
+      ...oldLines.map(text => ({ type: 'removed' as const, text })),
+      ...newLines.map(text => ({ type: 'added' as const, text }))
+    ];
+  }
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'same', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i++] });
+    } else {
+      result.push({ type: 'added', text: newLines[j++] });
+    }
+  }
+  while (i < n) result.push({ type: 'removed', text: oldLines[i++] });
+  while (j < m) result.push({ type: 'added', text: newLines[j++] });
+
+  return result;
+};
+
+/**
+ * Compare two texts line by line
+ * @param oldText The original text
+ * @param newText The changed text
+ * @returns Every line of both texts, marked as unchanged, added or removed
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split(/\r?\n/);
+  const newLines = newText.split(/\r?\n/);
+
+  // Skip the unchanged head and tail so the LCS table only covers the changed block
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  return [
+    ...oldLines.slice(0, start).map(text => ({ type: 'same' as const, text })),
+    ...diffBlock(oldLines.slice(start, oldEnd), newLines.slice(start, newEnd)),
+    ...oldLines.slice(oldEnd).map(text => ({ type: 'same' as const, text }))
+  ];
+};
+
+/**
+ * Rough check for binary content that should not be diffed as text
+ */
+export const isProbablyBinary = (text: string): boolean => text.includes('\u0000');
@@ -0,0 +1,90 @@
+/**
+ * Split text into plain and highlighted parts for showing search matches
+ */
+
+export interface HighlightPattern {
+  pattern: string;
+  // Treat the pattern as a regular expression instead of a literal
+  isRegex?: boolean;
+  caseSensitive?: boolean;
+  // Line (1-based) whose first match should be scrolled to
+  lineNumber?: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+  // The match to scroll to
+  isTarget?: boolean;
+}
+
+// Stop marking after this many matches to keep huge files responsive
+const MAX_HIGHLIGHTS = 1000;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// Build a global regular expression for a pattern, or null when it is empty or invalid
+export const toHighlightRegExp = (highlight: HighlightPattern): RegExp | null => {
+  if (!highlight.pattern) return null;
+
+  try {
+    const source = highlight.isRegex ? highlight.pattern : escapeRegExp(highlight.pattern);
+    return new RegExp(source, highlight.caseSensitive ? 'g' : 'gi');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Split text at every match of the pattern.
+ * The first match on or after highlight.lineNumber (or else the first match) is flagged
+ * as the scroll target.
+ */
+export const splitHighlights = (text: string, highlight: HighlightPattern): HighlightSegment[] => {
+  const regExp = toHighlightRegExp(highlight);
+  if (!regExp) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  let line = 1;
+  let lineCountedUpTo = 0;
+  let targetFound = false;
+  let count = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = regExp.exec(text)) !== null && count < MAX_HIGHLIGHTS) {
+    // Skip empty matches (e.g. "a*") so the loop always moves forward
+    if (match[0].length === 0) {
+      regExp.lastIndex++;
+      continue;
+    }
+
+    for (let i = lineCountedUpTo; i < match.index; i++) {
+      if (text.charCodeAt(i) === 10) line++;
+    }
+    lineCountedUpTo = match.index;
+
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index), match: false });
+    }
+
+    const isTarget: boolean = !targetFound && line >= (highlight.lineNumber || 1);
+    targetFound = targetFound || isTarget;
+    segments.push({ text: match[0], match: true, isTarget });
+
+    lastIndex = match.index + match[0].length;
+    count++;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), match: false });
+  }
+
+  // Line numbers can shift, e.g. in reformatted JSON; fall back to the first match
+  if (!targetFound) {
+    const first = segments.find(segment => segment.match);
+    if (first) first.isTarget = true;
+  }
+
+  return segments;
+};
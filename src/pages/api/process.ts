@@ -13,4 +13,10 @@ export default async function handler(
 
 export const config = {
   maxDuration: 60,
+  api: {
+    bodyParser: {
+      // Base64 file uploads are ~33% larger than the original bytes
+      sizeLimit: '10mb',
+    },
+  },
 };
@@ -0,0 +1,398 @@
+/**
+ * Background jobs
+ *
+ * A job runs in the server process after the request that started it has returned; clients
+ * poll it by id for progress, logs and the result. At most MAX_RUNNING_JOBS run at the same
+ * time, later ones wait in a queue. Failed or cancelled jobs can be run again on request.
+ *
+ * Jobs are persisted (see store.ts) so they can be looked up after a restart and from other
+ * processes. The work itself lives in the process that started it: a job that was running when
+ * its process stopped is reported as failed, and only that process can retry a job.
+ */
+
+import { randomUUID } from 'crypto';
+import { Job, JobContext, JobLogLevel, JobOptions, JobProgress } from './types';
+import {
+  saveJob,
+  loadJob,
+  loadJobs,
+  deleteStoredJobs,
+  requestCancel,
+  isCancelRequested,
+  clearCancelRequest
+} from './store';
+
+export type { Job, JobContext, JobLogEntry, JobLogLevel, JobOptions, JobProgress, JobStatus } from './types';
+
+// Constants
+const MAX_RUNNING_JOBS = 3;
+const FINISHED_JOB_TTL = 60 * 60 * 1000; // 1 hour in memory, afterwards from the store
+const STORED_JOB_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+// Progress is written at most this often, start and end are written right away
+const PERSIST_INTERVAL = 2000;
+// Running jobs are written (and checked for cancel markers) at least this often
+const HEARTBEAT_INTERVAL = 15 * 1000;
+// A stored running job without a heartbeat for this long lost its process
+const STALE_JOB_TIMEOUT = 4 * HEARTBEAT_INTERVAL;
+const MAX_LOG_ENTRIES = 200;
+const MAX_LISTED_JOBS = 100;
+
+interface JobEntry {
+  job: Job;
+  run: (context: JobContext) => Promise<unknown>;
+  controller: AbortController;
+  // The work of the current run, until it returned or threw; a cancelled job may still be in it
+  working?: Promise<void>;
+  // Pending throttled write
+  persistTimer?: ReturnType<typeof setTimeout>;
+  // Writes of one job are chained so they land in order
+  saving: Promise<void>;
+}
+
+interface JobRunner {
+  jobs: Map<string, JobEntry>;
+  // Ids of queued jobs, oldest first
+  queue: string[];
+  heartbeat?: ReturnType<typeof setInterval>;
+}
+
+// Kept on globalThis so dev-server module reloads do not lose running jobs
+const globalJobs = globalThis as typeof globalThis & { __jobRunner?: JobRunner };
+const runner: JobRunner = globalJobs.__jobRunner || (globalJobs.__jobRunner = { jobs: new Map(), queue: [] });
+
+const isActive = (job: Job): boolean => job.status === 'queued' || job.status === 'running';
+
+// A copy of the job, so callers never hold the live object
+const snapshot = <TResult>(job: Job): Job<TResult> => ({
+  ...job,
+  progress: { ...job.progress },
+  logs: [...job.logs],
+}) as Job<TResult>;
+
+const persist = (entry: JobEntry): void => {
+  if (entry.persistTimer) {
+    clearTimeout(entry.persistTimer);
+    entry.persistTimer = undefined;
+  }
+
+  const job = snapshot(entry.job);
+  entry.saving = entry.saving
+    .then(() => saveJob(job))
+    .catch((error) => {
+      // The job keeps running, it is only missing from other processes until the next write
+      console.warn(`Failed to store job ${job.id}:`, error);
+    });
+};
+
+const schedulePersist = (entry: JobEntry): void => {
+  if (entry.persistTimer) return;
+  entry.persistTimer = setTimeout(() => persist(entry), PERSIST_INTERVAL);
+  entry.persistTimer.unref?.();
+};
+
+const addLog = (entry: JobEntry, message: string, level: JobLogLevel = 'info'): void => {
+  entry.job.logs.push({ time: new Date().toISOString(), level, message });
+  if (entry.job.logs.length > MAX_LOG_ENTRIES) {
+    entry.job.logs.splice(0, entry.job.logs.length - MAX_LOG_ENTRIES);
+  }
+  entry.job.updatedAt = new Date().toISOString();
+};
+
+const finish = (entry: JobEntry, changes: Partial<Job>): void => {
+  const now = new Date().toISOString();
+  Object.assign(entry.job, changes, { updatedAt: now, finishedAt: now });
+  persist(entry);
+};
+
+const stop = (entry: JobEntry, message: string): void => {
+  if (!isActive(entry.job) || !entry.job.cancellable) return;
+
+  runner.queue = runner.queue.filter(id => id !== entry.job.id);
+  entry.controller.abort();
+  addLog(entry, message, 'warn');
+  finish(entry, { status: 'cancelled' });
+};
+
+// Drop finished jobs nobody asked about for a while; they can still be read from the store
+const pruneFinishedJobs = (): void => {
+  const cutoff = Date.now() - FINISHED_JOB_TTL;
+  for (const [id, entry] of runner.jobs) {
+    if (entry.job.finishedAt && new Date(entry.job.finishedAt).getTime() < cutoff) {
+      runner.jobs.delete(id);
+    }
+  }
+};
+
+// Keep stored running jobs fresh and pick up cancellations requested by other processes
+const beat = async (): Promise<void> => {
+  const running = Array.from(runner.jobs.values()).filter(entry => isActive(entry.job));
+  if (running.length === 0 && runner.heartbeat) {
+    clearInterval(runner.heartbeat);
+    runner.heartbeat = undefined;
+    return;
+  }
+
+  for (const entry of running) {
+    try {
+      if (await isCancelRequested(entry.job.id)) {
+        stop(entry, 'Cancelled from another server process');
+        continue;
+      }
+    } catch (error) {
+      console.warn(`Failed to check job ${entry.job.id} for cancellation:`, error);
+    }
+    entry.job.updatedAt = new Date().toISOString();
+    persist(entry);
+  }
+};
+
+// Run a job until it completes, fails or is cancelled
+const execute = async (entry: JobEntry): Promise<void> => {
+  const context: JobContext = {
+    report: (progress: Partial<JobProgress>) => {
+      entry.job.progress = { ...entry.job.progress, ...progress };
+      entry.job.updatedAt = new Date().toISOString();
+      schedulePersist(entry);
+    },
+    signal: entry.controller.signal,
+    log: (message: string, level?: JobLogLevel) => {
+      addLog(entry, message, level);
+      schedulePersist(entry);
+    },
+  };
+
+  entry.job.attempt++;
+  if (entry.job.attempt > 1) {
+    addLog(entry, `Starting run ${entry.job.attempt}`);
+  }
+  persist(entry);
+
+  try {
+    const result = await entry.run(context);
+    if (entry.job.status === 'running') {
+      finish(entry, { status: 'completed', result });
+    }
+  } catch (error) {
+    if (entry.job.status !== 'running') return;
+
+    const message = error instanceof Error ? error.message : String(error);
+    addLog(entry, message, 'error');
+    finish(entry, { status: 'failed', error: message });
+  }
+};
+
+// Start queued jobs while there is room; cancelled work that has not stopped yet still counts
+const startQueuedJobs = (): void => {
+  let running = Array.from(runner.jobs.values()).filter(entry => entry.working).length;
+
+  while (running < MAX_RUNNING_JOBS && runner.queue.length > 0) {
+    const entry = runner.jobs.get(runner.queue.shift() as string);
+    if (!entry || entry.job.status !== 'queued') continue;
+
+    entry.job.status = 'running';
+    entry.job.updatedAt = new Date().toISOString();
+    running++;
+
+    entry.working = execute(entry)
+      .catch((error) => {
+        if (isActive(entry.job)) {
+          finish(entry, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+      })
+      .finally(() => {
+        entry.working = undefined;
+        startQueuedJobs();
+      });
+  }
+
+  if (!runner.heartbeat && runner.jobs.size > 0) {
+    runner.heartbeat = setInterval(() => {
+      beat().catch(error => console.warn('Job heartbeat failed:', error));
+    }, HEARTBEAT_INTERVAL);
+    runner.heartbeat.unref?.();
+  }
+};
+
+const enqueue = (entry: JobEntry): void => {
+  entry.job.status = 'queued';
+  entry.controller = new AbortController();
+  runner.queue.push(entry.job.id);
+  persist(entry);
+  startQueuedJobs();
+};
+
+// A stored job whose process stopped while it was running is reported as failed
+const settleStoredJob = (job: Job): Job => {
+  if (!isActive(job) || Date.now() - new Date(job.updatedAt).getTime() < STALE_JOB_TIMEOUT) {
+    return job;
+  }
+
+  const now = new Date().toISOString();
+  const settled: Job = {
+    ...job,
+    status: 'failed',
+    error: 'The server stopped while the job was running',
+    logs: [...job.logs, { time: now, level: 'error', message: 'The server stopped while the job was running' }],
+    updatedAt: now,
+    finishedAt: now,
+  };
+  saveJob(settled).catch(error => console.warn(`Failed to store job ${job.id}:`, error));
+  return settled;
+};
+
+/**
+ * Queue a job and return it right away; it starts as soon as fewer than MAX_RUNNING_JOBS run
+ * @param type What the job does, e.g. "extractArchive"
+ * @param run The work; its return value becomes the job result
+ * @param options Label, and whether the job can be cancelled and retried
+ */
+export const startJob = <TResult>(
+  type: string,
+  run: (context: JobContext) => Promise<TResult>,
+  options: JobOptions = {}
+): Job<TResult> => {
+  pruneFinishedJobs();
+
+  const now = new Date().toISOString();
+  const entry: JobEntry = {
+    job: {
+      id: randomUUID(),
+      type,
+      label: options.label,
+      status: 'queued',
+      progress: { processed: 0 },
+      attempt: 0,
+      cancellable: options.cancellable ?? true,
+      retryable: options.retryable ?? true,
+      logs: [],
+      createdAt: now,
+      updatedAt: now,
+    },
+    run,
+    controller: new AbortController(),
+    saving: Promise.resolve(),
+  };
+  runner.jobs.set(entry.job.id, entry);
+  enqueue(entry);
+
+  return snapshot<TResult>(entry.job);
+};
+
+/**
+ * Look up a job by id, in this process or in the store
+ * @throws When no job has the given id (it may have expired)
+ */
+export const getJob = async <TResult = unknown>(id: string): Promise<Job<TResult>> => {
+  const entry = runner.jobs.get(id);
+  if (entry) {
+    return snapshot<TResult>(entry.job);
+  }
+
+  const stored = await loadJob(id);
+  if (!stored) {
+    throw new Error(`Unknown job: ${id}`);
+  }
+  return settleStoredJob(stored) as Job<TResult>;
+};
+
+/**
+ * Recent jobs of every process, newest first. Jobs finished more than a week ago are removed.
+ */
+export const listJobs = async (): Promise<Job[]> => {
+  const byId = new Map<string, Job>();
+  const expired: string[] = [];
+  const cutoff = Date.now() - STORED_JOB_TTL;
+
+  for (const job of await loadJobs()) {
+    if (job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+      expired.push(job.id);
+    } else {
+      byId.set(job.id, settleStoredJob(job));
+    }
+  }
+
+  // This process knows its own jobs better than the last write
+  for (const entry of runner.jobs.values()) {
+    byId.set(entry.job.id, snapshot(entry.job));
+  }
+
+  if (expired.length > 0) {
+    // Cleaning up is best-effort; the next listing tries again
+    await deleteStoredJobs(expired).catch(error => console.warn('Failed to remove expired jobs:', error));
+  }
+
+  return Array.from(byId.values())
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_LISTED_JOBS);
+};
+
+// Whether cancelJob can stop the job
+export const canCancelJob = (job: Job): boolean => {
+  return isActive(job) && job.cancellable;
+};
+
+/**
+ * Stop a queued or running job. The work ends as soon as it checks its signal; a job of
+ * another process is stopped by that process within a heartbeat.
+ * @throws When no job has the given id, or the job cannot be cancelled
+ */
+export const cancelJob = async <TResult = unknown>(id: string): Promise<Job<TResult>> => {
+  const entry = runner.jobs.get(id);
+  const job = entry ? entry.job : await getJob<TResult>(id);
+  if (!job.cancellable) {
+    throw new Error('This job cannot be cancelled, it runs until it ends');
+  }
+
+  if (entry) {
+    stop(entry, 'Cancelled');
+    return snapshot<TResult>(entry.job);
+  }
+  if (isActive(job)) {
+    await requestCancel(id);
+  }
+  return job as Job<TResult>;
+};
+
+// Whether retryJob can run the job again: only once the work of the previous run has ended
+export const canRetryJob = (job: Job): boolean => {
+  const entry = runner.jobs.get(job.id);
+  return job.retryable
+    && (job.status === 'failed' || job.status === 'cancelled')
+    && !!entry
+    && !entry.working;
+};
+
+/**
+ * Run a failed or cancelled job again
+ * @throws When the job is unknown, still active or stopping, cannot be retried, or was started
+ * by another process
+ */
+export const retryJob = async <TResult = unknown>(id: string): Promise<Job<TResult>> => {
+  const entry = runner.jobs.get(id);
+  if (!entry) {
+    await getJob(id);
+    throw new Error('The job was started by another server process or before a restart and cannot be retried');
+  }
+  if (!entry.job.retryable) {
+    throw new Error('This job cannot be retried');
+  }
+  if (entry.job.status !== 'failed' && entry.job.status !== 'cancelled') {
+    throw new Error(`Only failed or cancelled jobs can be retried, this one is ${entry.job.status}`);
+  }
+  if (entry.working) {
+    throw new Error('The previous run is still stopping, try again once it ended');
+  }
+
+  Object.assign(entry.job, {
+    progress: { processed: 0 },
+    result: undefined,
+    error: undefined,
+    finishedAt: undefined,
+  });
+  // A cancellation requested from another process must not stop the new run
+  await clearCancelRequest(id).catch(error => console.warn(`Failed to clear the cancel request of job ${id}:`, error));
+  addLog(entry, 'Retry requested');
+  enqueue(entry);
+
+  return snapshot<TResult>(entry.job);
+};
@@ -0,0 +1,92 @@
+/**
+ * Persistence of background jobs
+ *
+ * Every job is kept as a JSON object under .jobs/ in the default bucket, so jobs stay visible
+ * after a restart and to every server process. A job is cancelled from another process by
+ * writing a .cancel marker next to it, which the process running the job picks up.
+ */
+
+import { Job } from './types';
+import {
+  getFileAsString,
+  uploadFile,
+  fileExists,
+  deleteFile,
+  deleteFiles,
+  listAllObjects,
+} from '../s3/sdk';
+import { JOBS_PREFIX } from '../s3/internalPrefixes';
+
+// Constants
+// Jobs read at the same time when listing
+const READ_CONCURRENCY = 10;
+
+const getJobKey = (id: string): string => `${JOBS_PREFIX}${id}.json`;
+const getCancelKey = (id: string): string => `${JOBS_PREFIX}${id}.cancel`;
+
+const isNotFound = (error: unknown): boolean => {
+  const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+  return status === 404 || (error instanceof Error && (error.name === 'NoSuchKey' || error.name === 'NotFound'));
+};
+
+export const saveJob = async (job: Job): Promise<void> => {
+  await uploadFile({
+    fileName: getJobKey(job.id),
+    content: JSON.stringify(job),
+    contentType: 'application/json',
+  });
+};
+
+/**
+ * Read a stored job
+ * @returns The job, or null when none is stored under this id
+ */
+export const loadJob = async (id: string): Promise<Job | null> => {
+  try {
+    return JSON.parse(await getFileAsString(getJobKey(id))) as Job;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+};
+
+/**
+ * Every stored job; unreadable entries are skipped
+ */
+export const loadJobs = async (): Promise<Job[]> => {
+  const objects = await listAllObjects(JOBS_PREFIX);
+  const keys = objects
+    .map(object => object.Key)
+    .filter((key): key is string => !!key && key.endsWith('.json'));
+
+  const jobs: Job[] = [];
+  for (let start = 0; start < keys.length; start += READ_CONCURRENCY) {
+    await Promise.all(keys.slice(start, start + READ_CONCURRENCY).map(async (key) => {
+      try {
+        jobs.push(JSON.parse(await getFileAsString(key)) as Job);
+      } catch (error) {
+        console.warn(`Skipping unreadable job ${key}:`, error);
+      }
+    }));
+  }
+  return jobs;
+};
+
+// Remove jobs together with their cancel markers
+export const deleteStoredJobs = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  await deleteFiles(ids.flatMap(id => [getJobKey(id), getCancelKey(id)]));
+};
+
+// Ask the process running a job to stop it
+export const requestCancel = async (id: string): Promise<void> => {
+  await uploadFile({ fileName: getCancelKey(id), content: '' });
+};
+
+export const isCancelRequested = async (id: string): Promise<boolean> => {
+  return fileExists(getCancelKey(id));
+};
+
+export const clearCancelRequest = async (id: string): Promise<void> => {
+  await deleteFile(getCancelKey(id));
+};
@@ -0,0 +1,69 @@
+/**
+ * Types for background jobs
+ */
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobLogLevel = 'info' | 'warn' | 'error';
+
+export interface JobLogEntry {
+  time: string;
+  level: JobLogLevel;
+  message: string;
+}
+
+export interface JobProgress {
+  /** Units of work done so far, e.g. extracted files */
+  processed: number;
+  /** Total units of work, when known up front */
+  total?: number;
+  /** Bytes read so far */
+  bytes?: number;
+  /** Total bytes to read, when known up front */
+  totalBytes?: number;
+  /** Short description of the current step */
+  message?: string;
+}
+
+export interface Job<TResult = unknown> {
+  id: string;
+  /** What the job does, e.g. "extractArchive" */
+  type: string;
+  /** Shown in job lists, e.g. "Extract photos.zip" */
+  label?: string;
+  status: JobStatus;
+  progress: JobProgress;
+  /** Runs so far, counting the one in progress and retries */
+  attempt: number;
+  /** Whether the work stops when the job is cancelled */
+  cancellable: boolean;
+  /** Whether the job can be run again after it failed or was cancelled */
+  retryable: boolean;
+  /** Most recent log lines, oldest first */
+  logs: JobLogEntry[];
+  /** Set once the job completed */
+  result?: TResult;
+  /** Set when the job failed */
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export interface JobContext {
+  /** Merge new values into the job's progress */
+  report: (progress: Partial<JobProgress>) => void;
+  /** Aborted when the job is cancelled; long loops should check it between steps */
+  signal: AbortSignal;
+  /** Add a line to the job's log */
+  log: (message: string, level?: JobLogLevel) => void;
+}
+
+export interface JobOptions {
+  /** Shown in job lists, e.g. "Extract photos.zip" */
+  label?: string;
+  /** Set to false for work that does not check the signal, so it is never reported cancelled while it goes on */
+  cancellable?: boolean;
+  /** Set to false for work that must not run twice, defaults to true */
+  retryable?: boolean;
+}
@@ -0,0 +1,309 @@
+/**
+ * Extraction of zip and tar archives stored in the bucket
+ *
+ * Entries are written one at a time and keep their folder structure below the destination
+ * folder. Small files are read into memory and uploaded in one request, larger ones are
+ * streamed into a multipart upload (see uploadStream), so an archive is never held in memory
+ * as a whole. Paths that would leave the destination folder are refused.
+ */
+
+import { Readable, Transform, addAbortSignal, pipeline } from 'stream';
+import { S3Client } from '@aws-sdk/client-s3';
+import {
+  headFile,
+  getFile,
+  getFileRange,
+  uploadFile,
+  uploadStream,
+  fileExists,
+  deleteFile,
+  getS3Client,
+  getDefaultBucketName,
+} from './sdk';
+import { invalidateFolderStats } from './folderStatsIndex';
+import { ArchiveEntry, ArchiveRangeReader, getArchiveFormat, readTarEntries, readZipEntries } from './archiveReader';
+
+// Constants
+const MAX_EXTRACT_ENTRIES = 50000;
+const MAX_EXTRACT_SIZE = 10 * 1024 * 1024 * 1024; // 10 GB uncompressed
+// Larger files are streamed into a multipart upload
+const BUFFERED_UPLOAD_SIZE = 8 * 1024 * 1024;
+const MAX_RENAME_ATTEMPTS = 1000;
+// Resource forks added by the macOS archive utility
+const IGNORED_FOLDERS = ['__MACOSX/'];
+
+const CONTENT_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  js: 'text/javascript',
+  json: 'application/json',
+  xml: 'application/xml',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+export type S3ExtractConflictPolicy = 'skip' | 'overwrite' | 'rename';
+
+export interface S3ExtractProgress {
+  // Entries handled so far
+  processed: number;
+  // Bytes of the archive read so far; for zip archives the compressed size of the entries handled
+  bytes: number;
+  // Size of the archive
+  totalBytes: number;
+  // Path of the entry being extracted
+  current?: string;
+}
+
+export interface S3ExtractOptions {
+  // What to do with files that already exist, defaults to 'skip'
+  conflictPolicy?: S3ExtractConflictPolicy;
+  // Remove the archive once it has been extracted, e.g. after a temporary upload
+  deleteArchive?: boolean;
+  onProgress?: (progress: S3ExtractProgress) => void;
+  // Stops the extraction after the entry being written
+  signal?: AbortSignal;
+}
+
+export interface S3ExtractFailure {
+  // Path inside the archive
+  name: string;
+  error: string;
+}
+
+export interface S3ExtractResult {
+  // Files written, including renamed ones
+  extractedCount: number;
+  // Files written under a new name because the key was taken
+  renamedCount: number;
+  // Files left alone because the key was taken
+  skippedCount: number;
+  // Folders created or already present
+  folderCount: number;
+  // Uncompressed bytes written
+  size: number;
+  failed: S3ExtractFailure[];
+}
+
+// Path of an entry below the destination folder, or null when it would leave it
+const toRelativePath = (name: string): string | null => {
+  const normalized = name.replace(/\\/g, '/');
+  // Leading "/" and "./" segments are dropped, so absolute paths land inside the folder
+  const segments = normalized.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.includes('..')) return null;
+  if (segments.length === 0) return '';
+
+  return `${segments.join('/')}${normalized.endsWith('/') ? '/' : ''}`;
+};
+
+const getContentType = (key: string): string => {
+  const extension = key.slice(key.lastIndexOf('.') + 1).toLowerCase();
+  return CONTENT_TYPES[extension] || 'application/octet-stream';
+};
+
+// The folder part of a key
+const getParentPrefix = (key: string): string => key.slice(0, key.lastIndexOf('/') + 1);
+
+// "folder/name (1).ext", "folder/name (2).ext", ... until a key is free
+const findFreeKey = async (key: string, client: S3Client, bucketName: string): Promise<string> => {
+  const parent = getParentPrefix(key);
+  const fileName = key.slice(parent.length);
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const extension = dot > 0 ? fileName.slice(dot) : '';
+
+  for (let i = 1; i <= MAX_RENAME_ATTEMPTS; i++) {
+    const candidate = `${parent}${base} (${i})${extension}`;
+    if (!(await fileExists(candidate, client, bucketName))) {
+      return candidate;
+    }
+  }
+  throw new Error(`No free name found for ${key}`);
+};
+
+// Count the bytes passing through a stream
+const countBytes = (stream: Readable, onBytes: (count: number) => void): Readable => {
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      onBytes(chunk.length);
+      callback(null, chunk);
+    },
+  });
+  return pipeline(stream, counter, () => undefined);
+};
+
+// Write one file entry, buffered when small and streamed otherwise
+const writeEntry = async (
+  entry: ArchiveEntry,
+  key: string,
+  signal: AbortSignal | undefined,
+  client: S3Client,
+  bucketName: string
+): Promise<number> => {
+  const content = await entry.open();
+  if (signal) {
+    addAbortSignal(signal, content);
+  }
+
+  const contentType = getContentType(key);
+  if (entry.size > BUFFERED_UPLOAD_SIZE) {
+    return uploadStream(key, content, contentType, client, bucketName);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of content) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks);
+
+  await uploadFile({ fileName: key, content: body, contentType }, client, bucketName);
+  return body.length;
+};
+
+/**
+ * Extract a .zip, .tar, .tar.gz or .tgz archive from the bucket into a folder.
+ * Entries that cannot be written are reported in the result; the archive being unreadable,
+ * too large or the extraction being cancelled ends it with an error.
+ * @param archiveKey Key of the archive; the format is taken from its extension
+ * @param destinationPrefix Folder to extract into, '' for the root
+ * @param options Conflict policy, progress callback and cancellation
+ * @throws When the archive is not supported or exceeds the extraction limits
+ */
+export const extractArchive = async (
+  archiveKey: string,
+  destinationPrefix: string,
+  options: S3ExtractOptions = {},
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3ExtractResult> => {
+  const format = getArchiveFormat(archiveKey);
+  if (!format) {
+    throw new Error('Only .zip, .tar, .tar.gz and .tgz archives can be extracted');
+  }
+
+  const prefix = destinationPrefix && !destinationPrefix.endsWith('/') ? `${destinationPrefix}/` : destinationPrefix;
+  const conflictPolicy = options.conflictPolicy || 'skip';
+  const result: S3ExtractResult = {
+    extractedCount: 0,
+    renamedCount: 0,
+    skippedCount: 0,
+    folderCount: 0,
+    size: 0,
+    failed: [],
+  };
+  const writtenFolders = new Set<string>();
+
+  try {
+    const head = await headFile(archiveKey, client, bucketName);
+    const progress: S3ExtractProgress = { processed: 0, bytes: 0, totalBytes: head.ContentLength || 0 };
+    const onBytes = (count: number) => {
+      progress.bytes += count;
+    };
+
+    let entries: AsyncGenerator<ArchiveEntry>;
+    if (format === 'zip') {
+      // Zip entries are read in ranges, along with headers and some parts twice; progress counts
+      // the compressed size of each entry instead (see below)
+      const readRange: ArchiveRangeReader = async (start, end) => {
+        return (await getFileRange(archiveKey, start, end, client, bucketName)).Body as Readable;
+      };
+      entries = readZipEntries(progress.totalBytes, readRange);
+    } else {
+      const body = (await getFile(archiveKey, client, bucketName)).Body as Readable;
+      entries = readTarEntries(countBytes(body, onBytes), format === 'tgz');
+    }
+
+    options.onProgress?.({ ...progress });
+
+    for await (const entry of entries) {
+      if (options.signal?.aborted) {
+        throw new Error('Extraction cancelled');
+      }
+      if (progress.processed >= MAX_EXTRACT_ENTRIES) {
+        throw new Error(`Archives can be extracted with at most ${MAX_EXTRACT_ENTRIES} entries`);
+      }
+      if (result.size + entry.size > MAX_EXTRACT_SIZE) {
+        throw new Error('The archive expands to more than 10 GB and cannot be extracted');
+      }
+
+      progress.processed++;
+      progress.current = entry.name;
+      if (entry.compressedSize !== undefined) {
+        progress.bytes = Math.min(progress.totalBytes, progress.bytes + entry.compressedSize);
+      }
+      options.onProgress?.({ ...progress });
+
+      const relativePath = toRelativePath(entry.name);
+      if (relativePath === '' || (relativePath && IGNORED_FOLDERS.some(folder => relativePath.startsWith(folder)))) {
+        continue;
+      }
+      if (relativePath === null) {
+        result.failed.push({ name: entry.name, error: 'Path leaves the destination folder' });
+        continue;
+      }
+
+      try {
+        let key = `${prefix}${relativePath}`;
+
+        if (entry.isFolder) {
+          if (!(await fileExists(key, client, bucketName))) {
+            await uploadFile({ fileName: key, content: '' }, client, bucketName);
+          }
+          writtenFolders.add(key);
+          result.folderCount++;
+          continue;
+        }
+
+        if (conflictPolicy !== 'overwrite' && await fileExists(key, client, bucketName)) {
+          if (conflictPolicy === 'skip') {
+            result.skippedCount++;
+            continue;
+          }
+          key = await findFreeKey(key, client, bucketName);
+          result.renamedCount++;
+        }
+
+        result.size += await writeEntry(entry, key, options.signal, client, bucketName);
+        result.extractedCount++;
+        writtenFolders.add(getParentPrefix(key));
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw new Error('Extraction cancelled');
+        }
+        result.failed.push({ name: entry.name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    // Every entry is done; for zip archives the headers were never counted
+    progress.bytes = progress.totalBytes;
+    progress.current = undefined;
+    options.onProgress?.({ ...progress });
+    return result;
+  } finally {
+    for (const folder of writtenFolders) {
+      await invalidateFolderStats(folder, client, bucketName).catch((error) => {
+        console.warn(`Could not invalidate folder stats of ${folder}:`, error);
+      });
+    }
+
+    if (options.deleteArchive) {
+      await deleteFile(archiveKey, client, bucketName).catch((error) => {
+        console.warn(`Could not remove extracted archive ${archiveKey}:`, error);
+      });
+    }
+  }
+};
@@ -0,0 +1,463 @@
+/**
+ * Streaming readers for zip and tar archives
+ *
+ * Tar archives, gzipped or not, are read front to back from a single stream, so the content
+ * of an entry has to be read (or left alone) before the next entry is requested. Zip archives
+ * are read through ranged reads instead: the central directory at the end of the file lists
+ * the entries and every entry is fetched on its own. Only files and folders are returned;
+ * links, devices and other special tar entries are skipped.
+ */
+
+import { Readable, Transform, pipeline } from 'stream';
+import { createGunzip, createInflateRaw } from 'zlib';
+import { crc32 } from './crc32';
+
+// Constants
+const READ_CHUNK_SIZE = 64 * 1024;
+
+const TAR_BLOCK_SIZE = 512;
+// Pax and GNU long name headers are small, anything bigger is a broken archive
+const MAX_TAR_METADATA_SIZE = 1024 * 1024;
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const LOCAL_FILE_HEADER_SIZE = 30;
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE = 56;
+const ZIP64_LOCATOR_SIZE = 20;
+const MAX_ZIP_COMMENT_SIZE = 0xffff;
+const MAX_CENTRAL_DIRECTORY_SIZE = 64 * 1024 * 1024;
+const FLAG_ENCRYPTED = 0x0001;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tgz';
+
+export interface ArchiveEntry {
+  // Path inside the archive as stored; folders end with "/"
+  name: string;
+  isFolder: boolean;
+  // Uncompressed size in bytes
+  size: number;
+  // Bytes the entry takes in a zip archive; tar entries are read in one pass and have none
+  compressedSize?: number;
+  lastModified?: Date;
+  // Opens the content of a file entry
+  open: () => Promise<Readable>;
+}
+
+// Reads a byte range of the archive file, start and end are inclusive offsets
+export type ArchiveRangeReader = (start: number, end: number) => Promise<Readable>;
+
+interface ByteReader {
+  // Exactly `length` bytes, fewer only at the end of the stream
+  read: (length: number) => Promise<Buffer>;
+  // Up to `length` bytes of what has arrived, empty only at the end of the stream
+  readChunk: (length: number) => Promise<Buffer>;
+}
+
+// What is left of the tar entry being read
+interface TarEntryState {
+  remaining: number;
+  // Set once the reader moved on; a stale content stream must not read any further
+  closed: boolean;
+  // Read in flight for the content stream
+  reading?: Promise<Buffer>;
+}
+
+/**
+ * Detect the archive format from the file name
+ * @returns null for files that are not a supported archive
+ */
+export const getArchiveFormat = (fileName: string): ArchiveFormat | null => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.zip')) return 'zip';
+  if (name.endsWith('.tar')) return 'tar';
+  if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) return 'tgz';
+  return null;
+};
+
+// Pull bytes out of a stream in exactly the amounts the parser asks for
+const createByteReader = (stream: Readable): ByteReader => {
+  const iterator = stream[Symbol.asyncIterator]();
+  let buffered = Buffer.alloc(0);
+  let ended = false;
+
+  const fill = async (): Promise<boolean> => {
+    if (ended) return false;
+
+    const { value, done } = await iterator.next();
+    if (done) {
+      ended = true;
+      return false;
+    }
+
+    buffered = buffered.length > 0 ? Buffer.concat([buffered, value]) : value;
+    return true;
+  };
+
+  const take = (length: number): Buffer => {
+    const bytes = buffered.subarray(0, length);
+    buffered = buffered.subarray(length);
+    return bytes;
+  };
+
+  return {
+    read: async (length: number) => {
+      while (buffered.length < length) {
+        if (!(await fill())) break;
+      }
+      return take(length);
+    },
+    readChunk: async (length: number) => {
+      if (buffered.length === 0) await fill();
+      return take(length);
+    },
+  };
+};
+
+// Text field of a tar header, it ends at the first NUL
+const readTarString = (block: Buffer, offset: number, length: number): string => {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+};
+
+// Numeric field of a tar header: octal text, or big-endian binary when the
+// high bit of the first byte is set (GNU base-256, used for sizes over 8 GB)
+const readTarNumber = (block: Buffer, offset: number, length: number): number => {
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + block[offset + i];
+    }
+    return value;
+  }
+
+  const text = readTarString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+};
+
+// The checksum is the byte sum of the header with the checksum field read as spaces
+const isValidTarHeader = (block: Buffer): boolean => {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 32 : block[i];
+  }
+  return sum === readTarNumber(block, 148, 8);
+};
+
+// Name of a tar entry; ustar archives keep long paths split into prefix and name
+const readTarName = (block: Buffer): string => {
+  const name = readTarString(block, 0, 100);
+  const isUstar = readTarString(block, 257, 6).startsWith('ustar');
+  const prefix = isUstar ? readTarString(block, 345, 155) : '';
+  return prefix ? `${prefix}/${name}` : name;
+};
+
+// Pax extended header records: "<length> <key>=<value>\n", the length counts the whole record
+const parsePaxHeaders = (data: Buffer): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < data.length) {
+    const space = data.indexOf(32, offset);
+    const length = space === -1 ? 0 : parseInt(data.toString('utf-8', offset, space), 10);
+    if (!length) break;
+
+    const record = data.toString('utf-8', space + 1, offset + length - 1);
+    const separator = record.indexOf('=');
+    if (separator > 0) {
+      headers[record.slice(0, separator)] = record.slice(separator + 1);
+    }
+    offset += length;
+  }
+
+  return headers;
+};
+
+// Content of the current tar entry, read as the consumer asks for it
+async function* readTarContent(reader: ByteReader, state: TarEntryState): AsyncGenerator<Buffer> {
+  while (state.remaining > 0 && !state.closed) {
+    state.reading = reader.readChunk(Math.min(state.remaining, READ_CHUNK_SIZE)).then((chunk) => {
+      state.remaining -= chunk.length;
+      return chunk;
+    });
+
+    const chunk = await state.reading;
+    if (chunk.length === 0) {
+      throw new Error('Unexpected end of tar archive');
+    }
+    yield chunk;
+  }
+}
+
+// Skip the rest of the current entry and the padding up to the next header
+const skipTarContent = async (reader: ByteReader, state: TarEntryState, padding: number): Promise<void> => {
+  state.closed = true;
+  await state.reading?.catch(() => undefined);
+
+  while (state.remaining > 0) {
+    const chunk = await reader.readChunk(Math.min(state.remaining, READ_CHUNK_SIZE));
+    if (chunk.length === 0) {
+      throw new Error('Unexpected end of tar archive');
+    }
+    state.remaining -= chunk.length;
+  }
+
+  if ((await reader.read(padding)).length < padding) {
+    throw new Error('Unexpected end of tar archive');
+  }
+};
+
+// Entry content is padded to whole blocks
+const getTarPadding = (size: number): number => (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+
+/**
+ * Read the entries of a tar archive from a stream
+ * @param stream The archive file
+ * @param gzipped Whether the archive is gzip compressed (.tar.gz, .tgz)
+ * @throws When the stream is not a tar archive or ends early
+ */
+export async function* readTarEntries(stream: Readable, gzipped: boolean): AsyncGenerator<ArchiveEntry> {
+  // Errors of either stage destroy the last stream and surface in the reads below
+  const reader = createByteReader(gzipped ? pipeline(stream, createGunzip(), () => undefined) : stream);
+  let paxHeaders: Record<string, string> = {};
+  let longName: string | undefined;
+
+  for (;;) {
+    const header = await reader.read(TAR_BLOCK_SIZE);
+    // Two zero blocks end the archive; some writers leave them out
+    if (header.length === 0 || header.every(byte => byte === 0)) return;
+
+    if (header.length < TAR_BLOCK_SIZE) {
+      throw new Error('Unexpected end of tar archive');
+    }
+    if (!isValidTarHeader(header)) {
+      throw new Error('Not a valid tar archive');
+    }
+
+    // Old archives mark regular files with NUL instead of "0"
+    const type = header[156] === 0 ? '0' : String.fromCharCode(header[156]);
+    const headerSize = readTarNumber(header, 124, 12);
+
+    // Metadata for the entry that follows: pax headers ("x", global "g") and GNU long names ("L", "K")
+    if (type === 'x' || type === 'g' || type === 'L' || type === 'K') {
+      if (headerSize > MAX_TAR_METADATA_SIZE) {
+        throw new Error('Not a valid tar archive');
+      }
+
+      const data = await reader.read(headerSize + getTarPadding(headerSize));
+      if (data.length < headerSize) {
+        throw new Error('Unexpected end of tar archive');
+      }
+      if (type === 'x') paxHeaders = parsePaxHeaders(data.subarray(0, headerSize));
+      if (type === 'L') longName = readTarString(data, 0, headerSize);
+      continue;
+    }
+
+    const size = paxHeaders.size !== undefined ? Number(paxHeaders.size) : headerSize;
+    const name = paxHeaders.path || longName || readTarName(header);
+    const modifiedSeconds = paxHeaders.mtime !== undefined ? Number(paxHeaders.mtime) : readTarNumber(header, 136, 12);
+    const state: TarEntryState = { remaining: size, closed: false };
+    paxHeaders = {};
+    longName = undefined;
+
+    // "7" is a contiguous file, which readers treat as a regular file
+    if (type === '0' || type === '7' || type === '5') {
+      const isFolder = type === '5';
+      yield {
+        name: isFolder && !name.endsWith('/') ? `${name}/` : name,
+        isFolder,
+        size: isFolder ? 0 : size,
+        lastModified: new Date(modifiedSeconds * 1000),
+        open: async () => Readable.from(readTarContent(reader, state)),
+      };
+    }
+
+    await skipTarContent(reader, state, getTarPadding(size));
+  }
+}
+
+// Read a byte range into memory
+const readRangeBuffer = async (readRange: ArchiveRangeReader, start: number, length: number): Promise<Buffer> => {
+  if (length <= 0) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of await readRange(start, start + length - 1)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+const readUInt64 = (buffer: Buffer, offset: number): number => Number(buffer.readBigUInt64LE(offset));
+
+// Zip stores local times in MS-DOS format
+const fromDosDateTime = (time: number, date: number): Date => new Date(
+  1980 + (date >> 9),
+  ((date >> 5) & 0x0f) - 1,
+  date & 0x1f,
+  time >> 11,
+  (time >> 5) & 0x3f,
+  (time & 0x1f) * 2
+);
+
+// Fail the content stream when it does not match the size and checksum of the central directory
+const createZipCheck = (name: string, size: number, crc: number): Transform => {
+  let actualCrc = 0;
+  let actualSize = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      actualCrc = crc32(chunk, actualCrc);
+      actualSize += chunk.length;
+      // Stop early instead of inflating a zip bomb to the end
+      if (actualSize > size) {
+        callback(new Error(`${name} is larger than the archive says`));
+        return;
+      }
+      callback(null, chunk);
+    },
+    flush(callback) {
+      callback(actualSize !== size || actualCrc !== crc ? new Error(`${name} is corrupt (checksum mismatch)`) : null);
+    },
+  });
+};
+
+// Locate the central directory through the end of central directory record at the end of the file
+const readCentralDirectoryLocation = async (
+  archiveSize: number,
+  readRange: ArchiveRangeReader
+): Promise<{ entryCount: number; size: number; offset: number }> => {
+  const tailLength = Math.min(archiveSize, ZIP64_LOCATOR_SIZE + END_OF_CENTRAL_DIRECTORY_SIZE + MAX_ZIP_COMMENT_SIZE);
+  const tail = await readRangeBuffer(readRange, archiveSize - tailLength, tailLength);
+
+  // The record is followed by a comment of any length, so search backwards
+  let end = -1;
+  for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a valid zip archive');
+  }
+
+  const location = {
+    entryCount: tail.readUInt16LE(end + 10),
+    size: tail.readUInt32LE(end + 12),
+    offset: tail.readUInt32LE(end + 16),
+  };
+
+  // ZIP64 archives keep the real values in a separate record, found through the locator
+  const locator = end - ZIP64_LOCATOR_SIZE;
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_LOCATOR_SIGNATURE) {
+    const record = await readRangeBuffer(readRange, readUInt64(tail, locator + 8), ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE);
+    if (record.length < ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE || record.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('Not a valid zip archive');
+    }
+
+    location.entryCount = readUInt64(record, 32);
+    location.size = readUInt64(record, 40);
+    location.offset = readUInt64(record, 48);
+  }
+
+  return location;
+};
+
+/**
+ * Read the entries of a zip archive listed in its central directory
+ * @param archiveSize Size of the archive file in bytes
+ * @param readRange Reads a byte range of the archive file
+ * @throws When the file is not a zip archive. Encrypted entries and compression
+ * methods other than store and deflate fail when they are opened.
+ */
+export async function* readZipEntries(archiveSize: number, readRange: ArchiveRangeReader): AsyncGenerator<ArchiveEntry> {
+  const location = await readCentralDirectoryLocation(archiveSize, readRange);
+  if (location.size > MAX_CENTRAL_DIRECTORY_SIZE) {
+    throw new Error('The zip archive has too many entries');
+  }
+
+  const directory = await readRangeBuffer(readRange, location.offset, location.size);
+  let offset = 0;
+
+  for (let i = 0; i < location.entryCount; i++) {
+    if (offset + CENTRAL_DIRECTORY_HEADER_SIZE > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('The zip archive is corrupt');
+    }
+
+    const flags = directory.readUInt16LE(offset + 8);
+    const method = directory.readUInt16LE(offset + 10);
+    const time = directory.readUInt16LE(offset + 12);
+    const date = directory.readUInt16LE(offset + 14);
+    const crc = directory.readUInt32LE(offset + 16);
+    let compressedSize = directory.readUInt32LE(offset + 20);
+    let size = directory.readUInt32LE(offset + 24);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    let localHeaderOffset = directory.readUInt32LE(offset + 42);
+
+    const nameStart = offset + CENTRAL_DIRECTORY_HEADER_SIZE;
+    // Names are read as UTF-8, which also covers the plain ASCII names of archives without the UTF-8 flag
+    const name = directory.toString('utf-8', nameStart, nameStart + nameLength);
+    const extra = directory.subarray(nameStart + nameLength, nameStart + nameLength + extraLength);
+    offset = nameStart + nameLength + extraLength + commentLength;
+
+    // The ZIP64 extra field holds the values that did not fit, in this order
+    for (let field = 0; field + 4 <= extra.length; field += 4 + extra.readUInt16LE(field + 2)) {
+      if (extra.readUInt16LE(field) !== ZIP64_EXTRA_FIELD_ID) continue;
+
+      let value = field + 4;
+      if (size === 0xffffffff) {
+        size = readUInt64(extra, value);
+        value += 8;
+      }
+      if (compressedSize === 0xffffffff) {
+        compressedSize = readUInt64(extra, value);
+        value += 8;
+      }
+      if (localHeaderOffset === 0xffffffff) {
+        localHeaderOffset = readUInt64(extra, value);
+      }
+    }
+
+    const isFolder = name.endsWith('/');
+
+    yield {
+      name,
+      isFolder,
+      size: isFolder ? 0 : size,
+      compressedSize,
+      lastModified: fromDosDateTime(time, date),
+      open: async () => {
+        if (flags & FLAG_ENCRYPTED) {
+          throw new Error('Encrypted zip entries are not supported');
+        }
+        if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+          throw new Error(`Unsupported zip compression method ${method}`);
+        }
+
+        // The local header repeats the name and may have a different extra field
+        const localHeader = await readRangeBuffer(readRange, localHeaderOffset, LOCAL_FILE_HEADER_SIZE);
+        if (localHeader.length < LOCAL_FILE_HEADER_SIZE || localHeader.readUInt32LE(0) !== LOCAL_FILE_HEADER_SIGNATURE) {
+          throw new Error('The zip archive is corrupt');
+        }
+
+        const dataStart = localHeaderOffset + LOCAL_FILE_HEADER_SIZE + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+        const data = compressedSize > 0 ? await readRange(dataStart, dataStart + compressedSize - 1) : Readable.from([]);
+        const check = createZipCheck(name, size, crc);
+
+        return method === METHOD_DEFLATE
+          ? pipeline(data, createInflateRaw(), check, () => undefined)
+          : pipeline(data, check, () => undefined);
+      },
+    };
+  }
+}
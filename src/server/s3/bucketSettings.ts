@@ -0,0 +1,164 @@
+/**
+ * Bucket-level configuration: versioning, lifecycle rules, CORS rules and the bucket policy
+ *
+ * A bucket without a lifecycle, CORS or policy configuration answers with a NoSuch* error;
+ * these read as "nothing configured". Writing an empty configuration deletes it, since S3
+ * rejects empty rule lists.
+ *
+ * Settings apply to every key of the bucket, so clients confined to a root prefix may neither
+ * read nor change them.
+ */
+
+import {
+  S3Client,
+  GetBucketVersioningCommand,
+  PutBucketVersioningCommand,
+  GetBucketLifecycleConfigurationCommand,
+  PutBucketLifecycleConfigurationCommand,
+  DeleteBucketLifecycleCommand,
+  GetBucketCorsCommand,
+  PutBucketCorsCommand,
+  DeleteBucketCorsCommand,
+  GetBucketPolicyCommand,
+  PutBucketPolicyCommand,
+  DeleteBucketPolicyCommand,
+  LifecycleRule,
+  CORSRule,
+} from '@aws-sdk/client-s3';
+import { getS3Client, getDefaultBucketName, getRootPrefix } from './sdk';
+
+// Versioning of a bucket; buckets that never had it enabled report no status
+export type S3VersioningStatus = 'Enabled' | 'Suspended' | undefined;
+
+// Whether the client may manage the settings of its buckets
+export const canManageBucketSettings = (client: S3Client): boolean => !getRootPrefix(client);
+
+const assertWholeBucket = (client: S3Client): void => {
+  if (!canManageBucketSettings(client)) {
+    throw new Error('Bucket settings are not available for profiles confined to a folder');
+  }
+};
+
+// Whether an error means the configuration is not set
+const isNotConfigured = (error: unknown, code: string): boolean => {
+  return error instanceof Error && error.name === code;
+};
+
+export const getBucketVersioning = async (
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3VersioningStatus> => {
+  assertWholeBucket(client);
+  const response = await client.send(new GetBucketVersioningCommand({ Bucket: bucketName }));
+  return response.Status;
+};
+
+// Versioning can be suspended but never switched off again once enabled
+export const putBucketVersioning = async (
+  status: 'Enabled' | 'Suspended',
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  assertWholeBucket(client);
+  await client.send(new PutBucketVersioningCommand({
+    Bucket: bucketName,
+    VersioningConfiguration: { Status: status },
+  }));
+};
+
+export const getLifecycleRules = async (
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<LifecycleRule[]> => {
+  assertWholeBucket(client);
+  try {
+    const response = await client.send(new GetBucketLifecycleConfigurationCommand({ Bucket: bucketName }));
+    return response.Rules || [];
+  } catch (error) {
+    if (isNotConfigured(error, 'NoSuchLifecycleConfiguration')) return [];
+    throw error;
+  }
+};
+
+// Replace every lifecycle rule of the bucket
+export const putLifecycleRules = async (
+  rules: LifecycleRule[],
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  assertWholeBucket(client);
+  if (rules.length === 0) {
+    await client.send(new DeleteBucketLifecycleCommand({ Bucket: bucketName }));
+    return;
+  }
+
+  await client.send(new PutBucketLifecycleConfigurationCommand({
+    Bucket: bucketName,
+    LifecycleConfiguration: { Rules: rules },
+  }));
+};
+
+export const getCorsRules = async (
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<CORSRule[]> => {
+  assertWholeBucket(client);
+  try {
+    const response = await client.send(new GetBucketCorsCommand({ Bucket: bucketName }));
+    return response.CORSRules || [];
+  } catch (error) {
+    if (isNotConfigured(error, 'NoSuchCORSConfiguration')) return [];
+    throw error;
+  }
+};
+
+// Replace every CORS rule of the bucket
+export const putCorsRules = async (
+  rules: CORSRule[],
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  assertWholeBucket(client);
+  if (rules.length === 0) {
+    await client.send(new DeleteBucketCorsCommand({ Bucket: bucketName }));
+    return;
+  }
+
+  await client.send(new PutBucketCorsCommand({
+    Bucket: bucketName,
+    CORSConfiguration: { CORSRules: rules },
+  }));
+};
+
+// The policy document as stored, or null when the bucket has none
+export const getBucketPolicy = async (
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<string | null> => {
+  assertWholeBucket(client);
+  try {
+    const response = await client.send(new GetBucketPolicyCommand({ Bucket: bucketName }));
+    return response.Policy || null;
+  } catch (error) {
+    if (isNotConfigured(error, 'NoSuchBucketPolicy')) return null;
+    throw error;
+  }
+};
+
+// Replace the policy document, or remove it with null
+export const putBucketPolicy = async (
+  policy: string | null,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  assertWholeBucket(client);
+  if (policy === null) {
+    await client.send(new DeleteBucketPolicyCommand({ Bucket: bucketName }));
+    return;
+  }
+
+  await client.send(new PutBucketPolicyCommand({
+    Bucket: bucketName,
+    Policy: policy,
+  }));
+};
@@ -0,0 +1,26 @@
+/**
+ * CRC-32 as used by zip archives
+ *
+ * zlib.crc32 only exists from Node 20.15 and 22.2, so the checksum is computed here with the
+ * usual lookup table. Same signature: pass the previous value to continue over several chunks.
+ */
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array, value = 0): number => {
+  let crc = (value ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
@@ -0,0 +1,181 @@
+/**
+ * Persisted folder stats index
+ *
+ * Stores the recursive fileCount/size of each folder as a small JSON object in the bucket
+ * so large folders are not rescanned on every browse. Entries expire after a TTL and are
+ * invalidated for every ancestor folder when a key below them changes, and for every folder
+ * inside a folder that is deleted, moved or synced as a whole.
+ */
+
+import { S3Client } from '@aws-sdk/client-s3';
+import {
+  S3FolderStats,
+  S3FolderStatsResolver,
+  getFolderStats,
+  getFileAsString,
+  uploadFile,
+  deleteFile,
+  deleteFiles,
+  listAllObjects,
+  getS3Client,
+  getDefaultBucketName,
+} from './sdk';
+import { FOLDER_STATS_PREFIX } from './internalPrefixes';
+
+// Constants
+const FOLDER_STATS_INDEX_FILE = 'stats.json';
+const DEFAULT_FOLDER_STATS_TTL = 3600000; // 1 hour
+
+interface FolderStatsIndexEntry {
+  fileCount: number;
+  size: number;
+  lastModified?: string;
+  computedAt: string;
+}
+
+/**
+ * Whether the persisted index is enabled (FOLDER_STATS_INDEX=true)
+ */
+export const isFolderStatsIndexEnabled = (): boolean => {
+  return process.env.FOLDER_STATS_INDEX === 'true';
+};
+
+/**
+ * Time-to-live of an index entry in milliseconds (FOLDER_STATS_TTL)
+ */
+const getFolderStatsTtl = (): number => {
+  return parseInt(process.env.FOLDER_STATS_TTL || String(DEFAULT_FOLDER_STATS_TTL), 10);
+};
+
+/**
+ * Gets the key of the index entry for a folder
+ */
+const getIndexKey = (folderKey: string): string => {
+  const folder = folderKey.endsWith('/') ? folderKey : `${folderKey}/`;
+  return `${FOLDER_STATS_PREFIX}${folder}${FOLDER_STATS_INDEX_FILE}`;
+};
+
+/**
+ * Reads a folder's stats from the index, returning null when missing or expired
+ */
+const readIndexEntry = async (
+  folderKey: string,
+  client: S3Client,
+  bucketName: string
+): Promise<S3FolderStats | null> => {
+  try {
+    const content = await getFileAsString(getIndexKey(folderKey), client, bucketName);
+    const entry = JSON.parse(content) as FolderStatsIndexEntry;
+
+    if (new Date(entry.computedAt).getTime() + getFolderStatsTtl() < Date.now()) {
+      return null;
+    }
+
+    return {
+      fileCount: entry.fileCount,
+      size: entry.size,
+      lastModified: entry.lastModified ? new Date(entry.lastModified) : undefined,
+    };
+  } catch {
+    // Entry not found or unreadable
+    return null;
+  }
+};
+
+/**
+ * Gets a folder's stats from the index, computing and persisting them when needed
+ * @param folderKey The folder key (with or without trailing slash)
+ * @param refresh Recompute the stats even if a fresh entry exists
+ */
+export const getIndexedFolderStats = async (
+  folderKey: string,
+  refresh = false,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3FolderStats> => {
+  if (!refresh) {
+    const cached = await readIndexEntry(folderKey, client, bucketName);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const stats = await getFolderStats(folderKey, client, bucketName);
+
+  const entry: FolderStatsIndexEntry = {
+    fileCount: stats.fileCount,
+    size: stats.size,
+    lastModified: stats.lastModified?.toISOString(),
+    computedAt: new Date().toISOString(),
+  };
+
+  try {
+    await uploadFile({
+      content: JSON.stringify(entry),
+      fileName: getIndexKey(folderKey),
+      contentType: 'application/json'
+    }, client, bucketName);
+  } catch (error) {
+    // The index is an optimization - never fail the listing because of it
+    console.error('Failed to write folder stats index entry:', error);
+  }
+
+  return stats;
+};
+
+/**
+ * Creates a folder stats resolver backed by the index
+ */
+export const createIndexedFolderStatsResolver = (
+  refresh = false,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): S3FolderStatsResolver => {
+  return (folderKey: string) => getIndexedFolderStats(folderKey, refresh, client, bucketName);
+};
+
+/**
+ * Invalidates the index entries of every folder containing the given key, and for a folder key
+ * those of the folder and every folder below it
+ * @param key A file or folder key that was created, changed or deleted; '' for the whole bucket
+ */
+export const invalidateFolderStats = async (
+  key: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  if (!isFolderStatsIndexEnabled()) return;
+
+  const parts = key.split('/').filter(Boolean);
+  const isFolder = key === '' || key.endsWith('/');
+
+  // Ancestors of the key; a folder's own entry goes with the entries below it
+  const folders: string[] = [];
+  for (let i = 1; i < parts.length; i++) {
+    folders.push(`${parts.slice(0, i).join('/')}/`);
+  }
+
+  const invalidateSubtree = async () => {
+    // Entries of nested folders would otherwise be served again once their paths are reused
+    try {
+      const entries = await listAllObjects(`${FOLDER_STATS_PREFIX}${key}`, client, bucketName);
+      const keys = entries.map(entry => entry.Key).filter((entryKey): entryKey is string => !!entryKey);
+      if (keys.length > 0) {
+        await deleteFiles(keys, client, bucketName);
+      }
+    } catch (error) {
+      console.error(`Failed to invalidate folder stats below ${key || 'the bucket root'}:`, error);
+    }
+  };
+
+  await Promise.all([
+    ...folders.map(async (folder) => {
+      try {
+        await deleteFile(getIndexKey(folder), client, bucketName);
+      } catch (error) {
+        console.error(`Failed to invalidate folder stats for ${folder}:`, error);
+      }
+    }),
+    ...(isFolder ? [invalidateSubtree()] : []),
+  ]);
+};
@@ -0,0 +1,207 @@
+/**
+ * Content search ("grep") over the objects under a prefix
+ *
+ * Each call lists one batch of keys, downloads the text objects among them with a bounded
+ * number of parallel requests and reports the matching lines as short snippets. Objects
+ * above the size limit and binary objects are skipped. A call reads at most
+ * GREP_BYTES_PER_PAGE, leaving the rest of its batch to the next call, so it ends well within
+ * the time a request is allowed. The last key handled is returned as continuation token, so a
+ * large prefix is searched over several calls.
+ */
+
+import { S3Client } from '@aws-sdk/client-s3';
+import { S3File, listObjectsPage, getFileAsBuffer, getS3Client, getDefaultBucketName } from './sdk';
+import { isInternalKey } from './internalPrefixes';
+import { escapeRegExp } from './search';
+
+// Constants
+const DEFAULT_GREP_MAX_OBJECT_SIZE = 1024 * 1024; // 1 MB
+const MAX_GREP_OBJECT_SIZE = 20 * 1024 * 1024; // 20 MB
+const DEFAULT_GREP_CONCURRENCY = 8;
+const MAX_GREP_CONCURRENCY = 32;
+const GREP_OBJECTS_PER_PAGE = 200;
+const GREP_BYTES_PER_PAGE = 32 * 1024 * 1024; // 32 MB
+const MAX_LINES_PER_OBJECT = 20;
+const SNIPPET_CONTEXT = 80;
+const BINARY_SNIFF_BYTES = 8000;
+
+export interface S3GrepOptions {
+  pattern: string;
+  // Treat the pattern as a regular expression instead of a literal
+  isRegex?: boolean;
+  caseSensitive?: boolean;
+  // Larger objects are skipped (bytes)
+  maxObjectSize?: number;
+  // Number of objects downloaded at the same time
+  concurrency?: number;
+  continuationToken?: string;
+}
+
+export interface S3GrepLine {
+  lineNumber: number;
+  // The line, shortened around the match when it is long
+  snippet: string;
+  // Position of the first match within the snippet
+  matchStart: number;
+  matchEnd: number;
+}
+
+export interface S3GrepMatch {
+  key: string;
+  size: number;
+  lastModified: Date;
+  // Matching lines, at most MAX_LINES_PER_OBJECT of them
+  lines: S3GrepLine[];
+  // Number of matching lines, including the ones not returned
+  lineCount: number;
+}
+
+export interface S3GrepPage {
+  matches: S3GrepMatch[];
+  // Objects whose content was searched
+  scannedCount: number;
+  // Objects skipped for being too large, binary or unreadable
+  skippedCount: number;
+  nextContinuationToken?: string;
+}
+
+// Build the line test for a grep pattern
+const createLineRegExp = (options: S3GrepOptions): RegExp => {
+  const source = options.isRegex ? options.pattern : escapeRegExp(options.pattern);
+  // Throws a SyntaxError naming the problem for invalid patterns
+  return new RegExp(source, options.caseSensitive ? '' : 'i');
+};
+
+// Text files do not contain NUL bytes, binary formats almost always do
+const isProbablyBinary = (content: Buffer): boolean => {
+  return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+};
+
+// Cut a long line down to the match and some context on both sides
+const toSnippet = (line: string, lineNumber: number, match: RegExpExecArray): S3GrepLine => {
+  const start = Math.max(0, match.index - SNIPPET_CONTEXT);
+  const end = Math.min(line.length, match.index + match[0].length + SNIPPET_CONTEXT);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < line.length ? '…' : '';
+
+  return {
+    lineNumber,
+    snippet: `${prefix}${line.slice(start, end)}${suffix}`,
+    matchStart: prefix.length + match.index - start,
+    matchEnd: prefix.length + match.index - start + match[0].length,
+  };
+};
+
+// Find the matching lines of one text
+const grepText = (text: string, regExp: RegExp): { lines: S3GrepLine[]; lineCount: number } => {
+  const lines: S3GrepLine[] = [];
+  let lineCount = 0;
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const match = regExp.exec(line);
+    if (!match) return;
+
+    lineCount++;
+    if (lines.length < MAX_LINES_PER_OBJECT) {
+      lines.push(toSnippet(line, index + 1, match));
+    }
+  });
+
+  return { lines, lineCount };
+};
+
+/**
+ * Search the content of the objects under a prefix, one batch of objects at a time.
+ * A page can come back without matches; keep following nextContinuationToken until it
+ * is undefined to search the whole prefix.
+ * @param prefix The folder to search, '' for the whole bucket
+ * @param options The pattern, limits and the token of the previous page
+ * @throws When the pattern is empty or not a valid regular expression
+ */
+export const grepObjects = async (
+  prefix: string,
+  options: S3GrepOptions,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3GrepPage> => {
+  if (!options.pattern) {
+    throw new Error('Pattern must not be empty');
+  }
+
+  // The token is the last key listed, so it has to stay under the searched prefix
+  if (options.continuationToken && !options.continuationToken.startsWith(prefix)) {
+    throw new Error('Continuation token does not belong to this search');
+  }
+
+  const regExp = createLineRegExp(options);
+  const maxObjectSize = Math.min(options.maxObjectSize || DEFAULT_GREP_MAX_OBJECT_SIZE, MAX_GREP_OBJECT_SIZE);
+  const concurrency = Math.min(Math.max(options.concurrency || DEFAULT_GREP_CONCURRENCY, 1), MAX_GREP_CONCURRENCY);
+
+  const page = await listObjectsPage(prefix, {
+    startAfter: options.continuationToken,
+    maxKeys: GREP_OBJECTS_PER_PAGE,
+  }, client, bucketName);
+
+  const candidates: S3File[] = [];
+  let candidateBytes = 0;
+  let skippedCount = 0;
+  // Last listed key this call is done with, and whether listed keys were left for the next call
+  let lastHandledKey: string | undefined;
+  let leftOver = false;
+  for (const file of page.files) {
+    if (!file.isFolder && !isInternalKey(file.key)) {
+      if (file.size > maxObjectSize) {
+        skippedCount++;
+      } else if (candidates.length > 0 && candidateBytes + file.size > GREP_BYTES_PER_PAGE) {
+        leftOver = true;
+        break;
+      } else {
+        candidates.push(file);
+        candidateBytes += file.size;
+      }
+    }
+    lastHandledKey = file.key;
+  }
+
+  const results: (S3GrepMatch | null)[] = new Array(candidates.length).fill(null);
+  let scannedCount = 0;
+  let nextIndex = 0;
+
+  // Each worker takes the next object until none are left
+  const worker = async () => {
+    while (nextIndex < candidates.length) {
+      const index = nextIndex++;
+      const file = candidates[index];
+
+      try {
+        const { content } = await getFileAsBuffer(file.key, client, bucketName);
+        if (isProbablyBinary(content)) {
+          skippedCount++;
+          continue;
+        }
+
+        scannedCount++;
+        const { lines, lineCount } = grepText(content.toString('utf-8'), regExp);
+        if (lineCount > 0) {
+          results[index] = { key: file.key, size: file.size, lastModified: file.lastModified, lines, lineCount };
+        }
+      } catch (error) {
+        // The object may have been deleted since it was listed
+        console.warn(`grep: could not read ${file.key}:`, error);
+        skippedCount++;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, candidates.length) }, worker)
+  );
+
+  return {
+    // Keep the listing order, workers finish in any order
+    matches: results.filter((match): match is S3GrepMatch => match !== null),
+    scannedCount,
+    skippedCount,
+    nextContinuationToken: (page.isTruncated || leftOver) && lastHandledKey ? lastHandledKey : undefined,
+  };
+};
@@ -0,0 +1,31 @@
+/**
+ * Folders the app keeps its own bookkeeping in
+ *
+ * They live at the top of the bucket (below the root prefix of confined profiles) next to the
+ * user's files. Listings, search, grep, zip downloads and syncs skip them, so they can neither
+ * be seen nor deleted through the file manager.
+ */
+
+// Persisted folder stats, see folderStatsIndex.ts
+export const FOLDER_STATS_PREFIX = '.folder-stats/';
+// Zip files built for downloads, see zipDownload.ts
+export const ZIP_DOWNLOAD_PREFIX = '.downloads/';
+// Archives uploaded by the browser to be extracted
+export const ARCHIVE_UPLOAD_PREFIX = '.uploads/';
+// Registry of shared links, see shareLinks.ts
+export const SHARE_LINKS_PREFIX = '.share-links/';
+// Background jobs, see server/jobs/store.ts
+export const JOBS_PREFIX = '.jobs/';
+
+export const INTERNAL_PREFIXES = [
+  FOLDER_STATS_PREFIX,
+  ZIP_DOWNLOAD_PREFIX,
+  ARCHIVE_UPLOAD_PREFIX,
+  SHARE_LINKS_PREFIX,
+  JOBS_PREFIX,
+];
+
+// Whether a key (relative to the root prefix) belongs to the app's bookkeeping
+export const isInternalKey = (key: string): boolean => {
+  return INTERNAL_PREFIXES.some(prefix => key.startsWith(prefix));
+};
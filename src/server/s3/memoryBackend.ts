@@ -0,0 +1,777 @@
+/**
+ * In-memory S3 backend
+ *
+ * A real S3Client whose middleware stack answers every command from process memory instead
+ * of sending it over the network. Select it with backend: 'memory' in an S3Config, or
+ * S3_BACKEND=memory for the default client, to run the file management actions and the
+ * s3 cache without an S3 account. `npm run harness:s3` (scripts/s3-harness.ts) runs them
+ * against it.
+ *
+ * Requests still go through the SDK's serializers and signers, so pre-signed URLs can be
+ * generated - they point to a host that does not exist, so browser uploads through them fail.
+ * Buckets are created on first use and always keep object versions, whatever their versioning
+ * status says. Archived objects (GLACIER, DEEP_ARCHIVE) cannot be read until restored, and
+ * restores complete immediately. Lifecycle, CORS and policy settings are stored but not applied.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  S3ServiceException,
+  NoSuchKey,
+  NotFound,
+  NoSuchUpload,
+  InvalidObjectState,
+  _Object,
+  CommonPrefix,
+  ObjectVersion,
+  DeleteMarkerEntry,
+  Tag,
+  GetObjectCommandOutput,
+  PutObjectCommandInput,
+  GetObjectCommandInput,
+  HeadObjectCommandInput,
+  ListObjectsV2CommandInput,
+  ListObjectVersionsCommandInput,
+  DeleteObjectCommandInput,
+  DeleteObjectsCommandInput,
+  CopyObjectCommandInput,
+  CreateMultipartUploadCommandInput,
+  UploadPartCommandInput,
+  UploadPartCopyCommandInput,
+  ListPartsCommandInput,
+  CompleteMultipartUploadCommandInput,
+  AbortMultipartUploadCommandInput,
+  GetObjectTaggingCommandInput,
+  PutObjectTaggingCommandInput,
+  RestoreObjectCommandInput,
+  LifecycleRule,
+  CORSRule,
+  GetBucketVersioningCommandInput,
+  PutBucketVersioningCommandInput,
+  GetBucketLifecycleConfigurationCommandInput,
+  PutBucketLifecycleConfigurationCommandInput,
+  DeleteBucketLifecycleCommandInput,
+  GetBucketCorsCommandInput,
+  PutBucketCorsCommandInput,
+  DeleteBucketCorsCommandInput,
+  GetBucketPolicyCommandInput,
+  PutBucketPolicyCommandInput,
+  DeleteBucketPolicyCommandInput,
+} from '@aws-sdk/client-s3';
+import type { S3Config } from './sdk';
+
+// Endpoint the serializers build request URLs for, nothing listens there
+const MEMORY_ENDPOINT = 'http://s3.memory.local';
+const DEFAULT_MAX_KEYS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Storage classes whose content is only readable through a restored copy
+const ARCHIVE_STORAGE_CLASSES = new Set(['GLACIER', 'DEEP_ARCHIVE']);
+
+interface MemoryObjectFields {
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  metadata: Record<string, string>;
+  storageClass?: string;
+}
+
+interface MemoryObjectVersion extends MemoryObjectFields {
+  versionId: string;
+  body: Buffer;
+  etag: string;
+  lastModified: Date;
+  tags: Tag[];
+  isDeleteMarker: boolean;
+  // Until when the restored copy of an archived object is readable
+  restoreExpiry?: Date;
+}
+
+interface MemoryUploadPart {
+  body: Buffer;
+  etag: string;
+  lastModified: Date;
+}
+
+interface MemoryUpload extends MemoryObjectFields {
+  key: string;
+  parts: Map<number, MemoryUploadPart>;
+}
+
+interface MemoryBucket {
+  name: string;
+  creationDate: Date;
+  // Versions of each key, oldest first
+  objects: Map<string, MemoryObjectVersion[]>;
+  uploads: Map<string, MemoryUpload>;
+  versioning: 'Enabled' | 'Suspended';
+  lifecycleRules?: LifecycleRule[];
+  corsRules?: CORSRule[];
+  policy?: string;
+}
+
+const buckets = new Map<string, MemoryBucket>();
+
+// Keeps modification times strictly increasing so "newest" is well defined
+let lastTimestamp = 0;
+const now = (): Date => {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+  return new Date(lastTimestamp);
+};
+
+const getBucket = (name: string | undefined): MemoryBucket => {
+  if (!name) {
+    throw new Error('Bucket is required');
+  }
+
+  let bucket = buckets.get(name);
+  if (!bucket) {
+    bucket = { name, creationDate: now(), objects: new Map(), uploads: new Map(), versioning: 'Enabled' };
+    buckets.set(name, bucket);
+  }
+  return bucket;
+};
+
+/**
+ * Drop every bucket, e.g. between test cases
+ */
+export const resetMemoryS3 = (): void => {
+  buckets.clear();
+  lastTimestamp = 0;
+};
+
+const md5 = (data: Buffer): string => createHash('md5').update(data).digest('hex');
+
+const toBuffer = async (body: unknown): Promise<Buffer> => {
+  if (body === undefined || body === null) return Buffer.alloc(0);
+  if (typeof body === 'string') return Buffer.from(body);
+  if (Buffer.isBuffer(body)) return body;
+  if (body instanceof Uint8Array) return Buffer.from(body);
+  if (body instanceof Readable) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return Buffer.from(await body.arrayBuffer());
+  }
+  throw new Error('Unsupported request body for the in-memory S3 backend');
+};
+
+// A response body with the SDK's stream helpers
+const toBody = (data: Buffer): GetObjectCommandOutput['Body'] => {
+  return Object.assign(Readable.from([data]), {
+    transformToByteArray: async () => new Uint8Array(data),
+    transformToString: async (encoding?: string) => data.toString((encoding || 'utf-8') as BufferEncoding),
+    transformToWebStream: () => Readable.toWeb(Readable.from([data])) as ReadableStream,
+  }) as GetObjectCommandOutput['Body'];
+};
+
+const metadataOf = (status: number) => ({ httpStatusCode: status, attempts: 1, totalRetryDelay: 0 });
+
+const noSuchKey = (key: string | undefined) => new NoSuchKey({
+  $metadata: metadataOf(404),
+  message: `The specified key does not exist: ${key}`,
+});
+
+const invalidRequest = (message: string) => new S3ServiceException({
+  name: 'InvalidRequest',
+  $fault: 'client',
+  $metadata: metadataOf(400),
+  message,
+});
+
+// Error of a bucket setting that was never configured, e.g. NoSuchBucketPolicy
+const notConfigured = (name: string, message: string) => new S3ServiceException({
+  name,
+  $fault: 'client',
+  $metadata: metadataOf(404),
+  message,
+});
+
+const invalidObjectState = (version: MemoryObjectVersion) => new InvalidObjectState({
+  $metadata: metadataOf(403),
+  message: "The operation is not valid for the object's storage class",
+  StorageClass: version.storageClass as InvalidObjectState['StorageClass'],
+});
+
+// Archived and not restored, so the content cannot be read or copied
+const isArchived = (version: MemoryObjectVersion): boolean => {
+  return ARCHIVE_STORAGE_CLASSES.has(version.storageClass || '')
+    && !(version.restoreExpiry && version.restoreExpiry.getTime() > Date.now());
+};
+
+// Current version of a key, or a specific one when versionId is given
+const findVersion = (
+  bucket: MemoryBucket,
+  key: string | undefined,
+  versionId?: string
+): MemoryObjectVersion | undefined => {
+  const versions = bucket.objects.get(key || '') || [];
+  if (versionId) {
+    return versions.find(version => version.versionId === versionId);
+  }
+  const latest = versions[versions.length - 1];
+  return latest && !latest.isDeleteMarker ? latest : undefined;
+};
+
+const addVersion = (
+  bucket: MemoryBucket,
+  key: string,
+  fields: MemoryObjectFields,
+  body: Buffer,
+  etag = `"${md5(body)}"`
+): MemoryObjectVersion => {
+  const version: MemoryObjectVersion = {
+    ...fields,
+    versionId: randomUUID(),
+    body,
+    etag,
+    lastModified: now(),
+    tags: [],
+    isDeleteMarker: false,
+  };
+  bucket.objects.set(key, [...(bucket.objects.get(key) || []), version]);
+  return version;
+};
+
+// Parse "bytes=start-end" against an object size, the end is inclusive
+const parseRange = (range: string, size: number): [number, number] => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range);
+  if (!match || (!match[1] && !match[2])) {
+    throw invalidRequest(`Invalid range: ${range}`);
+  }
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    return [Math.max(0, size - Number(match[2])), size - 1];
+  }
+  return [Number(match[1]), Math.min(match[2] ? Number(match[2]) : size - 1, size - 1)];
+};
+
+// "bucket/key" or "bucket/key?versionId=..." as sent in CopySource
+const readCopySource = (copySource: string | undefined): MemoryObjectVersion => {
+  const [path, query] = (copySource || '').split('?');
+  const decoded = decodeURIComponent(path.replace(/^\//, ''));
+  const separator = decoded.indexOf('/');
+  const bucketName = decoded.slice(0, separator);
+  const key = decoded.slice(separator + 1);
+  const versionId = new URLSearchParams(query || '').get('versionId') || undefined;
+
+  const source = findVersion(getBucket(bucketName), key, versionId);
+  if (!source || source.isDeleteMarker) {
+    throw noSuchKey(key);
+  }
+  if (isArchived(source)) {
+    throw invalidObjectState(source);
+  }
+  return source;
+};
+
+const fieldsFromInput = (input: {
+  ContentType?: string;
+  CacheControl?: string;
+  ContentDisposition?: string;
+  ContentEncoding?: string;
+  Metadata?: Record<string, string>;
+  StorageClass?: string;
+}): MemoryObjectFields => ({
+  contentType: input.ContentType,
+  cacheControl: input.CacheControl,
+  contentDisposition: input.ContentDisposition,
+  contentEncoding: input.ContentEncoding,
+  metadata: { ...(input.Metadata || {}) },
+  storageClass: input.StorageClass,
+});
+
+const headFields = (version: MemoryObjectVersion) => ({
+  ContentType: version.contentType || 'application/octet-stream',
+  CacheControl: version.cacheControl,
+  ContentDisposition: version.contentDisposition,
+  ContentEncoding: version.contentEncoding,
+  Metadata: { ...version.metadata },
+  StorageClass: version.storageClass === 'STANDARD' ? undefined : version.storageClass,
+  Restore: version.restoreExpiry
+    ? `ongoing-request="false", expiry-date="${version.restoreExpiry.toUTCString()}"`
+    : undefined,
+  ETag: version.etag,
+  LastModified: version.lastModified,
+  VersionId: version.versionId,
+  AcceptRanges: 'bytes',
+});
+
+// Latest non-deleted version of every key in the bucket, sorted by key
+const currentObjects = (bucket: MemoryBucket): [string, MemoryObjectVersion][] => {
+  const entries: [string, MemoryObjectVersion][] = [];
+  for (const key of bucket.objects.keys()) {
+    const version = findVersion(bucket, key);
+    if (version) entries.push([key, version]);
+  }
+  return entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+};
+
+const handlers = {
+  ListBucketsCommand: async () => ({
+    Buckets: Array.from(buckets.values()).map(bucket => ({
+      Name: bucket.name,
+      CreationDate: bucket.creationDate,
+    })),
+  }),
+
+  PutObjectCommand: async (input: PutObjectCommandInput) => {
+    const version = addVersion(
+      getBucket(input.Bucket),
+      input.Key || '',
+      fieldsFromInput(input),
+      await toBuffer(input.Body)
+    );
+    return { ETag: version.etag, VersionId: version.versionId };
+  },
+
+  GetObjectCommand: async (input: GetObjectCommandInput) => {
+    const version = findVersion(getBucket(input.Bucket), input.Key, input.VersionId);
+    if (!version || version.isDeleteMarker) {
+      throw noSuchKey(input.Key);
+    }
+    if (isArchived(version)) {
+      throw invalidObjectState(version);
+    }
+
+    let body = version.body;
+    let contentRange: string | undefined;
+    if (input.Range) {
+      const [start, end] = parseRange(input.Range, version.body.length);
+      body = version.body.subarray(start, end + 1);
+      contentRange = `bytes ${start}-${end}/${version.body.length}`;
+    }
+
+    return {
+      ...headFields(version),
+      Body: toBody(body),
+      ContentLength: body.length,
+      ContentRange: contentRange,
+    };
+  },
+
+  HeadObjectCommand: async (input: HeadObjectCommandInput) => {
+    const version = findVersion(getBucket(input.Bucket), input.Key, input.VersionId);
+    if (!version || version.isDeleteMarker) {
+      throw new NotFound({ $metadata: metadataOf(404), message: 'Not Found' });
+    }
+    return { ...headFields(version), ContentLength: version.body.length };
+  },
+
+  ListObjectsV2Command: async (input: ListObjectsV2CommandInput) => {
+    const prefix = input.Prefix || '';
+    const maxKeys = input.MaxKeys ?? DEFAULT_MAX_KEYS;
+    // The continuation token is the last key or common prefix of the previous page
+    const after = input.ContinuationToken
+      ? Buffer.from(input.ContinuationToken, 'base64').toString('utf-8')
+      : input.StartAfter || '';
+
+    const contents: _Object[] = [];
+    const commonPrefixes: CommonPrefix[] = [];
+    let lastEntry = '';
+    let isTruncated = false;
+
+    for (const [key, version] of currentObjects(getBucket(input.Bucket))) {
+      if (!key.startsWith(prefix) || key <= after) continue;
+
+      const delimiterIndex = input.Delimiter ? key.indexOf(input.Delimiter, prefix.length) : -1;
+      const commonPrefix = delimiterIndex >= 0
+        ? key.slice(0, delimiterIndex + (input.Delimiter || '').length)
+        : undefined;
+
+      // Later keys under a common prefix that was already listed, on this or an earlier page
+      if (commonPrefix && (commonPrefix === lastEntry || after.startsWith(commonPrefix))) continue;
+
+      if (contents.length + commonPrefixes.length >= maxKeys) {
+        isTruncated = true;
+        break;
+      }
+
+      if (commonPrefix) {
+        commonPrefixes.push({ Prefix: commonPrefix });
+        lastEntry = commonPrefix;
+      } else {
+        contents.push({
+          Key: key,
+          Size: version.body.length,
+          LastModified: version.lastModified,
+          ETag: version.etag,
+          StorageClass: (version.storageClass || 'STANDARD') as _Object['StorageClass'],
+          RestoreStatus: input.OptionalObjectAttributes?.includes('RestoreStatus') && version.restoreExpiry
+            ? { IsRestoreInProgress: false, RestoreExpiryDate: version.restoreExpiry }
+            : undefined,
+        });
+        lastEntry = key;
+      }
+    }
+
+    return {
+      Contents: contents.length > 0 ? contents : undefined,
+      CommonPrefixes: commonPrefixes.length > 0 ? commonPrefixes : undefined,
+      KeyCount: contents.length + commonPrefixes.length,
+      IsTruncated: isTruncated,
+      NextContinuationToken: isTruncated ? Buffer.from(lastEntry).toString('base64') : undefined,
+    };
+  },
+
+  // Returns every matching version in one page
+  ListObjectVersionsCommand: async (input: ListObjectVersionsCommandInput) => {
+    const prefix = input.Prefix || '';
+    const versions: ObjectVersion[] = [];
+    const deleteMarkers: DeleteMarkerEntry[] = [];
+
+    for (const [key, entries] of getBucket(input.Bucket).objects) {
+      if (!key.startsWith(prefix)) continue;
+
+      entries.forEach((entry, index) => {
+        const isLatest = index === entries.length - 1;
+        if (entry.isDeleteMarker) {
+          deleteMarkers.push({ Key: key, VersionId: entry.versionId, IsLatest: isLatest, LastModified: entry.lastModified });
+        } else {
+          versions.push({
+            Key: key,
+            VersionId: entry.versionId,
+            IsLatest: isLatest,
+            LastModified: entry.lastModified,
+            Size: entry.body.length,
+            ETag: entry.etag,
+          });
+        }
+      });
+    }
+
+    return { Versions: versions, DeleteMarkers: deleteMarkers, IsTruncated: false };
+  },
+
+  DeleteObjectCommand: async (input: DeleteObjectCommandInput) => {
+    const bucket = getBucket(input.Bucket);
+    const key = input.Key || '';
+    const versions = bucket.objects.get(key) || [];
+
+    if (input.VersionId) {
+      // Deleting a version removes it for good
+      const remaining = versions.filter(version => version.versionId !== input.VersionId);
+      if (remaining.length > 0) {
+        bucket.objects.set(key, remaining);
+      } else {
+        bucket.objects.delete(key);
+      }
+      return { VersionId: input.VersionId };
+    }
+
+    // Deleting a key only adds a delete marker, like a versioned bucket
+    if (!findVersion(bucket, key)) {
+      return {};
+    }
+    const marker: MemoryObjectVersion = {
+      versionId: randomUUID(),
+      body: Buffer.alloc(0),
+      etag: '',
+      lastModified: now(),
+      tags: [],
+      metadata: {},
+      isDeleteMarker: true,
+    };
+    bucket.objects.set(key, [...versions, marker]);
+    return { DeleteMarker: true, VersionId: marker.versionId };
+  },
+
+  DeleteObjectsCommand: async (input: DeleteObjectsCommandInput) => {
+    const deleted: { Key?: string; VersionId?: string }[] = [];
+    for (const object of input.Delete?.Objects || []) {
+      await handlers.DeleteObjectCommand({ Bucket: input.Bucket, Key: object.Key, VersionId: object.VersionId });
+      deleted.push({ Key: object.Key, VersionId: object.VersionId });
+    }
+    return { Deleted: input.Delete?.Quiet ? undefined : deleted, Errors: undefined };
+  },
+
+  CopyObjectCommand: async (input: CopyObjectCommandInput) => {
+    const source = readCopySource(input.CopySource);
+    const fields = input.MetadataDirective === 'REPLACE'
+      ? fieldsFromInput(input)
+      : {
+        contentType: source.contentType,
+        cacheControl: source.cacheControl,
+        contentDisposition: source.contentDisposition,
+        contentEncoding: source.contentEncoding,
+        metadata: { ...source.metadata },
+        // Like S3, a copy lands in STANDARD unless the request names a storage class
+        storageClass: input.StorageClass || 'STANDARD',
+      };
+
+    const version = addVersion(getBucket(input.Bucket), input.Key || '', fields, Buffer.from(source.body));
+    if (input.TaggingDirective !== 'REPLACE') {
+      version.tags = source.tags.map(tag => ({ ...tag }));
+    }
+    return {
+      CopyObjectResult: { ETag: version.etag, LastModified: version.lastModified },
+      VersionId: version.versionId,
+    };
+  },
+
+  CreateMultipartUploadCommand: async (input: CreateMultipartUploadCommandInput) => {
+    const uploadId = randomUUID();
+    getBucket(input.Bucket).uploads.set(uploadId, {
+      ...fieldsFromInput(input),
+      key: input.Key || '',
+      parts: new Map(),
+    });
+    return { Bucket: input.Bucket, Key: input.Key, UploadId: uploadId };
+  },
+
+  UploadPartCommand: async (input: UploadPartCommandInput) => {
+    const upload = getBucket(input.Bucket).uploads.get(input.UploadId || '');
+    if (!upload) {
+      throw new NoSuchUpload({ $metadata: metadataOf(404), message: `No such upload: ${input.UploadId}` });
+    }
+
+    const body = await toBuffer(input.Body);
+    const etag = `"${md5(body)}"`;
+    upload.parts.set(input.PartNumber || 0, { body, etag, lastModified: now() });
+    return { ETag: etag };
+  },
+
+  UploadPartCopyCommand: async (input: UploadPartCopyCommandInput) => {
+    const upload = getBucket(input.Bucket).uploads.get(input.UploadId || '');
+    if (!upload) {
+      throw new NoSuchUpload({ $metadata: metadataOf(404), message: `No such upload: ${input.UploadId}` });
+    }
+
+    const source = readCopySource(input.CopySource);
+    const [start, end] = input.CopySourceRange
+      ? parseRange(input.CopySourceRange, source.body.length)
+      : [0, source.body.length - 1];
+    const body = Buffer.from(source.body.subarray(start, end + 1));
+    const etag = `"${md5(body)}"`;
+    const lastModified = now();
+    upload.parts.set(input.PartNumber || 0, { body, etag, lastModified });
+    return { CopyPartResult: { ETag: etag, LastModified: lastModified } };
+  },
+
+  // Returns every part in one page
+  ListPartsCommand: async (input: ListPartsCommandInput) => {
+    const upload = getBucket(input.Bucket).uploads.get(input.UploadId || '');
+    if (!upload) {
+      throw new NoSuchUpload({ $metadata: metadataOf(404), message: `No such upload: ${input.UploadId}` });
+    }
+
+    const parts = Array.from(upload.parts.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([partNumber, part]) => ({
+        PartNumber: partNumber,
+        ETag: part.etag,
+        Size: part.body.length,
+        LastModified: part.lastModified,
+      }));
+    return { Parts: parts, IsTruncated: false };
+  },
+
+  CompleteMultipartUploadCommand: async (input: CompleteMultipartUploadCommandInput) => {
+    const bucket = getBucket(input.Bucket);
+    const upload = bucket.uploads.get(input.UploadId || '');
+    if (!upload) {
+      throw new NoSuchUpload({ $metadata: metadataOf(404), message: `No such upload: ${input.UploadId}` });
+    }
+
+    const requested = input.MultipartUpload?.Parts || [];
+    const bodies: Buffer[] = [];
+    for (const requestedPart of requested) {
+      const part = upload.parts.get(requestedPart.PartNumber || 0);
+      if (!part || (requestedPart.ETag && requestedPart.ETag !== part.etag)) {
+        throw invalidRequest(`Invalid part ${requestedPart.PartNumber}`);
+      }
+      bodies.push(part.body);
+    }
+
+    // Multipart ETags are the MD5 of the part MD5s plus the part count
+    const partHashes = Buffer.concat(bodies.map(body => createHash('md5').update(body).digest()));
+    const version = addVersion(
+      bucket,
+      upload.key,
+      upload,
+      Buffer.concat(bodies),
+      `"${md5(partHashes)}-${bodies.length}"`
+    );
+    bucket.uploads.delete(input.UploadId || '');
+    return { Bucket: input.Bucket, Key: upload.key, ETag: version.etag, VersionId: version.versionId };
+  },
+
+  AbortMultipartUploadCommand: async (input: AbortMultipartUploadCommandInput) => {
+    const bucket = getBucket(input.Bucket);
+    if (!bucket.uploads.delete(input.UploadId || '')) {
+      throw new NoSuchUpload({ $metadata: metadataOf(404), message: `No such upload: ${input.UploadId}` });
+    }
+    return {};
+  },
+
+  GetObjectTaggingCommand: async (input: GetObjectTaggingCommandInput) => {
+    const version = findVersion(getBucket(input.Bucket), input.Key, input.VersionId);
+    if (!version) {
+      throw noSuchKey(input.Key);
+    }
+    return { TagSet: version.tags.map(tag => ({ ...tag })), VersionId: version.versionId };
+  },
+
+  PutObjectTaggingCommand: async (input: PutObjectTaggingCommandInput) => {
+    const version = findVersion(getBucket(input.Bucket), input.Key, input.VersionId);
+    if (!version) {
+      throw noSuchKey(input.Key);
+    }
+    version.tags = (input.Tagging?.TagSet || []).map(tag => ({ Key: tag.Key, Value: tag.Value }));
+    return { VersionId: version.versionId };
+  },
+
+  // The restored copy is available right away; restoring again extends it
+  RestoreObjectCommand: async (input: RestoreObjectCommandInput) => {
+    const version = findVersion(getBucket(input.Bucket), input.Key, input.VersionId);
+    if (!version) {
+      throw noSuchKey(input.Key);
+    }
+    if (!ARCHIVE_STORAGE_CLASSES.has(version.storageClass || '')) {
+      throw new InvalidObjectState({
+        $metadata: metadataOf(403),
+        message: "Restore is not allowed for the object's current storage class",
+      });
+    }
+    version.restoreExpiry = new Date(Date.now() + (input.RestoreRequest?.Days || 1) * DAY_MS);
+    return {};
+  },
+
+  GetBucketVersioningCommand: async (input: GetBucketVersioningCommandInput) => ({
+    Status: getBucket(input.Bucket).versioning,
+  }),
+
+  PutBucketVersioningCommand: async (input: PutBucketVersioningCommandInput) => {
+    const status = input.VersioningConfiguration?.Status;
+    if (status !== 'Enabled' && status !== 'Suspended') {
+      throw invalidRequest(`Invalid versioning status: ${status}`);
+    }
+    getBucket(input.Bucket).versioning = status;
+    return {};
+  },
+
+  GetBucketLifecycleConfigurationCommand: async (input: GetBucketLifecycleConfigurationCommandInput) => {
+    const bucket = getBucket(input.Bucket);
+    if (!bucket.lifecycleRules) {
+      throw notConfigured('NoSuchLifecycleConfiguration', 'The lifecycle configuration does not exist');
+    }
+    return { Rules: structuredClone(bucket.lifecycleRules) };
+  },
+
+  PutBucketLifecycleConfigurationCommand: async (input: PutBucketLifecycleConfigurationCommandInput) => {
+    const rules = input.LifecycleConfiguration?.Rules || [];
+    if (rules.length === 0) {
+      throw invalidRequest('The lifecycle configuration must have at least one rule');
+    }
+    getBucket(input.Bucket).lifecycleRules = structuredClone(rules);
+    return {};
+  },
+
+  DeleteBucketLifecycleCommand: async (input: DeleteBucketLifecycleCommandInput) => {
+    getBucket(input.Bucket).lifecycleRules = undefined;
+    return {};
+  },
+
+  GetBucketCorsCommand: async (input: GetBucketCorsCommandInput) => {
+    const bucket = getBucket(input.Bucket);
+    if (!bucket.corsRules) {
+      throw notConfigured('NoSuchCORSConfiguration', 'The CORS configuration does not exist');
+    }
+    return { CORSRules: structuredClone(bucket.corsRules) };
+  },
+
+  PutBucketCorsCommand: async (input: PutBucketCorsCommandInput) => {
+    const rules = input.CORSConfiguration?.CORSRules || [];
+    if (rules.length === 0) {
+      throw invalidRequest('The CORS configuration must have at least one rule');
+    }
+    getBucket(input.Bucket).corsRules = structuredClone(rules);
+    return {};
+  },
+
+  DeleteBucketCorsCommand: async (input: DeleteBucketCorsCommandInput) => {
+    getBucket(input.Bucket).corsRules = undefined;
+    return {};
+  },
+
+  GetBucketPolicyCommand: async (input: GetBucketPolicyCommandInput) => {
+    const bucket = getBucket(input.Bucket);
+    if (bucket.policy === undefined) {
+      throw notConfigured('NoSuchBucketPolicy', 'The bucket policy does not exist');
+    }
+    return { Policy: bucket.policy };
+  },
+
+  PutBucketPolicyCommand: async (input: PutBucketPolicyCommandInput) => {
+    try {
+      JSON.parse(input.Policy || '');
+    } catch {
+      throw new S3ServiceException({
+        name: 'MalformedPolicy',
+        $fault: 'client',
+        $metadata: metadataOf(400),
+        message: 'Policies must be valid JSON',
+      });
+    }
+    getBucket(input.Bucket).policy = input.Policy;
+    return {};
+  },
+
+  DeleteBucketPolicyCommand: async (input: DeleteBucketPolicyCommandInput) => {
+    getBucket(input.Bucket).policy = undefined;
+    return {};
+  },
+};
+
+type MemoryCommandName = keyof typeof handlers;
+
+/**
+ * Create an S3 client backed by process memory.
+ * All memory clients share the same buckets.
+ */
+export const createMemoryS3Client = (config: Pick<S3Config, 'region'>): S3Client => {
+  const client = new S3Client({
+    region: config.region,
+    endpoint: MEMORY_ENDPOINT,
+    forcePathStyle: true,
+    credentials: { accessKeyId: 'memory', secretAccessKey: 'memory' },
+    maxAttempts: 1,
+  });
+
+  const inputs = new WeakMap<object, unknown>();
+
+  // Remember the command input, the later steps only see the serialized HTTP request
+  client.middlewareStack.add(
+    (next, context) => async (args) => {
+      inputs.set(context, args.input);
+      return next(args);
+    },
+    { step: 'initialize', name: 'memoryS3CaptureInput', priority: 'high' }
+  );
+
+  // Answer before anything is sent. Pre-signing stops earlier, in the finalize step.
+  client.middlewareStack.add(
+    (next, context) => async () => {
+      const commandName = context.commandName as MemoryCommandName;
+      const handler = handlers[commandName] as ((input: unknown) => Promise<object>) | undefined;
+      if (!handler) {
+        throw new Error(`${context.commandName} is not supported by the in-memory S3 backend`);
+      }
+
+      const output = await handler(inputs.get(context));
+      return {
+        response: {},
+        output: { ...output, $metadata: metadataOf(200) },
+      };
+    },
+    { step: 'deserialize', name: 'memoryS3Backend', priority: 'high' }
+  );
+
+  return client;
+};
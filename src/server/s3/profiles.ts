@@ -0,0 +1,203 @@
+/**
+ * S3 connection profiles
+ *
+ * A profile bundles the region, credentials and optional custom endpoint of one account
+ * or S3-compatible service. Profiles live server-side in the S3_PROFILES environment
+ * variable (a JSON array) so credentials never reach the browser, e.g.
+ *
+ *   [{ "id": "archive", "name": "Archive (EU)", "region": "eu-west-1",
+ *      "accessKeyId": "...", "secretAccessKey": "...",
+ *      "defaultBucket": "archive-bucket", "buckets": ["archive-bucket"] }]
+ *
+ * S3-compatible services (MinIO, LocalStack, R2, Ceph) take an endpoint and usually
+ * "forcePathStyle": true. TLS can be tuned with "tls", "rejectUnauthorized" and "caBundle"
+ * (path to a PEM file), and "backend": "memory" gives an offline in-memory store.
+ * "rootPrefix" confines the profile to one folder of the bucket; keys outside it cannot
+ * be read, written, listed or presigned.
+ *
+ * A "default" profile built from the AWS_* and S3_* variables is always available unless
+ * S3_PROFILES defines its own "default". Its root prefix comes from S3_ROOT_PREFIX
+ * (or the older APP_FOLDER_PREFIX).
+ */
+
+import { S3Client } from '@aws-sdk/client-s3';
+import { S3Config, createS3Client, getDefaultS3Config, readCaCertificates } from './sdk';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface S3Profile {
+  id: string;
+  name: string;
+  config: S3Config;
+  // When set, only these buckets can be browsed with the profile
+  buckets?: string[];
+}
+
+// Profile details that are safe to send to the browser
+export interface S3ProfileInfo {
+  id: string;
+  name: string;
+  region: string;
+  endpoint?: string;
+  defaultBucket?: string;
+  buckets?: string[];
+  rootPrefix?: string;
+}
+
+// The client and bucket a request runs against
+export interface S3Target {
+  profileId: string;
+  client: S3Client;
+  bucketName: string;
+}
+
+// Shape of one entry in S3_PROFILES
+interface S3ProfileDefinition {
+  id: string;
+  name?: string;
+  region?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  tls?: boolean;
+  rejectUnauthorized?: boolean;
+  caBundle?: string;
+  backend?: 'aws' | 'memory';
+  rootPrefix?: string;
+  defaultBucket?: string;
+  buckets?: string[];
+}
+
+let profiles: Map<string, S3Profile> | null = null;
+const clients = new Map<string, S3Client>();
+
+const toProfile = (definition: S3ProfileDefinition): S3Profile => {
+  if (!definition.id) {
+    throw new Error('Every entry in S3_PROFILES needs an id');
+  }
+
+  const defaults = getDefaultS3Config();
+
+  return {
+    id: definition.id,
+    name: definition.name || definition.id,
+    config: {
+      region: definition.region || defaults.region,
+      bucketName: definition.defaultBucket || definition.buckets?.[0] || '',
+      credentials: definition.accessKeyId && definition.secretAccessKey
+        ? { accessKeyId: definition.accessKeyId, secretAccessKey: definition.secretAccessKey }
+        : undefined,
+      endpoint: definition.endpoint,
+      forcePathStyle: definition.forcePathStyle,
+      tls: definition.tls,
+      rejectUnauthorized: definition.rejectUnauthorized,
+      caCertificates: readCaCertificates(definition.caBundle),
+      backend: definition.backend,
+      rootPrefix: definition.rootPrefix,
+    },
+    buckets: definition.buckets,
+  };
+};
+
+const loadProfiles = (): Map<string, S3Profile> => {
+  const loaded = new Map<string, S3Profile>();
+
+  loaded.set(DEFAULT_PROFILE_ID, {
+    id: DEFAULT_PROFILE_ID,
+    name: 'Default',
+    config: getDefaultS3Config(),
+  });
+
+  if (process.env.S3_PROFILES) {
+    let definitions: S3ProfileDefinition[];
+    try {
+      definitions = JSON.parse(process.env.S3_PROFILES);
+    } catch (error) {
+      throw new Error(`S3_PROFILES is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!Array.isArray(definitions)) {
+      throw new Error('S3_PROFILES must be a JSON array of profiles');
+    }
+
+    for (const definition of definitions) {
+      const profile = toProfile(definition);
+      loaded.set(profile.id, profile);
+    }
+  }
+
+  return loaded;
+};
+
+/**
+ * All configured profiles, the default profile first
+ */
+export const getProfiles = (): S3Profile[] => {
+  if (!profiles) {
+    profiles = loadProfiles();
+  }
+  return Array.from(profiles.values());
+};
+
+/**
+ * Look up a profile by id
+ * @throws When no profile has the given id
+ */
+export const getProfile = (profileId: string = DEFAULT_PROFILE_ID): S3Profile => {
+  const profile = getProfiles().find(candidate => candidate.id === profileId);
+  if (!profile) {
+    throw new Error(`Unknown S3 profile: ${profileId}`);
+  }
+  return profile;
+};
+
+/**
+ * Strip credentials from a profile before it is sent to the client
+ */
+export const toProfileInfo = (profile: S3Profile): S3ProfileInfo => ({
+  id: profile.id,
+  name: profile.name,
+  region: profile.config.region,
+  endpoint: profile.config.endpoint,
+  defaultBucket: profile.config.bucketName || undefined,
+  buckets: profile.buckets,
+  rootPrefix: profile.config.rootPrefix || undefined,
+});
+
+/**
+ * The S3 client of a profile, created once and reused
+ */
+export const getProfileClient = (profile: S3Profile): S3Client => {
+  let client = clients.get(profile.id);
+  if (!client) {
+    client = createS3Client(profile.config);
+    clients.set(profile.id, client);
+  }
+  return client;
+};
+
+/**
+ * Resolve the profile and bucket a request asked for
+ * @param profileId The profile id, defaults to the default profile
+ * @param bucket The bucket name, defaults to the profile's default bucket
+ * @throws When the profile is unknown or the bucket is not allowed for it
+ */
+export const resolveS3Target = (profileId?: string, bucket?: string): S3Target => {
+  const profile = getProfile(profileId || DEFAULT_PROFILE_ID);
+  const bucketName = bucket || profile.config.bucketName;
+
+  if (!bucketName) {
+    throw new Error(`No bucket selected and profile ${profile.id} has no default bucket`);
+  }
+
+  if (profile.buckets && !profile.buckets.includes(bucketName)) {
+    throw new Error(`Bucket ${bucketName} is not available in profile ${profile.id}`);
+  }
+
+  return {
+    profileId: profile.id,
+    client: getProfileClient(profile),
+    bucketName,
+  };
+};
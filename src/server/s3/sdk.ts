@@ -4,16 +4,40 @@ import {
   GetObjectCommand,
   ListObjectsV2Command,
   DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListBucketsCommand,
+  HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  ListPartsCommandOutput,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  CopyObjectCommand,
+  UploadPartCopyCommand,
+  ListObjectVersionsCommand,
+  ListObjectVersionsCommandOutput,
+  GetObjectTaggingCommand,
+  PutObjectTaggingCommand,
+  RestoreObjectCommand,
   S3ClientConfig,
   ListObjectsV2CommandOutput,
   GetObjectCommandOutput,
+  HeadObjectCommandOutput,
+  _Object,
+  StorageClass,
+  Tier,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { isInternalKey } from './internalPrefixes';
+import { Agent } from 'https';
+import { readFileSync } from 'fs';
+import { Readable } from 'stream';
+import { createMemoryS3Client } from './memoryBackend';
 
-const AWS_BUCKET_NAME = "app-template-1252343"
-// Constants
-// const APP_FOLDER_PREFIX = appConfig.appName.replace(/\s/g, '_') + '/'
-const APP_FOLDER_PREFIX = ''
+const AWS_BUCKET_NAME = process.env.AWS_BUCKET_NAME || "app-template-1252343"
+// Root folder of the default client, e.g. the app or tenant name. Empty uses the whole bucket.
+const APP_FOLDER_PREFIX = process.env.S3_ROOT_PREFIX || process.env.APP_FOLDER_PREFIX || ''
 
 // S3 Configuration
 export interface S3Config {
@@ -23,8 +47,27 @@ export interface S3Config {
     accessKeyId: string;
     secretAccessKey: string;
   };
+  // Custom endpoint for S3-compatible services, e.g. "https://minio.internal:9000"
+  endpoint?: string;
+  // Address buckets as <endpoint>/<bucket> instead of <bucket>.<endpoint>
+  forcePathStyle?: boolean;
+  // Set to false to use plain HTTP when the endpoint has no scheme
+  tls?: boolean;
+  // Set to false to accept self-signed certificates (development only)
+  rejectUnauthorized?: boolean;
+  // PEM encoded CA certificates to trust, for endpoints with a private CA
+  caCertificates?: string;
+  // 'memory' answers every request from process memory, see memoryBackend.ts
+  backend?: 'aws' | 'memory';
+  // Folder every key of the client lives under, e.g. "tenant-a/". Keys outside it cannot be reached.
+  rootPrefix?: string;
 }
 
+// Read the PEM bundle at the given path, if any
+export const readCaCertificates = (path?: string): string | undefined => {
+  return path ? readFileSync(path, 'utf-8') : undefined;
+};
+
 // Default configuration - uses environment variables
 const defaultConfig: S3Config = {
   region: process.env.AWS_REGION || 'us-east-1',
@@ -35,6 +78,13 @@ const defaultConfig: S3Config = {
       secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
     }
     : undefined,
+  endpoint: process.env.S3_ENDPOINT || undefined,
+  forcePathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : undefined,
+  tls: process.env.S3_TLS ? process.env.S3_TLS !== 'false' : undefined,
+  rejectUnauthorized: process.env.S3_TLS_REJECT_UNAUTHORIZED !== 'false',
+  caCertificates: readCaCertificates(process.env.S3_CA_BUNDLE),
+  backend: process.env.S3_BACKEND === 'memory' ? 'memory' : 'aws',
+  rootPrefix: APP_FOLDER_PREFIX,
 };
 
 // Types
@@ -45,6 +95,97 @@ export interface S3File {
   url?: string;
   isFolder?: boolean;
   fileCount?: number;
+  // Storage class of a file, STANDARD when S3 does not report one
+  storageClass?: string;
+  // Restore state of an archived file, when a restore was requested
+  restore?: S3RestoreStatus;
+}
+
+// State of a restore requested for an archived object
+export interface S3RestoreStatus {
+  // The restored copy is still being prepared
+  ongoing: boolean;
+  // When a finished restore is removed again
+  expiryDate?: Date;
+}
+
+export interface S3FolderStats {
+  fileCount: number;
+  size: number;
+  lastModified?: Date;
+}
+
+export type S3FolderStatsResolver = (folderKey: string) => Promise<S3FolderStats>;
+
+export interface S3ListOptions {
+  pageSize?: number;
+  continuationToken?: string;
+  // Custom source for folder stats, e.g. a persisted index (defaults to a live scan)
+  resolveFolderStats?: S3FolderStatsResolver;
+}
+
+export interface S3FileListPage {
+  files: S3File[];
+  nextContinuationToken?: string;
+}
+
+export interface S3ObjectPage {
+  files: S3File[];
+  // More objects follow the last one on this page
+  isTruncated: boolean;
+}
+
+export interface S3FileContent {
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface S3FileRange extends S3FileContent {
+  // Offset of the first returned byte within the object
+  offset: number;
+  // Size of the whole object
+  totalSize: number;
+}
+
+export interface S3UploadPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+export interface S3ObjectVersion {
+  versionId: string;
+  size: number;
+  lastModified: Date;
+  isLatest: boolean;
+  // Delete markers hide the object without removing older versions
+  isDeleteMarker: boolean;
+  etag?: string;
+}
+
+export interface S3Bucket {
+  name: string;
+  creationDate?: Date;
+}
+
+// Editable system and user metadata of an object
+export interface S3ObjectMetadata {
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  // User metadata, stored as x-amz-meta-* headers
+  metadata?: Record<string, string>;
+}
+
+export interface S3ObjectTag {
+  key: string;
+  value: string;
+}
+
+export interface S3DeleteResult {
+  deleted: string[];
+  failed: { key: string; error: string }[];
 }
 
 export interface S3UploadParams {
@@ -53,12 +194,85 @@ export interface S3UploadParams {
   contentType?: string;
 }
 
-// Create S3 client with configuration
-export const createS3Client = (config: S3Config = defaultConfig): S3Client => {
+// Root prefix of each client created by createS3Client
+const rootPrefixes = new WeakMap<S3Client, string>();
+
+// Split a key into its path segments, treating backslashes like slashes
+const getKeySegments = (key: string): string[] => key.split(/[\\/]/);
+
+// Normalize a root prefix to "a/b/" form, or '' for the whole bucket
+const normalizeRootPrefix = (rootPrefix?: string): string => {
+  const trimmed = (rootPrefix || '').replace(/^\/+|\/+$/g, '');
+  if (!trimmed) return '';
+
+  if (getKeySegments(trimmed).some(segment => segment === '..' || segment === '')) {
+    throw new Error(`Invalid root prefix: ${rootPrefix}`);
+  }
+  return `${trimmed}/`;
+};
+
+// Get the root prefix of a client
+export const getRootPrefix = (client: S3Client): string => {
+  return rootPrefixes.get(client) || '';
+};
+
+/**
+ * Map a key relative to the client's root prefix to the stored object key
+ * @throws When the key is absolute or contains ".." segments
+ */
+export const resolveKey = (key: string, client: S3Client): string => {
+  if (key.startsWith('/') || key.startsWith('\\')) {
+    throw new Error(`Absolute keys are not allowed: ${key}`);
+  }
+  if (getKeySegments(key).includes('..')) {
+    throw new Error(`Keys may not contain "..": ${key}`);
+  }
+  return `${getRootPrefix(client)}${key}`;
+};
+
+/**
+ * Map a stored object key back to a key relative to the client's root prefix
+ * @throws When the object lies outside the root prefix
+ */
+export const toRelativeKey = (key: string, client: S3Client): string => {
+  const rootPrefix = getRootPrefix(client);
+  if (!key.startsWith(rootPrefix)) {
+    throw new Error(`Key is outside the root folder: ${key}`);
+  }
+  return key.slice(rootPrefix.length);
+};
+
+// Create a client for AWS or an S3-compatible endpoint
+const createAwsS3Client = (config: S3Config): S3Client => {
   const clientConfig: S3ClientConfig = {
     region: config.region,
+    // Buckets of one account can live in several regions
+    followRegionRedirects: true,
   };
 
+  if (config.endpoint) {
+    clientConfig.endpoint = config.endpoint;
+  }
+
+  if (config.forcePathStyle !== undefined) {
+    clientConfig.forcePathStyle = config.forcePathStyle;
+  }
+
+  if (config.tls !== undefined) {
+    clientConfig.tls = config.tls;
+  }
+
+  // Custom certificate checks need their own HTTPS agent
+  if (config.rejectUnauthorized === false || config.caCertificates) {
+    clientConfig.requestHandler = {
+      httpsAgent: new Agent({
+        keepAlive: true,
+        rejectUnauthorized: config.rejectUnauthorized !== false,
+        ca: config.caCertificates,
+      }),
+    };
+  }
+
   if (config.credentials) {
     clientConfig.credentials = {
       accessKeyId: config.credentials.accessKeyId,
@@ -69,6 +283,17 @@ export const createS3Client = (config: S3Config = defaultConfig): S3Client => {
   return new S3Client(clientConfig);
 };
 
+// Create S3 client with configuration
+export const createS3Client = (config: S3Config = defaultConfig): S3Client => {
+  const rootPrefix = normalizeRootPrefix(config.rootPrefix);
+  const client = config.backend === 'memory'
+    ? createMemoryS3Client(config)
+    : createAwsS3Client(config);
+
+  rootPrefixes.set(client, rootPrefix);
+  return client;
+};
+
 // Get the default S3 client
 export const getS3Client = (): S3Client => {
   return createS3Client();
@@ -79,29 +304,42 @@ export const getDefaultBucketName = (): string => {
   return defaultConfig.bucketName;
 };
 
+// Get the configuration built from the environment
+export const getDefaultS3Config = (): S3Config => {
+  return defaultConfig;
+};
+
+// List the buckets the client's credentials can see
+export const listBuckets = async (
+  client: S3Client = getS3Client()
+): Promise<S3Bucket[]> => {
+  const response = await client.send(new ListBucketsCommand({}));
+
+  return (response.Buckets || [])
+    .filter(bucket => !!bucket.Name)
+    .map(bucket => ({ name: bucket.Name as string, creationDate: bucket.CreationDate }));
+};
+
 // Upload a file to S3
 export const uploadFile = async (
   params: S3UploadParams,
   client: S3Client = getS3Client(),
   bucketName: string = getDefaultBucketName()
 ): Promise<string> => {
-  // Ensure the fileName doesn't already have the APP_FOLDER_PREFIX
-  const fileName = params.fileName.startsWith(APP_FOLDER_PREFIX)
-    ? params.fileName
-    : `${APP_FOLDER_PREFIX}${params.fileName}`;
+  const key = resolveKey(params.fileName, client);
 
-  // console.log('Uploading file with key:', fileName);
+  // console.log('Uploading file with key:', key);
 
   const command = new PutObjectCommand({
     Bucket: bucketName,
-    Key: fileName,
+    Key: key,
     Body: params.content,
     ContentType: params.contentType || 'application/octet-stream',
   });
 
   await client.send(command);
-  // Return the key without the APP_FOLDER_PREFIX for consistency
-  return fileName.replace(APP_FOLDER_PREFIX, '');
+  // Return the key relative to the root prefix for consistency
+  return params.fileName;
 };
 
 // Get a file from S3
@@ -110,10 +348,7 @@ export const getFile = async (
   client: S3Client = getS3Client(),
   bucketName: string = getDefaultBucketName()
 ): Promise<GetObjectCommandOutput> => {
-  // Ensure the fileName has the APP_FOLDER_PREFIX
-  const key = fileName.startsWith(APP_FOLDER_PREFIX)
-    ? fileName
-    : `${APP_FOLDER_PREFIX}${fileName}`;
+  const key = resolveKey(fileName, client);
 
   // console.log('Getting file with key:', key);
 
@@ -141,106 +376,323 @@ export const getFileAsString = async (
   return streamReader;
 };
 
-// List files in the app folder
-export const listFiles = async (
-  prefix?: string,
+// Maximum number of keys S3 returns in a single ListObjectsV2 call
+const MAX_LIST_PAGE_SIZE = 1000;
+
+// Get a file as raw bytes together with its stored content type
+export const getFileAsBuffer = async (
+  fileName: string,
   client: S3Client = getS3Client(),
   bucketName: string = getDefaultBucketName()
-): Promise<S3File[]> => {
-  const fullPrefix = prefix
-    ? `${APP_FOLDER_PREFIX}${prefix}`
-    : APP_FOLDER_PREFIX;
+): Promise<S3FileContent> => {
+  const response = await getFile(fileName, client, bucketName);
 
+  if (!response.Body) {
+    throw new Error('File body is empty');
+  }
+
+  const bytes = await response.Body.transformToByteArray();
+  return {
+    content: Buffer.from(bytes),
+    contentType: response.ContentType,
+  };
+};
 
-  // First, get all objects to count files in folders and calculate total sizes
-  const allObjectsCommand = new ListObjectsV2Command({
+// Get a byte range of a file, start and end are inclusive offsets
+export const getFileRange = async (
+  fileName: string,
+  start: number,
+  end: number,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<GetObjectCommandOutput> => {
+  const key = resolveKey(fileName, client);
+
+  const command = new GetObjectCommand({
     Bucket: bucketName,
+    Key: key,
+    Range: `bytes=${start}-${end}`,
   });
 
-  const allObjectsResponse = await client.send(allObjectsCommand);
+  return client.send(command);
+};
 
+// Get up to `length` bytes of a file starting at `offset`, clamped to the object size
+export const getFileRangeAsBuffer = async (
+  fileName: string,
+  offset: number,
+  length: number,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3FileRange> => {
+  // S3 rejects ranges past the end, so the size is needed first (e.g. when following a log)
+  const head = await headFile(fileName, client, bucketName);
+  const totalSize = head.ContentLength || 0;
+  const start = Math.min(Math.max(0, offset), totalSize);
+  const end = Math.min(start + length, totalSize) - 1;
 
-  // Create maps to track folder stats
-  const folderCounts: Record<string, number> = {};
-  const folderSizes: Record<string, number> = {};
+  if (end < start) {
+    return { content: Buffer.alloc(0), contentType: head.ContentType, offset: start, totalSize };
+  }
 
-  if (allObjectsResponse.Contents) {
-    for (const item of allObjectsResponse.Contents) {
-      if (!item.Key) continue;
+  const response = await getFileRange(fileName, start, end, client, bucketName);
+  if (!response.Body) {
+    throw new Error('File body is empty');
+  }
 
-      // Skip the current directory marker
-      if (item.Key === fullPrefix) continue;
+  const bytes = await response.Body.transformToByteArray();
+  return {
+    content: Buffer.from(bytes),
+    contentType: response.ContentType,
+    offset: start,
+    totalSize,
+  };
+};
 
-      // Get the relative path from the current prefix
-      const relativePath = item.Key.replace(fullPrefix, '');
+// Tail reads go backwards from the end in chunks of this size, up to the byte limit
+const TAIL_CHUNK_SIZE = 64 * 1024;
+const MAX_TAIL_BYTES = 8 * 1024 * 1024;
 
-      // Skip empty paths
-      if (!relativePath) continue;
+// Index where the last `lines` lines of the content start, or null if it has fewer line breaks
+const findTailStart = (content: Buffer, lines: number): number | null => {
+  let position = content.length;
+  // A final line break ends the last line rather than starting an empty one
+  if (content[position - 1] === 0x0a) {
+    position--;
+  }
 
-      // Count files in folders and sum up sizes
-      const parts = relativePath.split('/');
+  for (let found = 0; found < lines; found++) {
+    const index = position > 0 ? content.lastIndexOf(0x0a, position - 1) : -1;
+    if (index === -1) {
+      return null;
+    }
+    position = index;
+  }
 
-      // If we're at the root and this is a file (no trailing slash)
-      if (parts.length === 1 && !item.Key.endsWith('/')) {
-        // This is a file at the current level, not in a subfolder
-        continue;
-      }
+  return position + 1;
+};
 
-      // If this is a folder at the current level
-      if (parts.length === 1 && item.Key.endsWith('/')) {
-        // This is a folder at the current level
-        const folderName = parts[0];
-        // Initialize counts if needed, but don't increment
-        if (!folderCounts[folderName]) {
-          folderCounts[folderName] = 0;
-          folderSizes[folderName] = 0;
-        }
-        continue;
-      }
+/**
+ * Get the last lines of a file without reading all of it.
+ * At most 8 MB are read; when the lines are longer than that, the result starts at the
+ * first line break within that window so it never begins with a partial line.
+ */
+export const getFileTail = async (
+  fileName: string,
+  lines: number,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3FileRange> => {
+  const head = await headFile(fileName, client, bucketName);
+  const totalSize = head.ContentLength || 0;
+  let start = totalSize;
+  let content = Buffer.alloc(0);
+  let tailStart: number | null = null;
 
-      // This is a file in a subfolder
-      if (parts.length > 1 && parts[0]) {
-        const folderName = parts[0];
+  while (start > 0 && totalSize - start < MAX_TAIL_BYTES) {
+    const chunkStart = Math.max(0, start - TAIL_CHUNK_SIZE, totalSize - MAX_TAIL_BYTES);
+    const response = await getFileRange(fileName, chunkStart, start - 1, client, bucketName);
+    if (!response.Body) {
+      throw new Error('File body is empty');
+    }
 
-        // Only count actual files, not subfolder markers
-        if (!relativePath.endsWith('/')) {
-          folderCounts[folderName] = (folderCounts[folderName] || 0) + 1;
-          folderSizes[folderName] = (folderSizes[folderName] || 0) + (item.Size || 0);
-        }
-      }
+    content = Buffer.concat([Buffer.from(await response.Body.transformToByteArray()), content]);
+    start = chunkStart;
+
+    tailStart = findTailStart(content, lines);
+    if (tailStart !== null) {
+      break;
     }
   }
 
-  // Now get the actual listing with delimiter for proper folder structure
-  const command = new ListObjectsV2Command({
+  if (tailStart === null) {
+    // The whole file has fewer lines, or the limit was reached mid-line
+    const firstBreak = content.indexOf(0x0a);
+    tailStart = start === 0 || firstBreak === -1 ? 0 : firstBreak + 1;
+  }
+
+  return {
+    content: content.subarray(tailStart),
+    contentType: head.ContentType,
+    offset: start + tailStart,
+    totalSize,
+  };
+};
+
+// Get a specific version of a file as raw bytes
+export const getFileVersionAsBuffer = async (
+  fileName: string,
+  versionId: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3FileContent> => {
+  const response = await client.send(new GetObjectCommand({
     Bucket: bucketName,
-    Prefix: fullPrefix,
-    Delimiter: '/' // This helps identify folders properly
-  });
+    Key: resolveKey(fileName, client),
+    VersionId: versionId,
+  }));
 
-  const response: ListObjectsV2CommandOutput = await client.send(command);
+  if (!response.Body) {
+    throw new Error('File body is empty');
+  }
+
+  const bytes = await response.Body.transformToByteArray();
+  return {
+    content: Buffer.from(bytes),
+    contentType: response.ContentType,
+  };
+};
+
+// List all versions and delete markers of a single file, newest first
+export const listObjectVersions = async (
+  fileName: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3ObjectVersion[]> => {
+  const key = resolveKey(fileName, client);
+  const versions: S3ObjectVersion[] = [];
+  let keyMarker: string | undefined;
+  let versionIdMarker: string | undefined;
+
+  do {
+    const response: ListObjectVersionsCommandOutput = await client.send(new ListObjectVersionsCommand({
+      Bucket: bucketName,
+      Prefix: key,
+      KeyMarker: keyMarker,
+      VersionIdMarker: versionIdMarker,
+    }));
+
+    // The prefix also matches longer keys, e.g. "a.txt" matches "a.txt.bak"
+    for (const version of response.Versions || []) {
+      if (version.Key !== key || !version.VersionId) continue;
+      versions.push({
+        versionId: version.VersionId,
+        size: version.Size || 0,
+        lastModified: version.LastModified || new Date(0),
+        isLatest: !!version.IsLatest,
+        isDeleteMarker: false,
+        etag: version.ETag,
+      });
+    }
+
+    for (const marker of response.DeleteMarkers || []) {
+      if (marker.Key !== key || !marker.VersionId) continue;
+      versions.push({
+        versionId: marker.VersionId,
+        size: 0,
+        lastModified: marker.LastModified || new Date(0),
+        isLatest: !!marker.IsLatest,
+        isDeleteMarker: true,
+      });
+    }
+
+    if (response.IsTruncated) {
+      keyMarker = response.NextKeyMarker;
+      versionIdMarker = response.NextVersionIdMarker;
+    } else {
+      keyMarker = undefined;
+    }
+  } while (keyMarker);
+
+  return versions.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+};
+
+// List every object under a prefix, following continuation tokens
+export const listAllObjects = async (
+  prefix?: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<_Object[]> => {
+  const objects: _Object[] = [];
+  let continuationToken: string | undefined;
 
+  do {
+    const response: ListObjectsV2CommandOutput = await client.send(new ListObjectsV2Command({
+      Bucket: bucketName,
+      Prefix: resolveKey(prefix || '', client),
+      ContinuationToken: continuationToken,
+    }));
+
+    for (const object of response.Contents || []) {
+      objects.push({ ...object, Key: object.Key && toRelativeKey(object.Key, client) });
+    }
+
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return objects;
+};
+
+// Compute recursive stats for a folder by scanning only the objects under it
+export const getFolderStats = async (
+  folderKey: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3FolderStats> => {
+  const folderPrefix = folderKey.endsWith('/') ? folderKey : `${folderKey}/`;
+  const objects = await listAllObjects(folderPrefix, client, bucketName);
+
+  const stats: S3FolderStats = { fileCount: 0, size: 0 };
+
+  for (const item of objects) {
+    // Only count actual files, not folder markers at any depth nor the app's bookkeeping
+    if (!item.Key || item.Key.endsWith('/') || isInternalKey(item.Key)) continue;
+
+    stats.fileCount += 1;
+    stats.size += item.Size || 0;
+
+    if (item.LastModified && (!stats.lastModified || item.LastModified > stats.lastModified)) {
+      stats.lastModified = item.LastModified;
+    }
+  }
+
+  return stats;
+};
+
+// Number of folders whose stats are computed in parallel for a single page
+const FOLDER_STATS_CONCURRENCY = 5;
+
+// Fill in fileCount, size and lastModified for the folder entries of a listing
+const applyFolderStats = async (
+  files: S3File[],
+  resolveStats: S3FolderStatsResolver
+): Promise<void> => {
+  const folders = files.filter(file => file.isFolder);
+
+  for (let i = 0; i < folders.length; i += FOLDER_STATS_CONCURRENCY) {
+    const batch = folders.slice(i, i + FOLDER_STATS_CONCURRENCY);
+
+    await Promise.all(batch.map(async (folder) => {
+      const stats = await resolveStats(folder.key);
+      folder.fileCount = stats.fileCount;
+      folder.size = stats.size;
+      if (stats.lastModified) {
+        folder.lastModified = new Date(stats.lastModified);
+      }
+    }));
+  }
+};
+
+// Convert a delimited ListObjectsV2 response into S3File entries
+const toS3Files = (
+  response: ListObjectsV2CommandOutput,
+  fullPrefix: string,
+  client: S3Client
+): S3File[] => {
   const result: S3File[] = [];
 
   // Process common prefixes (folders)
   if (response.CommonPrefixes) {
     for (const prefix of response.CommonPrefixes) {
       if (prefix.Prefix) {
-        const folderKey = prefix.Prefix.replace(APP_FOLDER_PREFIX, '');
-        // Extract folder name from the path
-        const folderName = folderKey.split('/').filter(p => p).pop() || folderKey;
-
-        // Get the simple folder name (without path)
-        const simpleFolderName = folderName.endsWith('/')
-          ? folderName.slice(0, -1)
-          : folderName;
+        const folderKey = toRelativeKey(prefix.Prefix, client);
 
         result.push({
           key: folderKey,
-          size: folderSizes[simpleFolderName] || 0,
+          size: 0,
           lastModified: new Date(),
           isFolder: true,
-          fileCount: folderCounts[simpleFolderName] || 0
+          fileCount: 0
         });
       }
     }
@@ -256,27 +708,21 @@ export const listFiles = async (
       const isFolder = item.Key?.endsWith('/') || false;
 
       // If it's a folder marker and we already added it via CommonPrefixes, skip it
-      if (isFolder && result.some(f => f.isFolder && f.key === item.Key?.replace(APP_FOLDER_PREFIX, ''))) {
+      if (isFolder && result.some(f => f.isFolder && f.key === toRelativeKey(item.Key || '', client))) {
         continue;
       }
 
       if (item.Key) {
-        const key = item.Key.replace(APP_FOLDER_PREFIX, '');
+        const key = toRelativeKey(item.Key, client);
 
         // For folder markers that weren't in CommonPrefixes
         if (isFolder) {
-          const folderName = key.split('/').filter(p => p).pop() || key;
-          // Remove trailing slash for lookup
-          const simpleFolderName = folderName.endsWith('/')
-            ? folderName.slice(0, -1)
-            : folderName;
-
           result.push({
             key,
-            size: folderSizes[simpleFolderName] || 0,
+            size: 0,
             lastModified: item.LastModified || new Date(),
             isFolder: true,
-            fileCount: folderCounts[simpleFolderName] || 0
+            fileCount: 0
           });
         } else {
           // Regular files
@@ -284,7 +730,11 @@ export const listFiles = async (
             key,
             size: item.Size || 0,
             lastModified: item.LastModified || new Date(),
-            isFolder: false
+            isFolder: false,
+            storageClass: item.StorageClass || 'STANDARD',
+            restore: item.RestoreStatus
+              ? { ongoing: !!item.RestoreStatus.IsRestoreInProgress, expiryDate: item.RestoreStatus.RestoreExpiryDate }
+              : undefined
           });
         }
       }
@@ -294,6 +744,95 @@ export const listFiles = async (
   return result;
 };
 
+// List a single page of files in the app folder
+export const listFilesPage = async (
+  prefix?: string,
+  options: S3ListOptions = {},
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3FileListPage> => {
+  const fullPrefix = resolveKey(prefix || '', client);
+
+  const pageSize = Math.min(Math.max(options.pageSize || MAX_LIST_PAGE_SIZE, 1), MAX_LIST_PAGE_SIZE);
+
+  const command = new ListObjectsV2Command({
+    Bucket: bucketName,
+    Prefix: fullPrefix,
+    Delimiter: '/', // This helps identify folders properly
+    MaxKeys: pageSize,
+    ContinuationToken: options.continuationToken,
+    // Lets the list show which archived files are being or have been restored
+    OptionalObjectAttributes: ['RestoreStatus'],
+  });
+
+  const response: ListObjectsV2CommandOutput = await client.send(command);
+  // The app's bookkeeping folders are not part of the user's files
+  const files = toS3Files(response, fullPrefix, client).filter(file => !isInternalKey(file.key));
+
+  // Folder stats are scoped to the folders on this page only
+  await applyFolderStats(
+    files,
+    options.resolveFolderStats || ((folderKey) => getFolderStats(folderKey, client, bucketName))
+  );
+
+  return {
+    files,
+    nextContinuationToken: response.IsTruncated ? response.NextContinuationToken : undefined,
+  };
+};
+
+// List all files in the app folder, following every page
+export const listFiles = async (
+  prefix?: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3File[]> => {
+  const files: S3File[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await listFilesPage(prefix, { continuationToken }, client, bucketName);
+    files.push(...page.files);
+    continuationToken = page.nextContinuationToken;
+  } while (continuationToken);
+
+  return files;
+};
+
+// List one page of objects under a prefix without grouping them into folders,
+// starting after the given key (relative to the root prefix)
+export const listObjectsPage = async (
+  prefix?: string,
+  options: { startAfter?: string; maxKeys?: number } = {},
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3ObjectPage> => {
+  const command = new ListObjectsV2Command({
+    Bucket: bucketName,
+    Prefix: resolveKey(prefix || '', client),
+    StartAfter: options.startAfter ? resolveKey(options.startAfter, client) : undefined,
+    MaxKeys: Math.min(Math.max(options.maxKeys || MAX_LIST_PAGE_SIZE, 1), MAX_LIST_PAGE_SIZE),
+  });
+
+  const response: ListObjectsV2CommandOutput = await client.send(command);
+  const files: S3File[] = (response.Contents || [])
+    .filter(item => item.Key)
+    .map(item => {
+      const key = toRelativeKey(item.Key as string, client);
+      return {
+        key,
+        size: item.Size || 0,
+        lastModified: item.LastModified || new Date(),
+        isFolder: key.endsWith('/'),
+      };
+    });
+
+  return {
+    files,
+    isTruncated: response.IsTruncated === true,
+  };
+};
+
 // Generate a pre-signed URL for temporary access
 export const getSignedFileUrl = async (
   fileName: string,
@@ -301,26 +840,663 @@ export const getSignedFileUrl = async (
   client: S3Client = getS3Client(),
   bucketName: string = getDefaultBucketName()
 ): Promise<string> => {
-  const key = `${APP_FOLDER_PREFIX}${fileName}`;
+  const key = resolveKey(fileName, client);
+
+  const command = new GetObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+  });
+
+  return getSignedUrl(client, command, { expiresIn });
+};
+
+// Content-Disposition header value naming the file
+const toContentDisposition = (type: 'attachment' | 'inline', fileName: string): string => {
+  // Plain ASCII fallback for old browsers, the UTF-8 name for the rest
+  const asciiName = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `${type}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+// Generate a pre-signed URL that downloads a file under the given name
+export const getSignedDownloadUrl = async (
+  fileName: string,
+  downloadName: string,
+  expiresIn = 3600, // Default 1 hour
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<string> => {
+  const command = new GetObjectCommand({
+    Bucket: bucketName,
+    Key: resolveKey(fileName, client),
+    ResponseContentDisposition: toContentDisposition('attachment', downloadName),
+  });
+
+  return getSignedUrl(client, command, { expiresIn });
+};
+
+// Generate a pre-signed URL to hand out to others. A file name is sent as Content-Disposition,
+// as a download when forceDownload is set and shown in the browser otherwise.
+// Signing again with the same signingDate and credentials gives the same URL.
+export const getSignedShareUrl = async (
+  fileName: string,
+  expiresIn: number,
+  forceDownload = false,
+  downloadName?: string,
+  signingDate: Date = new Date(),
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<string> => {
+  const type = forceDownload ? 'attachment' : 'inline';
+  const command = new GetObjectCommand({
+    Bucket: bucketName,
+    Key: resolveKey(fileName, client),
+    ResponseContentDisposition: downloadName ? toContentDisposition(type, downloadName) : forceDownload ? type : undefined,
+  });
+
+  return getSignedUrl(client, command, { expiresIn, signingDate });
+};
 
+// Generate a pre-signed URL that shows a file in the browser instead of downloading it,
+// served with the given content type (e.g. for objects stored as application/octet-stream)
+export const getSignedPreviewUrl = async (
+  fileName: string,
+  contentType?: string,
+  expiresIn = 3600, // Default 1 hour
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<string> => {
   const command = new GetObjectCommand({
+    Bucket: bucketName,
+    Key: resolveKey(fileName, client),
+    ResponseContentType: contentType,
+    ResponseContentDisposition: 'inline',
+  });
+
+  return getSignedUrl(client, command, { expiresIn });
+};
+
+// Generate a pre-signed URL the browser can PUT a file to directly
+// (the bucket CORS rules must allow PUT from the app origin)
+export const getSignedUploadUrl = async (
+  fileName: string,
+  contentType?: string,
+  expiresIn = 3600, // Default 1 hour
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<string> => {
+  const key = resolveKey(fileName, client);
+
+  const command = new PutObjectCommand({
     Bucket: bucketName,
     Key: key,
+    // The uploader must send the same Content-Type header
+    ContentType: contentType || 'application/octet-stream',
+  });
+
+  return getSignedUrl(client, command, { expiresIn });
+};
+
+// Start a multipart upload and return its upload id
+export const createMultipartUpload = async (
+  fileName: string,
+  contentType?: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<string> => {
+  const command = new CreateMultipartUploadCommand({
+    Bucket: bucketName,
+    Key: resolveKey(fileName, client),
+    ContentType: contentType || 'application/octet-stream',
+  });
+
+  const response = await client.send(command);
+  if (!response.UploadId) {
+    throw new Error('S3 did not return an upload id');
+  }
+
+  return response.UploadId;
+};
+
+// Generate a pre-signed URL for uploading a single part of a multipart upload
+// (the bucket CORS rules must expose the ETag header to the browser)
+export const getSignedUploadPartUrl = async (
+  fileName: string,
+  uploadId: string,
+  partNumber: number,
+  expiresIn = 3600,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<string> => {
+  const command = new UploadPartCommand({
+    Bucket: bucketName,
+    Key: resolveKey(fileName, client),
+    UploadId: uploadId,
+    PartNumber: partNumber,
   });
 
   return getSignedUrl(client, command, { expiresIn });
 };
 
+// List the parts already stored for a multipart upload
+export const listUploadedParts = async (
+  fileName: string,
+  uploadId: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3UploadPart[]> => {
+  const parts: S3UploadPart[] = [];
+  let partNumberMarker: string | undefined;
+
+  do {
+    const response: ListPartsCommandOutput = await client.send(new ListPartsCommand({
+      Bucket: bucketName,
+      Key: resolveKey(fileName, client),
+      UploadId: uploadId,
+      PartNumberMarker: partNumberMarker,
+    }));
+
+    for (const part of response.Parts || []) {
+      if (part.PartNumber && part.ETag) {
+        parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size });
+      }
+    }
+
+    partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+  } while (partNumberMarker);
+
+  return parts;
+};
+
+// Assemble the uploaded parts into the final object
+export const completeMultipartUpload = async (
+  fileName: string,
+  uploadId: string,
+  parts: S3UploadPart[],
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<string> => {
+  const command = new CompleteMultipartUploadCommand({
+    Bucket: bucketName,
+    Key: resolveKey(fileName, client),
+    UploadId: uploadId,
+    MultipartUpload: {
+      // S3 requires the parts in ascending order
+      Parts: [...parts]
+        .sort((a, b) => a.partNumber - b.partNumber)
+        .map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+    },
+  });
+
+  await client.send(command);
+  return fileName;
+};
+
+// Abort a multipart upload and discard its stored parts
+export const abortMultipartUpload = async (
+  fileName: string,
+  uploadId: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  const command = new AbortMultipartUploadCommand({
+    Bucket: bucketName,
+    Key: resolveKey(fileName, client),
+    UploadId: uploadId,
+  });
+
+  await client.send(command);
+};
+
+// Every part but the last must be at least 5 MB
+const STREAM_UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+
+// Upload a stream of unknown length as a multipart upload, holding one part in memory.
+// Returns the number of bytes written.
+export const uploadStream = async (
+  fileName: string,
+  stream: Readable,
+  contentType?: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<number> => {
+  const uploadId = await createMultipartUpload(fileName, contentType, client, bucketName);
+  const parts: S3UploadPart[] = [];
+  let chunks: Buffer[] = [];
+  let bufferedSize = 0;
+  let totalSize = 0;
+
+  const uploadBufferedPart = async () => {
+    const body = Buffer.concat(chunks);
+    const partNumber = parts.length + 1;
+    chunks = [];
+    bufferedSize = 0;
+
+    const response = await client.send(new UploadPartCommand({
+      Bucket: bucketName,
+      Key: resolveKey(fileName, client),
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: body,
+    }));
+    if (!response.ETag) {
+      throw new Error(`S3 did not return an ETag for part ${partNumber}`);
+    }
+
+    parts.push({ partNumber, etag: response.ETag, size: body.length });
+  };
+
+  try {
+    for await (const chunk of stream) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      chunks.push(buffer);
+      bufferedSize += buffer.length;
+      totalSize += buffer.length;
+
+      if (bufferedSize >= STREAM_UPLOAD_PART_SIZE) {
+        await uploadBufferedPart();
+      }
+    }
+
+    if (bufferedSize > 0 || parts.length === 0) {
+      await uploadBufferedPart();
+    }
+
+    await completeMultipartUpload(fileName, uploadId, parts, client, bucketName);
+    return totalSize;
+  } catch (error) {
+    stream.destroy();
+    await abortMultipartUpload(fileName, uploadId, client, bucketName).catch(() => undefined);
+    throw error;
+  }
+};
+
+// Get a file's metadata without downloading its body
+export const headFile = async (
+  fileName: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<HeadObjectCommandOutput> => {
+  const key = resolveKey(fileName, client);
+
+  const command = new HeadObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+  });
+
+  return client.send(command);
+};
+
+// Check whether a file exists without downloading it
+export const fileExists = async (
+  fileName: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<boolean> => {
+  try {
+    await headFile(fileName, client, bucketName);
+    return true;
+  } catch (error) {
+    const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+    if (status === 404 || (error instanceof Error && error.name === 'NotFound')) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Check whether any object is stored under a prefix (folders may exist without a marker)
+export const prefixExists = async (
+  prefix: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<boolean> => {
+  const response = await client.send(new ListObjectsV2Command({
+    Bucket: bucketName,
+    Prefix: resolveKey(prefix, client),
+    MaxKeys: 1,
+  }));
+
+  return (response.KeyCount || 0) > 0;
+};
+
+// CopyObject only handles sources up to 5 GB, larger objects are copied in parts
+const MAX_COPY_OBJECT_SIZE = 5 * 1024 * 1024 * 1024;
+const COPY_PART_SIZE = 512 * 1024 * 1024;
+
+// CopySource is "<bucket>/<key>" with each key segment URL-encoded
+const toCopySource = (bucketName: string, key: string): string => {
+  return `${bucketName}/${key.split('/').map(encodeURIComponent).join('/')}`;
+};
+
+// What a listing already tells about a file to copy, saves a HEAD request
+export interface S3CopySourceInfo {
+  size: number;
+  storageClass?: string;
+}
+
+// Copy from an encoded CopySource, falling back to a multipart copy for large objects.
+// The source HEAD is required above MAX_COPY_OBJECT_SIZE to carry over content type and metadata.
+// With replaceMetadata the copy gets the given metadata instead of the source's.
+// A copy lands in STANDARD unless storageClass is passed, so callers pass the source's class.
+const copyFromSource = async (
+  copySource: string,
+  destinationKey: string,
+  size: number,
+  head: HeadObjectCommandOutput | undefined,
+  storageClass: string | undefined,
+  client: S3Client,
+  bucketName: string,
+  replaceMetadata?: S3ObjectMetadata
+): Promise<void> => {
+  const destination = resolveKey(destinationKey, client);
+  const metadataFields = replaceMetadata
+    ? {
+      ContentType: replaceMetadata.contentType,
+      CacheControl: replaceMetadata.cacheControl,
+      ContentDisposition: replaceMetadata.contentDisposition,
+      ContentEncoding: replaceMetadata.contentEncoding,
+      Metadata: replaceMetadata.metadata,
+    }
+    : {
+      ContentType: head?.ContentType,
+      CacheControl: head?.CacheControl,
+      ContentDisposition: head?.ContentDisposition,
+      ContentEncoding: head?.ContentEncoding,
+      Metadata: head?.Metadata,
+    };
+
+  if (size <= MAX_COPY_OBJECT_SIZE) {
+    await client.send(new CopyObjectCommand({
+      Bucket: bucketName,
+      Key: destination,
+      CopySource: copySource,
+      ...(replaceMetadata
+        ? { MetadataDirective: 'REPLACE', ...metadataFields }
+        : { MetadataDirective: 'COPY' }),
+      StorageClass: storageClass as StorageClass | undefined,
+    }));
+    return;
+  }
+
+  const { UploadId: uploadId } = await client.send(new CreateMultipartUploadCommand({
+    Bucket: bucketName,
+    Key: destination,
+    ...metadataFields,
+    StorageClass: storageClass as StorageClass | undefined,
+  }));
+  if (!uploadId) {
+    throw new Error('S3 did not return an upload id');
+  }
+
+  try {
+    const parts: S3UploadPart[] = [];
+
+    for (let start = 0, partNumber = 1; start < size; start += COPY_PART_SIZE, partNumber++) {
+      const end = Math.min(start + COPY_PART_SIZE, size) - 1;
+      const response = await client.send(new UploadPartCopyCommand({
+        Bucket: bucketName,
+        Key: destination,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        CopySource: copySource,
+        CopySourceRange: `bytes=${start}-${end}`,
+      }));
+
+      if (!response.CopyPartResult?.ETag) {
+        throw new Error(`S3 did not return an ETag for part ${partNumber}`);
+      }
+      parts.push({ partNumber, etag: response.CopyPartResult.ETag });
+    }
+
+    await completeMultipartUpload(destinationKey, uploadId, parts, client, bucketName);
+  } catch (error) {
+    await abortMultipartUpload(destinationKey, uploadId, client, bucketName);
+    throw error;
+  }
+};
+
+// Copy a file within the bucket, keeping its content type and metadata
+export const copyFile = async (
+  sourceKey: string,
+  destinationKey: string,
+  // Size and storage class when already known from a listing
+  source?: S3CopySourceInfo,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  let head: HeadObjectCommandOutput | undefined;
+  if (!source || source.size > MAX_COPY_OBJECT_SIZE) {
+    head = await headFile(sourceKey, client, bucketName);
+  }
+
+  await copyFromSource(
+    toCopySource(bucketName, resolveKey(sourceKey, client)),
+    destinationKey,
+    head ? head.ContentLength || 0 : source?.size || 0,
+    head,
+    head ? head.StorageClass : source?.storageClass,
+    client,
+    bucketName
+  );
+};
+
+// Copy a file into another bucket, possibly of another profile, keeping its content type and
+// metadata. With one client S3 copies server-side; between clients the content passes through
+// this process, streamed for files larger than one upload part (those keep only the content type).
+export const copyFileToBucket = async (
+  sourceKey: string,
+  destinationKey: string,
+  destinationClient: S3Client,
+  destinationBucket: string,
+  // Size and storage class when already known from a listing
+  source?: S3CopySourceInfo,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  if (destinationClient === client) {
+    let head: HeadObjectCommandOutput | undefined;
+    if (!source || source.size > MAX_COPY_OBJECT_SIZE) {
+      head = await headFile(sourceKey, client, bucketName);
+    }
+
+    await copyFromSource(
+      toCopySource(bucketName, resolveKey(sourceKey, client)),
+      destinationKey,
+      head ? head.ContentLength || 0 : source?.size || 0,
+      head,
+      head ? head.StorageClass : source?.storageClass,
+      client,
+      destinationBucket
+    );
+    return;
+  }
+
+  const response = await getFile(sourceKey, client, bucketName);
+  if (!response.Body) {
+    throw new Error('File body is empty');
+  }
+
+  if ((response.ContentLength || 0) > STREAM_UPLOAD_PART_SIZE) {
+    await uploadStream(destinationKey, response.Body as Readable, response.ContentType, destinationClient, destinationBucket);
+    return;
+  }
+
+  await destinationClient.send(new PutObjectCommand({
+    Bucket: destinationBucket,
+    Key: resolveKey(destinationKey, destinationClient),
+    Body: Buffer.from(await response.Body.transformToByteArray()),
+    ContentType: response.ContentType,
+    CacheControl: response.CacheControl,
+    ContentDisposition: response.ContentDisposition,
+    ContentEncoding: response.ContentEncoding,
+    Metadata: response.Metadata,
+  }));
+};
+
+// Make an older version the current one by copying it over the file.
+// Every existing version is kept, the restored copy becomes the newest version.
+export const restoreFileVersion = async (
+  fileName: string,
+  versionId: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  const key = resolveKey(fileName, client);
+  const head = await client.send(new HeadObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+    VersionId: versionId,
+  }));
+
+  await copyFromSource(
+    `${toCopySource(bucketName, key)}?versionId=${encodeURIComponent(versionId)}`,
+    fileName,
+    head.ContentLength || 0,
+    head,
+    head.StorageClass,
+    client,
+    bucketName
+  );
+};
+
+// Replace the metadata of a file by copying it onto itself
+export const updateFileMetadata = async (
+  fileName: string,
+  metadata: S3ObjectMetadata,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  const key = resolveKey(fileName, client);
+  const head = await headFile(fileName, client, bucketName);
+
+  await copyFromSource(
+    toCopySource(bucketName, key),
+    fileName,
+    head.ContentLength || 0,
+    head,
+    head.StorageClass,
+    client,
+    bucketName,
+    metadata
+  );
+};
+
+// Storage classes whose content can only be read after a restore
+const ARCHIVE_STORAGE_CLASSES = new Set(['GLACIER', 'DEEP_ARCHIVE']);
+
+// Parse the Restore header of a HEAD response,
+// e.g. 'ongoing-request="false", expiry-date="Fri, 21 Dec 2012 00:00:00 GMT"'
+export const parseRestoreStatus = (restore?: string): S3RestoreStatus | undefined => {
+  if (!restore) return undefined;
+
+  const ongoing = /ongoing-request="(true|false)"/.exec(restore);
+  const expiryDate = /expiry-date="([^"]+)"/.exec(restore);
+  return {
+    ongoing: ongoing?.[1] === 'true',
+    expiryDate: expiryDate ? new Date(expiryDate[1]) : undefined
+  };
+};
+
+// Whether an object is archived without a finished restore, so its content cannot be read or copied
+export const isArchivedObject = (storageClass?: string, restore?: S3RestoreStatus): boolean => {
+  return ARCHIVE_STORAGE_CLASSES.has(storageClass || '') && (!restore || restore.ongoing);
+};
+
+// Move a file to another storage class by copying it onto itself.
+// Returns false when the file is already in that class.
+export const changeStorageClass = async (
+  fileName: string,
+  storageClass: StorageClass,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<boolean> => {
+  const head = await headFile(fileName, client, bucketName);
+  const current = head.StorageClass || 'STANDARD';
+  if (current === storageClass) {
+    return false;
+  }
+  if (isArchivedObject(current, parseRestoreStatus(head.Restore))) {
+    throw new Error(`${fileName} is archived in ${current}, restore it before changing its storage class`);
+  }
+
+  await copyFromSource(
+    toCopySource(bucketName, resolveKey(fileName, client)),
+    fileName,
+    head.ContentLength || 0,
+    head,
+    storageClass,
+    client,
+    bucketName
+  );
+  return true;
+};
+
+// Request a temporary readable copy of an archived file for the given number of days.
+// Restoring a file that is already restored extends the copy.
+export const restoreArchivedFile = async (
+  fileName: string,
+  days: number,
+  tier: Tier = 'Standard',
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3RestoreStatus> => {
+  try {
+    await client.send(new RestoreObjectCommand({
+      Bucket: bucketName,
+      Key: resolveKey(fileName, client),
+      RestoreRequest: {
+        Days: days,
+        GlacierJobParameters: { Tier: tier },
+      },
+    }));
+  } catch (error) {
+    // Asking again while a restore runs is not an error for the caller
+    if (!(error instanceof Error && error.name === 'RestoreAlreadyInProgress')) {
+      throw error;
+    }
+  }
+
+  const head = await headFile(fileName, client, bucketName);
+  return parseRestoreStatus(head.Restore) || { ongoing: true };
+};
+
+// Get the tags of a file
+export const getFileTags = async (
+  fileName: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3ObjectTag[]> => {
+  const response = await client.send(new GetObjectTaggingCommand({
+    Bucket: bucketName,
+    Key: resolveKey(fileName, client),
+  }));
+
+  return (response.TagSet || []).map(tag => ({ key: tag.Key || '', value: tag.Value || '' }));
+};
+
+// Replace all tags of a file
+export const putFileTags = async (
+  fileName: string,
+  tags: S3ObjectTag[],
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<void> => {
+  await client.send(new PutObjectTaggingCommand({
+    Bucket: bucketName,
+    Key: resolveKey(fileName, client),
+    Tagging: {
+      TagSet: tags.map(tag => ({ Key: tag.key, Value: tag.value })),
+    },
+  }));
+};
+
 // Delete a file from S3
 export const deleteFile = async (
   fileName: string,
   client: S3Client = getS3Client(),
   bucketName: string = getDefaultBucketName()
 ): Promise<void> => {
-  // Ensure the fileName has the APP_FOLDER_PREFIX
-  const key = fileName.startsWith(APP_FOLDER_PREFIX)
-    ? fileName
-    : `${APP_FOLDER_PREFIX}${fileName}`;
+  const key = resolveKey(fileName, client);
 
   //   console.log('Deleting file with key:', key);
 
@@ -332,6 +1508,77 @@ export const deleteFile = async (
   await client.send(command);
 };
 
+// DeleteObjects accepts at most 1000 keys per request
+const MAX_DELETE_BATCH_SIZE = 1000;
+
+// Delete many files with batched DeleteObjects requests
+export const deleteFiles = async (
+  fileNames: string[],
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3DeleteResult> => {
+  const result: S3DeleteResult = { deleted: [], failed: [] };
+
+  for (let i = 0; i < fileNames.length; i += MAX_DELETE_BATCH_SIZE) {
+    const batch = fileNames.slice(i, i + MAX_DELETE_BATCH_SIZE);
+
+    const response = await client.send(new DeleteObjectsCommand({
+      Bucket: bucketName,
+      Delete: {
+        Objects: batch.map(fileName => ({ Key: resolveKey(fileName, client) })),
+        // Only report errors, every other key in the batch was deleted
+        Quiet: true,
+      },
+    }));
+
+    const failedKeys = new Set<string>();
+    for (const error of response.Errors || []) {
+      const key = toRelativeKey(error.Key || '', client);
+      failedKeys.add(key);
+      result.failed.push({ key, error: error.Message || error.Code || 'Delete failed' });
+    }
+
+    result.deleted.push(...batch.filter(fileName => !failedKeys.has(fileName)));
+  }
+
+  return result;
+};
+
+// Delete every object under a prefix, one listing page at a time
+export const deletePrefix = async (
+  prefix: string,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3DeleteResult> => {
+  const result: S3DeleteResult = { deleted: [], failed: [] };
+  const fullPrefix = resolveKey(prefix, client);
+  let continuationToken: string | undefined;
+
+  do {
+    const response: ListObjectsV2CommandOutput = await client.send(new ListObjectsV2Command({
+      Bucket: bucketName,
+      Prefix: fullPrefix,
+      MaxKeys: MAX_DELETE_BATCH_SIZE,
+      ContinuationToken: continuationToken,
+    }));
+
+    const keys = (response.Contents || [])
+      .map(item => item.Key)
+      .filter((key): key is string => !!key)
+      .map(key => toRelativeKey(key, client));
+
+    if (keys.length > 0) {
+      const batch = await deleteFiles(keys, client, bucketName);
+      result.deleted.push(...batch.deleted);
+      result.failed.push(...batch.failed);
+    }
+
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return result;
+};
+
 // List files with signed URLs
 export const listFilesWithUrls = async (
   prefix?: string,
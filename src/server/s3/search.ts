@@ -0,0 +1,204 @@
+/**
+ * Key search
+ *
+ * Walks the bucket (or a prefix) with flat listings and keeps the objects whose key matches
+ * a plain-text, glob or regex pattern and the size, date and extension filters. Each call
+ * scans a bounded number of keys and returns the last scanned key as continuation token,
+ * so a search over a large bucket comes back as a series of pages.
+ */
+
+import { S3Client } from '@aws-sdk/client-s3';
+import { S3File, listObjectsPage, getS3Client, getDefaultBucketName } from './sdk';
+import { isInternalKey } from './internalPrefixes';
+
+// Constants
+const DEFAULT_SEARCH_PAGE_SIZE = 100;
+const MAX_SEARCH_PAGE_SIZE = 1000;
+const MAX_KEYS_SCANNED_PER_PAGE = 10000;
+
+export type S3SearchMatchType = 'contains' | 'glob' | 'regex';
+
+export interface S3SearchQuery {
+  pattern?: string;
+  matchType?: S3SearchMatchType;
+  caseSensitive?: boolean;
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: Date;
+  modifiedBefore?: Date;
+  // Extensions without the leading dot, e.g. ["pdf", "png"]
+  extensions?: string[];
+}
+
+export interface S3SearchOptions {
+  pageSize?: number;
+  continuationToken?: string;
+}
+
+export interface S3SearchPage {
+  files: S3File[];
+  // Number of objects looked at for this page
+  scannedCount: number;
+  nextContinuationToken?: string;
+}
+
+// Escape a literal for use inside a regular expression
+export const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Convert a glob to a regular expression matching the whole string.
+ * Supports *, ** (across folders), ?, [abc], [!abc] and {a,b}.
+ */
+export const globToRegExp = (glob: string, caseSensitive = false): RegExp => {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" also matches no folder at all
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+        source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i + 1);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        source += `(?:${glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+        i = end;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, caseSensitive ? '' : 'i');
+};
+
+// Build the key test for a query pattern; keys are relative to the searched prefix
+const createKeyMatcher = (query: S3SearchQuery): ((key: string) => boolean) => {
+  const pattern = query.pattern?.trim();
+  if (!pattern) return () => true;
+
+  switch (query.matchType) {
+    case 'glob': {
+      const regExp = globToRegExp(pattern, query.caseSensitive);
+      // Patterns without a folder part match the file name at any depth
+      if (!pattern.includes('/')) {
+        return (key) => regExp.test(key.slice(key.lastIndexOf('/') + 1));
+      }
+      return (key) => regExp.test(key);
+    }
+
+    case 'regex': {
+      // Throws a SyntaxError naming the problem for invalid patterns
+      const regExp = new RegExp(pattern, query.caseSensitive ? '' : 'i');
+      return (key) => regExp.test(key);
+    }
+
+    default: {
+      const needle = query.caseSensitive ? pattern : pattern.toLowerCase();
+      return (key) => (query.caseSensitive ? key : key.toLowerCase()).includes(needle);
+    }
+  }
+};
+
+// Build the full object test for a query
+const createMatcher = (query: S3SearchQuery, prefix: string): ((file: S3File) => boolean) => {
+  const matchesKey = createKeyMatcher(query);
+  const extensions = query.extensions
+    ?.map(extension => extension.trim().replace(/^\./, '').toLowerCase())
+    .filter(Boolean);
+
+  return (file) => {
+    if (file.isFolder || isInternalKey(file.key)) return false;
+    if (query.minSize !== undefined && file.size < query.minSize) return false;
+    if (query.maxSize !== undefined && file.size > query.maxSize) return false;
+
+    const lastModified = new Date(file.lastModified);
+    if (query.modifiedAfter && lastModified < query.modifiedAfter) return false;
+    if (query.modifiedBefore && lastModified > query.modifiedBefore) return false;
+
+    if (extensions && extensions.length > 0) {
+      const name = file.key.slice(file.key.lastIndexOf('/') + 1);
+      const dot = name.lastIndexOf('.');
+      if (dot <= 0 || !extensions.includes(name.slice(dot + 1).toLowerCase())) return false;
+    }
+
+    return matchesKey(file.key.slice(prefix.length));
+  };
+};
+
+/**
+ * Search the objects under a prefix, one page of matches at a time.
+ * A page can hold fewer matches than asked for when the scan budget runs out first;
+ * keep following nextContinuationToken until it is undefined.
+ * @param prefix The folder to search, '' for the whole bucket
+ * @param query The pattern and filters
+ * @param options Page size and the token of the previous page
+ * @throws When the regex pattern is invalid
+ */
+export const searchObjects = async (
+  prefix: string,
+  query: S3SearchQuery,
+  options: S3SearchOptions = {},
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3SearchPage> => {
+  const matches = createMatcher(query, prefix);
+  const pageSize = Math.min(Math.max(options.pageSize || DEFAULT_SEARCH_PAGE_SIZE, 1), MAX_SEARCH_PAGE_SIZE);
+
+  // The token is the last key looked at, so it has to stay under the searched prefix
+  if (options.continuationToken && !options.continuationToken.startsWith(prefix)) {
+    throw new Error('Continuation token does not belong to this search');
+  }
+
+  const files: S3File[] = [];
+  let scannedCount = 0;
+  let startAfter = options.continuationToken;
+
+  while (files.length < pageSize && scannedCount < MAX_KEYS_SCANNED_PER_PAGE) {
+    const page = await listObjectsPage(prefix, {
+      startAfter,
+      maxKeys: MAX_KEYS_SCANNED_PER_PAGE - scannedCount,
+    }, client, bucketName);
+
+    let index = 0;
+    while (index < page.files.length && files.length < pageSize) {
+      const file = page.files[index++];
+      scannedCount++;
+      startAfter = file.key;
+
+      if (matches(file)) {
+        files.push(file);
+      }
+    }
+
+    // Nothing left to scan after this page
+    if (index === page.files.length && (!page.isTruncated || page.files.length === 0)) {
+      return { files, scannedCount };
+    }
+  }
+
+  return { files, scannedCount, nextContinuationToken: startAfter };
+};
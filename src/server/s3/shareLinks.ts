@@ -0,0 +1,193 @@
+/**
+ * Registry of shared links
+ *
+ * Pre-signed URLs leave no trace in S3, so every link handed out is recorded as a small JSON
+ * object under .share-links/ in the bucket it points into. This is what lets users see what
+ * they have shared. Entries of expired links are deleted the next time the registry is listed.
+ *
+ * An entry never holds the URL itself, since anyone allowed to read the bucket could use it.
+ * The URL is signed again from the entry when listing: the same signing date and credentials
+ * give the same URL. Credentials rotated since then give a new URL, only valid as long as they are.
+ */
+
+import { randomUUID } from 'crypto';
+import { S3Client } from '@aws-sdk/client-s3';
+import {
+  getSignedShareUrl,
+  headFile,
+  isArchivedObject,
+  parseRestoreStatus,
+  getFileAsString,
+  uploadFile,
+  deleteFiles,
+  listAllObjects,
+  getS3Client,
+  getDefaultBucketName,
+} from './sdk';
+import { SHARE_LINKS_PREFIX } from './internalPrefixes';
+
+// Constants
+// Entries read at the same time when listing
+const READ_CONCURRENCY = 10;
+
+export interface S3ShareLinkOptions {
+  // Seconds the link stays valid
+  expiresIn: number;
+  // Serve the file as an attachment instead of showing it in the browser
+  forceDownload?: boolean;
+  // File name sent in the Content-Disposition header
+  downloadName?: string;
+  // Free-text name of whoever shared the file
+  sharedBy?: string;
+}
+
+export interface S3ShareLink {
+  id: string;
+  key: string;
+  url: string;
+  forceDownload: boolean;
+  downloadName?: string;
+  sharedBy?: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+interface ShareLinkEntry extends Omit<S3ShareLink, 'url' | 'createdAt' | 'expiresAt'> {
+  // Seconds the link stays valid; the URL is signed at createdAt
+  expiresIn: number;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const getEntryKey = (id: string): string => `${SHARE_LINKS_PREFIX}${id}.json`;
+
+const toShareLink = (entry: ShareLinkEntry, url: string): S3ShareLink => ({
+  id: entry.id,
+  key: entry.key,
+  url,
+  forceDownload: entry.forceDownload,
+  downloadName: entry.downloadName,
+  sharedBy: entry.sharedBy,
+  createdAt: new Date(entry.createdAt),
+  expiresAt: new Date(entry.expiresAt),
+});
+
+const signEntry = (entry: ShareLinkEntry, client: S3Client, bucketName: string): Promise<string> => {
+  return getSignedShareUrl(
+    entry.key,
+    entry.expiresIn,
+    entry.forceDownload,
+    entry.downloadName,
+    new Date(entry.createdAt),
+    client,
+    bucketName
+  );
+};
+
+/**
+ * Create a pre-signed link to a file and record it in the registry
+ * @throws When the file does not exist or is archived
+ */
+export const createShareLink = async (
+  fileName: string,
+  options: S3ShareLinkOptions,
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3ShareLink> => {
+  // A link to a missing or archived file would only ever answer with an error
+  const head = await headFile(fileName, client, bucketName);
+  if (isArchivedObject(head.StorageClass, parseRestoreStatus(head.Restore))) {
+    throw new Error(`${fileName} is archived in ${head.StorageClass}, restore it before sharing it`);
+  }
+
+  // Signatures carry whole seconds, so the stored date signs to the same URL again
+  const createdAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const entry: ShareLinkEntry = {
+    id: randomUUID(),
+    key: fileName,
+    forceDownload: options.forceDownload || false,
+    downloadName: options.downloadName,
+    sharedBy: options.sharedBy,
+    expiresIn: options.expiresIn,
+    createdAt: createdAt.toISOString(),
+    expiresAt: new Date(createdAt.getTime() + options.expiresIn * 1000).toISOString(),
+  };
+  const url = await signEntry(entry, client, bucketName);
+
+  await uploadFile({
+    fileName: getEntryKey(entry.id),
+    content: JSON.stringify(entry),
+    contentType: 'application/json',
+  }, client, bucketName);
+
+  return toShareLink(entry, url);
+};
+
+// A read that failed because the object is not there (any more)
+const isMissingObjectError = (error: unknown): boolean => {
+  const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+  return status === 404 || (error instanceof Error && (error.name === 'NoSuchKey' || error.name === 'NotFound'));
+};
+
+/**
+ * Links that have not expired yet, newest first. Entries of expired links and corrupt
+ * entries are removed; entries that could not be read this time are skipped and kept.
+ */
+export const listShareLinks = async (
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3ShareLink[]> => {
+  const objects = await listAllObjects(SHARE_LINKS_PREFIX, client, bucketName);
+  const entryKeys = objects.map(object => object.Key).filter((key): key is string => !!key);
+
+  const links: S3ShareLink[] = [];
+  const staleKeys: string[] = [];
+  const now = Date.now();
+
+  for (let start = 0; start < entryKeys.length; start += READ_CONCURRENCY) {
+    await Promise.all(entryKeys.slice(start, start + READ_CONCURRENCY).map(async (entryKey) => {
+      let content: string;
+      try {
+        content = await getFileAsString(entryKey, client, bucketName);
+      } catch (error) {
+        // Entries that vanished since the listing are cleaned up; anything else, e.g. throttling,
+        // may pass and must not cost the record of a link that still works
+        if (isMissingObjectError(error)) {
+          staleKeys.push(entryKey);
+        } else {
+          console.warn(`Failed to read share link ${entryKey}:`, error);
+        }
+        return;
+      }
+
+      let entry: ShareLinkEntry;
+      try {
+        entry = JSON.parse(content) as ShareLinkEntry;
+      } catch {
+        staleKeys.push(entryKey);
+        return;
+      }
+
+      if (new Date(entry.expiresAt).getTime() <= now) {
+        staleKeys.push(entryKey);
+        return;
+      }
+      try {
+        links.push(toShareLink(entry, await signEntry(entry, client, bucketName)));
+      } catch (error) {
+        console.warn(`Failed to sign share link ${entryKey}:`, error);
+      }
+    }));
+  }
+
+  if (staleKeys.length > 0) {
+    try {
+      await deleteFiles(staleKeys, client, bucketName);
+    } catch (error) {
+      // Cleaning up is best-effort; the next listing tries again
+      console.warn('Failed to remove expired share links:', error);
+    }
+  }
+
+  return links.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
@@ -0,0 +1,243 @@
+/**
+ * One-way sync of a folder into another folder, bucket or profile
+ *
+ * Works like rsync: files missing at the destination are copied, files that differ are copied
+ * again and, when asked, files only the destination has are deleted. The plan is computed from
+ * a listing of both sides before anything is written, so a dry run reports exactly what a real
+ * run would change.
+ */
+
+import { S3Client, _Object } from '@aws-sdk/client-s3';
+import { copyFileToBucket, deleteFiles, listAllObjects } from './sdk';
+import { invalidateFolderStats } from './folderStatsIndex';
+import { isInternalKey } from './internalPrefixes';
+
+// Constants
+// Number of files copied at the same time
+const SYNC_CONCURRENCY = 5;
+
+export interface S3SyncLocation {
+  client: S3Client;
+  bucketName: string;
+  // Folder to sync, '' for the whole bucket
+  prefix: string;
+}
+
+export type S3SyncChangeType = 'add' | 'update' | 'delete';
+
+export interface S3SyncChange {
+  type: S3SyncChangeType;
+  // Key below the synced folder, the same on both sides
+  key: string;
+  // Size of the source file, or of the destination file for deletes
+  size: number;
+  // Why an existing file is copied again
+  reason?: string;
+  // Storage class of the source file, which the copy keeps
+  storageClass?: string;
+}
+
+export interface S3SyncProgress {
+  // Changes applied (or failed) so far
+  processed: number;
+  // Changes in the plan
+  total: number;
+  // Bytes copied so far, and the bytes of every add and update
+  bytes: number;
+  totalBytes: number;
+  // Key being copied or deleted
+  current?: string;
+}
+
+export interface S3SyncOptions {
+  // Delete files that only the destination has
+  deleteExtraneous?: boolean;
+  // Only compute the changes
+  dryRun?: boolean;
+  onProgress?: (progress: S3SyncProgress) => void;
+  // Stops the sync after the files being copied
+  signal?: AbortSignal;
+}
+
+export interface S3SyncFailure {
+  key: string;
+  error: string;
+}
+
+export interface S3SyncResult {
+  // Every add, update and delete of the plan, whether applied or not
+  changes: S3SyncChange[];
+  // Files that are the same on both sides
+  unchangedCount: number;
+  // Changes carried out; 0 for a dry run
+  applied: number;
+  // Bytes copied
+  bytes: number;
+  failed: S3SyncFailure[];
+}
+
+const normalizePrefix = (prefix: string): string => {
+  return prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+};
+
+// ETags of multipart uploads ("<md5>-<parts>") depend on the part size, not only the content
+const isContentEtag = (etag?: string): boolean => !!etag && !etag.includes('-');
+
+// Why the destination copy of a file is out of date, or undefined when it is not
+const getUpdateReason = (source: _Object, destination: _Object): string | undefined => {
+  if ((source.Size || 0) !== (destination.Size || 0)) {
+    return 'size differs';
+  }
+  if (isContentEtag(source.ETag) && isContentEtag(destination.ETag)) {
+    return source.ETag === destination.ETag ? undefined : 'content differs';
+  }
+  // Without comparable checksums, fall back to the modification time
+  if (source.LastModified && destination.LastModified && source.LastModified > destination.LastModified) {
+    return 'source is newer';
+  }
+  return undefined;
+};
+
+// Objects under a prefix keyed by their path below it
+const listByRelativeKey = async (location: S3SyncLocation, prefix: string): Promise<Map<string, _Object>> => {
+  const objects = await listAllObjects(prefix, location.client, location.bucketName);
+  const byKey = new Map<string, _Object>();
+
+  for (const object of objects) {
+    const key = object.Key;
+    // The app's own bookkeeping is never synced
+    if (!key || isInternalKey(key)) continue;
+    const relativeKey = key.slice(prefix.length);
+    if (relativeKey) byKey.set(relativeKey, object);
+  }
+  return byKey;
+};
+
+/**
+ * Bring a destination folder in line with a source folder.
+ * Files that cannot be copied or deleted are reported in the result; a listing failing or the
+ * sync being cancelled ends it with an error.
+ * @param source Folder to read from
+ * @param destination Folder to write to; may use another client and bucket
+ * @param options Deletion of extraneous files, dry run, progress callback and cancellation
+ */
+export const syncFolders = async (
+  source: S3SyncLocation,
+  destination: S3SyncLocation,
+  options: S3SyncOptions = {}
+): Promise<S3SyncResult> => {
+  const sourcePrefix = normalizePrefix(source.prefix);
+  const destinationPrefix = normalizePrefix(destination.prefix);
+
+  const [sourceObjects, destinationObjects] = await Promise.all([
+    listByRelativeKey(source, sourcePrefix),
+    listByRelativeKey(destination, destinationPrefix),
+  ]);
+
+  const changes: S3SyncChange[] = [];
+  let unchangedCount = 0;
+
+  for (const [key, object] of sourceObjects) {
+    const existing = destinationObjects.get(key);
+    if (!existing) {
+      changes.push({ type: 'add', key, size: object.Size || 0, storageClass: object.StorageClass });
+      continue;
+    }
+
+    const reason = getUpdateReason(object, existing);
+    if (reason) {
+      changes.push({ type: 'update', key, size: object.Size || 0, reason, storageClass: object.StorageClass });
+    } else {
+      unchangedCount++;
+    }
+  }
+
+  if (options.deleteExtraneous) {
+    for (const [key, object] of destinationObjects) {
+      if (!sourceObjects.has(key)) {
+        changes.push({ type: 'delete', key, size: object.Size || 0 });
+      }
+    }
+  }
+
+  changes.sort((a, b) => a.key.localeCompare(b.key));
+
+  const result: S3SyncResult = { changes, unchangedCount, applied: 0, bytes: 0, failed: [] };
+  if (options.dryRun || changes.length === 0) {
+    return result;
+  }
+
+  const copies = changes.filter(change => change.type !== 'delete');
+  const deletes = changes.filter(change => change.type === 'delete');
+  const progress: S3SyncProgress = {
+    processed: 0,
+    total: changes.length,
+    bytes: 0,
+    totalBytes: copies.reduce((total, change) => total + change.size, 0),
+  };
+  options.onProgress?.({ ...progress });
+
+  const checkCancelled = () => {
+    if (options.signal?.aborted) {
+      throw new Error('Sync cancelled');
+    }
+  };
+
+  try {
+    let nextIndex = 0;
+    const worker = async () => {
+      while (nextIndex < copies.length) {
+        checkCancelled();
+        const change = copies[nextIndex++];
+        progress.current = change.key;
+        options.onProgress?.({ ...progress });
+
+        try {
+          await copyFileToBucket(
+            `${sourcePrefix}${change.key}`,
+            `${destinationPrefix}${change.key}`,
+            destination.client,
+            destination.bucketName,
+            { size: change.size, storageClass: change.storageClass },
+            source.client,
+            source.bucketName
+          );
+          result.applied++;
+          result.bytes += change.size;
+          progress.bytes += change.size;
+        } catch (error) {
+          checkCancelled();
+          result.failed.push({ key: change.key, error: error instanceof Error ? error.message : String(error) });
+        }
+
+        progress.processed++;
+        options.onProgress?.({ ...progress });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(SYNC_CONCURRENCY, copies.length) }, worker));
+
+    if (deletes.length > 0) {
+      checkCancelled();
+      progress.current = undefined;
+      const deleteResult = await deleteFiles(
+        deletes.map(change => `${destinationPrefix}${change.key}`),
+        destination.client,
+        destination.bucketName
+      );
+      result.applied += deleteResult.deleted.length;
+      for (const failure of deleteResult.failed) {
+        result.failed.push({ key: failure.key.slice(destinationPrefix.length), error: failure.error });
+      }
+      progress.processed += deletes.length;
+    }
+
+    progress.current = undefined;
+    options.onProgress?.({ ...progress });
+    return result;
+  } finally {
+    await invalidateFolderStats(destinationPrefix, destination.client, destination.bucketName).catch((error) => {
+      console.warn(`Could not invalidate folder stats of ${destinationPrefix || 'the bucket root'}:`, error);
+    });
+  }
+};
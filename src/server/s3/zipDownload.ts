@@ -0,0 +1,184 @@
+/**
+ * Zip downloads of folders and selections
+ *
+ * The archive is streamed from the source objects straight into a multipart upload under
+ * .downloads/ (see zipStream.ts), so neither the archive nor a whole source file is held in
+ * memory, and the browser downloads the result through a pre-signed URL. Archives older
+ * than a day are removed whenever a new one is built; a bucket lifecycle rule on the
+ * .downloads/ prefix works as well.
+ */
+
+import { Readable } from 'stream';
+import { S3Client } from '@aws-sdk/client-s3';
+import {
+  listAllObjects,
+  headFile,
+  getFile,
+  uploadStream,
+  deleteFiles,
+  getSignedDownloadUrl,
+  getS3Client,
+  getDefaultBucketName,
+} from './sdk';
+import { ZipEntry, createZipStream, MAX_ZIP_ENTRIES, MAX_ZIP_SIZE } from './zipStream';
+import { ZIP_DOWNLOAD_PREFIX, isInternalKey } from './internalPrefixes';
+
+// Constants
+const ZIP_DOWNLOAD_TTL = 24 * 60 * 60 * 1000; // 1 day
+const ZIP_URL_EXPIRY = 3600; // 1 hour
+const HEAD_CONCURRENCY = 10;
+
+export interface S3ZipDownloadOptions {
+  // Entry names are relative to this folder, defaults to the common parent of the keys
+  basePrefix?: string;
+  // Name of the downloaded file
+  fileName?: string;
+}
+
+export interface S3ZipDownload {
+  url: string;
+  fileName: string;
+  // Number of files in the archive
+  fileCount: number;
+  // Size of the archive in bytes
+  size: number;
+  expiresIn: number;
+}
+
+interface ZipSource {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+// The folder part of a key; for a folder key this is its parent folder
+const getParentPrefix = (key: string): string => {
+  const path = key.endsWith('/') ? key.slice(0, -1) : key;
+  return path.slice(0, path.lastIndexOf('/') + 1);
+};
+
+// Longest folder prefix shared by all parents
+const getCommonPrefix = (keys: string[]): string => {
+  const parents = keys.map(getParentPrefix);
+  let common = parents[0] || '';
+  for (const parent of parents) {
+    while (!parent.startsWith(common)) {
+      common = getParentPrefix(common);
+    }
+  }
+  return common;
+};
+
+// Last path segment of a key, without the trailing slash of folders
+const getBaseName = (key: string): string => {
+  const path = key.endsWith('/') ? key.slice(0, -1) : key;
+  return path.slice(path.lastIndexOf('/') + 1);
+};
+
+// Expand folder keys into their objects and look up the size and date of single files
+const collectSources = async (keys: string[], client: S3Client, bucketName: string): Promise<ZipSource[]> => {
+  const sources = new Map<string, ZipSource>();
+  const files = keys.filter(key => !key.endsWith('/') && !isInternalKey(key));
+
+  for (const folder of keys.filter(key => key.endsWith('/'))) {
+    for (const object of await listAllObjects(folder, client, bucketName)) {
+      if (!object.Key || isInternalKey(object.Key)) continue;
+      sources.set(object.Key, {
+        key: object.Key,
+        size: object.Size || 0,
+        lastModified: object.LastModified || new Date(),
+      });
+    }
+  }
+
+  for (let i = 0; i < files.length; i += HEAD_CONCURRENCY) {
+    const batch = files.slice(i, i + HEAD_CONCURRENCY).filter(key => !sources.has(key));
+    const heads = await Promise.all(batch.map(key => headFile(key, client, bucketName)));
+
+    heads.forEach((head, index) => {
+      sources.set(batch[index], {
+        key: batch[index],
+        size: head.ContentLength || 0,
+        lastModified: head.LastModified || new Date(),
+      });
+    });
+  }
+
+  return Array.from(sources.values()).sort((a, b) => a.key.localeCompare(b.key));
+};
+
+// Remove archives of earlier downloads once their links have long expired
+const deleteExpiredDownloads = async (client: S3Client, bucketName: string): Promise<void> => {
+  const cutoff = Date.now() - ZIP_DOWNLOAD_TTL;
+  const expired = (await listAllObjects(ZIP_DOWNLOAD_PREFIX, client, bucketName))
+    .filter(object => object.Key && object.LastModified && object.LastModified.getTime() < cutoff)
+    .map(object => object.Key as string);
+
+  if (expired.length > 0) {
+    await deleteFiles(expired, client, bucketName);
+  }
+};
+
+/**
+ * Build a zip archive of folders and files and return a link to download it
+ * @param keys Folder prefixes (ending in "/") and file keys
+ * @param options Base folder for entry names and the download file name
+ * @throws When nothing is selected or the archive would exceed the zip limits
+ */
+export const createZipDownload = async (
+  keys: string[],
+  options: S3ZipDownloadOptions = {},
+  client: S3Client = getS3Client(),
+  bucketName: string = getDefaultBucketName()
+): Promise<S3ZipDownload> => {
+  if (keys.length === 0) {
+    throw new Error('Nothing selected to download');
+  }
+
+  const basePrefix = options.basePrefix ?? getCommonPrefix(keys);
+  if (keys.some(key => !key.startsWith(basePrefix))) {
+    throw new Error(`All keys must be inside ${basePrefix}`);
+  }
+
+  const sources = await collectSources(keys, client, bucketName);
+  const totalSize = sources.reduce((sum, source) => sum + source.size, 0);
+
+  if (sources.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`Zip downloads are limited to ${MAX_ZIP_ENTRIES} files, the selection has ${sources.length}`);
+  }
+  if (totalSize >= MAX_ZIP_SIZE) {
+    throw new Error('Zip downloads are limited to 4 GB, download the selection in smaller parts');
+  }
+
+  const entries: ZipEntry[] = sources
+    // The marker of the base folder itself has no name inside the archive
+    .filter(source => source.key.length > basePrefix.length)
+    .map(source => ({
+      name: source.key.slice(basePrefix.length),
+      lastModified: source.lastModified,
+      // Folder markers become folder entries, so empty folders survive
+      open: source.key.endsWith('/')
+        ? undefined
+        : async () => (await getFile(source.key, client, bucketName)).Body as Readable,
+    }));
+
+  const archiveName = (options.fileName
+    || `${keys.length === 1 ? getBaseName(keys[0]) : getBaseName(basePrefix) || 'download'}.zip`
+  ).replace(/[\\/]/g, '_');
+
+  await deleteExpiredDownloads(client, bucketName).catch((error) => {
+    console.warn('Could not remove expired zip downloads:', error);
+  });
+
+  const archiveKey = `${ZIP_DOWNLOAD_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 10)}/${archiveName}`;
+  const size = await uploadStream(archiveKey, createZipStream(entries), 'application/zip', client, bucketName);
+  const url = await getSignedDownloadUrl(archiveKey, archiveName, ZIP_URL_EXPIRY, client, bucketName);
+
+  return {
+    url,
+    fileName: archiveName,
+    fileCount: sources.filter(source => !source.key.endsWith('/')).length,
+    size,
+    expiresIn: ZIP_URL_EXPIRY,
+  };
+};
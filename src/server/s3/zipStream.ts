@@ -0,0 +1,202 @@
+/**
+ * Streaming zip writer
+ *
+ * Produces a zip archive entry by entry without knowing sizes up front: every file is
+ * deflated as it is read and followed by a data descriptor carrying its CRC and sizes,
+ * and the central directory is written at the end. Only the directory records are kept
+ * in memory. Archives are limited to 65,535 entries and 4 GB (no ZIP64).
+ */
+
+import { Readable, Transform, pipeline } from 'stream';
+import { createDeflateRaw } from 'zlib';
+import { crc32 } from './crc32';
+
+// Limits of the classic zip format
+export const MAX_ZIP_ENTRIES = 0xffff;
+export const MAX_ZIP_SIZE = 0xffffffff;
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const ZIP_VERSION = 20;
+// Bit 3: sizes follow in a data descriptor, bit 11: names are UTF-8
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const MSDOS_DIRECTORY_ATTRIBUTE = 0x10;
+
+export interface ZipEntry {
+  // Path inside the archive; folders end with "/"
+  name: string;
+  lastModified: Date;
+  // Opens the content of a file entry, not called for folders
+  open?: () => Promise<Readable>;
+}
+
+interface CentralDirectoryRecord {
+  name: Buffer;
+  flags: number;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  externalAttributes: number;
+}
+
+// Zip stores local times in MS-DOS format, which starts in 1980
+const toDosDateTime = (value: Date): { time: number; date: number } => {
+  const date = new Date(value);
+  if (isNaN(date.getTime()) || date.getFullYear() < 1980) {
+    return { time: 0, date: (1 << 5) | 1 };
+  }
+
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+const createLocalFileHeader = (record: CentralDirectoryRecord): Buffer => {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(record.flags, 6);
+  header.writeUInt16LE(record.method, 8);
+  header.writeUInt16LE(record.time, 10);
+  header.writeUInt16LE(record.date, 12);
+  // CRC and sizes are 0 here and follow in the data descriptor
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(0, 18);
+  header.writeUInt32LE(0, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, record.name]);
+};
+
+const createDataDescriptor = (record: CentralDirectoryRecord): Buffer => {
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+  descriptor.writeUInt32LE(record.crc, 4);
+  descriptor.writeUInt32LE(record.compressedSize, 8);
+  descriptor.writeUInt32LE(record.size, 12);
+  return descriptor;
+};
+
+const createCentralDirectoryHeader = (record: CentralDirectoryRecord): Buffer => {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_VERSION, 6);
+  header.writeUInt16LE(record.flags, 8);
+  header.writeUInt16LE(record.method, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(record.compressedSize, 20);
+  header.writeUInt32LE(record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  // Extra field, comment, disk number and internal attributes are unused
+  header.writeUInt16LE(0, 30);
+  header.writeUInt16LE(0, 32);
+  header.writeUInt16LE(0, 34);
+  header.writeUInt16LE(0, 36);
+  header.writeUInt32LE(record.externalAttributes, 38);
+  header.writeUInt32LE(record.offset, 42);
+  return Buffer.concat([header, record.name]);
+};
+
+const createEndOfCentralDirectory = (entryCount: number, size: number, offset: number): Buffer => {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  record.writeUInt16LE(0, 4);
+  record.writeUInt16LE(0, 6);
+  record.writeUInt16LE(entryCount, 8);
+  record.writeUInt16LE(entryCount, 10);
+  record.writeUInt32LE(size, 12);
+  record.writeUInt32LE(offset, 16);
+  record.writeUInt16LE(0, 20);
+  return record;
+};
+
+async function* generateZip(entries: ZipEntry[]): AsyncGenerator<Buffer> {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`A zip archive can hold at most ${MAX_ZIP_ENTRIES} entries`);
+  }
+
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const isFolder = entry.name.endsWith('/');
+    const record: CentralDirectoryRecord = {
+      name: Buffer.from(entry.name, 'utf-8'),
+      flags: isFolder ? FLAG_UTF8 : FLAG_UTF8 | FLAG_DATA_DESCRIPTOR,
+      method: isFolder ? METHOD_STORE : METHOD_DEFLATE,
+      ...toDosDateTime(entry.lastModified),
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset,
+      externalAttributes: isFolder ? MSDOS_DIRECTORY_ATTRIBUTE : 0,
+    };
+
+    const localHeader = createLocalFileHeader(record);
+    yield localHeader;
+    offset += localHeader.length;
+
+    if (!isFolder) {
+      if (!entry.open) {
+        throw new Error(`No content for zip entry ${entry.name}`);
+      }
+
+      // Checksum and count the original bytes on their way into the compressor
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          record.crc = crc32(chunk, record.crc);
+          record.size += chunk.length;
+          callback(null, chunk);
+        },
+      });
+
+      // Errors of any stage destroy the compressed stream and end the loop below
+      const compressed = pipeline(await entry.open(), counter, createDeflateRaw(), () => undefined);
+      for await (const chunk of compressed) {
+        record.compressedSize += chunk.length;
+        yield chunk as Buffer;
+      }
+
+      const descriptor = createDataDescriptor(record);
+      yield descriptor;
+      offset += record.compressedSize + descriptor.length;
+
+      if (offset > MAX_ZIP_SIZE) {
+        throw new Error('The zip archive would exceed 4 GB');
+      }
+    }
+
+    records.push(record);
+  }
+
+  let centralDirectorySize = 0;
+  for (const record of records) {
+    const header = createCentralDirectoryHeader(record);
+    centralDirectorySize += header.length;
+    yield header;
+  }
+
+  yield createEndOfCentralDirectory(records.length, centralDirectorySize, offset);
+}
+
+/**
+ * Stream a zip archive of the given entries. File contents are opened one at a time,
+ * in the given order, as the archive is read.
+ */
+export const createZipStream = (entries: ZipEntry[]): Readable => {
+  return Readable.from(generateZip(entries));
+};